@@ -753,6 +753,7 @@ const cli = configureProject(
       cxApi,
       '@aws-cdk/region-info',
       'archiver',
+      `@aws-sdk/client-api-gateway@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-appsync@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-cloudformation@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-cloudwatch-logs@${CLI_SDK_V3_RANGE}`,
@@ -762,6 +763,7 @@ const cli = configureProject(
       `@aws-sdk/client-ecr@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-ecs@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-elastic-load-balancing-v2@${CLI_SDK_V3_RANGE}`,
+      `@aws-sdk/client-eventbridge@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-iam@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-kms@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-lambda@${CLI_SDK_V3_RANGE}`,
@@ -1099,6 +1101,7 @@ const toolkitLib = configureProject(
       cloudFormationDiff,
       cxApi,
       '@aws-cdk/region-info',
+      `@aws-sdk/client-api-gateway@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-appsync@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-cloudformation@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-cloudwatch-logs@${CLI_SDK_V3_RANGE}`,
@@ -1108,6 +1111,7 @@ const toolkitLib = configureProject(
       `@aws-sdk/client-ecr@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-ecs@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-elastic-load-balancing-v2@${CLI_SDK_V3_RANGE}`,
+      `@aws-sdk/client-eventbridge@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-iam@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-kms@${CLI_SDK_V3_RANGE}`,
       `@aws-sdk/client-lambda@${CLI_SDK_V3_RANGE}`,
@@ -1,6 +1,11 @@
 // Helper functions for CDK Exec
 import { spawn, spawnSync } from 'child_process';
 
+/**
+ * How many lines of STDERR of a failed command are included in the error
+ */
+const STDERR_TAIL_LINES = 20;
+
 /**
  * Our own execute function which doesn't use shells and strings.
  */
@@ -21,7 +26,9 @@ export function exec(commandLine: string[], options: { cwd?: string; json?: bool
     if (process.stderr) { // will be 'null' in verbose mode
       process.stderr.write(proc.stderr);
     }
-    throw new Error(`Command exited with ${proc.status ? `status ${proc.status}` : `signal ${proc.signal}`}`);
+    // Include the end of STDERR, so callers can tell why the command failed
+    const stderr = proc.stderr?.toString('utf-8').trim().split('\n').slice(-STDERR_TAIL_LINES).join('\n');
+    throw new Error(`Command exited with ${proc.status ? `status ${proc.status}` : `signal ${proc.signal}`}${stderr ? `\n${stderr}` : ''}`);
   }
 
   const output = proc.stdout.toString('utf-8').trim();
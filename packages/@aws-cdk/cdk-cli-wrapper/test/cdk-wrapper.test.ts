@@ -526,3 +526,25 @@ test('can show output', () => {
     }),
   );
 });
+
+test('failed commands include the end of stderr in the error', () => {
+  // GIVEN
+  spawnSyncMock.mockReturnValue({
+    status: 1,
+    stderr: Buffer.from('some progress\nRate exceeded\n'),
+    stdout: Buffer.from(''),
+    pid: 123,
+    output: ['', 'stderr'],
+    signal: null,
+  });
+  jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  const cdk = new CdkCliWrapper({
+    directory: '/project',
+  });
+
+  // THEN
+  expect(() => cdk.deploy({
+    app: 'node bin/my-app.js',
+    stacks: ['test-stack1'],
+  })).toThrow('Command exited with status 1\nsome progress\nRate exceeded');
+});
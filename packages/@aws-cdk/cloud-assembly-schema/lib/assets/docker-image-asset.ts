@@ -106,6 +106,17 @@ export interface DockerImageSource {
    */
   readonly platform?: string;
 
+  /**
+   * Platforms to build for. _Requires Docker Buildx_.
+   *
+   * Specify this property to build a multi-architecture image. The image is built
+   * for each platform, and an image index (manifest list) referring to all of them
+   * is published under the image tag. Cannot be combined with `platform`.
+   *
+   * @default - build for a single platform, as given by `platform`
+   */
+  readonly platforms?: string[];
+
   /**
    * Outputs
    *
@@ -143,7 +154,9 @@ export interface DockerImageSource {
  */
 export interface DockerImageDestination extends AwsDestination {
   /**
-   * Name of the ECR repository to publish to
+   * Name of the repository to publish to
+   *
+   * This is an ECR repository, unless `registry` is set.
    */
   readonly repositoryName: string;
 
@@ -151,6 +164,41 @@ export interface DockerImageDestination extends AwsDestination {
    * Tag of the image to publish
    */
   readonly imageTag: string;
+
+  /**
+   * A generic OCI registry to publish to instead of ECR
+   *
+   * The AWS-specific properties of this destination are ignored when set.
+   *
+   * @default - Publish to ECR
+   */
+  readonly registry?: OciRegistry;
+}
+
+/**
+ * A container image registry that implements the OCI distribution API
+ */
+export interface OciRegistry {
+  /**
+   * URL of the registry
+   *
+   * Without a scheme, `https` is used (or `http` for `localhost`). A path in
+   * the URL is used as a prefix for the repository name.
+   *
+   * @example 'https://harbor.example.com'
+   */
+  readonly url: string;
+
+  /**
+   * Docker credential helper to obtain credentials for the registry from
+   *
+   * This is the suffix of a `docker-credential-<name>` program on the PATH.
+   *
+   * @default - The credentials from the Docker configuration (`docker login`)
+   *
+   * @example 'ecr-login'
+   */
+  readonly credentialHelper?: string;
 }
 
 /**
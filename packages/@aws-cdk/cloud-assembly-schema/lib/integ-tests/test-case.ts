@@ -60,6 +60,14 @@ export interface TestOptions {
    * @default - can run in any region
    */
   readonly regions?: string[];
+
+  /**
+   * How many times to retry this test case if it fails with a transient
+   * error, like throttling or an eventual consistency error
+   *
+   * @default - the default of the test runner
+   */
+  readonly retries?: number;
 }
 
 /**
@@ -38,6 +38,76 @@ describe('Docker image asset', () => {
     }).not.toThrow();
   });
 
+  test('valid input with an OCI registry destination', () => {
+    expect(() => {
+      validate({
+        version: Manifest.version(),
+        dockerImages: {
+          asset: {
+            source: {
+              directory: '.',
+            },
+            destinations: {
+              dest: {
+                repositoryName: 'REPO',
+                imageTag: 'TAG',
+                registry: {
+                  url: 'https://harbor.example.com',
+                  credentialHelper: 'harbor',
+                },
+              },
+            },
+          },
+        },
+      });
+    }).not.toThrow();
+  });
+
+  test('valid input with multiple platforms', () => {
+    expect(() => {
+      validate({
+        version: Manifest.version(),
+        dockerImages: {
+          asset: {
+            source: {
+              directory: '.',
+              platforms: ['linux/amd64', 'linux/arm64'],
+            },
+            destinations: {
+              dest: {
+                region: 'us-north-20',
+                repositoryName: 'REPO',
+                imageTag: 'TAG',
+              },
+            },
+          },
+        },
+      });
+    }).not.toThrow();
+  });
+
+  test('OCI registry destination requires a URL', () => {
+    expect(() => {
+      validate({
+        version: Manifest.version(),
+        dockerImages: {
+          asset: {
+            source: {
+              directory: '.',
+            },
+            destinations: {
+              dest: {
+                repositoryName: 'REPO',
+                imageTag: 'TAG',
+                registry: {},
+              },
+            },
+          },
+        },
+      });
+    }).toThrow(/requires property "url"/);
+  });
+
   test('invalid input', () => {
     expect(() => {
       validate({
@@ -5,11 +5,48 @@ import * as impl from './diff';
 import { TemplateAndChangeSetDiffMerger } from './diff/template-and-changeset-diff-merger';
 import * as types from './diff/types';
 import { deepEqual, diffKeyedEntities, unionOf } from './diff/util';
+import type { ParameterValues } from './effective-template';
+import { effectiveTemplate } from './effective-template';
 
 export * from './diff/types';
 
 export type DescribeChangeSetOutput = DescribeChangeSet;
 
+/**
+ * Options for diffing templates
+ */
+export interface DiffTemplateOptions {
+  /**
+   * Evaluate conditions and mappings before diffing, and compare the effective templates
+   *
+   * Resources and outputs whose condition is false are left out, `Fn::If` is replaced
+   * with the branch that is taken and `Fn::FindInMap` with the mapped value. This shows
+   * which resources are actually added, removed or changed by a change to a parameter,
+   * condition or mapping.
+   *
+   * @default false
+   */
+  readonly resolveConditions?: boolean;
+
+  /**
+   * The parameter values the current stack was deployed with
+   *
+   * Only used if `resolveConditions` is set.
+   *
+   * @default - the defaults of the parameters in the current template
+   */
+  readonly currentParameters?: ParameterValues;
+
+  /**
+   * The parameter values the new template will be deployed with
+   *
+   * Only used if `resolveConditions` is set.
+   *
+   * @default - the current parameter values, then the defaults of the parameters in the new template
+   */
+  readonly newParameters?: ParameterValues;
+}
+
 type DiffHandler = (diff: types.ITemplateDiff, oldValue: any, newValue: any) => void;
 type HandlerRegistry = { [section: string]: DiffHandler };
 
@@ -40,6 +77,8 @@ const DIFF_HANDLERS: HandlerRegistry = {
  * @param currentTemplate the current state of the stack.
  * @param newTemplate     the target state of the stack.
  * @param changeSet       the change set for this stack.
+ * @param isImport        whether the stack is imported.
+ * @param options         options for diffing the templates.
  *
  * @returns a +types.TemplateDiff+ object that represents the changes that will happen if
  *      a stack which current state is described by +currentTemplate+ is updated with
@@ -50,10 +89,11 @@ export function fullDiff(
   newTemplate: { [key: string]: any },
   changeSet?: DescribeChangeSetOutput,
   isImport?: boolean,
+  options: DiffTemplateOptions = {},
 ): types.TemplateDiff {
   normalize(currentTemplate);
   normalize(newTemplate);
-  const theDiff = diffTemplate(currentTemplate, newTemplate);
+  const theDiff = diffTemplate(currentTemplate, newTemplate, options);
   if (changeSet) {
     // These methods mutate the state of theDiff, using the changeSet.
     const changeSetDiff = new TemplateAndChangeSetDiffMerger({ changeSet });
@@ -71,7 +111,13 @@ export function fullDiff(
 export function diffTemplate(
   currentTemplate: { [key: string]: any },
   newTemplate: { [key: string]: any },
+  options: DiffTemplateOptions = {},
 ): types.TemplateDiff {
+  if (options.resolveConditions) {
+    currentTemplate = effectiveTemplate(currentTemplate, options.currentParameters);
+    newTemplate = effectiveTemplate(newTemplate, { ...options.currentParameters, ...options.newParameters });
+  }
+
   // Base diff
   const theDiff = calculateTemplateDiff(currentTemplate, newTemplate);
 
@@ -3,6 +3,7 @@ import type { Resource as ResourceModel } from '@aws-cdk/service-spec-types';
 import { PropertyScrutinyType, ResourceScrutinyType } from '@aws-cdk/service-spec-types';
 import { deepEqual, loadResourceModel } from './util';
 import { IamChanges } from '../iam/iam-changes';
+import { NetworkChanges } from '../network/network-changes';
 import { SecurityGroupChanges } from '../network/security-group-changes';
 
 export type PropertyMap = {[key: string]: any };
@@ -59,6 +60,11 @@ export class TemplateDiff implements ITemplateDiff {
    */
   public readonly securityGroupChanges: SecurityGroupChanges;
 
+  /**
+   * Changes to network ACLs, prefix lists and VPC endpoint policies
+   */
+  public readonly networkChanges: NetworkChanges;
+
   constructor(args: ITemplateDiff) {
     if (args.awsTemplateFormatVersion !== undefined) {
       this.awsTemplateFormatVersion = args.awsTemplateFormatVersion;
@@ -80,7 +86,7 @@ export class TemplateDiff implements ITemplateDiff {
 
     this.iamChanges = new IamChanges({
       propertyChanges: this.scrutinizablePropertyChanges(IamChanges.IamPropertyScrutinies),
-      resourceChanges: this.scrutinizableResourceChanges(IamChanges.IamResourceScrutinies),
+      resourceChanges: this.scrutinizableResourceChanges(IamChanges.IamResourceScrutinies, IamChanges.IamResourceTypes),
     });
 
     this.securityGroupChanges = new SecurityGroupChanges({
@@ -89,6 +95,10 @@ export class TemplateDiff implements ITemplateDiff {
       egressRuleResourceChanges: this.scrutinizableResourceChanges([ResourceScrutinyType.EgressRuleResource]),
       ingressRuleResourceChanges: this.scrutinizableResourceChanges([ResourceScrutinyType.IngressRuleResource]),
     });
+
+    this.networkChanges = new NetworkChanges({
+      resourceChanges: this.scrutinizableResourceChanges([], NetworkChanges.NetworkResourceTypes),
+    });
   }
 
   public get differenceCount() {
@@ -123,14 +133,21 @@ export class TemplateDiff implements ITemplateDiff {
    * Return true if any of the permissions objects involve a broadening of permissions
    */
   public get permissionsBroadened(): boolean {
-    return this.iamChanges.permissionsBroadened || this.securityGroupChanges.rulesAdded;
+    return this.iamChanges.permissionsBroadened || this.securityGroupChanges.rulesAdded || this.networkChanges.accessBroadened;
+  }
+
+  /**
+   * Return true if any of the changes open network access from the internet (0.0.0.0/0 or ::/0)
+   */
+  public get opensToInternet(): boolean {
+    return this.securityGroupChanges.opensToInternet || this.networkChanges.opensToInternet;
   }
 
   /**
    * Return true if any of the permissions objects have changed
    */
   public get permissionsAnyChanges(): boolean {
-    return this.iamChanges.hasChanges || this.securityGroupChanges.hasChanges;
+    return this.iamChanges.hasChanges || this.securityGroupChanges.hasChanges || this.networkChanges.hasChanges;
   }
 
   /**
@@ -178,8 +195,11 @@ export class TemplateDiff implements ITemplateDiff {
    *
    * We don't just look at resource updates; we also look at resource additions and deletions (in which
    * case there is no further detail on property values), and resource type changes.
+   *
+   * Resources of the given resource types are returned as well, for resource types that are
+   * security-relevant but have no scrutiny type in the service specification.
    */
-  private scrutinizableResourceChanges(scrutinyTypes: ResourceScrutinyType[]): ResourceChange[] {
+  private scrutinizableResourceChanges(scrutinyTypes: ResourceScrutinyType[], resourceTypes: string[] = []): ResourceChange[] {
     const ret = new Array<ResourceChange>();
 
     for (const [resourceLogicalId, resourceChange] of Object.entries(this.resources.changes)) {
@@ -198,24 +218,24 @@ export class TemplateDiff implements ITemplateDiff {
         // Treat as DELETE+ADD
         if (resourceChange.oldResourceType) {
           const oldResourceModel = loadResourceModel(resourceChange.oldResourceType);
-          if (oldResourceModel && this.resourceIsScrutinizable(oldResourceModel, scrutinyTypes)) {
+          if (oldResourceModel && this.resourceIsScrutinizable(oldResourceModel, scrutinyTypes, resourceTypes)) {
             ret.push({
               ...commonProps,
               newProperties: undefined,
               resourceType: resourceChange.oldResourceType!,
-              scrutinyType: oldResourceModel.scrutinizable!,
+              scrutinyType: oldResourceModel.scrutinizable ?? ResourceScrutinyType.None,
             });
           }
         }
 
         if (resourceChange.newResourceType) {
           const newResourceModel = loadResourceModel(resourceChange.newResourceType);
-          if (newResourceModel && this.resourceIsScrutinizable(newResourceModel, scrutinyTypes)) {
+          if (newResourceModel && this.resourceIsScrutinizable(newResourceModel, scrutinyTypes, resourceTypes)) {
             ret.push({
               ...commonProps,
               oldProperties: undefined,
               resourceType: resourceChange.newResourceType!,
-              scrutinyType: newResourceModel.scrutinizable!,
+              scrutinyType: newResourceModel.scrutinizable ?? ResourceScrutinyType.None,
             });
           }
         }
@@ -225,11 +245,11 @@ export class TemplateDiff implements ITemplateDiff {
         }
 
         const resourceModel = loadResourceModel(resourceChange.resourceType);
-        if (resourceModel && this.resourceIsScrutinizable(resourceModel, scrutinyTypes)) {
+        if (resourceModel && this.resourceIsScrutinizable(resourceModel, scrutinyTypes, resourceTypes)) {
           ret.push({
             ...commonProps,
             resourceType: resourceChange.resourceType,
-            scrutinyType: resourceModel.scrutinizable!,
+            scrutinyType: resourceModel.scrutinizable ?? ResourceScrutinyType.None,
           });
         }
       }
@@ -238,8 +258,8 @@ export class TemplateDiff implements ITemplateDiff {
     return ret;
   }
 
-  private resourceIsScrutinizable(res: ResourceModel, scrutinyTypes: Array<ResourceScrutinyType>): boolean {
-    return scrutinyTypes.includes(res.scrutinizable || ResourceScrutinyType.None);
+  private resourceIsScrutinizable(res: ResourceModel, scrutinyTypes: Array<ResourceScrutinyType>, resourceTypes: string[]): boolean {
+    return scrutinyTypes.includes(res.scrutinizable || ResourceScrutinyType.None) || resourceTypes.includes(res.cloudFormationType);
   }
 }
 
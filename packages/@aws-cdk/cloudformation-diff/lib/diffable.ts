@@ -5,8 +5,8 @@ export class DiffableCollection<T extends Eq<T>> {
   public readonly additions: T[] = [];
   public readonly removals: T[] = [];
 
-  private readonly oldElements: T[] = [];
-  private readonly newElements: T[] = [];
+  protected readonly oldElements: T[] = [];
+  protected readonly newElements: T[] = [];
 
   public addOld(...elements: T[]) {
     this.oldElements.push(...elements);
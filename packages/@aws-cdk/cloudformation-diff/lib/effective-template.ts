@@ -0,0 +1,242 @@
+/**
+ * Values of template parameters, by parameter name
+ *
+ * Pseudo parameters like `AWS::Region` can be given the same way.
+ */
+export type ParameterValues = { [name: string]: string };
+
+/**
+ * Marks a value that cannot be evaluated, because it depends on something
+ * that is only known at deploy time
+ */
+const UNKNOWN = Symbol('unknown');
+type Evaluated = any | typeof UNKNOWN;
+
+/**
+ * Marks an `Fn::If` that resolved to `AWS::NoValue`, so that the property or
+ * list element holding it is removed
+ */
+const NO_VALUE = Symbol('no-value');
+
+/**
+ * Return the template as CloudFormation would deploy it with the given parameter values
+ *
+ * - Resources and outputs whose `Condition` is false are removed, and the
+ *   `Condition` of those whose condition is true is dropped.
+ * - `Fn::If` is replaced with the branch that is taken, and properties and list
+ *   elements whose `Fn::If` takes an `AWS::NoValue` branch are removed. Arguments
+ *   of intrinsics that are left as-is keep their `AWS::NoValue`.
+ * - `Fn::FindInMap` is replaced with the value from the mapping.
+ *
+ * Conditions can use `Fn::Join` and `Fn::Select` in addition to the condition functions.
+ *
+ * Parameters without a given value use their `Default`. Everything that depends on
+ * parameters without a value, or on the attributes of resources, is left as-is.
+ *
+ * The template is not modified, a copy is returned.
+ */
+export function effectiveTemplate(template: { [key: string]: any }, parameters: ParameterValues = {}): { [key: string]: any } {
+  const evaluator = new TemplateEvaluator(template, parameters);
+  const ret: { [key: string]: any } = { ...template };
+
+  for (const section of ['Resources', 'Outputs']) {
+    if (typeof template[section] !== 'object' || template[section] === null) {
+      continue;
+    }
+    const entities: { [logicalId: string]: any } = {};
+    for (const [logicalId, entity] of Object.entries<any>(template[section])) {
+      const condition = typeof entity?.Condition === 'string' ? evaluator.condition(entity.Condition) : UNKNOWN;
+      if (condition === false) {
+        continue;
+      }
+      const { Condition: _, ...rest } = entity ?? {};
+      entities[logicalId] = evaluator.resolve(condition === true ? rest : entity);
+    }
+    ret[section] = entities;
+  }
+
+  return ret;
+}
+
+class TemplateEvaluator {
+  private readonly conditions = new Map<string, Evaluated>();
+  private readonly evaluating = new Set<string>();
+
+  constructor(private readonly template: { [key: string]: any }, private readonly parameters: ParameterValues) {
+  }
+
+  /**
+   * Evaluate a condition of the template, returning UNKNOWN if it cannot be evaluated
+   */
+  public condition(name: string): boolean | typeof UNKNOWN {
+    if (this.conditions.has(name)) {
+      return this.conditions.get(name);
+    }
+    const definition = this.template.Conditions?.[name];
+    if (definition === undefined || this.evaluating.has(name)) {
+      return UNKNOWN;
+    }
+
+    this.evaluating.add(name);
+    const value = this.evaluate(definition);
+    this.evaluating.delete(name);
+
+    const result = typeof value === 'boolean' ? value : UNKNOWN;
+    this.conditions.set(name, result);
+    return result;
+  }
+
+  /**
+   * Replace the intrinsics that can be evaluated in a value, leaving the others in place
+   */
+  public resolve(x: any): any {
+    return this.resolveArgument(x);
+  }
+
+  /**
+   * Resolve a value in the position of a property or list element, returning
+   * NO_VALUE if it should be removed from there
+   */
+  private resolveValue(x: any): any | typeof NO_VALUE {
+    if (Array.isArray(x)) {
+      return x.map(el => this.resolveValue(el)).filter(el => el !== NO_VALUE);
+    }
+    if (typeof x !== 'object' || x === null) {
+      return x;
+    }
+
+    const intrinsic = getIntrinsic(x);
+    if (intrinsic?.fn === 'Fn::If' && Array.isArray(intrinsic.args) && intrinsic.args.length === 3) {
+      const condition = this.condition(intrinsic.args[0]);
+      if (condition !== UNKNOWN) {
+        const branch = condition ? intrinsic.args[1] : intrinsic.args[2];
+        return isNoValue(branch) ? NO_VALUE : this.resolveValue(branch);
+      }
+    }
+    if (intrinsic?.fn === 'Fn::FindInMap') {
+      const value = this.evaluate(x);
+      if (value !== UNKNOWN) {
+        return value;
+      }
+    }
+    if (intrinsic) {
+      return { [intrinsic.fn]: this.resolveArgument(intrinsic.args) };
+    }
+
+    const ret: any = {};
+    for (const [key, value] of Object.entries(x)) {
+      const resolved = this.resolveValue(value);
+      if (resolved !== NO_VALUE) {
+        ret[key] = resolved;
+      }
+    }
+    return ret;
+  }
+
+  /**
+   * Resolve the arguments of an intrinsic that is left in place
+   *
+   * Nothing is removed from the arguments: an `Fn::If` in there that resolves to
+   * `AWS::NoValue` is replaced with a reference to `AWS::NoValue`.
+   */
+  private resolveArgument(x: any): any {
+    if (Array.isArray(x)) {
+      return x.map(el => this.resolveArgument(el));
+    }
+    const resolved = this.resolveValue(x);
+    return resolved === NO_VALUE ? { Ref: 'AWS::NoValue' } : resolved;
+  }
+
+  /**
+   * Evaluate an expression to a literal value, returning UNKNOWN if it cannot be evaluated
+   */
+  private evaluate(x: any): Evaluated {
+    const intrinsic = getIntrinsic(x);
+    if (!intrinsic) {
+      if (Array.isArray(x)) {
+        const elements = x.map(el => this.evaluate(el));
+        return elements.includes(UNKNOWN) ? UNKNOWN : elements;
+      }
+      return typeof x === 'object' && x !== null ? UNKNOWN : x;
+    }
+
+    const args = Array.isArray(intrinsic.args) ? intrinsic.args : [intrinsic.args];
+    switch (intrinsic.fn) {
+      case 'Ref':
+        return this.parameter(intrinsic.args);
+      case 'Condition':
+        return this.condition(intrinsic.args);
+      case 'Fn::Equals': {
+        const [a, b] = args.map(arg => this.evaluate(arg));
+        return a === UNKNOWN || b === UNKNOWN ? UNKNOWN : JSON.stringify(a) === JSON.stringify(b);
+      }
+      case 'Fn::Not': {
+        const value = this.evaluate(args[0]);
+        return typeof value === 'boolean' ? !value : UNKNOWN;
+      }
+      case 'Fn::And':
+      case 'Fn::Or': {
+        // A single false (for And) or true (for Or) decides the outcome, even if other conditions are unknown
+        const decisive = intrinsic.fn === 'Fn::Or';
+        const values = args.map(arg => this.evaluate(arg));
+        if (values.includes(decisive)) {
+          return decisive;
+        }
+        return values.every(value => typeof value === 'boolean') ? !decisive : UNKNOWN;
+      }
+      case 'Fn::If': {
+        const condition = this.condition(args[0]);
+        return condition === UNKNOWN ? UNKNOWN : this.evaluate(condition ? args[1] : args[2]);
+      }
+      case 'Fn::Join': {
+        const [separator, list] = args.map(arg => this.evaluate(arg));
+        return typeof separator === 'string' && Array.isArray(list) ? list.join(separator) : UNKNOWN;
+      }
+      case 'Fn::Select': {
+        const [index, list] = args.map(arg => this.evaluate(arg));
+        const value = Array.isArray(list) ? list[Number(index)] : undefined;
+        return value !== undefined ? value : UNKNOWN;
+      }
+      case 'Fn::FindInMap': {
+        const [mapName, topLevelKey, secondLevelKey] = args.map(arg => this.evaluate(arg));
+        if ([mapName, topLevelKey, secondLevelKey].includes(UNKNOWN)) {
+          return UNKNOWN;
+        }
+        const value = this.template.Mappings?.[mapName]?.[topLevelKey]?.[secondLevelKey];
+        return value !== undefined ? value : UNKNOWN;
+      }
+      default:
+        return UNKNOWN;
+    }
+  }
+
+  private parameter(name: string): Evaluated {
+    const value = this.parameters[name] ?? this.template.Parameters?.[name]?.Default;
+    if (value === undefined) {
+      return UNKNOWN;
+    }
+    const type: string = this.template.Parameters?.[name]?.Type ?? '';
+    if (typeof value === 'string' && (type === 'CommaDelimitedList' || type.startsWith('List<'))) {
+      return value.split(',').map(el => el.trim());
+    }
+    return typeof value === 'string' ? value : String(value);
+  }
+}
+
+function getIntrinsic(x: any): Intrinsic | undefined {
+  if (typeof x !== 'object' || x === null || Array.isArray(x)) {
+    return undefined;
+  }
+  const keys = Object.keys(x);
+  return keys.length === 1 && (keys[0] === 'Ref' || keys[0] === 'Condition' || keys[0].startsWith('Fn::')) ? { fn: keys[0], args: x[keys[0]] } : undefined;
+}
+
+function isNoValue(x: any) {
+  const int = getIntrinsic(x);
+  return int?.fn === 'Ref' && int.args === 'AWS::NoValue';
+}
+
+interface Intrinsic {
+  fn: string;
+  args: any;
+}
@@ -0,0 +1,298 @@
+import type { TemplateDiff } from './diff/types';
+import { ResourceImpact } from './diff/types';
+import type { ChangeTypeJson, PropertyDifferenceJson, ValueDifferenceJson } from './format-json';
+import { templateDiffToJson } from './format-json';
+import { normalizeConstructPath, stripColors } from './util';
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { structuredPatch } = require('diff');
+/* eslint-enable */
+
+/**
+ * Options for rendering template differences as a document
+ */
+export interface DocumentFormatOptions {
+  /**
+   * The name of the stack the differences belong to, used as the title of the stack's section
+   *
+   * @default - the differences are rendered without a stack section
+   */
+  readonly stackName?: string;
+
+  /**
+   * A map from logical ID to construct path. Useful in case there is no
+   * aws:cdk:path metadata in the template.
+   *
+   * @default {}
+   */
+  readonly logicalToPathMap?: { [logicalId: string]: string };
+
+  /**
+   * The number of context lines to use in diffs of JSON values
+   *
+   * @default 3
+   */
+  readonly context?: number;
+}
+
+/**
+ * The change to an element of a template, as shown in a document
+ */
+export type DocumentChangeType = ChangeTypeJson | 'IMPORT';
+
+/**
+ * The differences of a stack, independent of the format they are rendered in
+ */
+export interface DiffDocument {
+  readonly stackName?: string;
+  readonly differenceCount: number;
+  readonly sections: DocumentSection[];
+}
+
+export interface DocumentSection {
+  readonly title: string;
+
+  /**
+   * Summary tables, the first row of every table is its header
+   */
+  readonly tables: string[][][];
+
+  readonly entries: DocumentEntry[];
+
+  /**
+   * A note shown after the section
+   */
+  readonly note?: string;
+}
+
+/**
+ * A changed element of the template
+ */
+export interface DocumentEntry {
+  readonly changeType: DocumentChangeType;
+
+  /**
+   * The kind of element, e.g. the resource type or `Parameter`
+   */
+  readonly kind: string;
+
+  readonly logicalId: string;
+
+  /**
+   * The shortened construct path of the element, if known
+   */
+  readonly path?: string;
+
+  /**
+   * What happens to a resource when the change is deployed, if noteworthy
+   */
+  readonly impact?: string;
+
+  readonly changes: DocumentChange[];
+}
+
+/**
+ * A change to a (part of a) template element, as lines of a unified diff
+ */
+export interface DocumentChange {
+  /**
+   * The name of the changed property, if this is the change of a property
+   */
+  readonly name?: string;
+
+  readonly changeType: ChangeTypeJson;
+
+  /**
+   * What happens to the resource due to this change, if noteworthy
+   */
+  readonly impact?: string;
+
+  /**
+   * Lines prefixed with `+`, `-` or a space
+   */
+  readonly lines: string[];
+}
+
+const VALUE_SECTIONS: Array<[string, string, 'parameters' | 'metadata' | 'mappings' | 'conditions' | 'outputs' | 'other']> = [
+  ['Parameters', 'Parameter', 'parameters'],
+  ['Metadata', 'Metadata', 'metadata'],
+  ['Mappings', 'Mapping', 'mappings'],
+  ['Conditions', 'Condition', 'conditions'],
+  ['Outputs', 'Output', 'outputs'],
+  ['Other Changes', 'Unknown', 'other'],
+];
+
+/**
+ * Collect the differences of a template into a document, with the same sections as `formatDifferences`
+ */
+export function buildDiffDocument(templateDiff: TemplateDiff, options: DocumentFormatOptions = {}): DiffDocument {
+  const json = templateDiffToJson(templateDiff, options.logicalToPathMap);
+  const context = options.context ?? 3;
+
+  const paths: { [logicalId: string]: string } = { ...options.logicalToPathMap };
+  for (const resource of json.resources) {
+    if (resource.path && !(resource.logicalId in paths)) {
+      paths[resource.logicalId] = resource.path;
+    }
+  }
+  const pathOf = (logicalId: string) => paths[logicalId] ? normalizeConstructPath(paths[logicalId]) : undefined;
+  const summary = (rows: string[][]) => rows.map(row => row.map(cell => substituteBracedLogicalIds(stripColors(cell), pathOf)));
+
+  const sections = new Array<DocumentSection>();
+  const valueEntries = (kind: string, values: ValueDifferenceJson[]) => values.map(value => valueEntry(kind, value, context));
+
+  if (json.template.length > 0) {
+    sections.push({
+      title: 'Template',
+      tables: [],
+      entries: json.template.map(value => valueEntry(value.logicalId, value, context)),
+    });
+  }
+
+  const iam = templateDiff.iamChanges;
+  const securityGroups = templateDiff.securityGroupChanges;
+  const network = templateDiff.networkChanges;
+  const securityTables: Array<[boolean, string, () => string[][]]> = [
+    [iam.statements.hasChanges, 'IAM Statement Changes', () => iam.summarizeStatements()],
+    [iam.managedPolicies.hasChanges, 'IAM Policy Changes', () => iam.summarizeManagedPolicies()],
+    [iam.ssoPermissionSets.hasChanges, 'IAM Identity Center Changes', () => iam.summarizeSsoPermissionSets()],
+    [iam.ssoInstanceACAConfigs.hasChanges, 'IAM Identity Center Changes', () => iam.summarizeSsoInstanceACAConfigs()],
+    [iam.ssoAssignments.hasChanges, 'IAM Identity Center Changes', () => iam.summarizeSsoAssignments()],
+    [securityGroups.hasChanges, 'Security Group Changes', () => securityGroups.summarize()],
+    [network.aclEntries.hasChanges, 'Network ACL Changes', () => network.summarizeAclEntries()],
+    [network.prefixListEntries.hasChanges, 'Prefix List Changes', () => network.summarizePrefixListEntries()],
+    [network.endpointPolicies.hasChanges, 'VPC Endpoint Policy Changes', () => network.summarizeEndpointPolicies()],
+  ];
+  const securitySections = new Array<DocumentSection>();
+  for (const [hasChanges, title, summarize] of securityTables) {
+    if (!hasChanges) {
+      continue;
+    }
+    const existing = securitySections.find(s => s.title === title);
+    if (existing) {
+      existing.tables.push(summary(summarize()));
+    } else {
+      securitySections.push({ title, tables: [summary(summarize())], entries: [] });
+    }
+  }
+  if (securitySections.length > 0) {
+    const last = securitySections.pop()!;
+    const notes = [
+      ...json.security.opensToInternet ? ['These changes open network access from the internet (0.0.0.0/0 or ::/0).'] : [],
+      'There may be security-related changes not in this list. See https://github.com/aws/aws-cdk/issues/1299',
+    ];
+    securitySections.push({ ...last, note: notes.join(' ') });
+    sections.push(...securitySections);
+  }
+
+  for (const [title, kind, key] of VALUE_SECTIONS.slice(0, 4)) {
+    addSection(sections, title, valueEntries(kind, json[key]));
+  }
+  addSection(sections, 'Resources', json.resources.map(resource => ({
+    changeType: resource.isImport ? 'IMPORT' : resource.changeType,
+    kind: resource.resourceType ?? 'Resource',
+    logicalId: resource.logicalId,
+    path: pathOf(resource.logicalId),
+    impact: describeImpact(resource.impact),
+    changes: resource.changeType === 'UPDATE'
+      ? [...resource.propertyChanges, ...resource.otherChanges].map(change => propertyChange(change, context))
+      : [],
+  })));
+  for (const [title, kind, key] of VALUE_SECTIONS.slice(4)) {
+    addSection(sections, title, valueEntries(kind, json[key]));
+  }
+
+  return {
+    stackName: options.stackName,
+    differenceCount: json.differenceCount,
+    sections,
+  };
+}
+
+function addSection(sections: DocumentSection[], title: string, entries: DocumentEntry[]) {
+  if (entries.length > 0) {
+    sections.push({ title, tables: [], entries });
+  }
+}
+
+function valueEntry(kind: string, value: ValueDifferenceJson, context: number): DocumentEntry {
+  return {
+    changeType: value.changeType,
+    kind,
+    logicalId: value.logicalId,
+    changes: [{ changeType: value.changeType, lines: diffLines(value.oldValue, value.newValue, context) }],
+  };
+}
+
+function propertyChange(change: PropertyDifferenceJson, context: number): DocumentChange {
+  return {
+    name: change.name,
+    changeType: change.changeType,
+    impact: change.impact === ResourceImpact.WILL_REPLACE ? 'requires replacement'
+      : change.impact === ResourceImpact.MAY_REPLACE ? 'may cause replacement'
+        : undefined,
+    lines: diffLines(change.oldValue, change.newValue, context),
+  };
+}
+
+/**
+ * A user-friendly description of the impact on a resource, if it is noteworthy
+ */
+function describeImpact(impact: ResourceImpact): string | undefined {
+  switch (impact) {
+    case ResourceImpact.MAY_REPLACE:
+      return 'may be replaced';
+    case ResourceImpact.WILL_REPLACE:
+      return 'replace';
+    case ResourceImpact.WILL_DESTROY:
+      return 'destroy';
+    case ResourceImpact.WILL_ORPHAN:
+      return 'orphan';
+    case ResourceImpact.WILL_IMPORT:
+      return 'import';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Render the difference between two values as the lines of a unified diff
+ */
+function diffLines(oldValue: any, newValue: any, context: number): string[] {
+  const oldLines = renderValue(oldValue);
+  const newLines = renderValue(newValue);
+  if (oldLines.length <= 1 && newLines.length <= 1) {
+    return [...oldLines.map(l => `- ${l}`), ...newLines.map(l => `+ ${l}`)];
+  }
+
+  const patch = structuredPatch(null, null, oldLines.join('\n'), newLines.join('\n'), null, null, { context });
+  const ret = new Array<string>();
+  for (const hunk of patch.hunks) {
+    if (ret.length > 0) {
+      ret.push('  ...');
+    }
+    for (const line of hunk.lines as string[]) {
+      // Don't care about termination newline.
+      if (line !== '\\ No newline at end of file') {
+        ret.push(`${line.charAt(0)} ${line.slice(1)}`);
+      }
+    }
+  }
+  return ret;
+}
+
+function renderValue(value: any): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (typeof value === 'string' ? value : JSON.stringify(value, undefined, 2)).split('\n');
+}
+
+/**
+ * Substitute all strings like ${LogId.xxx} with the path instead of the logical ID
+ */
+function substituteBracedLogicalIds(source: string, pathOf: (logicalId: string) => string | undefined): string {
+  return source.replace(/\$\{([^.}]+)(.[^}]+)?\}/ig, (_match, logId, suffix) => {
+    return '${' + (pathOf(logId) || logId) + (suffix || '') + '}';
+  });
+}
@@ -0,0 +1,169 @@
+import type { TemplateDiff } from './diff/types';
+import type { DiffDocument, DocumentChange, DocumentChangeType, DocumentEntry, DocumentFormatOptions } from './format-document';
+import { buildDiffDocument } from './format-document';
+
+const CHANGE_TAGS: Record<DocumentChangeType, string> = {
+  ADD: '[+]',
+  REMOVE: '[-]',
+  UPDATE: '[~]',
+  IMPORT: '[←]',
+};
+
+/**
+ * Options for rendering a standalone HTML report
+ */
+export interface HtmlReportOptions {
+  /**
+   * The title of the report
+   *
+   * @default 'Stack differences'
+   */
+  readonly title?: string;
+}
+
+/**
+ * Renders template differences as an HTML fragment, with the same content as `formatDifferencesMarkdown`
+ *
+ * Use `formatHtmlReport` to combine the fragments of one or more stacks into a standalone HTML document.
+ *
+ * @param templateDiff TemplateDiff to be rendered.
+ * @param options      options for rendering.
+ */
+export function formatDifferencesHtml(templateDiff: TemplateDiff, options: DocumentFormatOptions = {}): string {
+  return renderHtml(buildDiffDocument(templateDiff, options));
+}
+
+/**
+ * Combine HTML fragments produced by `formatDifferencesHtml` into a standalone HTML document
+ */
+export function formatHtmlReport(fragments: string[], options: HtmlReportOptions = {}): string {
+  const title = escape(options.title ?? 'Stack differences');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${REPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    ...fragments,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+const REPORT_STYLE = [
+  'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2em; color: #1f2328; }',
+  'summary { cursor: pointer; font-size: 1.2em; padding: 0.3em 0; }',
+  'table { border-collapse: collapse; margin: 0.5em 0; }',
+  'th, td { border: 1px solid #d0d7de; padding: 0.3em 0.6em; text-align: left; vertical-align: top; }',
+  'code, pre { font-family: SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace; }',
+  'pre { background: #f6f8fa; padding: 0.5em; overflow-x: auto; }',
+  '.add { color: #1a7f37; } .remove { color: #cf222e; } .update { color: #9a6700; } .import { color: #0969da; }',
+  '.impact { font-weight: bold; font-style: italic; color: #cf222e; }',
+  '.note { color: #9a6700; }',
+].join('\n');
+
+const CHANGE_CLASSES: Record<DocumentChangeType, string> = {
+  ADD: 'add',
+  REMOVE: 'remove',
+  UPDATE: 'update',
+  IMPORT: 'import',
+};
+
+function renderHtml(doc: DiffDocument): string {
+  const lines = new Array<string>();
+
+  if (doc.sections.length === 0) {
+    lines.push('<p>There were no differences</p>');
+  }
+  for (const section of doc.sections) {
+    lines.push(`<h3>${escape(section.title)}</h3>`);
+    for (const table of section.tables) {
+      lines.push(...renderTable(table));
+    }
+    if (section.entries.length > 0) {
+      lines.push('<ul>', ...section.entries.flatMap(renderEntry), '</ul>');
+    }
+    if (section.note) {
+      lines.push(`<p class="note">NOTE: ${escape(section.note)}</p>`);
+    }
+  }
+
+  if (doc.stackName === undefined) {
+    return lines.join('\n');
+  }
+  const changes = doc.differenceCount === 1 ? '1 change' : `${doc.differenceCount} changes`;
+  return [
+    '<details open>',
+    `<summary><b>${escape(doc.stackName)}</b> (${changes})</summary>`,
+    ...lines,
+    '</details>',
+  ].join('\n');
+}
+
+function renderEntry(entry: DocumentEntry): string[] {
+  const title = [
+    `<span class="${CHANGE_CLASSES[entry.changeType]}">${CHANGE_TAGS[entry.changeType]}</span>`,
+    entry.kind !== entry.logicalId ? `<code>${escape(entry.kind)}</code>` : undefined,
+    entry.path !== undefined ? escape(entry.path) : undefined,
+    `<code>${escape(entry.logicalId)}</code>`,
+    entry.impact !== undefined ? `<span class="impact">${escape(entry.impact)}</span>` : undefined,
+  ].filter(x => x !== undefined).join(' ');
+
+  if (entry.changes.length === 0) {
+    return [`<li>${title}</li>`];
+  }
+  const unnamed = entry.changes.filter(change => change.name === undefined);
+  const named = entry.changes.filter(change => change.name !== undefined);
+  return [
+    `<li>${title}`,
+    ...unnamed.map(change => codeBlock(change.lines)),
+    ...named.length > 0 ? ['<ul>', ...named.map(renderChange), '</ul>'] : [],
+    '</li>',
+  ];
+}
+
+function renderChange(change: DocumentChange): string {
+  const impact = change.impact !== undefined ? ` (${escape(change.impact)})` : '';
+  const tag = `<span class="${CHANGE_CLASSES[change.changeType]}">${CHANGE_TAGS[change.changeType]}</span>`;
+  return `<li>${tag} <code>${escape(change.name!)}</code>${impact}\n${codeBlock(change.lines)}</li>`;
+}
+
+function codeBlock(lines: string[]): string {
+  const rendered = lines.map(line => {
+    const cls = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'remove' : undefined;
+    return cls ? `<span class="${cls}">${escape(line)}</span>` : escape(line);
+  });
+  return `<pre>${rendered.join('\n')}</pre>`;
+}
+
+/**
+ * Render a table, the first row of the table is its header
+ */
+function renderTable(rows: string[][]): string[] {
+  const [header, ...body] = rows;
+  const cell = (tag: string, text: string) => `<${tag}>${escape(text).replace(/\n/g, '<br>')}</${tag}>`;
+  return [
+    '<table>',
+    `<thead><tr>${header.map(text => cell('th', text)).join('')}</tr></thead>`,
+    '<tbody>',
+    ...body.map(row => {
+      const cls = row[0] === '+' ? ' class="add"' : row[0] === '-' ? ' class="remove"' : '';
+      return `<tr${cls}>${row.map(text => cell('td', text)).join('')}</tr>`;
+    }),
+    '</tbody>',
+    '</table>',
+  ];
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,347 @@
+import type { DifferenceCollection, IDifference, ResourceDifference, TemplateDiff } from './diff/types';
+import { isPropertyDifference, ResourceImpact } from './diff/types';
+import type { IamChanges } from './iam/iam-changes';
+import type { ManagedPolicyAttachment } from './iam/managed-policy';
+import type { Statement, Targets } from './iam/statement';
+import type { NetworkChangesJson } from './network/network-changes';
+import type { SecurityGroupChangesJson } from './network/security-group-changes';
+import { deepRemoveUndefined, dropIfEmpty } from './util';
+
+// from cx-api
+const PATH_METADATA_KEY = 'aws:cdk:path';
+
+/**
+ * The version of the JSON diff schema.
+ *
+ * This is increased whenever a field is removed or changes meaning.
+ * Fields may be added without changing the version.
+ */
+export const DIFF_JSON_SCHEMA_VERSION = 1;
+
+/**
+ * The kind of change to a single template element
+ */
+export type ChangeTypeJson = 'ADD' | 'REMOVE' | 'UPDATE';
+
+/**
+ * Machine-readable representation of a TemplateDiff
+ */
+export interface TemplateDiffJson {
+  /**
+   * Whether there are any changes in the template
+   */
+  readonly isEmpty: boolean;
+
+  /**
+   * The number of changed template elements
+   */
+  readonly differenceCount: number;
+
+  /**
+   * Changes to the top-level AWSTemplateFormatVersion, Transform and Description sections
+   */
+  readonly template: ValueDifferenceJson[];
+
+  readonly parameters: ValueDifferenceJson[];
+  readonly metadata: ValueDifferenceJson[];
+  readonly mappings: ValueDifferenceJson[];
+  readonly conditions: ValueDifferenceJson[];
+  readonly resources: ResourceDifferenceJson[];
+  readonly outputs: ValueDifferenceJson[];
+
+  /**
+   * Changes to unknown sections of the template
+   */
+  readonly other: ValueDifferenceJson[];
+
+  /**
+   * Security-relevant changes
+   */
+  readonly security: SecurityChangesJson;
+}
+
+/**
+ * A change to a single named element of the template
+ */
+export interface ValueDifferenceJson {
+  readonly logicalId: string;
+  readonly changeType: ChangeTypeJson;
+  readonly oldValue?: any;
+  readonly newValue?: any;
+}
+
+/**
+ * A change to a single resource
+ */
+export interface ResourceDifferenceJson {
+  readonly logicalId: string;
+
+  /**
+   * The full construct path of the resource, if known
+   */
+  readonly path?: string;
+
+  readonly changeType: ChangeTypeJson;
+
+  /**
+   * The type of the resource. For resources that changed their type, this is the new type.
+   */
+  readonly resourceType?: string;
+
+  /**
+   * The previous type of the resource, only present if the type changed
+   */
+  readonly oldResourceType?: string;
+
+  /**
+   * What will happen to the physical resource when the change is deployed
+   */
+  readonly impact: ResourceImpact;
+
+  /**
+   * Whether the resource will be imported into the stack
+   */
+  readonly isImport: boolean;
+
+  readonly propertyChanges: PropertyDifferenceJson[];
+
+  /**
+   * Changes to any other attributes of the resource, like `DependsOn` or `Metadata`
+   */
+  readonly otherChanges: PropertyDifferenceJson[];
+}
+
+/**
+ * A change to a single attribute or property of a resource
+ */
+export interface PropertyDifferenceJson {
+  readonly name: string;
+  readonly changeType: ChangeTypeJson;
+  readonly oldValue?: any;
+  readonly newValue?: any;
+
+  /**
+   * What will happen to the resource due to this property change, if known
+   */
+  readonly impact?: ResourceImpact;
+}
+
+/**
+ * Security-relevant changes of a template
+ */
+export interface SecurityChangesJson {
+  /**
+   * Whether the changes broaden the permissions of any principal or network access
+   */
+  readonly permissionsBroadened: boolean;
+
+  /**
+   * Whether the changes open network access from the internet (0.0.0.0/0 or ::/0)
+   */
+  readonly opensToInternet: boolean;
+
+  readonly iam: IamChangesJson;
+  readonly securityGroups: SecurityGroupChangesJson;
+  readonly network: NetworkChangesJson;
+}
+
+/**
+ * Changes to IAM statements and managed policy attachments
+ */
+export interface IamChangesJson {
+  readonly statementAdditions?: IamStatementChangeJson[];
+  readonly statementRemovals?: IamStatementChangeJson[];
+  readonly managedPolicyAdditions?: IamManagedPolicyChangeJson[];
+  readonly managedPolicyRemovals?: IamManagedPolicyChangeJson[];
+}
+
+/**
+ * An added or removed IAM statement
+ *
+ * Statements that are intrinsics which could not be parsed are included as their string representation.
+ */
+export type IamStatementChangeJson =
+  | { readonly type: 'parsed'; readonly value: IamStatementJson }
+  | { readonly type: 'unparseable'; readonly repr: string };
+
+export interface IamStatementJson {
+  readonly sid?: string;
+  readonly effect: string;
+  readonly resources: IamTargetsJson;
+  readonly actions: IamTargetsJson;
+  readonly principals: IamTargetsJson;
+  readonly condition?: any;
+}
+
+/**
+ * The resources, actions or principals of a statement
+ */
+export interface IamTargetsJson {
+  /**
+   * Whether these are `NotResource`, `NotAction` or `NotPrincipal` values
+   */
+  readonly not: boolean;
+  readonly values: string[];
+}
+
+/**
+ * An attached or detached managed policy
+ */
+export interface IamManagedPolicyChangeJson {
+  readonly type: 'parsed';
+  readonly value: {
+    readonly identityArn: string;
+    readonly managedPolicyArn: string;
+  };
+}
+
+/**
+ * Converts template differences into a plain, JSON-serializable object.
+ *
+ * Elements within every section are ordered by their logical ID, so that
+ * the same diff always results in the same output.
+ *
+ * @param templateDiff     TemplateDiff to be converted.
+ * @param logicalToPathMap A map from logical ID to construct path. Useful in
+ *                         case there is no aws:cdk:path metadata in the template.
+ */
+export function templateDiffToJson(
+  templateDiff: TemplateDiff,
+  logicalToPathMap: { [logicalId: string]: string } = {},
+): TemplateDiffJson {
+  const template = new Array<ValueDifferenceJson>();
+  for (const [name, diff] of [
+    ['AWSTemplateFormatVersion', templateDiff.awsTemplateFormatVersion],
+    ['Transform', templateDiff.transform],
+    ['Description', templateDiff.description],
+  ] as Array<[string, IDifference<any> | undefined]>) {
+    if (diff?.isDifferent) {
+      template.push(valueDifferenceToJson(name, diff));
+    }
+  }
+
+  return {
+    isEmpty: templateDiff.isEmpty,
+    differenceCount: templateDiff.differenceCount,
+    template,
+    parameters: collectionToJson(templateDiff.parameters, valueDifferenceToJson),
+    metadata: collectionToJson(templateDiff.metadata, valueDifferenceToJson),
+    mappings: collectionToJson(templateDiff.mappings, valueDifferenceToJson),
+    conditions: collectionToJson(templateDiff.conditions, valueDifferenceToJson),
+    resources: collectionToJson(templateDiff.resources, (logicalId, diff) => resourceDifferenceToJson(logicalId, diff, logicalToPathMap)),
+    outputs: collectionToJson(templateDiff.outputs, valueDifferenceToJson),
+    other: collectionToJson(templateDiff.unknown, valueDifferenceToJson),
+    security: {
+      permissionsBroadened: templateDiff.permissionsBroadened,
+      opensToInternet: templateDiff.opensToInternet,
+      iam: iamChangesToJson(templateDiff.iamChanges),
+      securityGroups: templateDiff.securityGroupChanges.toJson(),
+      network: templateDiff.networkChanges.toJson(),
+    },
+  };
+}
+
+function collectionToJson<V, T extends IDifference<V>, R>(
+  collection: DifferenceCollection<V, T>,
+  convert: (logicalId: string, diff: T) => R,
+): R[] {
+  const changes = collection.changes;
+  return Object.keys(changes).sort().map((logicalId) => convert(logicalId, changes[logicalId]));
+}
+
+function valueDifferenceToJson(logicalId: string, diff: IDifference<any>): ValueDifferenceJson {
+  return {
+    logicalId,
+    changeType: changeTypeOf(diff),
+    oldValue: diff.oldValue,
+    newValue: diff.newValue,
+  };
+}
+
+function resourceDifferenceToJson(
+  logicalId: string,
+  diff: ResourceDifference,
+  logicalToPathMap: { [logicalId: string]: string },
+): ResourceDifferenceJson {
+  const propertyChanges = new Array<PropertyDifferenceJson>();
+  const otherChanges = new Array<PropertyDifferenceJson>();
+  diff.forEachDifference((type, name, value) => {
+    const change: PropertyDifferenceJson = {
+      name,
+      changeType: changeTypeOf(value),
+      oldValue: value.oldValue,
+      newValue: value.newValue,
+      impact: isPropertyDifference(value) ? value.changeImpact : undefined,
+    };
+    (type === 'Property' ? propertyChanges : otherChanges).push(change);
+  });
+  propertyChanges.sort((a, b) => a.name.localeCompare(b.name));
+  otherChanges.sort((a, b) => a.name.localeCompare(b.name));
+
+  // construct paths from the assembly metadata start with a '/', the ones in the template do not
+  const path: string | undefined = logicalToPathMap[logicalId]
+    ?? diff.newValue?.Metadata?.[PATH_METADATA_KEY]
+    ?? diff.oldValue?.Metadata?.[PATH_METADATA_KEY];
+
+  return {
+    logicalId,
+    path: path?.replace(/^\//, ''),
+    changeType: changeTypeOf(diff),
+    resourceType: diff.newResourceType ?? diff.oldResourceType,
+    oldResourceType: diff.resourceTypeChanged ? diff.oldResourceType : undefined,
+    impact: diff.isImport ? ResourceImpact.WILL_IMPORT : diff.changeImpact,
+    isImport: diff.isImport ?? false,
+    propertyChanges,
+    otherChanges,
+  };
+}
+
+function iamChangesToJson(iamChanges: IamChanges): IamChangesJson {
+  return deepRemoveUndefined({
+    statementAdditions: dropIfEmpty(iamChanges.statements.additions.map(statementToJson)),
+    statementRemovals: dropIfEmpty(iamChanges.statements.removals.map(statementToJson)),
+    managedPolicyAdditions: dropIfEmpty(iamChanges.managedPolicies.additions.map(managedPolicyToJson)),
+    managedPolicyRemovals: dropIfEmpty(iamChanges.managedPolicies.removals.map(managedPolicyToJson)),
+  });
+}
+
+function statementToJson(statement: Statement): IamStatementChangeJson {
+  if (statement.serializedIntrinsic) {
+    return { type: 'unparseable', repr: statement.serializedIntrinsic };
+  }
+  return {
+    type: 'parsed',
+    value: deepRemoveUndefined({
+      sid: statement.sid,
+      effect: statement.effect,
+      resources: targetsToJson(statement.resources),
+      principals: targetsToJson(statement.principals),
+      actions: targetsToJson(statement.actions),
+      condition: statement.condition,
+    }),
+  };
+}
+
+function targetsToJson(targets: Targets): IamTargetsJson {
+  return { not: targets.not, values: targets.values };
+}
+
+function managedPolicyToJson(attachment: ManagedPolicyAttachment): IamManagedPolicyChangeJson {
+  return {
+    type: 'parsed',
+    value: {
+      identityArn: attachment.identityArn,
+      managedPolicyArn: attachment.managedPolicyArn,
+    },
+  };
+}
+
+function changeTypeOf(diff: { isAddition: boolean; isRemoval: boolean }): ChangeTypeJson {
+  if (diff.isAddition) {
+    return 'ADD';
+  }
+  if (diff.isRemoval) {
+    return 'REMOVE';
+  }
+  return 'UPDATE';
+}
@@ -0,0 +1,119 @@
+import type { TemplateDiff } from './diff/types';
+import type { DiffDocument, DocumentChange, DocumentChangeType, DocumentEntry, DocumentFormatOptions } from './format-document';
+import { buildDiffDocument } from './format-document';
+
+const CHANGE_TAGS: Record<DocumentChangeType, string> = {
+  ADD: '`[+]`',
+  REMOVE: '`[-]`',
+  UPDATE: '`[~]`',
+  IMPORT: '`[←]`',
+};
+
+/**
+ * Renders template differences as GitHub-flavored Markdown, e.g. to post as a pull request comment
+ *
+ * If a stack name is given, the differences are rendered in a collapsible section for the stack.
+ * IAM and security group changes are rendered as tables, changed values as diff code blocks.
+ *
+ * @param templateDiff TemplateDiff to be rendered.
+ * @param options      options for rendering.
+ */
+export function formatDifferencesMarkdown(templateDiff: TemplateDiff, options: DocumentFormatOptions = {}): string {
+  return renderMarkdown(buildDiffDocument(templateDiff, options));
+}
+
+function renderMarkdown(doc: DiffDocument): string {
+  const lines = new Array<string>();
+
+  if (doc.sections.length === 0) {
+    lines.push('There were no differences', '');
+  }
+  for (const section of doc.sections) {
+    lines.push(`#### ${section.title}`, '');
+    for (const table of section.tables) {
+      lines.push(...renderTable(table), '');
+    }
+    for (const entry of section.entries) {
+      lines.push(...renderEntry(entry));
+    }
+    if (section.entries.length > 0) {
+      lines.push('');
+    }
+    if (section.note) {
+      lines.push(`> **NOTE:** ${escape(section.note)}`, '');
+    }
+  }
+
+  if (doc.stackName === undefined) {
+    return lines.join('\n');
+  }
+  const changes = doc.differenceCount === 1 ? '1 change' : `${doc.differenceCount} changes`;
+  return [
+    '<details>',
+    `<summary><b>${escape(doc.stackName)}</b> (${changes})</summary>`,
+    '',
+    ...lines,
+    '</details>',
+    '',
+  ].join('\n');
+}
+
+function renderEntry(entry: DocumentEntry): string[] {
+  const title = [
+    CHANGE_TAGS[entry.changeType],
+    entry.kind !== entry.logicalId ? `\`${entry.kind}\`` : undefined,
+    entry.path !== undefined ? escape(entry.path) : undefined,
+    `\`${entry.logicalId}\``,
+    entry.impact !== undefined ? `**${entry.impact}**` : undefined,
+  ].filter(x => x !== undefined).join(' ');
+
+  return [`- ${title}`, ...entry.changes.flatMap(renderChange)];
+}
+
+function renderChange(change: DocumentChange): string[] {
+  if (change.name === undefined) {
+    return indent(codeBlock(change.lines), '  ');
+  }
+  const impact = change.impact !== undefined ? ` (${change.impact})` : '';
+  return [
+    `  - ${CHANGE_TAGS[change.changeType]} \`${change.name}\`${impact}`,
+    ...indent(codeBlock(change.lines), '    '),
+  ];
+}
+
+/**
+ * A fenced diff code block, with a fence that doesn't occur in the lines
+ */
+function codeBlock(lines: string[]): string[] {
+  const longestRun = Math.max(0, ...lines.map(line => Math.max(0, ...(line.match(/`+/g) ?? []).map(run => run.length))));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [`${fence}diff`, ...lines, fence];
+}
+
+function indent(lines: string[], prefix: string): string[] {
+  return lines.map(line => `${prefix}${line}`);
+}
+
+/**
+ * Render a table, the first row of the table is its header
+ */
+function renderTable(rows: string[][]): string[] {
+  const [header, ...body] = rows;
+  const row = (cells: string[]) => `| ${cells.map(cell => tableCell(cell)).join(' | ')} |`;
+  return [
+    row(header),
+    `|${header.map(() => ' --- ').join('|')}|`,
+    ...body.map(row),
+  ];
+}
+
+function tableCell(cell: string): string {
+  return escape(cell).replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+}
+
+/**
+ * Escape text that could be mistaken for HTML
+ */
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -6,7 +6,9 @@ import type { Difference, ResourceDifference } from './diff-template';
 import { isPropertyDifference, ResourceImpact } from './diff-template';
 import { formatTable } from './format-table';
 import type { IamChanges } from './iam/iam-changes';
+import type { NetworkChanges } from './network/network-changes';
 import type { SecurityGroupChanges } from './network/security-group-changes';
+import { normalizeConstructPath } from './util';
 
 // from cx-api
 const PATH_METADATA_KEY = 'aws:cdk:path';
@@ -68,11 +70,16 @@ export function formatSecurityChanges(
 }
 
 function formatSecurityChangesWithBanner(formatter: Formatter, templateDiff: TemplateDiff) {
-  if (!templateDiff.iamChanges.hasChanges && !templateDiff.securityGroupChanges.hasChanges) {
+  if (!templateDiff.iamChanges.hasChanges && !templateDiff.securityGroupChanges.hasChanges && !templateDiff.networkChanges.hasChanges) {
     return;
   }
   formatter.formatIamChanges(templateDiff.iamChanges);
   formatter.formatSecurityGroupChanges(templateDiff.securityGroupChanges);
+  formatter.formatNetworkChanges(templateDiff.networkChanges);
+
+  if (templateDiff.opensToInternet) {
+    formatter.print(chalk.red('(!) These changes open network access from the internet (0.0.0.0/0 or ::/0)'));
+  }
 
   formatter.warning('(NOTE: There may be security-related changes not in this list. See https://github.com/aws/aws-cdk/issues/1299)');
   formatter.printSectionFooter();
@@ -360,33 +367,7 @@ export class Formatter {
   public normalizedLogicalIdPath(logicalId: string): string | undefined {
     // if we have a path in the map, return it
     const path = this.logicalToPathMap[logicalId];
-    return path ? normalizePath(path) : undefined;
-
-    /**
-     * Path is supposed to start with "/stack-name". If this is the case (i.e. path has more than
-     * two components, we remove the first part. Otherwise, we just use the full path.
-     */
-    function normalizePath(p: string) {
-      if (p.startsWith('/')) {
-        p = p.slice(1);
-      }
-
-      let parts = p.split('/');
-      if (parts.length > 1) {
-        parts = parts.slice(1);
-
-        // remove the last component if it's "Resource" or "Default" (if we have more than a single component)
-        if (parts.length > 1) {
-          const last = parts[parts.length - 1];
-          if (last === 'Resource' || last === 'Default') {
-            parts = parts.slice(0, parts.length - 1);
-          }
-        }
-
-        p = parts.join('/');
-      }
-      return p;
-    }
+    return path ? normalizeConstructPath(path) : undefined;
   }
 
   public formatIamChanges(changes: IamChanges) {
@@ -427,6 +408,27 @@ export class Formatter {
     this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarize()), this.stream.columns));
   }
 
+  public formatNetworkChanges(changes: NetworkChanges) {
+    if (!changes.hasChanges) {
+      return;
+    }
+
+    if (changes.aclEntries.hasChanges) {
+      this.printSectionHeader('Network ACL Changes');
+      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizeAclEntries()), this.stream.columns));
+    }
+
+    if (changes.prefixListEntries.hasChanges) {
+      this.printSectionHeader('Prefix List Changes');
+      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizePrefixListEntries()), this.stream.columns));
+    }
+
+    if (changes.endpointPolicies.hasChanges) {
+      this.printSectionHeader('VPC Endpoint Policy Changes');
+      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizeEndpointPolicies()), this.stream.columns));
+    }
+  }
+
   public deepSubstituteBracedLogicalIds(rows: string[][]): string[][] {
     return rows.map(row => row.map(this.substituteBracedLogicalIds.bind(this)));
   }
@@ -4,14 +4,18 @@ import type { ISsoInstanceACAConfig, ISsoPermissionSet } from './iam-identity-ce
 import { SsoAssignment, SsoInstanceACAConfig, SsoPermissionSet } from './iam-identity-center';
 import type { ManagedPolicyJson } from './managed-policy';
 import { ManagedPolicyAttachment } from './managed-policy';
-import type { Statement, StatementJson } from './statement';
-import { parseLambdaPermission, parseStatements } from './statement';
+import { StatementCollection } from './permissions';
+import type { StatementJson } from './statement';
+import { parseLambdaPermission, parseLambdaUrl, parsePolicyDocument, parseStatements, Statement } from './statement';
 import type { MaybeParsed } from '../diff/maybe-parsed';
 import type { PropertyChange, PropertyMap, ResourceChange } from '../diff/types';
 import { DiffableCollection } from '../diffable';
 import { renderIntrinsics } from '../render-intrinsics';
 import { deepRemoveUndefined, dropIfEmpty, flatMap, makeComparator } from '../util';
 
+const LAMBDA_URL_TYPE = 'AWS::Lambda::Url';
+const VPC_ENDPOINT_TYPE = 'AWS::EC2::VPCEndpoint';
+
 export interface IamChangesProps {
   propertyChanges: PropertyChange[];
   resourceChanges: ResourceChange[];
@@ -36,8 +40,16 @@ export class IamChanges {
     ResourceScrutinyType.SsoPermissionSet,
   ];
 
+  /**
+   * Resource types that grant permissions, but have no scrutiny type in the service specification
+   */
+  public static IamResourceTypes = [
+    LAMBDA_URL_TYPE,
+  ];
+
   // each entry in a DiffableCollection is used to generate a single row of the security changes table that is presented for cdk diff and cdk deploy.
-  public readonly statements = new DiffableCollection<Statement>();
+  // statements are compared by the permissions they grant, see StatementCollection.
+  public readonly statements = new StatementCollection();
   public readonly managedPolicies = new DiffableCollection<ManagedPolicyAttachment>();
   public readonly ssoPermissionSets = new DiffableCollection<SsoPermissionSet>();
   public readonly ssoAssignments = new DiffableCollection<SsoAssignment>();
@@ -69,6 +81,7 @@ export class IamChanges {
   /**
    * Return whether the changes include broadened permissions
    *
+   * Only the permissions that were effectively granted or revoked are considered.
    * Permissions are broadened if positive statements are added or
    * negative statements are removed, or if managed policies are added.
    */
@@ -279,6 +292,11 @@ export class IamChanges {
   }
 
   private readPropertyChange(propertyChange: PropertyChange) {
+    if (propertyChange.resourceType === VPC_ENDPOINT_TYPE) {
+      // VPC endpoint policies are part of the network changes
+      return;
+    }
+
     switch (propertyChange.scrutinyType) {
       case PropertyScrutinyType.InlineIdentityPolicies:
         // AWS::IAM::{ Role | User | Group }.Policies
@@ -299,6 +317,12 @@ export class IamChanges {
   }
 
   private readResourceChange(resourceChange: ResourceChange) {
+    if (resourceChange.resourceType === LAMBDA_URL_TYPE) {
+      this.statements.addOld(...this.readLambdaUrlStatements(resourceChange.oldProperties));
+      this.statements.addNew(...this.readLambdaUrlStatements(resourceChange.newProperties));
+      return;
+    }
+
     switch (resourceChange.scrutinyType) {
       case ResourceScrutinyType.IdentityPolicyResource:
         // AWS::IAM::Policy
@@ -418,8 +442,13 @@ export class IamChanges {
       return [];
     }
 
+    const document = parsePolicyDocument(policy);
+    if (typeof document === 'string') {
+      return [new Statement(document)];
+    }
+
     const appliesToResource = '${' + logicalId + '.Arn}';
-    return defaultResource(appliesToResource, parseStatements(renderIntrinsics(policy.Statement)));
+    return defaultResource(appliesToResource, parseStatements(renderIntrinsics(document.Statement)));
   }
 
   /**
@@ -443,8 +472,9 @@ export class IamChanges {
       resources = [resources];
     }
 
+    const document = parsePolicyDocument(properties[policyKeys[0]]);
     return flatMap(resources, (resource: string) => {
-      return defaultResource(resource, parseStatements(properties[policyKeys[0]].Statement));
+      return defaultResource(resource, typeof document === 'string' ? [new Statement(document)] : parseStatements(document.Statement));
     });
   }
 
@@ -464,6 +494,14 @@ export class IamChanges {
 
     return [parseLambdaPermission(renderIntrinsics(properties))];
   }
+
+  private readLambdaUrlStatements(properties?: PropertyMap): Statement[] {
+    if (!properties) {
+      return [];
+    }
+
+    return parseLambdaUrl(renderIntrinsics(properties));
+  }
 }
 
 /**
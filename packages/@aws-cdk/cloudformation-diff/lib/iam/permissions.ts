@@ -0,0 +1,204 @@
+import type { Targets } from './statement';
+import { Statement } from './statement';
+import { DiffableCollection } from '../diffable';
+
+/**
+ * Calculate the differences between IAM statements by the permissions they grant
+ *
+ * Statements are expanded into atomic permissions before they are compared, so
+ * splitting, merging or reordering statements (or the actions, resources and
+ * principals in them) does not show up as a change. The permissions that were
+ * effectively granted or revoked are merged back into statements for display.
+ *
+ * Statements that are intrinsics which could not be parsed are compared as a whole.
+ */
+export class StatementCollection extends DiffableCollection<Statement> {
+  public calculateDiff() {
+    const oldPermissions = permissionsOf(this.oldElements);
+    const newPermissions = permissionsOf(this.newElements);
+
+    this.additions.push(
+      ...mergePermissions(Array.from(newPermissions.values()).filter(p => !oldPermissions.has(p.key))),
+      ...unparseable(this.newElements).filter(s => !unparseable(this.oldElements).some(o => o.equal(s))),
+    );
+    this.removals.push(
+      ...mergePermissions(Array.from(oldPermissions.values()).filter(p => !newPermissions.has(p.key))),
+      ...unparseable(this.oldElements).filter(s => !unparseable(this.newElements).some(o => o.equal(s))),
+    );
+  }
+}
+
+/**
+ * A single permission allowed or denied by a statement
+ *
+ * A statement is equivalent to the permissions for every combination of its
+ * principals, actions and resources. Negated targets (`NotAction` etc.) cannot be
+ * split up, they are kept as a whole.
+ */
+export class Permission {
+  /**
+   * Expand a parsed statement into its permissions
+   */
+  public static fromStatement(statement: Statement): Permission[] {
+    const ret = new Array<Permission>();
+    for (const principal of atomsOf(statement.principals, normalizePrincipal)) {
+      for (const action of atomsOf(statement.actions, normalizeAction)) {
+        for (const resource of atomsOf(statement.resources, r => r)) {
+          ret.push(new Permission(statement.effect, principal, action, resource, statement.condition));
+        }
+      }
+    }
+    return ret;
+  }
+
+  /**
+   * Key that is equal for permissions that are equivalent
+   */
+  public readonly key: string;
+
+  /**
+   * Key of the condition, equal for equivalent conditions
+   */
+  public readonly conditionKey: string;
+
+  private constructor(
+    public readonly effect: string,
+    public readonly principal: TargetAtom,
+    public readonly action: TargetAtom,
+    public readonly resource: TargetAtom,
+    public readonly condition: any,
+  ) {
+    this.conditionKey = isEmptyCondition(condition) ? '' : canonicalCondition(condition);
+    this.key = [effect, principal.key, action.key, resource.key, this.conditionKey].join('\0');
+  }
+
+  public equal(other: Permission): boolean {
+    return this.key === other.key;
+  }
+}
+
+/**
+ * A single value of a statement's targets, or all values of a negated or empty target
+ */
+export interface TargetAtom {
+  readonly not: boolean;
+  readonly values: string[];
+
+  /**
+   * Key that is equal for equivalent targets
+   */
+  readonly key: string;
+}
+
+/**
+ * The permissions of all parsed statements, by key
+ */
+function permissionsOf(statements: Statement[]): Map<string, Permission> {
+  const ret = new Map<string, Permission>();
+  for (const statement of statements) {
+    if (statement.serializedIntrinsic !== undefined) {
+      continue;
+    }
+    for (const permission of Permission.fromStatement(statement)) {
+      if (!ret.has(permission.key)) {
+        ret.set(permission.key, permission);
+      }
+    }
+  }
+  return ret;
+}
+
+function unparseable(statements: Statement[]): Statement[] {
+  return statements.filter(s => s.serializedIntrinsic !== undefined);
+}
+
+/**
+ * Merge permissions into as few statements as possible
+ *
+ * Permissions that only differ in their action are merged first, then the
+ * groups that have the same actions and only differ in their resource. Permissions
+ * of different principals are kept apart, so that every identity gets its own statements.
+ */
+function mergePermissions(permissions: Permission[]): Statement[] {
+  const byResource = groupBy(permissions, p => [
+    p.effect, p.principal.key, p.resource.key, p.conditionKey, p.action.not ? p.action.key : '',
+  ].join('\0'));
+
+  const byActions = groupBy(Array.from(byResource.values()), group => [
+    group[0].effect, group[0].principal.key, group[0].conditionKey,
+    group.map(p => p.action.key).sort().join('\n'),
+    group[0].resource.not ? group[0].resource.key : '',
+  ].join('\0'));
+
+  return Array.from(byActions.values()).map(groups => {
+    const permission = groups[0][0];
+    return new Statement({
+      Effect: permission.effect,
+      ...targetProperty('Principal', [permission.principal]),
+      ...targetProperty('Action', groups[0].map(p => p.action)),
+      ...targetProperty('Resource', groups.map(group => group[0].resource)),
+      Condition: permission.condition,
+    });
+  });
+}
+
+function targetProperty(key: string, atoms: TargetAtom[]): { [key: string]: string[] } {
+  return { [atoms[0].not ? `Not${key}` : key]: atoms.flatMap(atom => atom.values) };
+}
+
+function atomsOf(targets: Targets, normalize: (value: string) => string): TargetAtom[] {
+  if (targets.not || targets.empty) {
+    return [{
+      not: targets.not,
+      values: [...targets.values],
+      key: (targets.not ? '!' : '') + targets.values.map(normalize).sort().join('\n'),
+    }];
+  }
+  return targets.values.map(value => ({ not: false, values: [value], key: normalize(value) }));
+}
+
+/**
+ * Action names are case insensitive
+ */
+function normalizeAction(action: string): string {
+  return action.toLowerCase();
+}
+
+/**
+ * An account ID as principal is short for the root user of the account
+ */
+function normalizePrincipal(principal: string): string {
+  const account = principal.match(/^AWS:(\d{12})$/) ?? principal.match(/^AWS:arn:[^:]+:iam::(\d{12}):root$/);
+  return account ? `AWS:${account[1]}` : principal;
+}
+
+function isEmptyCondition(condition: any): boolean {
+  return condition === undefined || condition === null || (typeof condition === 'object' && Object.keys(condition).length === 0);
+}
+
+/**
+ * Render a condition so that the order of keys and of values in lists doesn't matter
+ */
+function canonicalCondition(x: any): string {
+  if (Array.isArray(x)) {
+    return `[${x.map(canonicalCondition).sort().join(',')}]`;
+  }
+  if (typeof x === 'object' && x !== null) {
+    return `{${Object.keys(x).sort().map(key => `${JSON.stringify(key)}:${canonicalCondition(x[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(x);
+}
+
+function groupBy<A>(xs: A[], keyFn: (x: A) => string): Map<string, A[]> {
+  const ret = new Map<string, A[]>();
+  for (const x of xs) {
+    const key = keyFn(x);
+    const group = ret.get(key);
+    if (group) {
+      group.push(x);
+    } else {
+      ret.set(key, [x]);
+    }
+  }
+  return ret;
+}
@@ -37,7 +37,10 @@ export class Statement {
    */
   public readonly condition?: any;
 
-  private readonly serializedIntrinsic: string | undefined;
+  /**
+   * The statement as a string, if it is an intrinsic that could not be parsed
+   */
+  public readonly serializedIntrinsic: string | undefined;
 
   constructor(statement: UnknownMap | string) {
     if (typeof statement === 'string') {
@@ -156,6 +159,22 @@ export function parseStatements(x: any): Statement[] {
   return x.map((s: any) => new Statement(s));
 }
 
+/**
+ * Policy documents can also be given as a JSON string
+ *
+ * Returns the string itself if it is not a valid JSON document.
+ */
+export function parsePolicyDocument(policy: any): any {
+  if (typeof policy !== 'string') {
+    return policy;
+  }
+  try {
+    return JSON.parse(policy);
+  } catch {
+    return policy;
+  }
+}
+
 /**
  * Parse a Statement from a Lambda::Permission object
  *
@@ -185,27 +204,53 @@ export function parseLambdaPermission(x: any): Statement {
     }
   }
   if (x.SourceArn !== undefined) {
-    if (statement.Condition === undefined) {
-      statement.Condition = {};
-    }
-    statement.Condition.ArnLike = { 'AWS:SourceArn': x.SourceArn };
+    addCondition(statement, 'ArnLike', 'AWS:SourceArn', x.SourceArn);
   }
   if (x.SourceAccount !== undefined) {
-    if (statement.Condition === undefined) {
-      statement.Condition = {};
-    }
-    statement.Condition.StringEquals = { 'AWS:SourceAccount': x.SourceAccount };
+    addCondition(statement, 'StringEquals', 'AWS:SourceAccount', x.SourceAccount);
   }
   if (x.EventSourceToken !== undefined) {
-    if (statement.Condition === undefined) {
-      statement.Condition = {};
-    }
-    statement.Condition.StringEquals = { 'lambda:EventSourceToken': x.EventSourceToken };
+    addCondition(statement, 'StringEquals', 'lambda:EventSourceToken', x.EventSourceToken);
+  }
+  if (x.PrincipalOrgID !== undefined) {
+    addCondition(statement, 'StringEquals', 'aws:PrincipalOrgID', x.PrincipalOrgID);
+  }
+  if (x.FunctionUrlAuthType !== undefined) {
+    addCondition(statement, 'StringEquals', 'lambda:FunctionUrlAuthType', x.FunctionUrlAuthType);
   }
 
   return new Statement(statement);
 }
 
+/**
+ * Parse the Statements from a Lambda::Url object
+ *
+ * A function URL with AuthType AWS_IAM can only be invoked by principals that are
+ * allowed to, by their identity policies or by Lambda permissions. Any other AuthType
+ * (NONE, or a value that is only known at deploy time) makes the function public.
+ */
+export function parseLambdaUrl(x: any): Statement[] {
+  if (x.AuthType === 'AWS_IAM') {
+    return [];
+  }
+
+  const resource = x.Qualifier !== undefined ? `${x.TargetFunctionArn}:${x.Qualifier}` : x.TargetFunctionArn;
+  return [new Statement({
+    Effect: 'Allow',
+    Principal: '*',
+    Action: 'lambda:InvokeFunctionUrl',
+    Resource: resource,
+    Condition: { StringEquals: { 'lambda:FunctionUrlAuthType': x.AuthType } },
+  })];
+}
+
+function addCondition(statement: any, operator: string, key: string, value: unknown) {
+  if (statement.Condition === undefined) {
+    statement.Condition = {};
+  }
+  statement.Condition[operator] = { ...statement.Condition[operator], [key]: value };
+}
+
 /**
  * Targets for a field
  */
@@ -1,4 +1,9 @@
 export * from './diff-template';
+export * from './effective-template';
 export * from './format';
 export * from './format-table';
+export * from './format-json';
+export * from './format-markdown';
+export * from './format-html';
+export type { DocumentFormatOptions } from './format-document';
 export { deepEqual, mangleLikeCloudFormation } from './diff/util';
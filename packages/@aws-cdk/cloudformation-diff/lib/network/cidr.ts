@@ -0,0 +1,19 @@
+/**
+ * Whether the CIDR block contains every address, i.e. the internet
+ */
+export function isInternetCidr(cidr: string | undefined): boolean {
+  return cidr === '0.0.0.0/0' || cidr === '::/0';
+}
+
+/**
+ * Describe a CIDR block for a summary table
+ */
+export function describeCidr(cidr: string): string {
+  if (cidr === '0.0.0.0/0') {
+    return 'Everyone (IPv4)';
+  }
+  if (cidr === '::/0') {
+    return 'Everyone (IPv6)';
+  }
+  return cidr;
+}
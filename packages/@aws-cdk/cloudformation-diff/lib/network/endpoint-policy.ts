@@ -0,0 +1,22 @@
+import type { Statement } from '../iam/statement';
+
+/**
+ * A statement of the policy of a VPC endpoint
+ *
+ * The policy controls which principals can use the endpoint to access which resources.
+ */
+export class EndpointPolicyStatement {
+  constructor(
+    /**
+     * ID of the VPC endpoint
+     */
+    public readonly endpointId: string,
+    public readonly statement: Statement,
+  ) {
+  }
+
+  public equal(other: EndpointPolicyStatement) {
+    return this.endpointId === other.endpointId
+        && this.statement.equal(other.statement);
+  }
+}
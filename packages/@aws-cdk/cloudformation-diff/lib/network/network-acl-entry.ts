@@ -0,0 +1,145 @@
+import { describeCidr, isInternetCidr } from './cidr';
+
+/**
+ * A single rule of a network ACL, from an AWS::EC2::NetworkAclEntry
+ */
+export class NetworkAclEntry {
+  /**
+   * ID of the network ACL this entry belongs to
+   */
+  public readonly networkAclId: string;
+
+  /**
+   * Rule number, entries are evaluated in increasing order of their rule number
+   */
+  public readonly ruleNumber?: number;
+
+  /**
+   * Whether this entry applies to outbound traffic
+   */
+  public readonly egress: boolean;
+
+  /**
+   * Whether matching traffic is allowed or denied
+   */
+  public readonly ruleAction: string;
+
+  /**
+   * IP protocol number, -1 for all protocols
+   */
+  public readonly protocol: string;
+
+  /**
+   * IPv4 or IPv6 CIDR block the entry applies to
+   */
+  public readonly cidrBlock?: string;
+
+  /**
+   * Port range for TCP and UDP
+   */
+  public readonly fromPort?: number;
+  public readonly toPort?: number;
+
+  /**
+   * ICMP type and code for ICMP
+   */
+  public readonly icmpType?: number;
+  public readonly icmpCode?: number;
+
+  constructor(properties: any) {
+    this.networkAclId = properties.NetworkAclId || '*unknown*';
+    this.ruleNumber = properties.RuleNumber;
+    this.egress = properties.Egress === true || properties.Egress === 'true';
+    this.ruleAction = properties.RuleAction?.toString().toLowerCase() || '*unknown*';
+    this.protocol = properties.Protocol?.toString() || '*unknown*';
+    this.cidrBlock = properties.CidrBlock ?? properties.Ipv6CidrBlock;
+    this.fromPort = properties.PortRange?.From;
+    this.toPort = properties.PortRange?.To;
+    this.icmpType = properties.Icmp?.Type;
+    this.icmpCode = properties.Icmp?.Code;
+  }
+
+  public equal(other: NetworkAclEntry) {
+    return this.networkAclId === other.networkAclId
+        && this.ruleNumber === other.ruleNumber
+        && this.egress === other.egress
+        && this.ruleAction === other.ruleAction
+        && this.protocol === other.protocol
+        && this.cidrBlock === other.cidrBlock
+        && this.fromPort === other.fromPort
+        && this.toPort === other.toPort
+        && this.icmpType === other.icmpType
+        && this.icmpCode === other.icmpCode;
+  }
+
+  public get isAllow() {
+    return this.ruleAction === 'allow';
+  }
+
+  /**
+   * Whether this entry allows inbound traffic from the internet
+   */
+  public get opensToInternet() {
+    return this.isAllow && !this.egress && isInternetCidr(this.cidrBlock);
+  }
+
+  public describeProtocol() {
+    const name = PROTOCOL_NAMES[this.protocol];
+    if (this.protocol === '-1') {
+      return 'Everything';
+    }
+    if (this.protocol === '1' || this.protocol === '58') {
+      return this.icmpType === undefined || this.icmpType === -1
+        ? `All ${name}`
+        : `${name} ${this.icmpType}${this.icmpCode !== undefined && this.icmpCode !== -1 ? `:${this.icmpCode}` : ''}`;
+    }
+
+    const protocol = name ?? `Protocol ${this.protocol}`;
+    if (this.fromPort === undefined) {
+      return `All ${protocol}`;
+    }
+    if (this.fromPort === this.toPort || this.toPort === undefined) {
+      return `${protocol} ${this.fromPort}`;
+    }
+    return `${protocol} ${this.fromPort}-${this.toPort}`;
+  }
+
+  public describePeer() {
+    return this.cidrBlock !== undefined ? describeCidr(this.cidrBlock) : '?';
+  }
+
+  public toJson(): NetworkAclEntryJson {
+    return {
+      networkAclId: this.networkAclId,
+      ruleNumber: this.ruleNumber,
+      egress: this.egress,
+      ruleAction: this.ruleAction,
+      protocol: this.protocol,
+      cidrBlock: this.cidrBlock,
+      fromPort: this.fromPort,
+      toPort: this.toPort,
+      icmpType: this.icmpType,
+      icmpCode: this.icmpCode,
+    };
+  }
+}
+
+const PROTOCOL_NAMES: { [protocol: string]: string } = {
+  1: 'ICMP',
+  6: 'TCP',
+  17: 'UDP',
+  58: 'ICMPv6',
+};
+
+export interface NetworkAclEntryJson {
+  networkAclId: string;
+  ruleNumber?: number;
+  egress: boolean;
+  ruleAction: string;
+  protocol: string;
+  cidrBlock?: string;
+  fromPort?: number;
+  toPort?: number;
+  icmpType?: number;
+  icmpCode?: number;
+}
@@ -0,0 +1,264 @@
+import * as chalk from 'chalk';
+import { EndpointPolicyStatement } from './endpoint-policy';
+import type { NetworkAclEntryJson } from './network-acl-entry';
+import { NetworkAclEntry } from './network-acl-entry';
+import type { PrefixListEntryJson } from './prefix-list-entry';
+import { PrefixListEntry } from './prefix-list-entry';
+import type { MaybeParsed } from '../diff/maybe-parsed';
+import type { ResourceChange } from '../diff/types';
+import { DiffableCollection } from '../diffable';
+import type { StatementJson } from '../iam/statement';
+import { parsePolicyDocument, parseStatements, Statement } from '../iam/statement';
+import { renderIntrinsics } from '../render-intrinsics';
+import { deepRemoveUndefined, dropIfEmpty, makeComparator } from '../util';
+
+const NETWORK_ACL_ENTRY_TYPE = 'AWS::EC2::NetworkAclEntry';
+const PREFIX_LIST_TYPE = 'AWS::EC2::PrefixList';
+const VPC_ENDPOINT_TYPE = 'AWS::EC2::VPCEndpoint';
+
+/**
+ * The policy a VPC endpoint gets if it doesn't have a policy document
+ */
+const FULL_ACCESS_POLICY = {
+  Statement: [{ Effect: 'Allow', Principal: '*', Action: '*', Resource: '*' }],
+};
+
+/**
+ * Endpoint types that don't support endpoint policies
+ */
+const ENDPOINT_TYPES_WITHOUT_POLICY = ['GatewayLoadBalancer', 'Resource', 'ServiceNetwork'];
+
+export interface NetworkChangesProps {
+  resourceChanges: ResourceChange[];
+}
+
+/**
+ * Changes to network ACLs, prefix lists and VPC endpoint policies
+ */
+export class NetworkChanges {
+  /**
+   * Resource types of which changes are read
+   */
+  public static NetworkResourceTypes = [
+    NETWORK_ACL_ENTRY_TYPE,
+    PREFIX_LIST_TYPE,
+    VPC_ENDPOINT_TYPE,
+  ];
+
+  public readonly aclEntries = new DiffableCollection<NetworkAclEntry>();
+  public readonly prefixListEntries = new DiffableCollection<PrefixListEntry>();
+  public readonly endpointPolicies = new DiffableCollection<EndpointPolicyStatement>();
+
+  constructor(props: NetworkChangesProps) {
+    for (const change of props.resourceChanges) {
+      switch (change.resourceType) {
+        case NETWORK_ACL_ENTRY_TYPE:
+          this.aclEntries.addOld(...this.readAclEntry(change.oldProperties));
+          this.aclEntries.addNew(...this.readAclEntry(change.newProperties));
+          break;
+        case PREFIX_LIST_TYPE:
+          this.prefixListEntries.addOld(...this.readPrefixList(change.oldProperties, change.resourceLogicalId));
+          this.prefixListEntries.addNew(...this.readPrefixList(change.newProperties, change.resourceLogicalId));
+          break;
+        case VPC_ENDPOINT_TYPE:
+          this.endpointPolicies.addOld(...this.readEndpointPolicy(change.oldProperties, change.resourceLogicalId));
+          this.endpointPolicies.addNew(...this.readEndpointPolicy(change.newProperties, change.resourceLogicalId));
+          break;
+      }
+    }
+
+    this.aclEntries.calculateDiff();
+    this.prefixListEntries.calculateDiff();
+    this.endpointPolicies.calculateDiff();
+  }
+
+  public get hasChanges() {
+    return this.aclEntries.hasChanges
+      || this.prefixListEntries.hasChanges
+      || this.endpointPolicies.hasChanges;
+  }
+
+  /**
+   * Return whether the changes allow more network traffic
+   *
+   * Access is broadened if allow entries are added to a network ACL or deny entries are
+   * removed from it, if CIDR blocks are added to a prefix list (rules that reference the
+   * prefix list apply to them), or if positive statements are added to an endpoint policy
+   * or negative statements are removed from it.
+   */
+  public get accessBroadened(): boolean {
+    return this.aclEntries.additions.some(e => e.isAllow)
+      || this.aclEntries.removals.some(e => !e.isAllow)
+      || this.prefixListEntries.hasAdditions
+      || this.endpointPolicies.additions.some(s => !s.statement.isNegativeStatement)
+      || this.endpointPolicies.removals.some(s => s.statement.isNegativeStatement);
+  }
+
+  /**
+   * Return whether the changes open network access from the internet (0.0.0.0/0 or ::/0)
+   *
+   * That is, if inbound allow entries for the internet are added to a network ACL,
+   * or the internet is added to a prefix list.
+   */
+  public get opensToInternet(): boolean {
+    return this.aclEntries.additions.some(e => e.opensToInternet)
+      || this.prefixListEntries.additions.some(e => e.opensToInternet);
+  }
+
+  /**
+   * Return a summary table of network ACL changes
+   */
+  public summarizeAclEntries(): string[][] {
+    const ret: string[][] = [];
+    const header = ['', 'Network ACL', 'Rule', 'Dir', 'Action', 'Protocol', 'Peer'];
+
+    const entries: Array<[string, NetworkAclEntry]> = [
+      ...this.aclEntries.additions.map(e => ['+', e] as [string, NetworkAclEntry]),
+      ...this.aclEntries.removals.map(e => ['-', e] as [string, NetworkAclEntry]),
+    ];
+
+    // Sort by network ACL, then direction (inbound first) and rule number
+    entries.sort(makeComparator(([_, e]: [string, NetworkAclEntry]) => [e.networkAclId, e.egress ? 1 : 0, e.ruleNumber ?? 0]));
+
+    for (const [plusMin, entry] of entries) {
+      ret.push([
+        plusMin,
+        entry.networkAclId,
+        entry.ruleNumber?.toString() ?? '',
+        entry.egress ? 'Out' : 'In',
+        entry.ruleAction,
+        entry.describeProtocol(),
+        entry.describePeer(),
+      ].map(s => plusMin === '+' ? chalk.green(s) : chalk.red(s)));
+    }
+
+    ret.splice(0, 0, header);
+
+    return ret;
+  }
+
+  /**
+   * Return a summary table of prefix list changes
+   */
+  public summarizePrefixListEntries(): string[][] {
+    const ret: string[][] = [];
+    const header = ['', 'Prefix List', 'CIDR', 'Description'];
+
+    const renderEntry = (plusMin: string) => (entry: PrefixListEntry) => [
+      plusMin,
+      entry.prefixListId,
+      entry.describePeer(),
+      entry.description ?? '',
+    ].map(s => plusMin === '+' ? chalk.green(s) : chalk.red(s));
+
+    ret.push(...this.prefixListEntries.additions.map(renderEntry('+')));
+    ret.push(...this.prefixListEntries.removals.map(renderEntry('-')));
+
+    ret.sort(makeComparator((row: string[]) => [row[1]]));
+    ret.splice(0, 0, header);
+
+    return ret;
+  }
+
+  /**
+   * Return a summary table of VPC endpoint policy changes
+   */
+  public summarizeEndpointPolicies(): string[][] {
+    const ret: string[][] = [];
+    const header = ['', 'Endpoint', 'Effect', 'Action', 'Resource', 'Principal', 'Condition'];
+
+    const renderStatement = (plusMin: string) => (s: EndpointPolicyStatement) => {
+      const rendered = s.statement.render();
+      return [
+        plusMin,
+        s.endpointId,
+        rendered.effect,
+        rendered.action,
+        rendered.resource,
+        rendered.principal,
+        rendered.condition,
+      ].map(cell => plusMin === '+' ? chalk.green(cell) : chalk.red(cell));
+    };
+
+    ret.push(...this.endpointPolicies.additions.map(renderStatement('+')));
+    ret.push(...this.endpointPolicies.removals.map(renderStatement('-')));
+
+    ret.sort(makeComparator((row: string[]) => [row[1]]));
+    ret.splice(0, 0, header);
+
+    return ret;
+  }
+
+  public toJson(): NetworkChangesJson {
+    return deepRemoveUndefined({
+      aclEntryAdditions: dropIfEmpty(this.aclEntries.additions.map(e => e.toJson())),
+      aclEntryRemovals: dropIfEmpty(this.aclEntries.removals.map(e => e.toJson())),
+      prefixListEntryAdditions: dropIfEmpty(this.prefixListEntries.additions.map(e => e.toJson())),
+      prefixListEntryRemovals: dropIfEmpty(this.prefixListEntries.removals.map(e => e.toJson())),
+      endpointPolicyAdditions: dropIfEmpty(this.endpointPolicies.additions.map(endpointPolicyToJson)),
+      endpointPolicyRemovals: dropIfEmpty(this.endpointPolicies.removals.map(endpointPolicyToJson)),
+    });
+  }
+
+  private readAclEntry(properties: any): NetworkAclEntry[] {
+    if (!properties) {
+      return [];
+    }
+
+    return [new NetworkAclEntry(renderIntrinsics(properties))];
+  }
+
+  private readPrefixList(properties: any, logicalId: string): PrefixListEntry[] {
+    if (!properties) {
+      return [];
+    }
+
+    properties = renderIntrinsics(properties);
+    if (!Array.isArray(properties.Entries)) {
+      return [];
+    }
+
+    const ref = '${' + logicalId + '}';
+    // PrefixListEntry is not robust against unparsed objects
+    return properties.Entries
+      .filter((entry: any) => typeof entry === 'object')
+      .map((entry: any) => new PrefixListEntry(entry, ref));
+  }
+
+  private readEndpointPolicy(properties: any, logicalId: string): EndpointPolicyStatement[] {
+    if (!properties) {
+      return [];
+    }
+
+    properties = renderIntrinsics(properties);
+    if (ENDPOINT_TYPES_WITHOUT_POLICY.includes(properties.VpcEndpointType)) {
+      return [];
+    }
+
+    const ref = '${' + logicalId + '}';
+    const document = parsePolicyDocument(properties.PolicyDocument ?? FULL_ACCESS_POLICY);
+    const statements = typeof document === 'string' ? [new Statement(document)] : parseStatements(document.Statement);
+    return statements.map(s => new EndpointPolicyStatement(ref, s));
+  }
+}
+
+function endpointPolicyToJson(s: EndpointPolicyStatement): EndpointPolicyStatementJson {
+  return {
+    endpointId: s.endpointId,
+    statement: s.statement._toJson(),
+  };
+}
+
+export interface EndpointPolicyStatementJson {
+  endpointId: string;
+  statement: MaybeParsed<StatementJson>;
+}
+
+export interface NetworkChangesJson {
+  aclEntryAdditions?: NetworkAclEntryJson[];
+  aclEntryRemovals?: NetworkAclEntryJson[];
+  prefixListEntryAdditions?: PrefixListEntryJson[];
+  prefixListEntryRemovals?: PrefixListEntryJson[];
+  endpointPolicyAdditions?: EndpointPolicyStatementJson[];
+  endpointPolicyRemovals?: EndpointPolicyStatementJson[];
+}
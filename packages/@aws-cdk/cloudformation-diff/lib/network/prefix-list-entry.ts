@@ -0,0 +1,56 @@
+import { describeCidr, isInternetCidr } from './cidr';
+
+/**
+ * A single CIDR block of a managed prefix list, from an AWS::EC2::PrefixList
+ *
+ * Security group rules and routes that reference the prefix list apply to all of its entries.
+ */
+export class PrefixListEntry {
+  /**
+   * ID of the prefix list this entry belongs to
+   */
+  public readonly prefixListId: string;
+
+  public readonly cidr: string;
+
+  /**
+   * Description of the entry, which does not affect access
+   */
+  public readonly description?: string;
+
+  constructor(entry: any, prefixListRef: string) {
+    this.prefixListId = prefixListRef;
+    this.cidr = entry.Cidr?.toString() || '*unknown*';
+    this.description = entry.Description;
+  }
+
+  public equal(other: PrefixListEntry) {
+    return this.prefixListId === other.prefixListId
+        && this.cidr === other.cidr;
+  }
+
+  /**
+   * Whether this entry includes every address
+   */
+  public get opensToInternet() {
+    return isInternetCidr(this.cidr);
+  }
+
+  public describePeer() {
+    return describeCidr(this.cidr);
+  }
+
+  public toJson(): PrefixListEntryJson {
+    return {
+      prefixListId: this.prefixListId,
+      cidr: this.cidr,
+      description: this.description,
+    };
+  }
+}
+
+export interface PrefixListEntryJson {
+  prefixListId: string;
+  cidr: string;
+  description?: string;
+}
@@ -92,6 +92,13 @@ export class SecurityGroupChanges {
     });
   }
 
+  /**
+   * Whether ingress rules are added that allow traffic from the internet
+   */
+  public get opensToInternet(): boolean {
+    return this.ingress.additions.some(r => r.opensToInternet);
+  }
+
   public get rulesAdded(): boolean {
     return this.ingress.hasAdditions
         || this.egress.hasAdditions;
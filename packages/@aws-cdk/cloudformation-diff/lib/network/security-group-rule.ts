@@ -1,3 +1,5 @@
+import { describeCidr, isInternetCidr } from './cidr';
+
 /**
  * A single security group rule, either egress or ingress
  */
@@ -54,6 +56,13 @@ export class SecurityGroupRule {
         && peerEqual(this.peer, other.peer);
   }
 
+  /**
+   * Whether the peer of this rule is the internet
+   */
+  public get opensToInternet() {
+    return this.peer?.kind === 'cidr-ip' && isInternetCidr(this.peer.ip);
+  }
+
   public describeProtocol() {
     if (this.ipProtocol === '-1') {
       return 'Everything';
@@ -73,14 +82,7 @@ export class SecurityGroupRule {
   public describePeer() {
     if (this.peer) {
       switch (this.peer.kind) {
-        case 'cidr-ip':
-          if (this.peer.ip === '0.0.0.0/0') {
-            return 'Everyone (IPv4)';
-          }
-          if (this.peer.ip === '::/0') {
-            return 'Everyone (IPv6)';
-          }
-          return `${this.peer.ip}`;
+        case 'cidr-ip': return describeCidr(`${this.peer.ip}`);
         case 'prefix-list': return `${this.peer.prefixListId}`;
         case 'security-group': return `${this.peer.securityGroupId}`;
       }
@@ -52,6 +52,14 @@ export function deepRemoveUndefined(x: any): any {
   return x;
 }
 
+/**
+ * Remove the terminal colors from a string
+ */
+export function stripColors(s: string): string {
+  // eslint-disable-next-line no-control-regex
+  return s.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
 export function flatMap<T, U>(xs: T[], f: (x: T) => U[]): U[] {
   const ret = new Array<U>();
   for (const x of xs) {
@@ -59,3 +67,31 @@ export function flatMap<T, U>(xs: T[], f: (x: T) => U[]): U[] {
   }
   return ret;
 }
+
+/**
+ * Shorten a construct path for display
+ *
+ * Path is supposed to start with "/stack-name". If this is the case (i.e. path has more than
+ * two components, we remove the first part. Otherwise, we just use the full path.
+ */
+export function normalizeConstructPath(p: string) {
+  if (p.startsWith('/')) {
+    p = p.slice(1);
+  }
+
+  let parts = p.split('/');
+  if (parts.length > 1) {
+    parts = parts.slice(1);
+
+    // remove the last component if it's "Resource" or "Default" (if we have more than a single component)
+    if (parts.length > 1) {
+      const last = parts[parts.length - 1];
+      if (last === 'Resource' || last === 'Default') {
+        parts = parts.slice(0, parts.length - 1);
+      }
+    }
+
+    p = parts.join('/');
+  }
+  return p;
+}
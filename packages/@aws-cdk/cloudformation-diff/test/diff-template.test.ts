@@ -623,3 +623,69 @@ test('metadata changes are rendered in the diff', () => {
   differences = fullDiff(newTemplate, currentTemplate);
   expect(differences.resources.differenceCount).toBe(1);
 });
+
+describe('resolving conditions', () => {
+  const template = {
+    Parameters: {
+      EnableQueue: { Type: 'String', Default: 'false', AllowedValues: ['true', 'false'] },
+    },
+    Conditions: {
+      QueueEnabled: { 'Fn::Equals': [{ Ref: 'EnableQueue' }, 'true'] },
+    },
+    Resources: {
+      Queue: { Type: 'AWS::SQS::Queue', Condition: 'QueueEnabled' },
+      Function: {
+        Type: 'AWS::Lambda::Function',
+        Properties: {
+          Environment: {
+            Variables: {
+              QUEUE_URL: { 'Fn::If': ['QueueEnabled', { Ref: 'Queue' }, { Ref: 'AWS::NoValue' }] },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  test('a changed parameter value shows the resources it adds', () => {
+    // WHEN
+    const differences = fullDiff(template, JSON.parse(JSON.stringify(template)), undefined, false, {
+      resolveConditions: true,
+      newParameters: { EnableQueue: 'true' },
+    });
+
+    // THEN
+    expect(differences.resources.differenceCount).toBe(2);
+    expect(differences.resources.get('Queue')?.changeImpact).toBe(ResourceImpact.WILL_CREATE);
+    expect(differences.resources.get('Function')?.propertyUpdates.Environment).toBeDefined();
+  });
+
+  test('a changed condition shows the resources it removes', () => {
+    // GIVEN
+    const newTemplate = JSON.parse(JSON.stringify(template));
+    newTemplate.Conditions.QueueEnabled = { 'Fn::Equals': [{ Ref: 'EnableQueue' }, 'yes'] };
+
+    // WHEN
+    const differences = fullDiff(template, newTemplate, undefined, false, {
+      resolveConditions: true,
+      currentParameters: { EnableQueue: 'true' },
+    });
+
+    // THEN
+    expect(differences.conditions.differenceCount).toBe(1);
+    expect(differences.resources.get('Queue')?.changeImpact).toBe(ResourceImpact.WILL_DESTROY);
+  });
+
+  test('templates are compared as-is by default', () => {
+    // GIVEN
+    const newTemplate = JSON.parse(JSON.stringify(template));
+    newTemplate.Conditions.QueueEnabled = { 'Fn::Equals': [{ Ref: 'EnableQueue' }, 'yes'] };
+
+    // WHEN
+    const differences = fullDiff(template, newTemplate);
+
+    // THEN
+    expect(differences.differenceCount).toBe(1);
+    expect(differences.resources.differenceCount).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { effectiveTemplate } from '../lib/effective-template';
+
+const TEMPLATE = {
+  Parameters: {
+    Stage: { Type: 'String', Default: 'dev' },
+    Subnets: { Type: 'CommaDelimitedList' },
+  },
+  Mappings: {
+    StageConfig: {
+      dev: { InstanceType: 't3.micro' },
+      prod: { InstanceType: 'm5.large' },
+    },
+  },
+  Conditions: {
+    IsProd: { 'Fn::Equals': [{ Ref: 'Stage' }, 'prod'] },
+    IsNotProd: { 'Fn::Not': [{ Condition: 'IsProd' }] },
+    HasSubnets: { 'Fn::Not': [{ 'Fn::Equals': [{ 'Fn::Join': [',', { Ref: 'Subnets' }] }, ''] }] },
+    ProdWithSubnets: { 'Fn::And': [{ Condition: 'IsProd' }, { Condition: 'HasSubnets' }] },
+  },
+  Resources: {
+    Instance: {
+      Type: 'AWS::EC2::Instance',
+      Properties: {
+        InstanceType: { 'Fn::FindInMap': ['StageConfig', { Ref: 'Stage' }, 'InstanceType'] },
+        Monitoring: { 'Fn::If': ['IsProd', true, { Ref: 'AWS::NoValue' }] },
+        SecurityGroups: [{ Ref: 'Group' }, { 'Fn::If': ['IsProd', { Ref: 'ProdGroup' }, { Ref: 'AWS::NoValue' }] }],
+      },
+    },
+    Alarm: {
+      Type: 'AWS::CloudWatch::Alarm',
+      Condition: 'IsProd',
+    },
+    Endpoint: {
+      Type: 'AWS::EC2::VPCEndpoint',
+      Condition: 'ProdWithSubnets',
+    },
+  },
+  Outputs: {
+    AlarmName: {
+      Condition: 'IsProd',
+      Value: { Ref: 'Alarm' },
+    },
+  },
+};
+
+test('uses the defaults of parameters', () => {
+  // WHEN
+  const template = effectiveTemplate(TEMPLATE);
+
+  // THEN
+  expect(template.Resources).toEqual({
+    Instance: {
+      Type: 'AWS::EC2::Instance',
+      Properties: {
+        InstanceType: 't3.micro',
+        SecurityGroups: [{ Ref: 'Group' }],
+      },
+    },
+  });
+  expect(template.Outputs).toEqual({});
+});
+
+test('evaluates conditions and mappings with the given parameter values', () => {
+  // WHEN
+  const template = effectiveTemplate(TEMPLATE, { Stage: 'prod', Subnets: 'subnet-1,subnet-2' });
+
+  // THEN
+  expect(template.Resources).toEqual({
+    Instance: {
+      Type: 'AWS::EC2::Instance',
+      Properties: {
+        InstanceType: 'm5.large',
+        Monitoring: true,
+        SecurityGroups: [{ Ref: 'Group' }, { Ref: 'ProdGroup' }],
+      },
+    },
+    Alarm: { Type: 'AWS::CloudWatch::Alarm' },
+    Endpoint: { Type: 'AWS::EC2::VPCEndpoint' },
+  });
+  expect(template.Outputs).toEqual({ AlarmName: { Value: { Ref: 'Alarm' } } });
+});
+
+test('leaves conditions in place that depend on unknown values', () => {
+  // WHEN
+  const template = effectiveTemplate({
+    Conditions: {
+      InRegion: { 'Fn::Equals': [{ Ref: 'AWS::Region' }, 'us-east-1'] },
+      Never: { 'Fn::And': [{ Condition: 'InRegion' }, { 'Fn::Equals': ['a', 'b'] }] },
+    },
+    Resources: {
+      Topic: { Type: 'AWS::SNS::Topic', Condition: 'InRegion' },
+      Queue: { Type: 'AWS::SQS::Queue', Condition: 'Never' },
+    },
+  });
+
+  // THEN
+  expect(template.Resources).toEqual({
+    Topic: { Type: 'AWS::SNS::Topic', Condition: 'InRegion' },
+  });
+});
+
+test('keeps AWS::NoValue in conditions that depend on unknown values', () => {
+  // WHEN
+  const template = effectiveTemplate({
+    Conditions: {
+      InRegion: { 'Fn::Equals': [{ Ref: 'AWS::Region' }, 'us-east-1'] },
+      Never: { 'Fn::Equals': ['a', 'b'] },
+    },
+    Resources: {
+      Bucket: {
+        Type: 'AWS::S3::Bucket',
+        Properties: {
+          BucketName: { 'Fn::If': ['InRegion', 'name', { Ref: 'AWS::NoValue' }] },
+          Tags: [{ 'Fn::If': ['InRegion', { 'Fn::If': ['Never', 'tag', { Ref: 'AWS::NoValue' }] }, 'other'] }],
+        },
+      },
+    },
+  });
+
+  // THEN
+  expect(template.Resources.Bucket.Properties).toEqual({
+    BucketName: { 'Fn::If': ['InRegion', 'name', { Ref: 'AWS::NoValue' }] },
+    Tags: [{ 'Fn::If': ['InRegion', { Ref: 'AWS::NoValue' }, 'other'] }],
+  });
+});
+
+test('pseudo parameters can be given as parameter values', () => {
+  // WHEN
+  const template = effectiveTemplate({
+    Conditions: {
+      InRegion: { 'Fn::Equals': [{ Ref: 'AWS::Region' }, 'us-east-1'] },
+    },
+    Resources: {
+      Topic: { Type: 'AWS::SNS::Topic', Condition: 'InRegion' },
+    },
+  }, { 'AWS::Region': 'eu-west-1' });
+
+  // THEN
+  expect(template.Resources).toEqual({});
+});
+
+test('does not modify the template', () => {
+  // GIVEN
+  const copy = JSON.parse(JSON.stringify(TEMPLATE));
+
+  // WHEN
+  effectiveTemplate(TEMPLATE, { Stage: 'prod' });
+
+  // THEN
+  expect(TEMPLATE).toEqual(copy);
+});
@@ -0,0 +1,148 @@
+import { fullDiff, ResourceImpact, templateDiffToJson } from '../lib';
+
+test('empty diff results in empty sections', () => {
+  const json = templateDiffToJson(fullDiff({}, {}));
+
+  expect(json).toEqual({
+    isEmpty: true,
+    differenceCount: 0,
+    template: [],
+    parameters: [],
+    metadata: [],
+    mappings: [],
+    conditions: [],
+    resources: [],
+    outputs: [],
+    other: [],
+    security: {
+      permissionsBroadened: false,
+      opensToInternet: false,
+      iam: {},
+      securityGroups: {},
+      network: {},
+    },
+  });
+});
+
+test('resource changes include type, path and replacement impact', () => {
+  // GIVEN
+  const oldTemplate = {
+    Resources: {
+      Queue: {
+        Type: 'AWS::SQS::Queue',
+        Properties: { QueueName: 'old-name', VisibilityTimeout: 30 },
+      },
+      Topic: {
+        Type: 'AWS::SNS::Topic',
+      },
+    },
+  };
+  const newTemplate = {
+    Resources: {
+      Queue: {
+        Type: 'AWS::SQS::Queue',
+        Properties: { QueueName: 'new-name', VisibilityTimeout: 60 },
+        Metadata: { 'aws:cdk:path': 'Stack/Queue/Resource' },
+      },
+      Bucket: {
+        Type: 'AWS::S3::Bucket',
+      },
+    },
+  };
+
+  // WHEN
+  const json = templateDiffToJson(fullDiff(oldTemplate, newTemplate), { Topic: '/Stack/Topic/Resource' });
+
+  // THEN
+  expect(json.isEmpty).toBe(false);
+  expect(json.resources.map(r => r.logicalId)).toEqual(['Bucket', 'Queue', 'Topic']);
+  expect(json.resources[0]).toEqual(expect.objectContaining({
+    changeType: 'ADD',
+    resourceType: 'AWS::S3::Bucket',
+    impact: ResourceImpact.WILL_CREATE,
+  }));
+  expect(json.resources[1]).toEqual(expect.objectContaining({
+    path: 'Stack/Queue/Resource',
+    changeType: 'UPDATE',
+    resourceType: 'AWS::SQS::Queue',
+    impact: ResourceImpact.WILL_REPLACE,
+    propertyChanges: [
+      { name: 'QueueName', changeType: 'UPDATE', oldValue: 'old-name', newValue: 'new-name', impact: ResourceImpact.WILL_REPLACE },
+      { name: 'VisibilityTimeout', changeType: 'UPDATE', oldValue: 30, newValue: 60, impact: ResourceImpact.WILL_UPDATE },
+    ],
+    otherChanges: [
+      { name: 'Metadata', changeType: 'ADD', newValue: { 'aws:cdk:path': 'Stack/Queue/Resource' } },
+    ],
+  }));
+  expect(json.resources[2]).toEqual(expect.objectContaining({
+    path: 'Stack/Topic/Resource',
+    changeType: 'REMOVE',
+    impact: ResourceImpact.WILL_DESTROY,
+  }));
+});
+
+test('resource type changes report the old type', () => {
+  const json = templateDiffToJson(fullDiff(
+    { Resources: { Res: { Type: 'AWS::SQS::Queue' } } },
+    { Resources: { Res: { Type: 'AWS::SNS::Topic' } } },
+  ));
+
+  expect(json.resources[0]).toEqual(expect.objectContaining({
+    resourceType: 'AWS::SNS::Topic',
+    oldResourceType: 'AWS::SQS::Queue',
+  }));
+});
+
+test('parameters, outputs and template sections are reported', () => {
+  const json = templateDiffToJson(fullDiff(
+    {
+      Description: 'old',
+      Parameters: { Param: { Type: 'String' } },
+    },
+    {
+      Description: 'new',
+      Outputs: { Out: { Value: 'value' } },
+    },
+  ));
+
+  expect(json.template).toEqual([
+    { logicalId: 'Description', changeType: 'UPDATE', oldValue: 'old', newValue: 'new' },
+  ]);
+  expect(json.parameters).toEqual([
+    { logicalId: 'Param', changeType: 'REMOVE', oldValue: { Type: 'String' }, newValue: undefined },
+  ]);
+  expect(json.outputs).toEqual([
+    { logicalId: 'Out', changeType: 'ADD', oldValue: undefined, newValue: { Value: 'value' } },
+  ]);
+});
+
+test('security changes are included', () => {
+  const json = templateDiffToJson(fullDiff({}, {
+    Resources: {
+      Policy: {
+        Type: 'AWS::IAM::Policy',
+        Properties: {
+          PolicyName: 'Policy',
+          Roles: ['MyRole'],
+          PolicyDocument: {
+            Statement: [{ Effect: 'Allow', Action: 's3:GetObject', Resource: '*' }],
+          },
+        },
+      },
+    },
+  }));
+
+  expect(json.security.permissionsBroadened).toBe(true);
+  expect(json.security.iam).toEqual({
+    statementAdditions: [{
+      type: 'parsed',
+      value: {
+        effect: 'Allow',
+        actions: { not: false, values: ['s3:GetObject'] },
+        resources: { not: false, values: ['*'] },
+        principals: { not: false, values: ['AWS:MyRole'] },
+      },
+    }],
+  });
+  expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+});
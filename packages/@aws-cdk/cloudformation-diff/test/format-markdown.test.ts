@@ -0,0 +1,156 @@
+import { formatDifferencesHtml, formatDifferencesMarkdown, formatHtmlReport, fullDiff } from '../lib';
+
+const OLD_TEMPLATE = {
+  Resources: {
+    Queue: {
+      Type: 'AWS::SQS::Queue',
+      Properties: { QueueName: 'old-name', Tags: [{ Key: 'team', Value: 'a' }] },
+    },
+    Topic: {
+      Type: 'AWS::SNS::Topic',
+    },
+  },
+};
+
+const NEW_TEMPLATE = {
+  Resources: {
+    Queue: {
+      Type: 'AWS::SQS::Queue',
+      Properties: { QueueName: 'new-name', Tags: [{ Key: 'team', Value: 'b' }] },
+    },
+    Role: {
+      Type: 'AWS::IAM::Role',
+      Properties: {
+        AssumeRolePolicyDocument: {
+          Statement: [{ Effect: 'Allow', Action: 'sts:AssumeRole', Principal: { Service: 'lambda.amazonaws.com' } }],
+        },
+      },
+    },
+  },
+};
+
+describe('markdown', () => {
+  test('renders a collapsible section per stack', () => {
+    // WHEN
+    const markdown = formatDifferencesMarkdown(fullDiff(OLD_TEMPLATE, NEW_TEMPLATE), {
+      stackName: 'MyStack',
+      logicalToPathMap: { Role: '/MyStack/Role/Resource' },
+    });
+
+    // THEN
+    expect(markdown.startsWith('<details>\n<summary><b>MyStack</b> (3 changes)</summary>\n')).toBe(true);
+    expect(markdown.endsWith('</details>\n')).toBe(true);
+  });
+
+  test('renders IAM changes as a table', () => {
+    // WHEN
+    const markdown = formatDifferencesMarkdown(fullDiff(OLD_TEMPLATE, NEW_TEMPLATE), {
+      logicalToPathMap: { Role: '/MyStack/Role/Resource' },
+    });
+
+    // THEN
+    expect(markdown).toContain([
+      '#### IAM Statement Changes',
+      '',
+      '|  | Resource | Effect | Action | Principal | Condition |',
+      '| --- | --- | --- | --- | --- | --- |',
+      '| + | ${Role.Arn} | Allow | sts:AssumeRole | Service:lambda.amazonaws.com |  |',
+    ].join('\n'));
+    // no terminal colors
+    // eslint-disable-next-line no-control-regex
+    expect(markdown).not.toMatch(/\x1b\[/);
+  });
+
+  test('renders resource changes with diffs of the changed properties', () => {
+    // WHEN
+    const markdown = formatDifferencesMarkdown(fullDiff(OLD_TEMPLATE, NEW_TEMPLATE), {
+      logicalToPathMap: { Role: '/MyStack/Role/Resource' },
+    });
+
+    // THEN
+    expect(markdown).toContain([
+      '#### Resources',
+      '',
+      '- `[~]` `AWS::SQS::Queue` `Queue` **replace**',
+      '  - `[~]` `QueueName` (requires replacement)',
+      '    ```diff',
+      '    - old-name',
+      '    + new-name',
+      '    ```',
+      '  - `[~]` `Tags`',
+      '    ```diff',
+      '      [',
+      '        {',
+      '          "Key": "team",',
+      '    -     "Value": "a"',
+      '    +     "Value": "b"',
+      '        }',
+      '      ]',
+      '    ```',
+      '- `[+]` `AWS::IAM::Role` Role `Role`',
+      '- `[-]` `AWS::SNS::Topic` `Topic` **destroy**',
+    ].join('\n'));
+  });
+
+  test('escapes table cells', () => {
+    // WHEN
+    const markdown = formatDifferencesMarkdown(fullDiff({}, {
+      Resources: {
+        Policy: {
+          Type: 'AWS::IAM::Policy',
+          Properties: {
+            PolicyDocument: {
+              Statement: [{ Effect: 'Allow', Action: ['s3:GetObject', 's3:PutObject'], Resource: 'arn:aws:s3:::bucket/<key>|*' }],
+            },
+            Roles: [{ Ref: 'Role' }],
+          },
+        },
+      },
+    }));
+
+    // THEN
+    expect(markdown).toContain('| + | arn:aws:s3:::bucket/&lt;key&gt;\\|* | Allow | s3:GetObject<br>s3:PutObject |');
+  });
+
+  test('empty diff', () => {
+    expect(formatDifferencesMarkdown(fullDiff({}, {}), { stackName: 'MyStack' })).toEqual([
+      '<details>',
+      '<summary><b>MyStack</b> (0 changes)</summary>',
+      '',
+      'There were no differences',
+      '',
+      '</details>',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('html', () => {
+  test('renders the same content as markdown', () => {
+    // WHEN
+    const html = formatDifferencesHtml(fullDiff(OLD_TEMPLATE, NEW_TEMPLATE), { stackName: 'MyStack' });
+
+    // THEN
+    expect(html).toContain('<summary><b>MyStack</b> (3 changes)</summary>');
+    expect(html).toContain('<h3>IAM Statement Changes</h3>');
+    expect(html).toContain('<tr class="add"><td>+</td><td>${Role.Arn}</td><td>Allow</td><td>sts:AssumeRole</td><td>Service:lambda.amazonaws.com</td><td></td></tr>');
+    expect(html).toContain('<li><span class="update">[~]</span> <code>AWS::SQS::Queue</code> <code>Queue</code> <span class="impact">replace</span>');
+    expect(html).toContain('<pre><span class="remove">- old-name</span>\n<span class="add">+ new-name</span></pre>');
+    expect(html).toContain('<span class="add">+     &quot;Value&quot;: &quot;b&quot;</span>');
+  });
+
+  test('report is a standalone document', () => {
+    // WHEN
+    const report = formatHtmlReport([
+      formatDifferencesHtml(fullDiff(OLD_TEMPLATE, NEW_TEMPLATE), { stackName: 'Stack1' }),
+      formatDifferencesHtml(fullDiff({}, {}), { stackName: 'Stack2' }),
+    ], { title: 'Diff <report>' });
+
+    // THEN
+    expect(report.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true);
+    expect(report).toContain('<title>Diff &lt;report&gt;</title>');
+    expect(report).toContain('<summary><b>Stack1</b> (3 changes)</summary>');
+    expect(report).toContain('<summary><b>Stack2</b> (0 changes)</summary>\n<p>There were no differences</p>');
+    expect(report.endsWith('</html>\n')).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import { fullDiff } from '../../lib';
+import type { Statement } from '../../lib/iam/statement';
+import { poldoc, policy, resource, template } from '../util';
+
+test('splitting a statement into two does not change permissions', () => {
+  // WHEN
+  const diff = fullDiff(policyTemplate({
+    Effect: 'Allow',
+    Action: ['s3:GetObject', 's3:PutObject'],
+    Resource: ['arn:bucket/a', 'arn:bucket/b'],
+  }), policyTemplate({
+    Effect: 'Allow',
+    Action: 's3:PutObject',
+    Resource: ['arn:bucket/b', 'arn:bucket/a'],
+  }, {
+    Sid: 'Read',
+    Effect: 'Allow',
+    Action: 's3:GetObject',
+    Resource: ['arn:bucket/a', 'arn:bucket/b'],
+  }));
+
+  // THEN
+  expect(diff.iamChanges.hasChanges).toBe(false);
+  expect(diff.iamChanges.permissionsBroadened).toBe(false);
+});
+
+test('merging statements and reordering actions does not change permissions', () => {
+  // WHEN
+  const diff = fullDiff(policyTemplate({
+    Effect: 'Allow',
+    Action: 'sqs:SendMessage',
+    Resource: 'arn:queue',
+  }, {
+    Effect: 'Allow',
+    Action: 'sqs:ReceiveMessage',
+    Resource: 'arn:queue',
+  }), policyTemplate({
+    Effect: 'Allow',
+    Action: ['SQS:receivemessage', 'sqs:SendMessage', 'sqs:SendMessage'],
+    Resource: 'arn:queue',
+  }));
+
+  // THEN
+  expect(diff.iamChanges.hasChanges).toBe(false);
+});
+
+test('only reports the permissions that were granted', () => {
+  // WHEN
+  const diff = fullDiff(policyTemplate({
+    Effect: 'Allow',
+    Action: ['s3:GetObject', 's3:ListBucket'],
+    Resource: 'arn:bucket',
+  }), policyTemplate({
+    Effect: 'Allow',
+    Action: ['s3:GetObject', 's3:ListBucket', 's3:PutObject'],
+    Resource: 'arn:bucket',
+  }));
+
+  // THEN
+  expect(diff.iamChanges.statements.removals).toEqual([]);
+  expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([{
+    effect: 'Allow',
+    resources: { not: false, values: ['arn:bucket'] },
+    principals: { not: false, values: ['AWS:${MyRole}'] },
+    actions: { not: false, values: ['s3:PutObject'] },
+  }]);
+  expect(diff.iamChanges.permissionsBroadened).toBe(true);
+});
+
+test('merges the granted and revoked permissions into statements', () => {
+  // WHEN
+  const diff = fullDiff(policyTemplate({
+    Effect: 'Allow',
+    Action: ['s3:GetObject', 's3:DeleteObject'],
+    Resource: ['arn:bucket/a', 'arn:bucket/b'],
+  }), policyTemplate({
+    Effect: 'Allow',
+    Action: ['s3:GetObject', 's3:PutObject'],
+    Resource: ['arn:bucket/a', 'arn:bucket/b', 'arn:bucket/c'],
+  }));
+
+  // THEN
+  expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([
+    {
+      effect: 'Allow',
+      resources: { not: false, values: ['arn:bucket/c'] },
+      principals: { not: false, values: ['AWS:${MyRole}'] },
+      actions: { not: false, values: ['s3:GetObject', 's3:PutObject'] },
+    },
+    {
+      effect: 'Allow',
+      resources: { not: false, values: ['arn:bucket/a', 'arn:bucket/b'] },
+      principals: { not: false, values: ['AWS:${MyRole}'] },
+      actions: { not: false, values: ['s3:PutObject'] },
+    },
+  ]);
+  expect(statementsJson(diff.iamChanges.statements.removals)).toEqual([{
+    effect: 'Allow',
+    resources: { not: false, values: ['arn:bucket/a', 'arn:bucket/b'] },
+    principals: { not: false, values: ['AWS:${MyRole}'] },
+    actions: { not: false, values: ['s3:DeleteObject'] },
+  }]);
+});
+
+test('statements with different conditions grant different permissions', () => {
+  // WHEN
+  const diff = fullDiff(policyTemplate({
+    Effect: 'Allow',
+    Action: 's3:GetObject',
+    Resource: 'arn:bucket',
+    Condition: { StringEquals: { 'aws:PrincipalTag/team': ['a', 'b'] } },
+  }), policyTemplate({
+    Effect: 'Allow',
+    Action: 's3:GetObject',
+    Resource: 'arn:bucket',
+  }, {
+    Effect: 'Allow',
+    Action: 's3:GetObject',
+    Resource: 'arn:bucket',
+    Condition: { StringEquals: { 'aws:PrincipalTag/team': ['b', 'a'] } },
+  }));
+
+  // THEN
+  expect(diff.iamChanges.statements.removals).toEqual([]);
+  expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([{
+    effect: 'Allow',
+    resources: { not: false, values: ['arn:bucket'] },
+    principals: { not: false, values: ['AWS:${MyRole}'] },
+    actions: { not: false, values: ['s3:GetObject'] },
+  }]);
+});
+
+test('negated targets are compared as a whole', () => {
+  // WHEN
+  const diff = fullDiff(policyTemplate({
+    Effect: 'Deny',
+    NotAction: ['iam:*', 'sts:*'],
+    Resource: 'arn:a',
+  }), policyTemplate({
+    Effect: 'Deny',
+    NotAction: ['sts:*'],
+    Resource: 'arn:a',
+  }));
+
+  // THEN
+  expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([{
+    effect: 'Deny',
+    resources: { not: false, values: ['arn:a'] },
+    principals: { not: false, values: ['AWS:${MyRole}'] },
+    actions: { not: true, values: ['sts:*'] },
+  }]);
+  expect(statementsJson(diff.iamChanges.statements.removals)).toEqual([{
+    effect: 'Deny',
+    resources: { not: false, values: ['arn:a'] },
+    principals: { not: false, values: ['AWS:${MyRole}'] },
+    actions: { not: true, values: ['iam:*', 'sts:*'] },
+  }]);
+});
+
+test('an account ID is the same principal as the root user of the account', () => {
+  // WHEN
+  const diff = fullDiff(template({
+    BucketPolicy: resource('AWS::S3::BucketPolicy', {
+      Bucket: { Ref: 'MyBucket' },
+      PolicyDocument: poldoc({
+        Effect: 'Allow',
+        Action: 's3:GetObject',
+        Resource: '*',
+        Principal: { AWS: '123456789012' },
+      }),
+    }),
+  }), template({
+    BucketPolicy: resource('AWS::S3::BucketPolicy', {
+      Bucket: { Ref: 'MyBucket' },
+      PolicyDocument: poldoc({
+        Effect: 'Allow',
+        Action: 's3:GetObject',
+        Resource: '*',
+        Principal: { AWS: 'arn:aws:iam::123456789012:root' },
+      }),
+    }),
+  }));
+
+  // THEN
+  expect(diff.iamChanges.hasChanges).toBe(false);
+});
+
+function policyTemplate(...statements: any[]) {
+  return template({
+    MyPolicy: policy({
+      Roles: [{ Ref: 'MyRole' }],
+      PolicyDocument: poldoc(...statements),
+    }),
+  });
+}
+
+function statementsJson(statements: Statement[]) {
+  return statements.map(s => {
+    const json = s._toJson();
+    if (json.type !== 'parsed') {
+      throw new Error(`Expected parsed statement, found: "${json.repr}"`);
+    }
+    return json.value;
+  });
+}
@@ -0,0 +1,200 @@
+import { fullDiff } from '../../lib';
+import type { Statement } from '../../lib/iam/statement';
+import { stripColors } from '../../lib/util';
+import { poldoc, resource, template } from '../util';
+
+const PUBLIC_READ = {
+  Effect: 'Allow',
+  Principal: '*',
+  Action: 's3:GetObject',
+  Resource: { 'Fn::Join': ['', [{ 'Fn::GetAtt': ['MyBucket', 'Arn'] }, '/*']] },
+};
+
+test('a public bucket policy broadens permissions', () => {
+  // WHEN
+  const diff = fullDiff({}, template({
+    BucketPolicy: resource('AWS::S3::BucketPolicy', {
+      Bucket: { Ref: 'MyBucket' },
+      PolicyDocument: poldoc(PUBLIC_READ),
+    }),
+  }));
+
+  // THEN
+  expect(diff.permissionsBroadened).toBe(true);
+  expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([{
+    effect: 'Allow',
+    resources: { not: false, values: ['${MyBucket.Arn}/*'] },
+    principals: { not: false, values: ['*'] },
+    actions: { not: false, values: ['s3:GetObject'] },
+  }]);
+});
+
+test('making an existing bucket policy public broadens permissions', () => {
+  // WHEN
+  const diff = fullDiff(template({
+    BucketPolicy: resource('AWS::S3::BucketPolicy', {
+      Bucket: { Ref: 'MyBucket' },
+      PolicyDocument: poldoc({ ...PUBLIC_READ, Principal: { AWS: 'arn:aws:iam::123456789012:root' } }),
+    }),
+  }), template({
+    BucketPolicy: resource('AWS::S3::BucketPolicy', {
+      Bucket: { Ref: 'MyBucket' },
+      PolicyDocument: poldoc(PUBLIC_READ),
+    }),
+  }));
+
+  // THEN
+  expect(diff.permissionsBroadened).toBe(true);
+  expect(diff.iamChanges.summarizeStatements().map(row => row.map(stripColors))).toEqual([
+    ['', 'Resource', 'Effect', 'Action', 'Principal', 'Condition'],
+    ['+', '${MyBucket.Arn}/*', 'Allow', 's3:GetObject', '*', ''],
+    ['-', '${MyBucket.Arn}/*', 'Allow', 's3:GetObject', 'AWS:arn:aws:iam::123456789012:root', ''],
+  ]);
+});
+
+test.each([
+  ['AWS::SQS::QueuePolicy', { Queues: [{ Ref: 'MyQueue' }] }, '${MyQueue}'],
+  ['AWS::SQS::QueueInlinePolicy', { Queue: { Ref: 'MyQueue' } }, '${MyQueue}'],
+  ['AWS::SNS::TopicPolicy', { Topics: [{ Ref: 'MyTopic' }] }, '${MyTopic}'],
+])('%s statements are shown for the resources they apply to', (resourceType, target, expectedResource) => {
+  // WHEN
+  const diff = fullDiff({}, template({
+    Policy: resource(resourceType, {
+      ...target,
+      PolicyDocument: poldoc({
+        Effect: 'Allow',
+        Principal: { Service: 'events.amazonaws.com' },
+        Action: 'sqs:SendMessage',
+        Resource: '*',
+      }),
+    }),
+  }));
+
+  // THEN
+  expect(diff.permissionsBroadened).toBe(true);
+  expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([expect.objectContaining({
+    resources: { not: false, values: [expectedResource] },
+    principals: { not: false, values: ['Service:events.amazonaws.com'] },
+  })]);
+});
+
+test('KMS key policies are parsed, also when given as a string', () => {
+  const keyPolicy = poldoc({
+    Effect: 'Allow',
+    Principal: { AWS: '*' },
+    Action: 'kms:Decrypt',
+    Resource: '*',
+  });
+
+  for (const policy of [keyPolicy, JSON.stringify(keyPolicy)]) {
+    // WHEN
+    const diff = fullDiff({}, template({
+      MyKey: resource('AWS::KMS::Key', { KeyPolicy: policy }),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([{
+      effect: 'Allow',
+      resources: { not: false, values: ['${MyKey.Arn}'] },
+      principals: { not: false, values: ['AWS:*'] },
+      actions: { not: false, values: ['kms:Decrypt'] },
+    }]);
+  }
+});
+
+test('a policy string that is not JSON is shown as is', () => {
+  // WHEN
+  const diff = fullDiff({}, template({
+    MyKey: resource('AWS::KMS::Key', { KeyPolicy: 'not a policy' }),
+  }));
+
+  // THEN
+  expect(diff.iamChanges._toJson()).toEqual({
+    statementAdditions: [{ type: 'unparseable', repr: 'not a policy' }],
+  });
+});
+
+describe('Lambda function URLs', () => {
+  function functionUrl(authType: any) {
+    return template({
+      MyUrl: resource('AWS::Lambda::Url', {
+        AuthType: authType,
+        TargetFunctionArn: { 'Fn::GetAtt': ['MyFunction', 'Arn'] },
+      }),
+    });
+  }
+
+  test('without authentication broaden permissions', () => {
+    // WHEN
+    const diff = fullDiff({}, functionUrl('NONE'));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([{
+      effect: 'Allow',
+      resources: { not: false, values: ['${MyFunction.Arn}'] },
+      principals: { not: false, values: ['*'] },
+      actions: { not: false, values: ['lambda:InvokeFunctionUrl'] },
+      condition: { StringEquals: { 'lambda:FunctionUrlAuthType': 'NONE' } },
+    }]);
+  });
+
+  test('with IAM authentication do not grant permissions', () => {
+    // WHEN
+    const diff = fullDiff({}, functionUrl('AWS_IAM'));
+
+    // THEN
+    expect(diff.iamChanges.hasChanges).toBe(false);
+  });
+
+  test('switching to IAM authentication revokes public access', () => {
+    // WHEN
+    const diff = fullDiff(functionUrl('NONE'), functionUrl('AWS_IAM'));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(false);
+    expect(diff.iamChanges.statements.removals).toHaveLength(1);
+  });
+
+  test('with an auth type that is only known at deploy time are considered public', () => {
+    // WHEN
+    const diff = fullDiff({}, functionUrl({ Ref: 'AuthType' }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+  });
+
+  test('permissions include the auth type and organization as conditions', () => {
+    // WHEN
+    const diff = fullDiff({}, template({
+      MyPermission: resource('AWS::Lambda::Permission', {
+        Action: 'lambda:InvokeFunctionUrl',
+        FunctionName: { 'Fn::GetAtt': ['MyFunction', 'Arn'] },
+        Principal: '*',
+        FunctionUrlAuthType: 'NONE',
+        PrincipalOrgID: 'o-1234',
+      }),
+    }));
+
+    // THEN
+    expect(statementsJson(diff.iamChanges.statements.additions)).toEqual([expect.objectContaining({
+      condition: {
+        StringEquals: {
+          'aws:PrincipalOrgID': 'o-1234',
+          'lambda:FunctionUrlAuthType': 'NONE',
+        },
+      },
+    })]);
+  });
+});
+
+function statementsJson(statements: Statement[]) {
+  return statements.map(s => {
+    const json = s._toJson();
+    if (json.type !== 'parsed') {
+      throw new Error(`Expected parsed statement, found: "${json.repr}"`);
+    }
+    return json.value;
+  });
+}
@@ -0,0 +1,195 @@
+import { formatSecurityChanges, fullDiff } from '../../lib';
+import { stripColors } from '../../lib/util';
+import { poldoc, resource, template } from '../util';
+
+const PUBLIC_HTTPS = {
+  NetworkAclId: { Ref: 'MyAcl' },
+  RuleNumber: 100,
+  Egress: false,
+  RuleAction: 'allow',
+  Protocol: 6,
+  CidrBlock: '0.0.0.0/0',
+  PortRange: { From: 443, To: 443 },
+};
+
+describe('network ACL entries', () => {
+  test('allowing traffic from the internet broadens access', () => {
+    // WHEN
+    const diff = fullDiff({}, template({
+      Entry: resource('AWS::EC2::NetworkAclEntry', PUBLIC_HTTPS),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(diff.opensToInternet).toBe(true);
+    expect(diff.networkChanges.summarizeAclEntries().map(row => row.map(stripColors))).toEqual([
+      ['', 'Network ACL', 'Rule', 'Dir', 'Action', 'Protocol', 'Peer'],
+      ['+', '${MyAcl}', '100', 'In', 'allow', 'TCP 443', 'Everyone (IPv4)'],
+    ]);
+  });
+
+  test('allowing outbound traffic to the internet broadens access but does not open it', () => {
+    // WHEN
+    const diff = fullDiff({}, template({
+      Entry: resource('AWS::EC2::NetworkAclEntry', { ...PUBLIC_HTTPS, Egress: true, Protocol: -1, PortRange: undefined }),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(diff.opensToInternet).toBe(false);
+  });
+
+  test('removing a deny entry broadens access', () => {
+    // WHEN
+    const diff = fullDiff(template({
+      Entry: resource('AWS::EC2::NetworkAclEntry', { ...PUBLIC_HTTPS, RuleAction: 'deny', CidrBlock: '10.0.0.0/8' }),
+    }), {});
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(diff.opensToInternet).toBe(false);
+  });
+
+  test('changing an entry to an IPv6 block is shown as a replacement', () => {
+    // WHEN
+    const diff = fullDiff(template({
+      Entry: resource('AWS::EC2::NetworkAclEntry', { ...PUBLIC_HTTPS, CidrBlock: '10.0.0.0/8' }),
+    }), template({
+      Entry: resource('AWS::EC2::NetworkAclEntry', { ...PUBLIC_HTTPS, CidrBlock: undefined, Ipv6CidrBlock: '::/0' }),
+    }));
+
+    // THEN
+    expect(diff.opensToInternet).toBe(true);
+    expect(diff.networkChanges.summarizeAclEntries().map(row => row.map(stripColors))).toEqual([
+      ['', 'Network ACL', 'Rule', 'Dir', 'Action', 'Protocol', 'Peer'],
+      ['+', '${MyAcl}', '100', 'In', 'allow', 'TCP 443', 'Everyone (IPv6)'],
+      ['-', '${MyAcl}', '100', 'In', 'allow', 'TCP 443', '10.0.0.0/8'],
+    ]);
+  });
+});
+
+describe('prefix lists', () => {
+  test('only changed entries are shown', () => {
+    // WHEN
+    const diff = fullDiff(template({
+      PrefixList: resource('AWS::EC2::PrefixList', {
+        Entries: [{ Cidr: '10.0.0.0/16', Description: 'office' }, { Cidr: '10.1.0.0/16' }],
+      }),
+    }), template({
+      PrefixList: resource('AWS::EC2::PrefixList', {
+        Entries: [{ Cidr: '10.0.0.0/16', Description: 'main office' }, { Cidr: '0.0.0.0/0' }],
+      }),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(diff.opensToInternet).toBe(true);
+    expect(diff.networkChanges.summarizePrefixListEntries().map(row => row.map(stripColors))).toEqual([
+      ['', 'Prefix List', 'CIDR', 'Description'],
+      ['+', '${PrefixList}', 'Everyone (IPv4)', ''],
+      ['-', '${PrefixList}', '10.1.0.0/16', ''],
+    ]);
+  });
+
+  test('removing entries does not broaden access', () => {
+    // WHEN
+    const diff = fullDiff(template({
+      PrefixList: resource('AWS::EC2::PrefixList', { Entries: [{ Cidr: '10.0.0.0/16' }] }),
+    }), template({
+      PrefixList: resource('AWS::EC2::PrefixList', { Entries: [] }),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(false);
+    expect(diff.permissionsAnyChanges).toBe(true);
+  });
+});
+
+describe('VPC endpoint policies', () => {
+  test('an endpoint without a policy allows full access', () => {
+    // WHEN
+    const diff = fullDiff({}, template({
+      Endpoint: resource('AWS::EC2::VPCEndpoint', {
+        VpcId: { Ref: 'MyVpc' },
+        ServiceName: 'com.amazonaws.us-east-1.s3',
+      }),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(diff.networkChanges.summarizeEndpointPolicies().map(row => row.map(stripColors))).toEqual([
+      ['', 'Endpoint', 'Effect', 'Action', 'Resource', 'Principal', 'Condition'],
+      ['+', '${Endpoint}', 'Allow', '*', '*', '*', ''],
+    ]);
+  });
+
+  test('removing the policy of an endpoint broadens access', () => {
+    // WHEN
+    const diff = fullDiff(template({
+      Endpoint: resource('AWS::EC2::VPCEndpoint', {
+        ServiceName: 'com.amazonaws.us-east-1.s3',
+        PolicyDocument: poldoc({
+          Effect: 'Allow',
+          Principal: '*',
+          Action: 's3:GetObject',
+          Resource: 'arn:aws:s3:::my-bucket/*',
+        }),
+      }),
+    }), template({
+      Endpoint: resource('AWS::EC2::VPCEndpoint', {
+        ServiceName: 'com.amazonaws.us-east-1.s3',
+      }),
+    }));
+
+    // THEN
+    expect(diff.permissionsBroadened).toBe(true);
+    expect(diff.networkChanges.endpointPolicies.additions).toHaveLength(1);
+    expect(diff.networkChanges.endpointPolicies.removals).toHaveLength(1);
+    expect(diff.iamChanges.hasChanges).toBe(false);
+  });
+
+  test('endpoints without policy support are ignored', () => {
+    // WHEN
+    const diff = fullDiff({}, template({
+      Endpoint: resource('AWS::EC2::VPCEndpoint', {
+        ServiceName: 'com.amazonaws.vpce.us-east-1.vpce-svc-1234',
+        VpcEndpointType: 'GatewayLoadBalancer',
+      }),
+    }));
+
+    // THEN
+    expect(diff.networkChanges.hasChanges).toBe(false);
+  });
+});
+
+test('network changes are printed with a warning when they open access from the internet', () => {
+  // GIVEN
+  const diff = fullDiff({}, template({
+    Entry: resource('AWS::EC2::NetworkAclEntry', PUBLIC_HTTPS),
+  }));
+  let output = '';
+  const stream = { columns: 120, write: (chunk: string) => output += chunk } as any;
+
+  // WHEN
+  formatSecurityChanges(stream, diff);
+
+  // THEN
+  expect(stripColors(output)).toContain('Network ACL Changes');
+  expect(stripColors(output)).toContain('(!) These changes open network access from the internet (0.0.0.0/0 or ::/0)');
+});
+
+test('security group rules from the internet open network access', () => {
+  // WHEN
+  const diff = fullDiff({}, template({
+    Ingress: resource('AWS::EC2::SecurityGroupIngress', {
+      GroupId: { Ref: 'MyGroup' },
+      IpProtocol: 'tcp',
+      FromPort: 22,
+      ToPort: 22,
+      CidrIpv6: '::/0',
+    }),
+  }));
+
+  // THEN
+  expect(diff.opensToInternet).toBe(true);
+});
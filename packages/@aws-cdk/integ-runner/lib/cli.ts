@@ -4,10 +4,13 @@ import * as path from 'path';
 import * as chalk from 'chalk';
 import * as workerpool from 'workerpool';
 import * as logger from './logger';
+import type { AssertionBackendType } from './runner/assertion-backend';
 import type { IntegTest, IntegTestInfo } from './runner/integration-tests';
 import { IntegrationTests } from './runner/integration-tests';
-import type { IntegRunnerMetrics, IntegTestWorkerConfig, DestructiveChange } from './workers';
-import { runSnapshotTests, runIntegrationTests } from './workers';
+import { Quarantine } from './runner/quarantine';
+import { parseShard, shardTests, TestDurations } from './runner/test-scheduling';
+import type { IntegRunnerMetrics, IntegTestWorkerConfig, DestructiveChange, TestReportFormat } from './workers';
+import { runSnapshotTests, runIntegrationTests, reviewSnapshots, TestReport } from './workers';
 import { watchIntegrationTest } from './workers/integ-watch-worker';
 
 // https://github.com/yargs/yargs/issues/1929
@@ -29,8 +32,10 @@ export function parseCliArgs(args: string[] = []) {
     .option('clean', { type: 'boolean', default: true, desc: 'Skips stack clean up after test is completed (use --no-clean to negate)' })
     .option('verbose', { type: 'boolean', default: false, alias: 'v', count: true, desc: 'Verbose logs and metrics on integration tests durations (specify multiple times to increase verbosity)' })
     .option('dry-run', { type: 'boolean', default: false, desc: 'do not actually deploy the stack. just update the snapshot (not recommended!)' })
+    .option('assertion-backend', { type: 'string', choices: ['deploy', 'offline'], default: 'deploy', desc: 'How assertions are evaluated. "offline" evaluates them against recorded API responses instead of deploying the stacks' })
     .option('update-on-failed', { type: 'boolean', default: false, desc: 'rerun integration tests and update snapshots for failed tests.' })
     .option('force', { type: 'boolean', default: false, desc: 'Rerun all integration tests even if tests are passing' })
+    .option('review', { type: 'boolean', default: false, desc: 'Interactively review changed snapshots and write the accepted ones, without deploying' })
     .option('parallel-regions', { type: 'array', desc: 'Tests are run in parallel across these regions. To prevent tests from running in parallel, provide only a single region', default: [] })
     .options('directory', { type: 'string', default: 'test', desc: 'starting directory to discover integration tests. Tests will be discovered recursively from this directory' })
     .options('profiles', { type: 'array', desc: 'list of AWS profiles to use. Tests will be run in parallel across each profile+regions', default: [] })
@@ -49,6 +54,12 @@ export function parseCliArgs(args: string[] = []) {
     })
     .option('app', { type: 'string', default: undefined, desc: 'The custom CLI command that will be used to run the test files. You can include {filePath} to specify where in the command the test file path should be inserted. Example: --app="python3.8 {filePath}".' })
     .option('test-regex', { type: 'array', desc: 'Detect integration test files matching this JavaScript regex pattern. If used multiple times, all files matching any one of the patterns are detected.', default: [] })
+    .option('reporter', { type: 'string', choices: ['junit', 'json'], desc: 'Write the test results to the file given by --report-file in this format' })
+    .option('report-file', { type: 'string', desc: 'The file to write the test results to. Requires --reporter' })
+    .option('retries', { type: 'number', default: 0, desc: 'Retry integration test cases that fail with a transient error this many times, unless the test case configures its own retries' })
+    .option('quarantine-file', { type: 'string', desc: 'A file listing known-flaky tests (one TEST per line). They are run, but their failures are reported separately and don\'t fail the run' })
+    .option('shard', { type: 'string', desc: 'Only run this shard of the discovered tests, in the form N/M. Tests are split across shards by their expected duration' })
+    .option('durations-file', { type: 'string', desc: 'Record integration test durations in this file, and use them to run the longest tests first and to balance shards' })
     .strict()
     .parse(args);
 
@@ -66,6 +77,24 @@ export function parseCliArgs(args: string[] = []) {
     logger.warning('You are attempting to run %s tests in parallel, but only have %s workers. Not all of your profiles+regions will be utilized', numTests, maxWorkers);
   }
 
+  const reporter: TestReportFormat | undefined = argv.reporter;
+  const reportFile: string | undefined = argv['report-file'];
+  if (!!reporter !== !!reportFile) {
+    throw new Error('"--reporter" and "--report-file" must be used together');
+  }
+
+  const retries: number = argv.retries;
+  if (!(retries >= 0)) {
+    throw new Error(`"--retries" must be a non-negative number, got ${argv.retries}`);
+  }
+
+  const review = argv.review as boolean;
+  if (review && (argv['update-on-failed'] || argv.force || argv.watch)) {
+    throw new Error('"--review" cannot be used together with "--update-on-failed", "--force" or "--watch"');
+  }
+
+  const shard = argv.shard !== undefined ? parseShard(argv.shard) : undefined;
+
   if (tests.length > 0 && fromFile) {
     throw new Error('A list of tests cannot be provided if "--from-file" is provided');
   }
@@ -91,17 +120,28 @@ export function parseCliArgs(args: string[] = []) {
     verbose,
     clean: argv.clean as boolean,
     force: argv.force as boolean,
+    review,
     dryRun: argv['dry-run'] as boolean,
+    assertionBackend: argv['assertion-backend'] as AssertionBackendType,
     disableUpdateWorkflow: argv['disable-update-workflow'] as boolean,
     language: arrayFromYargs(argv.language),
     watch: argv.watch as boolean,
+    reporter,
+    reportFile,
+    retries,
+    quarantineFile: argv['quarantine-file'] as (string | undefined),
+    shard,
+    durationsFile: argv['durations-file'] as (string | undefined),
   };
 }
 
 export async function main(args: string[]) {
   const options = parseCliArgs(args);
 
-  const testsFromArgs = await new IntegrationTests(path.resolve(options.directory)).fromCliOptions(options);
+  const durations = options.durationsFile ? TestDurations.load(options.durationsFile) : undefined;
+  const quarantine = options.quarantineFile ? Quarantine.load(options.quarantineFile) : undefined;
+  const discoveredTests = await new IntegrationTests(path.resolve(options.directory)).fromCliOptions(options);
+  const testsFromArgs = options.shard ? shardTests(discoveredTests, options.shard, durations) : discoveredTests;
 
   // List only prints the discovered tests
   if (options.list) {
@@ -109,11 +149,17 @@ export async function main(args: string[]) {
     return;
   }
 
+  if (options.review && !process.stdin.isTTY) {
+    throw new Error('"--review" requires an interactive terminal');
+  }
+
   const pool = workerpool.pool(path.join(__dirname, '..', 'lib', 'workers', 'extract', 'index.js'), {
     maxWorkers: options.watch ? 1 : options.maxWorkers,
   });
 
   const testsToRun: IntegTestWorkerConfig[] = [];
+  // The snapshot differences to review are taken from the report
+  const report = options.reporter || options.review ? new TestReport() : undefined;
   let destructiveChanges: boolean = false;
   let failedSnapshots: IntegTestWorkerConfig[] = [];
   let testsSucceeded = false;
@@ -131,7 +177,12 @@ export async function main(args: string[]) {
       failedSnapshots = await runSnapshotTests(pool, testsFromArgs, {
         retain: options.inspectFailures,
         verbose: options.verbose,
-      });
+      }, report);
+      if (options.review && report) {
+        const review = await reviewSnapshots(pool, failedSnapshots, report.entries);
+        report.acceptSnapshots(review.accepted);
+        failedSnapshots = review.rejected;
+      }
       for (const failure of failedSnapshots) {
         logger.warning(`Failed: ${failure.fileName}`);
         if (failure.destructiveChanges && failure.destructiveChanges.length > 0) {
@@ -159,12 +210,22 @@ export async function main(args: string[]) {
         profiles: options.profiles,
         clean: options.clean,
         dryRun: options.dryRun,
+        assertionBackend: options.assertionBackend,
+        retries: options.retries,
+        quarantine,
         verbosity: options.verbosity,
         updateWorkflow: !options.disableUpdateWorkflow,
         watch: options.watch,
+        report,
+        durations,
       });
       testsSucceeded = success;
 
+      if (durations && options.durationsFile && metrics.length > 0) {
+        durations.record(metrics, testsToRun);
+        durations.save(options.durationsFile);
+      }
+
       if (options.clean === false) {
         logger.warning('Not cleaning up stacks since "--no-clean" was used');
       }
@@ -187,6 +248,11 @@ export async function main(args: string[]) {
     }
   } finally {
     void pool.terminate();
+
+    if (report && options.reporter && options.reportFile) {
+      report.writeFile(options.reporter, options.reportFile);
+      logger.print('Test report written to %s', options.reportFile);
+    }
   }
 
   if (destructiveChanges) {
@@ -0,0 +1,140 @@
+import * as path from 'path';
+import type { DeployOptions, DestroyOptions, ICdk } from '@aws-cdk/cdk-cli-wrapper';
+import type { TestCase } from '@aws-cdk/cloud-assembly-schema';
+import * as fs from 'fs-extra';
+import { AssemblyManifestReader } from './private/cloud-assembly';
+import { evaluateAssertionStack, loadAssertionFixtures } from './private/offline-assertions';
+import { DEFAULT_SYNTH_OPTIONS } from './runner-base';
+
+/**
+ * The available assertion backends
+ *
+ * - `deploy`: deploy the test stacks and the assertion stack to AWS
+ * - `offline`: evaluate the assertions against recorded API responses, without deploying anything
+ */
+export type AssertionBackendType = 'deploy' | 'offline';
+
+/**
+ * The test case a backend deploys the stacks of
+ */
+export interface AssertionBackendContext {
+  /**
+   * The CDK CLI of the test
+   */
+  readonly cdk: ICdk;
+
+  /**
+   * The directory the CDK CLI is run in
+   */
+  readonly directory: string;
+
+  /**
+   * The name of the test case
+   */
+  readonly testCaseName: string;
+
+  /**
+   * The test case
+   */
+  readonly testCase: TestCase;
+}
+
+/**
+ * Deploys the stacks of an integration test case and produces its assertion results
+ */
+export interface AssertionBackend {
+  /**
+   * Whether this backend runs without deploying to AWS
+   *
+   * Offline runs skip the update workflow and don't update snapshots,
+   * since nothing was actually deployed.
+   */
+  readonly offline: boolean;
+
+  /**
+   * Deploy the stacks of a test case
+   */
+  deploy(context: AssertionBackendContext, options: DeployOptions): void;
+
+  /**
+   * Deploy the assertion stack of a test case, and write its
+   * outputs (including the assertion results) to `options.outputsFile`
+   */
+  deployAssertions(context: AssertionBackendContext, options: DeployOptions): void;
+
+  /**
+   * Destroy the stacks of a test case
+   */
+  destroy(context: AssertionBackendContext, options: DestroyOptions): void;
+}
+
+/**
+ * Deploys the stacks of test cases to AWS with the CDK CLI
+ */
+export class DeployAssertionBackend implements AssertionBackend {
+  public readonly offline = false;
+
+  public deploy(context: AssertionBackendContext, options: DeployOptions): void {
+    context.cdk.deploy(options);
+  }
+
+  public deployAssertions(context: AssertionBackendContext, options: DeployOptions): void {
+    context.cdk.deploy(options);
+  }
+
+  public destroy(context: AssertionBackendContext, options: DestroyOptions): void {
+    context.cdk.destroy(options);
+  }
+}
+
+/**
+ * Evaluates assertions against recorded API responses, without deploying anything
+ *
+ * The stacks are only synthesized. The API calls of the assertion stack are answered
+ * from a fixture file per test case, `<fixturesDir>/<testCaseName>.json`.
+ */
+export class OfflineAssertionBackend implements AssertionBackend {
+  public readonly offline = true;
+
+  constructor(private readonly fixturesDir: string) {
+  }
+
+  public deploy(context: AssertionBackendContext, options: DeployOptions): void {
+    context.cdk.synthFast({
+      execCmd: (options.app ?? '').split(' '),
+      env: {
+        ...DEFAULT_SYNTH_OPTIONS.env,
+        CDK_CONTEXT_JSON: JSON.stringify({
+          ...options.lookups ? DEFAULT_SYNTH_OPTIONS.context : {},
+          ...options.context,
+        }),
+      },
+      output: options.output,
+    });
+  }
+
+  public deployAssertions(context: AssertionBackendContext, options: DeployOptions): void {
+    const outDir = path.join(context.directory, options.output ?? '');
+    if (!fs.existsSync(path.join(outDir, AssemblyManifestReader.DEFAULT_FILENAME))) {
+      this.deploy(context, options);
+    }
+
+    const stackId = context.testCase.assertionStack!;
+    const template = AssemblyManifestReader.fromPath(outDir).stacks[stackId];
+    if (!template) {
+      throw new Error(`Assertion stack ${stackId} not found in ${outDir}`);
+    }
+
+    const fixtures = loadAssertionFixtures(path.join(this.fixturesDir, `${context.testCaseName}.json`));
+    const outputs = evaluateAssertionStack(template, fixtures);
+    if (options.outputsFile) {
+      fs.writeJsonSync(path.join(context.directory, options.outputsFile), {
+        [context.testCase.assertionStackName ?? stackId]: outputs,
+      }, { spaces: 2 });
+    }
+  }
+
+  public destroy(_context: AssertionBackendContext, _options: DestroyOptions): void {
+    // Nothing was deployed
+  }
+}
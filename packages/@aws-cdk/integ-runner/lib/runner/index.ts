@@ -3,3 +3,6 @@ export * from './integ-test-suite';
 export * from './integ-test-runner';
 export * from './snapshot-test-runner';
 export * from './integration-tests';
+export * from './test-scheduling';
+export * from './assertion-backend';
+export * from './quarantine';
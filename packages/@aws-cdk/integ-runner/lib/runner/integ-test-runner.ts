@@ -5,6 +5,8 @@ import { RequireApproval } from '@aws-cdk/cloud-assembly-schema';
 import * as chokidar from 'chokidar';
 import * as fs from 'fs-extra';
 import * as workerpool from 'workerpool';
+import type { AssertionBackend, AssertionBackendContext } from './assertion-backend';
+import { DeployAssertionBackend } from './assertion-backend';
 import type { IntegRunnerOptions } from './runner-base';
 import { IntegRunner, DEFAULT_SYNTH_OPTIONS } from './runner-base';
 import * as logger from '../logger';
@@ -68,14 +70,29 @@ export interface RunOptions extends CommonOptions {
   readonly updateWorkflow?: boolean;
 }
 
+/**
+ * Options for the integration test runner
+ */
+export interface IntegTestRunnerOptions extends IntegRunnerOptions {
+  /**
+   * How the test stacks are deployed and the assertions are evaluated
+   *
+   * @default - deploy to AWS
+   */
+  readonly assertionBackend?: AssertionBackend;
+}
+
 /**
  * An integration test runner that orchestrates executing
  * integration tests
  */
 export class IntegTestRunner extends IntegRunner {
-  constructor(options: IntegRunnerOptions, destructiveChanges?: DestructiveChange[]) {
+  private readonly assertionBackend: AssertionBackend;
+
+  constructor(options: IntegTestRunnerOptions, destructiveChanges?: DestructiveChange[]) {
     super(options);
     this._destructiveChanges = destructiveChanges;
+    this.assertionBackend = options.assertionBackend ?? new DeployAssertionBackend();
 
     // We don't want new tests written in the legacy mode.
     // If there is no existing snapshot _and_ this is a legacy
@@ -243,8 +260,8 @@ export class IntegTestRunner extends IntegRunner {
         });
       }
       // only create the snapshot if there are no failed assertion results
-      // (i.e. no failures)
-      if (!assertionResults || !Object.values(assertionResults).some(result => result.status === 'fail')) {
+      // (i.e. no failures), and the stacks were actually deployed
+      if (!this.assertionBackend.offline && (!assertionResults || !Object.values(assertionResults).some(result => result.status === 'fail'))) {
         this.createSnapshot();
       }
     } catch (e) {
@@ -284,7 +301,7 @@ export class IntegTestRunner extends IntegRunner {
           });
         });
       }
-      this.cdk.destroy({
+      this.assertionBackend.destroy(this.backendContext(testCaseName), {
         ...destroyArgs,
       });
 
@@ -458,13 +475,14 @@ export class IntegTestRunner extends IntegRunner {
       // then perform a deployment (which will be a stack update)
       // with the current integration test
       // We also only want to run the update workflow if there is an existing
-      // snapshot (otherwise there is nothing to update)
-      if (updateWorkflowEnabled && this.hasSnapshot() &&
+      // snapshot (otherwise there is nothing to update), and if the stacks
+      // are actually deployed
+      if (updateWorkflowEnabled && !this.assertionBackend.offline && this.hasSnapshot() &&
         (this.expectedTestSuite && testCaseName in this.expectedTestSuite?.testSuite)) {
         // make sure the snapshot is the latest from 'origin'
         this.checkoutSnapshot();
         const expectedTestCase = this.expectedTestSuite.testSuite[testCaseName];
-        this.cdk.deploy({
+        this.assertionBackend.deploy(this.backendContext(testCaseName), {
           ...deployArgs,
           stacks: expectedTestCase.stacks,
           ...expectedTestCase?.cdkCommandOptions?.deploy?.args,
@@ -474,7 +492,7 @@ export class IntegTestRunner extends IntegRunner {
         });
       }
       // now deploy the "actual" test.
-      this.cdk.deploy({
+      this.assertionBackend.deploy(this.backendContext(testCaseName), {
         ...deployArgs,
         lookups: this.actualTestSuite.enableLookups,
         stacks: [
@@ -493,7 +511,7 @@ export class IntegTestRunner extends IntegRunner {
       // assertions instead of failing at the first failed assertion
       // combining it with the above deployment would prevent any replacement updates
       if (actualTestCase.assertionStack) {
-        this.cdk.deploy({
+        this.assertionBackend.deployAssertions(this.backendContext(testCaseName), {
           ...deployArgs,
           lookups: this.actualTestSuite.enableLookups,
           stacks: [
@@ -532,6 +550,15 @@ export class IntegTestRunner extends IntegRunner {
     return;
   }
 
+  private backendContext(testCaseName: string): AssertionBackendContext {
+    return {
+      cdk: this.cdk,
+      directory: this.directory,
+      testCaseName,
+      testCase: this.actualTestSuite.testSuite[testCaseName],
+    };
+  }
+
   /**
    * Process the outputsFile which contains the assertions results as stack
    * outputs
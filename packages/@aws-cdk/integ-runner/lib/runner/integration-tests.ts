@@ -94,6 +94,12 @@ export class IntegTest {
    */
   public readonly temporaryOutputDir: string;
 
+  /**
+   * Path of the directory with the recorded API responses of this test,
+   * used to evaluate its assertions offline
+   */
+  public readonly fixturesDir: string;
+
   /**
    * The CLI command used to run this test.
    * If it contains {filePath}, the test file names will be substituted at that place in the command for each run.
@@ -125,6 +131,7 @@ export class IntegTest {
     this.normalizedTestName = parsed.name;
     this.snapshotDir = path.join(parsed.dir, `${parsed.base}.snapshot`);
     this.temporaryOutputDir = path.join(parsed.dir, `${CDK_OUTDIR_PREFIX}.${parsed.base}.snapshot`);
+    this.fixturesDir = path.join(parsed.dir, `${parsed.base}.fixtures`);
   }
 
   /**
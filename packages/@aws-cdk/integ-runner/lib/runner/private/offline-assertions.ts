@@ -0,0 +1,267 @@
+import * as fs from 'fs-extra';
+import type { AssertionResult } from '../../workers/common';
+
+/**
+ * A recorded response of an AWS API call, used to evaluate assertions offline
+ */
+export interface RecordedApiCall {
+  /**
+   * The service of the API call, e.g. `S3` or `@aws-sdk/client-s3`
+   */
+  readonly service: string;
+
+  /**
+   * The API call, e.g. `listObjectsV2` or `ListObjectsV2Command`
+   */
+  readonly api: string;
+
+  /**
+   * Only use this response if the API call was made with these parameters
+   *
+   * The parameters of the call can contain more keys than these.
+   *
+   * @default - the response is used for any parameters
+   */
+  readonly parameters?: Record<string, any>;
+
+  /**
+   * The response of the API call
+   *
+   * @default {}
+   */
+  readonly response?: any;
+
+  /**
+   * The error the API call failed with
+   *
+   * @default - the API call succeeded
+   */
+  readonly error?: string;
+}
+
+/**
+ * The recorded API responses of a single test case
+ */
+export interface AssertionFixtures {
+  readonly responses: RecordedApiCall[];
+}
+
+/**
+ * Read the recorded API responses of a test case from a fixture file
+ */
+export function loadAssertionFixtures(fileName: string): AssertionFixtures {
+  if (!fs.existsSync(fileName)) {
+    throw new Error(`No recorded API responses found, expected fixture file '${fileName}'`);
+  }
+  const fixtures = fs.readJsonSync(fileName);
+  if (!Array.isArray(fixtures?.responses)) {
+    throw new Error(`Invalid fixture file '${fileName}': expected a "responses" array`);
+  }
+  return fixtures;
+}
+
+const API_CALL_TYPE_PREFIX = 'Custom::DeployAssert@SdkCall';
+const ASSERT_EQUALS_TYPE = 'Custom::DeployAssert@AssertEquals';
+const ASSERTION_RESULTS_PREFIX = 'AssertionResults';
+
+/**
+ * Evaluate the assertion custom resources of an assertion stack template
+ * against recorded API responses
+ *
+ * Returns the stack outputs the assertion stack would have had if it was deployed.
+ * Fails the same way a deployment would, if an API call has no recorded response
+ * or its recorded response is an error.
+ */
+export function evaluateAssertionStack(template: any, fixtures: AssertionFixtures): Record<string, string> {
+  const resources: Record<string, any> = template?.Resources ?? {};
+  const attributes: Record<string, Record<string, any>> = {};
+
+  // Assertions on API calls reference the responses of other API calls, so evaluate those first
+  for (const [logicalId, resource] of Object.entries(resources)) {
+    if (typeof resource.Type === 'string' && resource.Type.startsWith(API_CALL_TYPE_PREFIX)) {
+      attributes[logicalId] = evaluateApiCall(resource.Properties ?? {}, fixtures);
+    }
+  }
+  for (const [logicalId, resource] of Object.entries(resources)) {
+    if (resource.Type === ASSERT_EQUALS_TYPE) {
+      const props = resource.Properties ?? {};
+      const result = assertMatches(decode(props.expected), resolve(props.actual, attributes));
+      attributes[logicalId] = { data: JSON.stringify(result) };
+    }
+  }
+
+  const outputs: Record<string, string> = {};
+  for (const [outputId, output] of Object.entries<any>(template?.Outputs ?? {})) {
+    if (!outputId.startsWith(ASSERTION_RESULTS_PREFIX)) {
+      continue;
+    }
+    const [logicalId, attribute] = output.Value?.['Fn::GetAtt'] ?? [];
+    const type = resources[logicalId]?.Type;
+    const value = attributes[logicalId]?.[attribute];
+    outputs[outputId] = value !== undefined ? value : JSON.stringify({
+      status: 'fail',
+      message: `Assertion ${logicalId} of type ${type} cannot be evaluated offline`,
+    });
+  }
+  return outputs;
+}
+
+function evaluateApiCall(props: any, fixtures: AssertionFixtures): Record<string, any> {
+  const parameters = decodeParameters(props.parameters ?? {});
+  const call = `${props.service}.${props.api}`;
+  const recorded = fixtures.responses.find(r =>
+    normalizeService(r.service) === normalizeService(props.service)
+    && normalizeApi(r.api) === normalizeApi(props.api)
+    && matches(r.parameters ?? {}, parameters, false).length === 0);
+
+  if (!recorded) {
+    throw new Error(`No recorded response for ${call} with parameters ${JSON.stringify(parameters)}`);
+  }
+  if (recorded.error) {
+    throw new Error(`${call} failed: ${recorded.error}`);
+  }
+
+  const response = recorded.response ?? {};
+  const flat = flatten({ apiCallResponse: response });
+  const attributes: Record<string, any> = { ...flat };
+  if (props.expected !== undefined) {
+    const actual = props.actualPath
+      ? flat[`apiCallResponse.${props.actualPath}`]
+      : (props.flattenResponse === 'true' ? flatten(response) : response);
+    attributes.assertion = JSON.stringify(assertMatches(decode(props.expected), actual));
+  }
+  return attributes;
+}
+
+function assertMatches(expected: any, actual: any): AssertionResult {
+  const mismatches = matches(expected, actual, true);
+  return mismatches.length === 0
+    ? { status: 'success' } as AssertionResult
+    : {
+      status: 'fail',
+      message: [
+        ...mismatches,
+        '',
+        `Expected: ${JSON.stringify(expected, undefined, 2)}`,
+        `Actual: ${JSON.stringify(actual, undefined, 2)}`,
+      ].join('\n'),
+    };
+}
+
+/**
+ * Match a value against an expected result, as created by `ExpectedResult` in integ-tests
+ *
+ * Returns the mismatches. Objects are matched exactly, unless `exact` is false.
+ */
+function matches(expected: any, actual: any, exact: boolean, at: string = '/'): string[] {
+  if (isMatcher(expected, '$ObjectLike')) {
+    return matches(expected.$ObjectLike, actual, false, at);
+  }
+  if (isMatcher(expected, '$ArrayWith')) {
+    if (!Array.isArray(actual)) {
+      return [`Expected an array at ${at}, got ${JSON.stringify(actual)}`];
+    }
+    let i = 0;
+    for (const element of expected.$ArrayWith) {
+      while (i < actual.length && matches(element, actual[i], false).length > 0) {
+        i++;
+      }
+      if (i === actual.length) {
+        return [`Could not find ${JSON.stringify(element)} in the array at ${at}`];
+      }
+      i++;
+    }
+    return [];
+  }
+  if (isMatcher(expected, '$StringLike')) {
+    return typeof actual === 'string' && new RegExp(expected.$StringLike).test(actual)
+      ? []
+      : [`Expected a string matching ${expected.$StringLike} at ${at}, got ${JSON.stringify(actual)}`];
+  }
+  if (isMatcher(expected, '$SerializedJson')) {
+    let parsed;
+    try {
+      parsed = JSON.parse(actual);
+    } catch {
+      return [`Expected serialized JSON at ${at}, got ${JSON.stringify(actual)}`];
+    }
+    return matches(expected.$SerializedJson, parsed, exact, at);
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [`Expected an array of ${expected.length} elements at ${at}, got ${JSON.stringify(actual)}`];
+    }
+    return expected.flatMap((element, i) => matches(element, actual[i], exact, `${at}${i}/`));
+  }
+  if (typeof expected === 'object' && expected !== null) {
+    if (typeof actual !== 'object' || actual === null || Array.isArray(actual)) {
+      return [`Expected an object at ${at}, got ${JSON.stringify(actual)}`];
+    }
+    const unexpected = exact ? Object.keys(actual).filter(key => !(key in expected)) : [];
+    return [
+      ...unexpected.map(key => `Unexpected key ${at}${key}`),
+      ...Object.entries(expected).flatMap(([key, value]) => key in actual
+        ? matches(value, actual[key], exact, `${at}${key}/`)
+        : [`Missing key ${at}${key}`]),
+    ];
+  }
+  return expected === actual ? [] : [`Expected ${JSON.stringify(expected)} at ${at}, got ${JSON.stringify(actual)}`];
+}
+
+function isMatcher(x: any, name: string): boolean {
+  return typeof x === 'object' && x !== null && !Array.isArray(x) && Object.keys(x).length === 1 && name in x;
+}
+
+/**
+ * Resolve a property of an assertion, which can reference the response of an API call
+ */
+function resolve(value: any, attributes: Record<string, Record<string, any>>): any {
+  const getAtt = typeof value === 'object' && value !== null ? value['Fn::GetAtt'] : undefined;
+  if (Array.isArray(getAtt)) {
+    const [logicalId, attribute] = getAtt;
+    if (!(logicalId in attributes)) {
+      throw new Error(`Cannot resolve ${JSON.stringify(value)} offline`);
+    }
+    return attributes[logicalId][attribute];
+  }
+  return decode(value);
+}
+
+/**
+ * Values of assertion properties are serialized as JSON
+ */
+function decode(value: any): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function decodeParameters(parameters: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(parameters).map(([key, value]) => [key, decode(value)]));
+}
+
+function flatten(object: any, prefix?: string): Record<string, any> {
+  const ret: Record<string, any> = {};
+  if (typeof object === 'object' && object !== null) {
+    for (const [key, value] of Object.entries(object)) {
+      Object.assign(ret, flatten(value, prefix !== undefined ? `${prefix}.${key}` : key));
+    }
+  } else if (prefix !== undefined) {
+    ret[prefix] = object;
+  }
+  return ret;
+}
+
+function normalizeService(service: string): string {
+  return service.replace(/^@aws-sdk\/client-/, '').replace(/-/g, '').toLowerCase();
+}
+
+function normalizeApi(api: string): string {
+  return api.replace(/Command$/, '').toLowerCase();
+}
@@ -0,0 +1,40 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import type { IntegTestInfo } from './integration-tests';
+
+/**
+ * Tests that are known to be flaky
+ *
+ * Quarantined tests are still run, but their failures are reported
+ * separately and don't fail the run.
+ */
+export class Quarantine {
+  /**
+   * Read a quarantine list file, with one test file name (relative to the
+   * test directory) per line. Empty lines and lines starting with `#` are ignored.
+   */
+  public static load(fileName: string): Quarantine {
+    const testNames = fs.readFileSync(fileName, { encoding: 'utf-8' })
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'));
+    return new Quarantine(testNames);
+  }
+
+  private readonly testNames: Set<string>;
+
+  constructor(testNames: string[]) {
+    this.testNames = new Set(testNames.map(normalize));
+  }
+
+  /**
+   * Whether the test is quarantined
+   */
+  public has(test: IntegTestInfo): boolean {
+    return this.testNames.has(normalize(path.relative(test.discoveryRoot, test.fileName)));
+  }
+}
+
+function normalize(fileName: string): string {
+  return fileName.split(path.sep).join('/');
+}
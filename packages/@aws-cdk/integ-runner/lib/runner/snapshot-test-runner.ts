@@ -54,12 +54,7 @@ export class IntegSnapshotRunner extends IntegRunner {
       // the cdkOutDir exists already, but for some reason generateActualSnapshot
       // generates an incorrect snapshot and I have no idea why so synth again here
       // to produce the "correct" snapshot
-      const env = {
-        ...DEFAULT_SYNTH_OPTIONS.env,
-        CDK_CONTEXT_JSON: JSON.stringify(this.getContext({
-          ...this.actualTestSuite.enableLookups ? DEFAULT_SYNTH_OPTIONS.context : {},
-        })),
-      };
+      const env = this.synthEnv();
       this.cdk.synthFast({
         execCmd: this.cdkApp.split(' '),
         env,
@@ -114,6 +109,33 @@ export class IntegSnapshotRunner extends IntegRunner {
     }
   }
 
+  /**
+   * Synth the integration test and save it as the new snapshot, without deploying it
+   *
+   * This is used to accept snapshot changes after they have been reviewed.
+   */
+  public updateSnapshot(): void {
+    try {
+      this.cdk.synthFast({
+        execCmd: this.cdkApp.split(' '),
+        env: this.synthEnv(),
+        output: path.relative(this.directory, this.cdkOutDir),
+      });
+      this.createSnapshot();
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  private synthEnv(): Record<string, string> {
+    return {
+      ...DEFAULT_SYNTH_OPTIONS.env,
+      CDK_CONTEXT_JSON: JSON.stringify(this.getContext({
+        ...this.actualTestSuite.enableLookups ? DEFAULT_SYNTH_OPTIONS.context : {},
+      })),
+    };
+  }
+
   /**
    * For a given cloud assembly return a collection of all templates
    * that should be part of the snapshot and any required meta data.
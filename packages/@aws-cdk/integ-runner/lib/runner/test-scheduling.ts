@@ -0,0 +1,124 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import type { IntegTest, IntegTestInfo } from './integration-tests';
+import type { IntegRunnerMetrics } from '../workers/common';
+
+/**
+ * A shard of the discovered tests, to split the tests over multiple machines
+ */
+export interface Shard {
+  /**
+   * The 1-based index of this shard
+   */
+  readonly index: number;
+
+  /**
+   * The total number of shards
+   */
+  readonly total: number;
+}
+
+/**
+ * Parse a shard in the form `N/M`
+ */
+export function parseShard(shard: string): Shard {
+  const match = /^(\d+)\/(\d+)$/.exec(shard.trim());
+  const index = match ? parseInt(match[1], 10) : NaN;
+  const total = match ? parseInt(match[2], 10) : NaN;
+  if (!(index >= 1 && index <= total)) {
+    throw new Error(`Invalid shard "${shard}", expected N/M with 1 <= N <= M`);
+  }
+  return { index, total };
+}
+
+/**
+ * Historical durations of integration tests, used to schedule the longest tests first
+ *
+ * Durations are stored by file name relative to the discovery root, so the
+ * file can be shared between machines.
+ */
+export class TestDurations {
+  /**
+   * Load durations from a file, starting empty if the file doesn't exist or can't be read
+   */
+  public static load(fileName: string): TestDurations {
+    try {
+      const contents = fs.readJsonSync(fileName);
+      return new TestDurations(typeof contents?.durations === 'object' ? contents.durations : {});
+    } catch {
+      return new TestDurations();
+    }
+  }
+
+  constructor(private readonly durations: Record<string, number> = {}) {
+  }
+
+  /**
+   * The expected duration of a test in seconds
+   *
+   * Tests that haven't been run before are expected to take the average duration
+   * of all known tests.
+   */
+  public estimate(test: IntegTestInfo): number {
+    const known = this.durations[durationKey(test)];
+    if (known !== undefined) {
+      return known;
+    }
+    const all = Object.values(this.durations);
+    return all.length > 0 ? all.reduce((a, b) => a + b, 0) / all.length : 1;
+  }
+
+  /**
+   * Record the durations of the tests that were run by the workers
+   */
+  public record(metrics: IntegRunnerMetrics[], tests: IntegTestInfo[]) {
+    const testsByFileName = new Map(tests.map(t => [t.fileName, t]));
+    for (const metric of metrics) {
+      for (const [fileName, duration] of Object.entries(metric.tests)) {
+        const test = testsByFileName.get(fileName);
+        if (test) {
+          this.durations[durationKey(test)] = duration;
+        }
+      }
+    }
+  }
+
+  /**
+   * Sort tests so that the longest running tests come first
+   *
+   * Tests with equal durations are sorted by name, so the order is deterministic.
+   */
+  public longestFirst<A extends IntegTestInfo>(tests: A[]): A[] {
+    return [...tests].sort((a, b) => (this.estimate(b) - this.estimate(a)) || durationKey(a).localeCompare(durationKey(b)));
+  }
+
+  public save(fileName: string) {
+    const sorted = Object.fromEntries(Object.entries(this.durations).sort(([a], [b]) => a.localeCompare(b)));
+    fs.writeJsonSync(fileName, { durations: sorted }, { spaces: 2 });
+  }
+}
+
+/**
+ * Select the tests of a shard
+ *
+ * Tests are assigned longest first to the shard with the smallest total expected
+ * duration, so shards take about the same time. Every machine computes the same
+ * assignment, as long as they use the same durations.
+ */
+export function shardTests(tests: IntegTest[], shard: Shard, durations: TestDurations = new TestDurations()): IntegTest[] {
+  const totals = new Array<number>(shard.total).fill(0);
+  const selected = new Set<IntegTestInfo>();
+
+  for (const info of durations.longestFirst(tests.map(t => t.info))) {
+    const target = totals.indexOf(Math.min(...totals));
+    totals[target] += durations.estimate(info);
+    if (target === shard.index - 1) {
+      selected.add(info);
+    }
+  }
+  return tests.filter(t => selected.has(t.info));
+}
+
+function durationKey(test: IntegTestInfo): string {
+  return path.relative(test.discoveryRoot, test.fileName).split(path.sep).join('/');
+}
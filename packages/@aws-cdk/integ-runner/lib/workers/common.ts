@@ -2,6 +2,7 @@ import { format } from 'util';
 import type { ResourceImpact } from '@aws-cdk/cloudformation-diff';
 import * as chalk from 'chalk';
 import * as logger from '../logger';
+import type { AssertionBackendType } from '../runner/assertion-backend';
 import type { IntegTestInfo } from '../runner/integration-tests';
 
 /**
@@ -168,6 +169,21 @@ export interface IntegTestOptions {
    * @default false
    */
   readonly watch?: boolean;
+
+  /**
+   * How the test stacks are deployed and the assertions are evaluated
+   *
+   * @default 'deploy'
+   */
+  readonly assertionBackend?: AssertionBackendType;
+
+  /**
+   * How many times to retry a test case that fails with a transient error,
+   * for test cases that don't configure their own `retries`
+   *
+   * @default 0
+   */
+  readonly retries?: number;
 }
 
 /**
@@ -215,6 +231,11 @@ export enum DiagnosticReason {
    * The assertion failed
    */
   ASSERTION_FAILED = 'ASSERTION_FAILED',
+
+  /**
+   * The integration test failed with a transient error, and will be retried
+   */
+  TEST_RETRY = 'TEST_RETRY',
 }
 
 /**
@@ -256,6 +277,81 @@ export interface Diagnostic {
    * Relevant config options that were used for the integ test
    */
   readonly config?: Record<string, any>;
+
+  /**
+   * The region the integration test was run in
+   *
+   * @default - not run in a region (snapshot tests)
+   */
+  readonly region?: string;
+
+  /**
+   * The AWS profile the integration test was run with
+   *
+   * @default - default profile
+   */
+  readonly profile?: string;
+
+  /**
+   * The results of the assertions of the test case
+   *
+   * @default - no assertions
+   */
+  readonly assertionResults?: AssertionResults;
+
+  /**
+   * Destructive changes found in the snapshot of the stack
+   *
+   * @default []
+   */
+  readonly destructiveChanges?: DestructiveChange[];
+
+  /**
+   * How many times the test case was run, including retries
+   *
+   * @default 1
+   */
+  readonly attempts?: number;
+
+  /**
+   * Whether the test is quarantined, i.e. known to be flaky.
+   * Failures of quarantined tests don't fail the run.
+   *
+   * @default false
+   */
+  readonly quarantined?: boolean;
+}
+
+/**
+ * Error messages of transient failures, that will likely succeed when retried
+ */
+const TRANSIENT_ERRORS = [
+  // Throttling
+  /Throttl/i,
+  /Rate exceeded/i,
+  /TooManyRequests/,
+  /RequestLimitExceeded/,
+  /SlowDown/,
+  // Service and network errors
+  /ServiceUnavailable/,
+  /InternalFailure/,
+  /Status Code: 5\d\d/,
+  /ECONNRESET|ETIMEDOUT|socket hang up/,
+  // Eventual consistency, mostly of IAM
+  /cannot be assumed by Lambda/,
+  /Invalid principal in policy/,
+  /is not authorized to perform: sts:AssumeRole/,
+  /The provided execution role does not have permissions/,
+];
+
+/**
+ * Whether a failed integration test failed with a transient error, and should be retried
+ */
+export function isTransientFailure(diagnostic: Diagnostic): boolean {
+  if (diagnostic.reason !== DiagnosticReason.TEST_FAILED && diagnostic.reason !== DiagnosticReason.TEST_ERROR) {
+    return false;
+  }
+  return TRANSIENT_ERRORS.some(re => re.test(diagnostic.message));
 }
 
 export function printSummary(total: number, failed: number): void {
@@ -276,6 +372,10 @@ export function formatAssertionResults(results: AssertionResults): string {
     .join('\n      ');
 }
 
+function isSuccess(reason: DiagnosticReason): boolean {
+  return reason === DiagnosticReason.TEST_SUCCESS || reason === DiagnosticReason.SNAPSHOT_SUCCESS;
+}
+
 /**
  * Print out the results from tests
  */
@@ -303,6 +403,12 @@ export function printResults(diagnostic: Diagnostic): void {
     case DiagnosticReason.ASSERTION_FAILED:
       logger.error('  ASSERT     %s %s\n      %s', diagnostic.testName, chalk.gray(`${diagnostic.duration}s`), diagnostic.message);
       break;
+    case DiagnosticReason.TEST_RETRY:
+      logger.warning('  RETRY      %s %s\n      %s', diagnostic.testName, chalk.gray(`${diagnostic.duration}s`), diagnostic.message);
+      break;
+  }
+  if (diagnostic.quarantined && !isSuccess(diagnostic.reason)) {
+    logger.warning('      Test is quarantined, this failure does not fail the run');
   }
   for (const addl of diagnostic.additionalMessages ?? []) {
     logger.print(`      ${addl}`);
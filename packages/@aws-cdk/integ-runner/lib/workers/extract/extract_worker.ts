@@ -1,9 +1,9 @@
 import * as workerpool from 'workerpool';
-import { IntegSnapshotRunner, IntegTestRunner } from '../../runner';
+import { IntegSnapshotRunner, IntegTestRunner, OfflineAssertionBackend } from '../../runner';
 import type { IntegTestInfo } from '../../runner/integration-tests';
 import { IntegTest } from '../../runner/integration-tests';
 import type { IntegTestWorkerConfig, SnapshotVerificationOptions, Diagnostic } from '../common';
-import { DiagnosticReason, formatAssertionResults } from '../common';
+import { DiagnosticReason, formatAssertionResults, isTransientFailure } from '../common';
 import type { IntegTestBatchRequest } from '../integ-test-worker';
 import type { IntegWatchOptions } from '../integ-watch-worker';
 
@@ -35,6 +35,7 @@ export function integTestWorker(request: IntegTestBatchRequest): IntegTestWorker
           CDK_DOCKER: process.env.CDK_DOCKER ?? 'docker',
         },
         showOutput: verbosity >= 2,
+        assertionBackend: request.assertionBackend === 'offline' ? new OfflineAssertionBackend(test.fixturesDir) : undefined,
       }, testInfo.destructiveChanges);
 
       const tests = runner.actualTests();
@@ -43,38 +44,23 @@ export function integTestWorker(request: IntegTestBatchRequest): IntegTestWorker
         throw new Error(`No tests defined for ${runner.testName}`);
       }
       for (const testCaseName of Object.keys(tests)) {
-        try {
-          const results = runner.runIntegTestCase({
-            testCaseName,
-            clean: request.clean,
-            dryRun: request.dryRun,
-            updateWorkflow: request.updateWorkflow,
-            verbosity,
-          });
-          if (results && Object.values(results).some(result => result.status === 'fail')) {
-            failures.push(testInfo);
-            workerpool.workerEmit({
-              reason: DiagnosticReason.ASSERTION_FAILED,
-              testName: `${runner.testName}-${testCaseName} (${request.profile}/${request.region})`,
-              message: formatAssertionResults(results),
-              duration: (Date.now() - start) / 1000,
-            });
-          } else {
+        const retries = tests[testCaseName].retries ?? request.retries ?? 0;
+        for (let attempt = 1; ; attempt++) {
+          const diagnostic = runIntegTestCase(runner, testCaseName, request, start);
+          if (attempt <= retries && isTransientFailure(diagnostic)) {
             workerpool.workerEmit({
-              reason: DiagnosticReason.TEST_SUCCESS,
-              testName: `${runner.testName}-${testCaseName}`,
-              message: results ? formatAssertionResults(results) : 'NO ASSERTIONS',
-              duration: (Date.now() - start) / 1000,
+              ...diagnostic,
+              reason: DiagnosticReason.TEST_RETRY,
+              message: `Retrying after transient failure (retry ${attempt} of ${retries}): ${diagnostic.message}`,
             });
+            continue;
           }
-        } catch (e) {
-          failures.push(testInfo);
-          workerpool.workerEmit({
-            reason: DiagnosticReason.TEST_FAILED,
-            testName: `${runner.testName}-${testCaseName} (${request.profile}/${request.region})`,
-            message: `Integration test failed: ${e}`,
-            duration: (Date.now() - start) / 1000,
-          });
+
+          if (diagnostic.reason !== DiagnosticReason.TEST_SUCCESS) {
+            failures.push(testInfo);
+          }
+          workerpool.workerEmit({ ...diagnostic, attempts: attempt });
+          break;
         }
       }
     } catch (e) {
@@ -84,6 +70,8 @@ export function integTestWorker(request: IntegTestBatchRequest): IntegTestWorker
         testName: `${testInfo.fileName} (${request.profile}/${request.region})`,
         message: `Error during integration test: ${e}`,
         duration: (Date.now() - start) / 1000,
+        region: request.region,
+        profile: request.profile,
       });
     }
   }
@@ -91,6 +79,51 @@ export function integTestWorker(request: IntegTestBatchRequest): IntegTestWorker
   return failures;
 }
 
+/**
+ * Runs a single test case and returns its result
+ */
+function runIntegTestCase(runner: IntegTestRunner, testCaseName: string, request: IntegTestBatchRequest, start: number): Diagnostic {
+  const verbosity = request.verbosity ?? 0;
+  try {
+    const results = runner.runIntegTestCase({
+      testCaseName,
+      clean: request.clean,
+      dryRun: request.dryRun,
+      updateWorkflow: request.updateWorkflow,
+      verbosity,
+    });
+    if (results && Object.values(results).some(result => result.status === 'fail')) {
+      return {
+        reason: DiagnosticReason.ASSERTION_FAILED,
+        testName: `${runner.testName}-${testCaseName} (${request.profile}/${request.region})`,
+        message: formatAssertionResults(results),
+        duration: (Date.now() - start) / 1000,
+        region: request.region,
+        profile: request.profile,
+        assertionResults: results,
+      } as Diagnostic;
+    }
+    return {
+      reason: DiagnosticReason.TEST_SUCCESS,
+      testName: `${runner.testName}-${testCaseName}`,
+      message: results ? formatAssertionResults(results) : 'NO ASSERTIONS',
+      duration: (Date.now() - start) / 1000,
+      region: request.region,
+      profile: request.profile,
+      assertionResults: results,
+    } as Diagnostic;
+  } catch (e) {
+    return {
+      reason: DiagnosticReason.TEST_FAILED,
+      testName: `${runner.testName}-${testCaseName} (${request.profile}/${request.region})`,
+      message: `Integration test failed: ${e}`,
+      duration: (Date.now() - start) / 1000,
+      region: request.region,
+      profile: request.profile,
+    } as Diagnostic;
+  }
+}
+
 export async function watchTestWorker(options: IntegWatchOptions) {
   const verbosity = options.verbosity ?? 0;
   const test = new IntegTest(options);
@@ -153,6 +186,7 @@ export function snapshotTestWorker(testInfo: IntegTestInfo, options: SnapshotVer
         diagnostics.forEach(diagnostic => workerpool.workerEmit({
           ...diagnostic,
           duration: (Date.now() - start) / 1000,
+          destructiveChanges: destructiveChanges.filter(change => change.stackName === diagnostic.stackName),
         } as Diagnostic));
         failedTests.push({
           ...test.info,
@@ -182,8 +216,18 @@ export function snapshotTestWorker(testInfo: IntegTestInfo, options: SnapshotVer
   return failedTests;
 }
 
+/**
+ * Saves a new snapshot for a single integration test, without deploying it.
+ * This is used for snapshot changes that have been accepted during review.
+ */
+export function snapshotUpdateWorker(testInfo: IntegTestInfo): void {
+  const runner = new IntegSnapshotRunner({ test: new IntegTest(testInfo) });
+  runner.updateSnapshot();
+}
+
 workerpool.worker({
   snapshotTestWorker,
+  snapshotUpdateWorker,
   integTestWorker,
   watchTestWorker,
 });
@@ -1,3 +1,5 @@
 export * from './common';
 export * from './integ-test-worker';
 export * from './integ-snapshot-worker';
+export * from './test-report';
+export * from './snapshot-review';
@@ -1,6 +1,7 @@
 import type * as workerpool from 'workerpool';
 import type { IntegTestWorkerConfig, SnapshotVerificationOptions } from './common';
 import { printSummary, printResults, printLaggards } from './common';
+import type { TestReport } from './test-report';
 import * as logger from '../logger';
 import type { IntegTest } from '../runner/integration-tests';
 import { flatten, WorkList } from '../utils';
@@ -9,11 +10,13 @@ import { flatten, WorkList } from '../utils';
  * Run Snapshot tests
  * First batch up the tests. By default there will be 3 tests per batch.
  * Use a workerpool to run the batches in parallel.
+ * If a report is given, the results are added to it.
  */
 export async function runSnapshotTests(
   pool: workerpool.WorkerPool,
   tests: IntegTest[],
   options: SnapshotVerificationOptions,
+  report?: TestReport,
 ): Promise<IntegTestWorkerConfig[]> {
   logger.highlight('\nVerifying integration test snapshots...\n');
 
@@ -28,6 +31,7 @@ export async function runSnapshotTests(
       on: (x) => {
         todo.crossOff(x.testName);
         printResults(x);
+        report?.addDiagnostic('snapshot', x);
       },
     })),
   );
@@ -1,8 +1,12 @@
 import type * as workerpool from 'workerpool';
 import type { IntegBatchResponse, IntegTestOptions, IntegRunnerMetrics } from './common';
 import { printResults, printSummary } from './common';
+import type { TestReport } from './test-report';
 import * as logger from '../logger';
 import type { IntegTestInfo } from '../runner/integration-tests';
+import { IntegTest } from '../runner/integration-tests';
+import type { Quarantine } from '../runner/quarantine';
+import type { TestDurations } from '../runner/test-scheduling';
 import { flatten } from '../utils';
 
 /**
@@ -40,12 +44,38 @@ export interface IntegTestRunOptions extends IntegTestOptions {
    * The workerpool to use
    */
   readonly pool: workerpool.WorkerPool;
+
+  /**
+   * Add the test results and metrics to this report
+   *
+   * @default - results are only printed
+   */
+  readonly report?: TestReport;
+
+  /**
+   * Historical test durations, used to run the longest tests first
+   *
+   * @default - tests are run in the order they are given
+   */
+  readonly durations?: TestDurations;
+
+  /**
+   * Tests that are known to be flaky. Their failures are reported separately
+   * and don't fail the run.
+   *
+   * @default - no tests are quarantined
+   */
+  readonly quarantine?: Quarantine;
 }
 
 /**
  * Run Integration tests.
  */
-export async function runIntegrationTests(options: IntegTestRunOptions): Promise<{ success: boolean; metrics: IntegRunnerMetrics[] }> {
+export async function runIntegrationTests(options: IntegTestRunOptions): Promise<{
+  success: boolean;
+  metrics: IntegRunnerMetrics[];
+  quarantinedFailures: IntegTestInfo[];
+}> {
   logger.highlight('\nRunning integration tests for failed tests...\n');
   logger.print(
     'Running in parallel across %sregions: %s',
@@ -54,11 +84,21 @@ export async function runIntegrationTests(options: IntegTestRunOptions): Promise
   const totalTests = options.tests.length;
 
   const responses = await runIntegrationTestsInParallel(options);
+  options.report?.addMetrics(responses.metrics);
+  const failedTests = responses.failedTests.filter(test => !options.quarantine?.has(test));
+  const quarantinedFailures = responses.failedTests.filter(test => options.quarantine?.has(test));
   logger.highlight('\nTest Results: \n');
-  printSummary(totalTests, responses.failedTests.length);
+  printSummary(totalTests, failedTests.length);
+  if (quarantinedFailures.length > 0) {
+    logger.warning('\nQuarantined tests that failed, but don\'t fail the run:');
+    for (const test of quarantinedFailures) {
+      logger.warning('  %s', new IntegTest(test).testName);
+    }
+  }
   return {
-    success: responses.failedTests.length === 0,
+    success: failedTests.length === 0,
     metrics: responses.metrics,
+    quarantinedFailures,
   };
 }
 
@@ -107,12 +147,14 @@ function getAccountWorkers(regions: string[], profiles?: string[]): AccountWorke
 /**
  * Runs a set of integration tests in parallel across a list of AWS regions.
  * Only a single test can be run at a time in a given region. Once a region
- * is done running a test, the next test will be pulled from the queue
+ * is done running a test, the next test will be pulled from the queue.
+ * If durations are given, the longest tests are pulled first.
  */
 export async function runIntegrationTestsInParallel(
   options: IntegTestRunOptions,
 ): Promise<IntegBatchResponse> {
-  const queue = options.tests;
+  // Workers take tests from the end of the queue
+  const queue = options.durations ? options.durations.longestFirst(options.tests).reverse() : options.tests;
   const results: IntegBatchResponse = {
     metrics: [],
     failedTests: [],
@@ -126,6 +168,7 @@ export async function runIntegrationTestsInParallel(
       const test = queue.pop();
       if (!test) break;
       const testStart = Date.now();
+      const quarantined = options.quarantine?.has(test) ?? false;
       logger.highlight(`Running test ${test.fileName} in ${worker.profile ? worker.profile + '/' : ''}${worker.region}`);
       const response: IntegTestInfo[][] = await options.pool.exec('integTestWorker', [{
         watch: options.watch,
@@ -136,8 +179,14 @@ export async function runIntegrationTestsInParallel(
         dryRun: options.dryRun,
         verbosity: options.verbosity,
         updateWorkflow: options.updateWorkflow,
+        assertionBackend: options.assertionBackend,
+        retries: options.retries,
       }], {
-        on: printResults,
+        on: (x) => {
+          const diagnostic = quarantined ? { ...x, quarantined } : x;
+          printResults(diagnostic);
+          options.report?.addDiagnostic('integ', diagnostic);
+        },
       });
 
       results.failedTests.push(...flatten(response));
@@ -0,0 +1,129 @@
+import * as readline from 'readline';
+import * as chalk from 'chalk';
+import type * as workerpool from 'workerpool';
+import type { Diagnostic, IntegTestWorkerConfig } from './common';
+import { DiagnosticReason } from './common';
+import * as logger from '../logger';
+import { IntegTest } from '../runner/integration-tests';
+
+/**
+ * Asks the developer a question and returns the answer
+ */
+export type ReviewPrompt = (question: string) => Promise<string>;
+
+/**
+ * The outcome of a snapshot review
+ */
+export interface SnapshotReviewResult {
+  /**
+   * The tests for which the new snapshot was accepted and written
+   */
+  readonly accepted: IntegTestWorkerConfig[];
+
+  /**
+   * The tests that are still failing, because their changes were rejected,
+   * couldn't be reviewed or the new snapshot couldn't be written
+   */
+  readonly rejected: IntegTestWorkerConfig[];
+}
+
+/**
+ * Interactively review the changed snapshots of the failed snapshot tests
+ *
+ * Every changed snapshot is shown as a resource diff per stack, with any destructive
+ * changes highlighted. Only the snapshots that are accepted are written. Tests
+ * without an existing snapshot, or that failed with an error, can't be reviewed.
+ */
+export async function reviewSnapshots(
+  pool: workerpool.WorkerPool,
+  failedSnapshots: IntegTestWorkerConfig[],
+  diagnostics: ReadonlyArray<Diagnostic>,
+  prompt: ReviewPrompt = terminalPrompt,
+): Promise<SnapshotReviewResult> {
+  const toAccept = new Array<IntegTestWorkerConfig>();
+  const rejected = new Array<IntegTestWorkerConfig>();
+
+  const reviewable = failedSnapshots.filter(test => changesOf(test, diagnostics).length > 0);
+  for (const test of failedSnapshots.filter(t => !reviewable.includes(t))) {
+    logger.warning('Skipping review of %s, only changed snapshots can be reviewed', new IntegTest(test).testName);
+    rejected.push(test);
+  }
+
+  let quit = false;
+  for (const [i, test] of reviewable.entries()) {
+    if (quit) {
+      rejected.push(test);
+      continue;
+    }
+
+    const testName = new IntegTest(test).testName;
+    logger.highlight('\nReviewing %s (%s of %s)\n', testName, i + 1, reviewable.length);
+    for (const change of changesOf(test, diagnostics)) {
+      logger.print('%s %s', chalk.bold('Stack'), change.stackName);
+      logger.print(change.message);
+    }
+    const destructiveChanges = test.destructiveChanges ?? [];
+    if (destructiveChanges.length > 0) {
+      logger.error('!!! This snapshot contains destructive changes !!!');
+      for (const change of destructiveChanges) {
+        logger.error('    Stack: %s - Resource: %s - Impact: %s', change.stackName, change.logicalId, change.impact);
+      }
+    }
+
+    const answer = await askDecision(prompt);
+    if (answer === 'u') {
+      toAccept.push(test);
+    } else {
+      rejected.push(test);
+      quit = answer === 'q';
+    }
+  }
+
+  // The worker pool is already limited
+  // eslint-disable-next-line @cdklabs/promiseall-no-unbounded-parallelism
+  const written = await Promise.all(toAccept.map(async (test) => {
+    try {
+      await pool.exec('snapshotUpdateWorker', [test]);
+      logger.success('  UPDATED    %s', new IntegTest(test).testName);
+      return true;
+    } catch (e: any) {
+      logger.error('  ERROR      %s\n      Failed to write the snapshot: %s', new IntegTest(test).testName, e.message);
+      return false;
+    }
+  }));
+
+  return {
+    accepted: toAccept.filter((_, i) => written[i]),
+    rejected: [...rejected, ...toAccept.filter((_, i) => !written[i])],
+  };
+}
+
+/**
+ * The snapshot differences of a test, one per changed stack
+ */
+function changesOf(test: IntegTestWorkerConfig, diagnostics: ReadonlyArray<Diagnostic>): Diagnostic[] {
+  const testName = new IntegTest(test).testName;
+  return diagnostics.filter(d => d.testName === testName && d.reason === DiagnosticReason.SNAPSHOT_FAILED);
+}
+
+async function askDecision(prompt: ReviewPrompt): Promise<string> {
+  while (true) {
+    const answer = (await prompt('Press u to accept the new snapshot, s to reject it, or q to quit the review: ')).trim().toLowerCase();
+    if (['u', 's', 'q'].includes(answer)) {
+      return answer;
+    }
+  }
+}
+
+async function terminalPrompt(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return await new Promise<string>(resolve => {
+      // Closing the input (e.g. with Ctrl+D) ends the review
+      rl.once('close', () => resolve('q'));
+      rl.question(question, resolve);
+    });
+  } finally {
+    rl.close();
+  }
+}
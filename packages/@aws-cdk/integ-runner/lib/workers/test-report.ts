@@ -0,0 +1,224 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import type { Diagnostic, IntegRunnerMetrics, IntegTestWorkerConfig } from './common';
+import { DiagnosticReason } from './common';
+import { IntegTest } from '../runner/integration-tests';
+
+/**
+ * The file formats a test report can be written in
+ */
+export type TestReportFormat = 'junit' | 'json';
+
+/**
+ * The phase of the integ-runner a test result was reported in
+ */
+export type TestPhase = 'snapshot' | 'integ';
+
+/**
+ * The outcome of a single test result
+ *
+ * Failures of quarantined tests have the status `quarantined`, and snapshot
+ * changes accepted during review have the status `accepted`.
+ */
+export type TestStatus = 'passed' | 'failed' | 'error' | 'quarantined' | 'accepted';
+
+/**
+ * A single test result in a test report
+ */
+export interface TestReportEntry extends Diagnostic {
+  /**
+   * The phase the result was reported in
+   */
+  readonly phase: TestPhase;
+
+  /**
+   * The outcome of the test, derived from the reason of the diagnostic
+   */
+  readonly status: TestStatus;
+}
+
+/**
+ * Collects the results of an integ-runner run, to be written to a file for CI systems
+ */
+export class TestReport {
+  private readonly _entries = new Array<TestReportEntry>();
+  private readonly _metrics = new Array<IntegRunnerMetrics>();
+
+  public get entries(): ReadonlyArray<TestReportEntry> {
+    return this._entries;
+  }
+
+  /**
+   * Add a diagnostic reported by one of the workers
+   *
+   * Retries are not added, they are included in the `attempts` of the final result.
+   */
+  public addDiagnostic(phase: TestPhase, diagnostic: Diagnostic) {
+    if (diagnostic.reason === DiagnosticReason.TEST_RETRY) {
+      return;
+    }
+    this._entries.push({ ...diagnostic, phase, status: testStatus(diagnostic) });
+  }
+
+  /**
+   * Mark the changed snapshots of the given tests as accepted during review
+   */
+  public acceptSnapshots(tests: IntegTestWorkerConfig[]) {
+    const testNames = tests.map(test => new IntegTest(test).testName);
+    this._entries.forEach((entry, i) => {
+      if (entry.phase === 'snapshot' && entry.reason === DiagnosticReason.SNAPSHOT_FAILED && testNames.includes(entry.testName)) {
+        this._entries[i] = { ...entry, status: 'accepted' };
+      }
+    });
+  }
+
+  /**
+   * Add the metrics of the integration test workers
+   */
+  public addMetrics(metrics: IntegRunnerMetrics[]) {
+    this._metrics.push(...metrics);
+  }
+
+  /**
+   * Render the report as JSON
+   */
+  public toJson(): string {
+    return JSON.stringify({
+      summary: summarize(this._entries),
+      results: this._entries,
+      metrics: this._metrics,
+    }, undefined, 2);
+  }
+
+  /**
+   * Render the report as JUnit XML, with a test suite per phase
+   */
+  public toJunitXml(): string {
+    const suites = (['snapshot', 'integ'] as TestPhase[])
+      .map(phase => ({ phase, entries: this._entries.filter(e => e.phase === phase) }))
+      .filter(suite => suite.entries.length > 0);
+    const total = summarize(this._entries);
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="integ-runner" tests="${total.total}" failures="${total.failed}" errors="${total.errors}" skipped="${total.quarantined}" time="${total.time}">`,
+    ];
+    for (const { phase, entries } of suites) {
+      const summary = summarize(entries);
+      lines.push(`  <testsuite name="${phase}" tests="${summary.total}" failures="${summary.failed}" errors="${summary.errors}" skipped="${summary.quarantined}" time="${summary.time}">`);
+      for (const entry of entries) {
+        lines.push(...renderTestCase(entry).map(line => `    ${line}`));
+      }
+      lines.push('  </testsuite>');
+    }
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Write the report to a file in the given format
+   */
+  public writeFile(format: TestReportFormat, fileName: string) {
+    fs.mkdirpSync(path.dirname(fileName));
+    fs.writeFileSync(fileName, format === 'junit' ? this.toJunitXml() : this.toJson(), { encoding: 'utf-8' });
+  }
+}
+
+function testStatus(diagnostic: Diagnostic): TestStatus {
+  switch (diagnostic.reason) {
+    case DiagnosticReason.SNAPSHOT_SUCCESS:
+    case DiagnosticReason.TEST_SUCCESS:
+      return 'passed';
+    case DiagnosticReason.SNAPSHOT_ERROR:
+    case DiagnosticReason.TEST_ERROR:
+      return diagnostic.quarantined ? 'quarantined' : 'error';
+    default:
+      return diagnostic.quarantined ? 'quarantined' : 'failed';
+  }
+}
+
+function summarize(entries: TestReportEntry[]) {
+  return {
+    total: entries.length,
+    passed: entries.filter(e => e.status === 'passed').length,
+    failed: entries.filter(e => e.status === 'failed').length,
+    errors: entries.filter(e => e.status === 'error').length,
+    quarantined: entries.filter(e => e.status === 'quarantined').length,
+    accepted: entries.filter(e => e.status === 'accepted').length,
+    time: round(entries.reduce((acc, e) => acc + (e.duration ?? 0), 0)),
+  };
+}
+
+/**
+ * The JUnit element of an unsuccessful test, quarantined failures are reported as skipped
+ *
+ * Accepted snapshot changes are reported as passed, with their status as a property.
+ */
+const JUNIT_ELEMENTS: Record<TestStatus, string | undefined> = {
+  passed: undefined,
+  failed: 'failure',
+  error: 'error',
+  quarantined: 'skipped',
+  accepted: undefined,
+};
+
+function renderTestCase(entry: TestReportEntry): string[] {
+  const name = entry.stackName ? `${entry.testName} (${entry.stackName})` : entry.testName;
+  const lines = [`<testcase classname="${entry.phase}" name="${xml(name)}" time="${round(entry.duration ?? 0)}">`];
+
+  const properties = Object.entries({
+    reason: entry.reason,
+    status: entry.status === 'accepted' ? entry.status : undefined,
+    region: entry.region,
+    profile: entry.profile,
+    attempts: entry.attempts?.toString(),
+  }).filter(([_, value]) => value !== undefined);
+  lines.push('  <properties>');
+  for (const [key, value] of properties) {
+    lines.push(`    <property name="${key}" value="${xml(value!)}"/>`);
+  }
+  lines.push('  </properties>');
+
+  const element = JUNIT_ELEMENTS[entry.status];
+  if (element) {
+    const details = [
+      entry.message,
+      ...Object.entries(entry.assertionResults ?? {})
+        .filter(([_, result]) => result.status === 'fail')
+        .map(([id, result]) => `${id}: ${result.message}`),
+      ...(entry.destructiveChanges ?? [])
+        .map(change => `Destructive change: ${change.stackName} - ${change.logicalId} - ${change.impact}`),
+    ];
+    lines.push(`  <${element} type="${entry.reason}" message="${xml(firstLine(entry.message))}">${xml(details.join('\n'))}</${element}>`);
+  }
+
+  if (entry.additionalMessages && entry.additionalMessages.length > 0) {
+    lines.push(`  <system-out>${xml(entry.additionalMessages.join('\n'))}</system-out>`);
+  }
+  lines.push('</testcase>');
+  return lines;
+}
+
+function firstLine(message: string): string {
+  return message.split('\n')[0];
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Escape a value for use in XML, dropping terminal colors and characters XML can't represent
+ */
+function xml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
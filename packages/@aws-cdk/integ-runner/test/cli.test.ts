@@ -100,6 +100,20 @@ describe('Test discovery', () => {
     ]]);
   });
 
+  test('list only shows the tests of the shard', async () => {
+    await main([
+      '--list',
+      '--shard=2/2',
+      '--directory=test/test-data',
+      '--language=javascript',
+      '--test-regex="^xxxxx\.integ-test[12]\.js$"',
+    ]);
+
+    expect(stdoutMock.mock.calls).toEqual([[
+      'xxxxx.integ-test2.js\n',
+    ]]);
+  });
+
   test('cannot use --test-regex by itself with more than one language preset', async () => {
     await expect(() => main([
       '--list',
@@ -156,6 +170,63 @@ describe('CLI config file', () => {
     ]);
   });
 
+  test('reporter options are read', async () => {
+    // WHEN
+    const options = parseCliArgs(['--reporter', 'junit', '--report-file', 'results.xml']);
+
+    // THEN
+    expect(options.reporter).toEqual('junit');
+    expect(options.reportFile).toEqual('results.xml');
+  });
+
+  test('reporter requires a report file', async () => {
+    expect(() => parseCliArgs(['--reporter', 'json'])).toThrow('"--reporter" and "--report-file" must be used together');
+  });
+
+  test('review cannot be combined with deploying tests', async () => {
+    expect(() => parseCliArgs(['--review', '--update-on-failed'])).toThrow('"--review" cannot be used together with "--update-on-failed", "--force" or "--watch"');
+  });
+
+  test('assertion backend is read', async () => {
+    expect(parseCliArgs([]).assertionBackend).toEqual('deploy');
+    expect(parseCliArgs(['--assertion-backend', 'offline']).assertionBackend).toEqual('offline');
+  });
+
+  test('retry options are read', async () => {
+    // WHEN
+    const options = parseCliArgs(['--retries', '2', '--quarantine-file', 'integ.quarantine']);
+
+    // THEN
+    expect(options.retries).toEqual(2);
+    expect(options.quarantineFile).toEqual('integ.quarantine');
+    expect(parseCliArgs([]).retries).toEqual(0);
+  });
+
+  test('retries must not be negative', async () => {
+    expect(() => parseCliArgs(['--retries', '-1'])).toThrow('"--retries" must be a non-negative number, got -1');
+  });
+
+  test('shard options are read', async () => {
+    // WHEN
+    const options = parseCliArgs(['--shard', '1/4', '--durations-file', 'durations.json']);
+
+    // THEN
+    expect(options.shard).toEqual({ index: 1, total: 4 });
+    expect(options.durationsFile).toEqual('durations.json');
+  });
+
+  test('test durations are not recorded by default', async () => {
+    // WHEN
+    const options = parseCliArgs([]);
+
+    // THEN
+    expect(options.durationsFile).toBeUndefined();
+  });
+
+  test('shard must be valid', async () => {
+    expect(() => parseCliArgs(['--shard', '5/4'])).toThrow('Invalid shard "5/4", expected N/M with 1 <= N <= M');
+  });
+
   test('cli options take precedent', async () => {
     // WHEN
     withConfig({ maxWorkers: 3 });
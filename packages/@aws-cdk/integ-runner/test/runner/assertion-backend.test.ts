@@ -0,0 +1,126 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Manifest } from '@aws-cdk/cloud-assembly-schema';
+import * as fs from 'fs-extra';
+import { OfflineAssertionBackend } from '../../lib/runner/assertion-backend';
+import type { MockCdkMocks } from '../helpers';
+import { MockCdkProvider } from '../helpers';
+
+let directory: string;
+let cdkMock: MockCdkProvider;
+let mocks: Required<MockCdkMocks>;
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'offline-assertions'));
+  cdkMock = new MockCdkProvider({ directory });
+  mocks = cdkMock.mockAll();
+
+  const outDir = path.join(directory, 'cdk.out');
+  fs.mkdirpSync(outDir);
+  fs.writeJsonSync(path.join(outDir, 'manifest.json'), {
+    version: Manifest.version(),
+    artifacts: {
+      DeployAssert: {
+        type: 'aws:cloudformation:stack',
+        environment: 'aws://unknown-account/unknown-region',
+        properties: { templateFile: 'DeployAssert.template.json' },
+      },
+    },
+  });
+  fs.writeJsonSync(path.join(outDir, 'DeployAssert.template.json'), {
+    Resources: {
+      GetItem: {
+        Type: 'Custom::DeployAssert@SdkCallDynamoDBgetItem',
+        Properties: {
+          service: 'DynamoDB',
+          api: 'getItem',
+          expected: JSON.stringify({ $ObjectLike: { Item: { id: { S: '1' } } } }),
+        },
+      },
+    },
+    Outputs: {
+      AssertionResultsGetItem: { Value: { 'Fn::GetAtt': ['GetItem', 'assertion'] } },
+    },
+  });
+  fs.mkdirpSync(path.join(directory, 'integ.test.js.fixtures'));
+  fs.writeJsonSync(path.join(directory, 'integ.test.js.fixtures', 'MyTestCase.json'), {
+    responses: [{ service: 'DynamoDB', api: 'getItem', response: { Item: { id: { S: '1' } } } }],
+  });
+});
+
+afterEach(() => {
+  fs.removeSync(directory);
+});
+
+function context() {
+  return {
+    cdk: cdkMock.cdk,
+    directory,
+    testCaseName: 'MyTestCase',
+    testCase: {
+      stacks: ['TestStack'],
+      assertionStack: 'DeployAssert',
+      assertionStackName: 'DeployAssertStack',
+    },
+  };
+}
+
+describe('OfflineAssertionBackend', () => {
+  const backend = () => new OfflineAssertionBackend(path.join(directory, 'integ.test.js.fixtures'));
+
+  test('deploy only synthesizes the app', () => {
+    // WHEN
+    backend().deploy(context(), {
+      app: 'node integ.test.js',
+      stacks: ['TestStack'],
+      output: 'cdk.out',
+      lookups: true,
+      context: { foo: 'bar' },
+    });
+
+    // THEN
+    expect(cdkMock.mocks.deploy).not.toHaveBeenCalled();
+    expect(cdkMock.mocks.synthFast).toHaveBeenCalledWith({
+      execCmd: ['node', 'integ.test.js'],
+      env: expect.objectContaining({
+        CDK_INTEG_ACCOUNT: '12345678',
+        CDK_CONTEXT_JSON: expect.stringContaining('"foo":"bar"'),
+      }),
+      output: 'cdk.out',
+    });
+    expect(JSON.parse(mocks.synthFast.mock.calls[0][0].env!.CDK_CONTEXT_JSON)).toHaveProperty(['availability-zones:account=12345678:region=test-region']);
+  });
+
+  test('assertion results are written as stack outputs', () => {
+    // WHEN
+    backend().deployAssertions(context(), {
+      app: 'node integ.test.js',
+      stacks: ['DeployAssert'],
+      output: 'cdk.out',
+      outputsFile: 'cdk.out/assertion-results.json',
+    });
+
+    // THEN
+    expect(cdkMock.mocks.synthFast).not.toHaveBeenCalled();
+    expect(fs.readJsonSync(path.join(directory, 'cdk.out', 'assertion-results.json'))).toEqual({
+      DeployAssertStack: {
+        AssertionResultsGetItem: JSON.stringify({ status: 'success' }),
+      },
+    });
+  });
+
+  test('fails without a fixture file for the test case', () => {
+    expect(() => backend().deployAssertions({ ...context(), testCaseName: 'OtherTestCase' }, {
+      stacks: ['DeployAssert'],
+      output: 'cdk.out',
+      outputsFile: 'cdk.out/assertion-results.json',
+    })).toThrow(/No recorded API responses found, expected fixture file '.*OtherTestCase.json'/);
+  });
+
+  test('destroy does nothing', () => {
+    // WHEN
+    backend().destroy(context(), { stacks: ['TestStack'] });
+
+    // THEN
+    expect(cdkMock.mocks.destroy).not.toHaveBeenCalled();
+  });
+});
@@ -255,6 +255,54 @@ describe('IntegTest runIntegTests', () => {
     });
   });
 
+  test('with an offline assertion backend', () => {
+    // GIVEN
+    const assertionBackend = {
+      offline: true,
+      deploy: jest.fn(),
+      deployAssertions: jest.fn(),
+      destroy: jest.fn(),
+    };
+
+    // WHEN
+    const integTest = new IntegTestRunner({
+      cdk: cdkMock.cdk,
+      test: new IntegTest({
+        fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+        discoveryRoot: 'test/test-data',
+      }),
+      assertionBackend,
+    });
+    integTest.runIntegTestCase({
+      testCaseName: 'xxxxx.test-with-snapshot',
+    });
+
+    // THEN
+    const context = expect.objectContaining({
+      cdk: cdkMock.cdk,
+      testCaseName: 'xxxxx.test-with-snapshot',
+      testCase: expect.objectContaining({ assertionStackName: 'BundlingDefaultTestDeployAssertAACA0CAF' }),
+    });
+    expect(cdkMock.mocks.deploy).not.toHaveBeenCalled();
+    expect(cdkMock.mocks.destroy).not.toHaveBeenCalled();
+    // no update workflow
+    expect(assertionBackend.deploy).toHaveBeenCalledTimes(1);
+    expect(assertionBackend.deploy).toHaveBeenCalledWith(context, expect.objectContaining({
+      app: 'node xxxxx.test-with-snapshot.js',
+      stacks: ['test-stack', 'new-test-stack'],
+    }));
+    expect(assertionBackend.deployAssertions).toHaveBeenCalledWith(context, expect.objectContaining({
+      stacks: ['Bundling/DefaultTest/DeployAssert'],
+      outputsFile: 'cdk-integ.out.xxxxx.test-with-snapshot.js.snapshot/assertion-results.json',
+    }));
+    expect(assertionBackend.destroy).toHaveBeenCalledWith(context, expect.objectContaining({
+      all: true,
+    }));
+    // the snapshot is not updated
+    expect(fs.moveSync).not.toHaveBeenCalled();
+    expect(spawnSyncMock).not.toHaveBeenCalledWith('git', expect.anything(), expect.anything());
+  });
+
   test('no clean', () => {
     // WHEN
     const integTest = new IntegTestRunner({
@@ -0,0 +1,159 @@
+import { evaluateAssertionStack } from '../../../lib/runner/private/offline-assertions';
+
+const fixtures = {
+  responses: [
+    {
+      service: 'S3',
+      api: 'listObjectsV2',
+      parameters: { Bucket: 'my-bucket' },
+      response: { KeyCount: 1, Contents: [{ Key: 'file.txt', Size: 42 }] },
+    },
+    {
+      service: '@aws-sdk/client-sqs',
+      api: 'ReceiveMessageCommand',
+      response: { Messages: [{ Body: '{"hello":"world"}' }] },
+    },
+    {
+      service: 'Lambda',
+      api: 'invoke',
+      error: 'ResourceNotFoundException: Function not found',
+    },
+  ],
+};
+
+function apiCall(service: string, api: string, props: Record<string, any> = {}) {
+  return {
+    Type: `Custom::DeployAssert@SdkCall${service}${api}`,
+    Properties: { ServiceToken: 'token', service, api, ...props },
+  };
+}
+
+function assertionOutput(logicalId: string, attribute = 'assertion') {
+  return { Value: { 'Fn::GetAtt': [logicalId, attribute] } };
+}
+
+describe('evaluateAssertionStack', () => {
+  test('exact assertion on an API call succeeds', () => {
+    // WHEN
+    const outputs = evaluateAssertionStack({
+      Resources: {
+        ListObjects: apiCall('S3', 'listObjectsV2', {
+          parameters: { Bucket: '"my-bucket"' },
+          expected: JSON.stringify({ KeyCount: 1, Contents: [{ Key: 'file.txt', Size: 42 }] }),
+        }),
+      },
+      Outputs: {
+        AssertionResultsListObjects: assertionOutput('ListObjects'),
+        SomethingElse: { Value: 'ignored' },
+      },
+    }, fixtures);
+
+    // THEN
+    expect(outputs).toEqual({
+      AssertionResultsListObjects: JSON.stringify({ status: 'success' }),
+    });
+  });
+
+  test('matchers and actual paths are evaluated', () => {
+    // WHEN
+    const outputs = evaluateAssertionStack({
+      Resources: {
+        ObjectLike: apiCall('S3', 'listObjectsV2', {
+          parameters: { Bucket: '"my-bucket"' },
+          expected: JSON.stringify({ $ObjectLike: { Contents: { $ArrayWith: [{ $ObjectLike: { Key: { $StringLike: '.*\\.txt' } } }] } } }),
+        }),
+        ActualPath: apiCall('SQS', 'receiveMessage', {
+          actualPath: 'Messages.0.Body',
+          expected: JSON.stringify({ $SerializedJson: { hello: 'world' } }),
+        }),
+      },
+      Outputs: {
+        AssertionResultsObjectLike: assertionOutput('ObjectLike'),
+        AssertionResultsActualPath: assertionOutput('ActualPath'),
+      },
+    }, fixtures);
+
+    // THEN
+    expect(JSON.parse(outputs.AssertionResultsObjectLike)).toEqual({ status: 'success' });
+    expect(JSON.parse(outputs.AssertionResultsActualPath)).toEqual({ status: 'success' });
+  });
+
+  test('failed assertions report the mismatch', () => {
+    // WHEN
+    const outputs = evaluateAssertionStack({
+      Resources: {
+        ListObjects: apiCall('S3', 'listObjectsV2', {
+          parameters: { Bucket: '"my-bucket"' },
+          expected: JSON.stringify({ $ObjectLike: { KeyCount: 2 } }),
+        }),
+      },
+      Outputs: {
+        AssertionResultsListObjects: assertionOutput('ListObjects'),
+      },
+    }, fixtures);
+
+    // THEN
+    const result = JSON.parse(outputs.AssertionResultsListObjects);
+    expect(result.status).toEqual('fail');
+    expect(result.message).toContain('Expected 2 at /KeyCount/, got 1');
+  });
+
+  test('equals assertions resolve the responses of API calls', () => {
+    // WHEN
+    const outputs = evaluateAssertionStack({
+      Resources: {
+        ListObjects: apiCall('S3', 'listObjectsV2', { parameters: { Bucket: '"my-bucket"' } }),
+        Equals: {
+          Type: 'Custom::DeployAssert@AssertEquals',
+          Properties: {
+            actual: { 'Fn::GetAtt': ['ListObjects', 'apiCallResponse.Contents.0.Key'] },
+            expected: JSON.stringify('other.txt'),
+          },
+        },
+      },
+      Outputs: {
+        AssertionResultsEquals: assertionOutput('Equals', 'data'),
+      },
+    }, fixtures);
+
+    // THEN
+    expect(JSON.parse(outputs.AssertionResultsEquals)).toEqual({
+      status: 'fail',
+      message: expect.stringContaining('Expected "other.txt" at /, got "file.txt"'),
+    });
+  });
+
+  test('unsupported assertions fail', () => {
+    // WHEN
+    const outputs = evaluateAssertionStack({
+      Resources: {
+        Http: { Type: 'Custom::DeployAssert@HttpCallexamplecom', Properties: {} },
+      },
+      Outputs: {
+        AssertionResultsHttp: assertionOutput('Http'),
+      },
+    }, fixtures);
+
+    // THEN
+    expect(JSON.parse(outputs.AssertionResultsHttp)).toEqual({
+      status: 'fail',
+      message: 'Assertion Http of type Custom::DeployAssert@HttpCallexamplecom cannot be evaluated offline',
+    });
+  });
+
+  test('API calls without a recorded response fail like a deployment', () => {
+    expect(() => evaluateAssertionStack({
+      Resources: {
+        ListObjects: apiCall('S3', 'listObjectsV2', { parameters: { Bucket: '"other-bucket"' } }),
+      },
+    }, fixtures)).toThrow('No recorded response for S3.listObjectsV2 with parameters {"Bucket":"other-bucket"}');
+  });
+
+  test('API calls with a recorded error fail like a deployment', () => {
+    expect(() => evaluateAssertionStack({
+      Resources: {
+        Invoke: apiCall('Lambda', 'invoke', { parameters: { FunctionName: '"my-function"' } }),
+      },
+    }, fixtures)).toThrow('Lambda.invoke failed: ResourceNotFoundException: Function not found');
+  });
+});
@@ -0,0 +1,26 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Quarantine } from '../../lib/runner/quarantine';
+
+const discoveryRoot = path.join('test', 'test-data');
+
+test('reads one test per line, ignoring comments and empty lines', () => {
+  // GIVEN
+  const fileName = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'integ-quarantine')), 'integ.quarantine');
+  fs.writeFileSync(fileName, [
+    '# Fails on eventual consistency of IAM',
+    'integ.flaky.js',
+    '',
+    '  nested/integ.also-flaky.js  ',
+  ].join('\n'));
+
+  // WHEN
+  const quarantine = Quarantine.load(fileName);
+
+  // THEN
+  expect(quarantine.has({ fileName: path.join(discoveryRoot, 'integ.flaky.js'), discoveryRoot })).toEqual(true);
+  expect(quarantine.has({ fileName: path.join(discoveryRoot, 'nested', 'integ.also-flaky.js'), discoveryRoot })).toEqual(true);
+  expect(quarantine.has({ fileName: path.join(discoveryRoot, 'integ.stable.js'), discoveryRoot })).toEqual(false);
+  expect(quarantine.has({ fileName: path.join(discoveryRoot, '# Fails on eventual consistency of IAM'), discoveryRoot })).toEqual(false);
+});
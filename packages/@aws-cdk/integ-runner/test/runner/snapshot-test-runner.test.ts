@@ -175,6 +175,36 @@ describe('IntegTest runSnapshotTests', () => {
     });
   });
 
+  test('update snapshot without deploying', () => {
+    // GIVEN
+    const integTest = new IntegSnapshotRunner({
+      cdk: cdkMock.cdk,
+      test: new IntegTest({
+        fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+        discoveryRoot: 'test/test-data',
+      }),
+      integOutDir: 'test/test-data/xxxxx.test-with-snapshot.js.snapshot',
+    });
+
+    // WHEN
+    integTest.updateSnapshot();
+
+    // THEN
+    expect(cdkMock.mocks.synthFast).toHaveBeenCalledWith({
+      execCmd: ['node', 'xxxxx.test-with-snapshot.js'],
+      env: expect.objectContaining({
+        CDK_INTEG_ACCOUNT: '12345678',
+        CDK_INTEG_REGION: 'test-region',
+      }),
+      output: 'xxxxx.test-with-snapshot.js.snapshot',
+    });
+    expect(fs.moveSync).toHaveBeenCalledWith(
+      expect.stringContaining('xxxxx.test-with-snapshot.js.snapshot'),
+      expect.stringContaining('xxxxx.test-with-snapshot.js.snapshot'),
+      { overwrite: true },
+    );
+  });
+
   describe('Legacy Integ Tests', () => {
     test('determine test stack via pragma', () => {
       // WHEN
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IntegTest } from '../../lib/runner/integration-tests';
+import { parseShard, shardTests, TestDurations } from '../../lib/runner/test-scheduling';
+
+const discoveryRoot = path.join('test', 'test-data');
+const tests = ['integ.a.js', 'integ.b.js', 'integ.c.js', 'integ.d.js'].map(fileName => new IntegTest({
+  fileName: path.join(discoveryRoot, fileName),
+  discoveryRoot,
+}));
+const durations = new TestDurations({
+  'integ.a.js': 10,
+  'integ.b.js': 300,
+  'integ.c.js': 120,
+  'integ.d.js': 200,
+});
+
+describe('parseShard', () => {
+  test('parses N/M', () => {
+    expect(parseShard('2/3')).toEqual({ index: 2, total: 3 });
+  });
+
+  test.each(['0/3', '4/3', '1', 'a/b', '1/0'])('rejects %s', (shard) => {
+    expect(() => parseShard(shard)).toThrow(`Invalid shard "${shard}"`);
+  });
+});
+
+describe('TestDurations', () => {
+  test('tests without a recorded duration are expected to take the average duration', () => {
+    const unknown = new IntegTest({ fileName: path.join(discoveryRoot, 'integ.new.js'), discoveryRoot });
+
+    expect(durations.estimate(tests[1].info)).toEqual(300);
+    expect(durations.estimate(unknown.info)).toEqual(157.5);
+    expect(new TestDurations().estimate(unknown.info)).toEqual(1);
+  });
+
+  test('sorts the longest tests first', () => {
+    expect(durations.longestFirst(tests.map(t => t.info)).map(t => t.fileName)).toEqual([
+      path.join(discoveryRoot, 'integ.b.js'),
+      path.join(discoveryRoot, 'integ.d.js'),
+      path.join(discoveryRoot, 'integ.c.js'),
+      path.join(discoveryRoot, 'integ.a.js'),
+    ]);
+  });
+
+  test('records metrics and round trips through a file', () => {
+    // GIVEN
+    const fileName = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'integ-durations')), 'integ.durations.json');
+    const recorded = new TestDurations();
+
+    // WHEN
+    recorded.record([
+      { region: 'us-east-1', duration: 30, tests: { [tests[0].info.fileName]: 20 } },
+      { region: 'us-east-2', duration: 40, tests: { [tests[2].info.fileName]: 40, 'unknown.js': 5 } },
+    ], tests.map(t => t.info));
+    recorded.save(fileName);
+
+    // THEN
+    expect(fs.readFileSync(fileName, { encoding: 'utf-8' })).toEqual(JSON.stringify({
+      durations: {
+        'integ.a.js': 20,
+        'integ.c.js': 40,
+      },
+    }, undefined, 2) + '\n');
+    expect(TestDurations.load(fileName).estimate(tests[2].info)).toEqual(40);
+  });
+
+  test('starts empty if the file does not exist', () => {
+    expect(TestDurations.load('does-not-exist.json').estimate(tests[0].info)).toEqual(1);
+  });
+});
+
+describe('shardTests', () => {
+  test('every test is in exactly one shard', () => {
+    const shards = [1, 2, 3].map(index => shardTests(tests, { index, total: 3 }, durations));
+
+    expect(shards.flat().map(t => t.testName).sort()).toEqual(tests.map(t => t.testName).sort());
+  });
+
+  test('balances shards by duration', () => {
+    const shard1 = shardTests(tests, { index: 1, total: 2 }, durations);
+    const shard2 = shardTests(tests, { index: 2, total: 2 }, durations);
+
+    // b (300) + a (10) vs. d (200) + c (120)
+    expect(shard1).toEqual([tests[0], tests[1]]);
+    expect(shard2).toEqual([tests[2], tests[3]]);
+  });
+
+  test('splits tests by name without durations', () => {
+    expect(shardTests(tests, { index: 1, total: 2 })).toEqual([tests[0], tests[2]]);
+    expect(shardTests(tests, { index: 2, total: 2 })).toEqual([tests[1], tests[3]]);
+  });
+});
@@ -3,6 +3,8 @@ import * as builtinFs from 'fs';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import * as workerpool from 'workerpool';
+import { Quarantine } from '../../lib/runner/quarantine';
+import { TestDurations } from '../../lib/runner/test-scheduling';
 import { integTestWorker } from '../../lib/workers/extract';
 import { runIntegrationTestsInParallel, runIntegrationTests } from '../../lib/workers/integ-test-worker';
 let stderrMock: jest.SpyInstance;
@@ -203,9 +205,104 @@ describe('test runner', () => {
       discoveryRoot: 'test/test-data',
     });
   });
+
+  test('deploy failed with a transient error is retried', () => {
+    // WHEN
+    const test = {
+      fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+      discoveryRoot: 'test/test-data',
+    };
+    jest.spyOn(child_process, 'spawnSync').mockReturnValue({
+      status: 1,
+      stderr: Buffer.from('Rate exceeded'),
+      stdout: Buffer.from('stack1'),
+      pid: 123,
+      output: ['stdout', 'stderr'],
+      signal: null,
+    });
+    const emitMock = jest.spyOn(workerpool, 'workerEmit').mockImplementation(() => {
+    });
+    const results = integTestWorker({
+      tests: [test],
+      region: 'us-east-1',
+      retries: 2,
+    });
+
+    // THEN
+    expect(results).toEqual([test]);
+    expect(emitMock.mock.calls.map(([diagnostic]) => diagnostic.reason)).toEqual([
+      'TEST_RETRY',
+      'TEST_RETRY',
+      'TEST_FAILED',
+    ]);
+    expect(emitMock).toHaveBeenLastCalledWith(expect.objectContaining({
+      attempts: 3,
+      message: expect.stringContaining('Rate exceeded'),
+    }));
+  });
+
+  test('deploy failed with a non-transient error is not retried', () => {
+    // WHEN
+    const test = {
+      fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+      discoveryRoot: 'test/test-data',
+    };
+    jest.spyOn(child_process, 'spawnSync').mockReturnValue({
+      status: 1,
+      stderr: Buffer.from('Resource handler returned message: "Invalid request"'),
+      stdout: Buffer.from('stack1'),
+      pid: 123,
+      output: ['stdout', 'stderr'],
+      signal: null,
+    });
+    const emitMock = jest.spyOn(workerpool, 'workerEmit').mockImplementation(() => {
+    });
+    integTestWorker({
+      tests: [test],
+      region: 'us-east-1',
+      retries: 2,
+    });
+
+    // THEN
+    expect(emitMock).toHaveBeenCalledTimes(1);
+    expect(emitMock).toHaveBeenCalledWith(expect.objectContaining({
+      reason: 'TEST_FAILED',
+      attempts: 1,
+    }));
+  });
 });
 
 describe('parallel worker', () => {
+  test('failures of quarantined tests do not fail the run', async () => {
+    const tests = [
+      {
+        fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+        discoveryRoot: 'test/test-data',
+      },
+      {
+        fileName: 'test/test-data/xxxxx.another-test-with-snapshot.js',
+        discoveryRoot: 'test/test-data',
+      },
+    ];
+    const results = await runIntegrationTests({
+      tests: [...tests],
+      pool,
+      regions: ['us-east-1'],
+      quarantine: new Quarantine(['xxxxx.test-with-snapshot.js']),
+    });
+    expect(results.success).toEqual(false);
+    expect(results.quarantinedFailures).toEqual([tests[0]]);
+
+    const quarantinedResults = await runIntegrationTests({
+      tests: [...tests],
+      pool,
+      regions: ['us-east-1'],
+      quarantine: new Quarantine(['xxxxx.test-with-snapshot.js', 'xxxxx.another-test-with-snapshot.js']),
+    });
+    expect(quarantinedResults.success).toEqual(true);
+    expect(quarantinedResults.quarantinedFailures).toEqual(expect.arrayContaining(tests));
+  });
+
   test('run all integration tests', async () => {
     const tests = [
       {
@@ -464,6 +561,35 @@ describe('parallel worker', () => {
     });
   });
 
+  test('longest tests are run first', async () => {
+    const tests = [
+      {
+        fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+        discoveryRoot: 'test/test-data',
+      },
+      {
+        fileName: 'test/test-data/xxxxx.another-test-with-snapshot.js',
+        discoveryRoot: 'test/test-data',
+      },
+    ];
+    await runIntegrationTestsInParallel({
+      tests,
+      pool,
+      regions: ['us-east-1'],
+      durations: new TestDurations({
+        'xxxxx.test-with-snapshot.js': 600,
+        'xxxxx.another-test-with-snapshot.js': 60,
+      }),
+    });
+
+    expect(stderrMock.mock.calls[0][0]).toContain(
+      'Running test test/test-data/xxxxx.test-with-snapshot.js in us-east-1',
+    );
+    expect(stderrMock.mock.calls[1][0]).toContain(
+      'Running test test/test-data/xxxxx.another-test-with-snapshot.js in us-east-1',
+    );
+  });
+
   test('more regions than tests', async () => {
     const tests = [
       {
@@ -0,0 +1,131 @@
+import { ResourceImpact } from '@aws-cdk/cloudformation-diff';
+import type * as workerpool from 'workerpool';
+import type { Diagnostic } from '../../lib/workers/common';
+import { DiagnosticReason } from '../../lib/workers/common';
+import { reviewSnapshots } from '../../lib/workers/snapshot-review';
+
+let stderrMock: jest.SpyInstance;
+let exec: jest.Mock;
+let pool: workerpool.WorkerPool;
+beforeEach(() => {
+  stderrMock = jest.spyOn(process.stderr, 'write').mockImplementation(() => {
+    return true;
+  });
+  exec = jest.fn().mockResolvedValue(undefined);
+  pool = { exec } as any;
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const discoveryRoot = 'test/test-data';
+const changed1 = {
+  fileName: 'test/test-data/xxxxx.test-with-snapshot.js',
+  discoveryRoot,
+  destructiveChanges: [{ stackName: 'test-stack', logicalId: 'MyFunction', impact: ResourceImpact.WILL_REPLACE }],
+};
+const changed2 = {
+  fileName: 'test/test-data/xxxxx.test-with-snapshot-assets.js',
+  discoveryRoot,
+};
+const newTest = {
+  fileName: 'test/test-data/xxxxx.integ-test1.js',
+  discoveryRoot,
+};
+const diagnostics: Diagnostic[] = [
+  {
+    testName: 'xxxxx.test-with-snapshot',
+    stackName: 'test-stack',
+    reason: DiagnosticReason.SNAPSHOT_FAILED,
+    message: '[~] AWS::Lambda::Function MyFunction replace',
+  },
+  {
+    testName: 'xxxxx.test-with-snapshot-assets',
+    stackName: 'test-stack',
+    reason: DiagnosticReason.SNAPSHOT_FAILED,
+    message: '[+] AWS::SNS::Topic MyTopic',
+  },
+  {
+    testName: 'xxxxx.integ-test1',
+    stackName: 'test-stack',
+    reason: DiagnosticReason.NO_SNAPSHOT,
+    message: 'No Snapshot',
+  },
+];
+
+function answers(...replies: string[]) {
+  return jest.fn(async () => replies.shift() ?? 'q');
+}
+
+test('only accepted snapshots are written', async () => {
+  // WHEN
+  const result = await reviewSnapshots(pool, [changed1, changed2], diagnostics, answers('s', 'u'));
+
+  // THEN
+  expect(exec).toHaveBeenCalledTimes(1);
+  expect(exec).toHaveBeenCalledWith('snapshotUpdateWorker', [changed2]);
+  expect(result).toEqual({
+    accepted: [changed2],
+    rejected: [changed1],
+  });
+});
+
+test('shows the diff and highlights destructive changes', async () => {
+  // WHEN
+  await reviewSnapshots(pool, [changed1], diagnostics, answers('s'));
+
+  // THEN
+  const output = stderrMock.mock.calls.map(([chunk]) => chunk).join('');
+  expect(output).toContain('Reviewing xxxxx.test-with-snapshot (1 of 1)');
+  expect(output).toContain('[~] AWS::Lambda::Function MyFunction replace');
+  expect(output).toContain('!!! This snapshot contains destructive changes !!!');
+  expect(output).toContain('Stack: test-stack - Resource: MyFunction - Impact: WILL_REPLACE');
+});
+
+test('quitting rejects the remaining snapshots', async () => {
+  // GIVEN
+  const prompt = answers('q');
+
+  // WHEN
+  const result = await reviewSnapshots(pool, [changed1, changed2], diagnostics, prompt);
+
+  // THEN
+  expect(prompt).toHaveBeenCalledTimes(1);
+  expect(exec).not.toHaveBeenCalled();
+  expect(result.rejected).toEqual([changed1, changed2]);
+});
+
+test('asks again on an unknown answer', async () => {
+  // GIVEN
+  const prompt = answers('x', 'u');
+
+  // WHEN
+  const result = await reviewSnapshots(pool, [changed2], diagnostics, prompt);
+
+  // THEN
+  expect(prompt).toHaveBeenCalledTimes(2);
+  expect(result.accepted).toEqual([changed2]);
+});
+
+test('tests without a changed snapshot are not reviewed', async () => {
+  // GIVEN
+  const prompt = answers();
+
+  // WHEN
+  const result = await reviewSnapshots(pool, [newTest], diagnostics, prompt);
+
+  // THEN
+  expect(prompt).not.toHaveBeenCalled();
+  expect(result).toEqual({ accepted: [], rejected: [newTest] });
+});
+
+test('snapshots that cannot be written are still failing', async () => {
+  // GIVEN
+  exec.mockRejectedValue(new Error('synth failed'));
+
+  // WHEN
+  const result = await reviewSnapshots(pool, [changed2], diagnostics, answers('u'));
+
+  // THEN
+  expect(result).toEqual({ accepted: [], rejected: [changed2] });
+});
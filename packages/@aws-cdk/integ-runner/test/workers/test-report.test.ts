@@ -0,0 +1,158 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DiagnosticReason, TestReport } from '../../lib/workers';
+
+function testReport() {
+  const report = new TestReport();
+  report.addDiagnostic('snapshot', {
+    testName: 'integ.unchanged',
+    stackName: 'Stack1',
+    reason: DiagnosticReason.SNAPSHOT_SUCCESS,
+    message: 'Success',
+    duration: 1.5,
+  });
+  report.addDiagnostic('snapshot', {
+    testName: 'integ.changed',
+    stackName: 'Stack2',
+    reason: DiagnosticReason.SNAPSHOT_FAILED,
+    message: 'Stack2 changed:\n  <Resources>',
+    duration: 2,
+    destructiveChanges: [{ stackName: 'Stack2', logicalId: 'Bucket', impact: 'WILL_DESTROY' as any }],
+  });
+  report.addDiagnostic('integ', {
+    testName: 'integ.changed-DefaultTest',
+    stackName: 'Stack2',
+    reason: DiagnosticReason.ASSERTION_FAILED,
+    message: 'AssertionResults',
+    duration: 120.25,
+    region: 'us-east-1',
+    profile: 'test-profile',
+    assertionResults: {
+      Assertion1: { status: 'success', message: 'ok' },
+      Assertion2: { status: 'fail', message: 'Expected "a" & got "b"' },
+    },
+  });
+  report.addMetrics([{ region: 'us-east-1', profile: 'test-profile', duration: 121, tests: { 'integ.changed.js': 120.25 } }]);
+  return report;
+}
+
+test('derives the status of results from their reason', () => {
+  expect(testReport().entries.map(e => [e.phase, e.status])).toEqual([
+    ['snapshot', 'passed'],
+    ['snapshot', 'failed'],
+    ['integ', 'failed'],
+  ]);
+});
+
+test('renders JSON with a summary, the results and the metrics', () => {
+  // WHEN
+  const json = JSON.parse(testReport().toJson());
+
+  // THEN
+  expect(json.summary).toEqual({ total: 3, passed: 1, failed: 2, errors: 0, quarantined: 0, accepted: 0, time: 123.75 });
+  expect(json.results[2]).toEqual(expect.objectContaining({
+    testName: 'integ.changed-DefaultTest',
+    reason: 'ASSERTION_FAILED',
+    region: 'us-east-1',
+    profile: 'test-profile',
+    assertionResults: expect.objectContaining({ Assertion2: { status: 'fail', message: 'Expected "a" & got "b"' } }),
+  }));
+  expect(json.metrics).toEqual([expect.objectContaining({ duration: 121 })]);
+});
+
+test('renders JUnit XML with a test suite per phase', () => {
+  // WHEN
+  const xml = testReport().toJunitXml();
+
+  // THEN
+  expect(xml).toContain('<testsuites name="integ-runner" tests="3" failures="2" errors="0" skipped="0" time="123.75">');
+  expect(xml).toContain('<testsuite name="snapshot" tests="2" failures="1" errors="0" skipped="0" time="3.5">');
+  expect(xml).toContain('<testsuite name="integ" tests="1" failures="1" errors="0" skipped="0" time="120.25">');
+  expect(xml).toContain('<testcase classname="snapshot" name="integ.unchanged (Stack1)" time="1.5">');
+  expect(xml).toContain('<failure type="SNAPSHOT_FAILED" message="Stack2 changed:">Stack2 changed:\n  &lt;Resources&gt;\nDestructive change: Stack2 - Bucket - WILL_DESTROY</failure>');
+  expect(xml).toContain('<property name="region" value="us-east-1"/>');
+  expect(xml).toContain('Assertion2: Expected &quot;a&quot; &amp; got &quot;b&quot;');
+  expect(xml).not.toContain('Assertion1');
+});
+
+test('reports errors as errors', () => {
+  // GIVEN
+  const report = new TestReport();
+  report.addDiagnostic('integ', {
+    testName: 'integ.broken',
+    stackName: 'Stack1',
+    reason: DiagnosticReason.TEST_ERROR,
+    message: 'Error during integration test: \x1b[31mboom\x1b[39m',
+  });
+
+  // WHEN
+  const xml = report.toJunitXml();
+
+  // THEN
+  expect(xml).toContain('errors="1"');
+  expect(xml).toContain('<error type="TEST_ERROR" message="Error during integration test: boom">');
+});
+
+test('reports failures of quarantined tests as skipped, and leaves out retries', () => {
+  // GIVEN
+  const report = new TestReport();
+  report.addDiagnostic('integ', {
+    testName: 'integ.flaky',
+    stackName: 'Stack1',
+    reason: DiagnosticReason.TEST_RETRY,
+    message: 'Retrying after transient failure (retry 1 of 1): Rate exceeded',
+    quarantined: true,
+  });
+  report.addDiagnostic('integ', {
+    testName: 'integ.flaky',
+    stackName: 'Stack1',
+    reason: DiagnosticReason.TEST_FAILED,
+    message: 'Integration test failed: Rate exceeded',
+    attempts: 2,
+    quarantined: true,
+  });
+
+  // WHEN
+  const xml = report.toJunitXml();
+
+  // THEN
+  expect(report.entries.map(e => e.status)).toEqual(['quarantined']);
+  expect(xml).toContain('<testsuite name="integ" tests="1" failures="0" errors="0" skipped="1" time="0">');
+  expect(xml).toContain('<property name="attempts" value="2"/>');
+  expect(xml).toContain('<skipped type="TEST_FAILED" message="Integration test failed: Rate exceeded">');
+});
+
+test('reports snapshot changes accepted during review as accepted', () => {
+  // GIVEN
+  const report = testReport();
+
+  // WHEN
+  report.acceptSnapshots([{ fileName: 'test/integ.changed.js', discoveryRoot: 'test' }]);
+
+  // THEN
+  expect(report.entries.map(e => e.status)).toEqual(['passed', 'accepted', 'failed']);
+  expect(JSON.parse(report.toJson()).summary).toEqual(expect.objectContaining({ failed: 1, accepted: 1 }));
+  const xml = report.toJunitXml();
+  expect(xml).toContain('<testsuite name="snapshot" tests="2" failures="0" errors="0" skipped="0" time="3.5">');
+  expect(xml).toContain('<property name="status" value="accepted"/>');
+  expect(xml).not.toContain('<failure type="SNAPSHOT_FAILED"');
+});
+
+test('writes the report in the requested format', () => {
+  // GIVEN
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'integ-report-'));
+  const report = testReport();
+
+  try {
+    // WHEN
+    report.writeFile('junit', path.join(dir, 'reports', 'results.xml'));
+    report.writeFile('json', path.join(dir, 'results.json'));
+
+    // THEN
+    expect(fs.readFileSync(path.join(dir, 'reports', 'results.xml'), 'utf-8')).toMatch(/^<\?xml/);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'results.json'), 'utf-8')).summary.total).toEqual(3);
+  } finally {
+    fs.removeSync(dir);
+  }
+});
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fullDiff, type TemplateDiff } from '@aws-cdk/cloudformation-diff';
+import type * as cxapi from '@aws-cdk/cx-api';
+import type { PolicyEffect, PolicyViolation } from '../io/payloads/deploy-policy';
+import type { IoHelper } from '../io/private';
+import { IO } from '../io/private';
+import { ToolkitError } from '../toolkit-error';
+import type { PolicyRule } from './rules';
+import { BUILTIN_RULES } from './rules';
+
+/**
+ * Reference to a built-in rule, as found in a policy file
+ */
+interface BuiltinRuleReference {
+  readonly rule: string;
+  readonly effect?: PolicyEffect;
+  readonly resourceTypes?: string[];
+}
+
+/**
+ * A set of rules that changes must satisfy to be deployed
+ */
+export class DeployPolicy {
+  /**
+   * Load a policy from a file
+   *
+   * JSON files contain `{ "rules": [{ "rule": "<built-in rule>", "effect": "block" | "warn" }] }`.
+   * JavaScript modules export the same `rules` array, which may additionally contain custom rules
+   * in the form of `{ name, effect, evaluate(diff) }` objects.
+   */
+  public static fromFile(fileName: string): DeployPolicy {
+    const file = path.resolve(fileName);
+    let contents: any;
+    try {
+      if (file.endsWith('.json')) {
+        contents = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      } else {
+        /* eslint-disable @typescript-eslint/no-require-imports */
+        contents = require(file);
+        /* eslint-enable */
+      }
+    } catch (e: any) {
+      throw ToolkitError.withCause(`Unable to load deploy policy from '${fileName}'`, e);
+    }
+
+    if (!Array.isArray(contents?.rules)) {
+      throw new ToolkitError(`Deploy policy '${fileName}' must contain a 'rules' array`);
+    }
+    return new DeployPolicy(contents.rules.map((r: any) => parseRule(r, fileName)));
+  }
+
+  /**
+   * Create a policy from a list of rules
+   */
+  public static fromRules(rules: PolicyRule[]): DeployPolicy {
+    return new DeployPolicy(rules);
+  }
+
+  private constructor(public readonly rules: PolicyRule[]) {
+  }
+
+  /**
+   * Evaluate all rules against the changes that will be deployed to a stack
+   */
+  public evaluate(stackName: string, diff: TemplateDiff): PolicyViolation[] {
+    return this.rules.flatMap(rule => rule.evaluate(diff).map(finding => ({
+      rule: rule.name,
+      effect: rule.effect,
+      stackName,
+      logicalId: finding.logicalId,
+      message: finding.message,
+    })));
+  }
+}
+
+/**
+ * Evaluate the deploy policy for a stack and report its violations
+ *
+ * Violations of blocking rules must be confirmed. The confirmation is refused by default,
+ * so deployments fail if they cannot be confirmed interactively.
+ */
+export async function enforceDeployPolicy(
+  ioHelper: IoHelper,
+  policy: DeployPolicy,
+  stack: cxapi.CloudFormationStackArtifact,
+  currentTemplate: any,
+  concurrency: number,
+): Promise<void> {
+  const violations = policy.evaluate(stack.stackName, fullDiff(currentTemplate, stack.template));
+  for (const violation of violations) {
+    const message = `${stack.displayName}: [${violation.rule}] ${violation.message}`;
+    await ioHelper.notify(violation.effect === 'block'
+      ? IO.CDK_TOOLKIT_E5071.msg(message, violation)
+      : IO.CDK_TOOLKIT_W5070.msg(message, violation));
+  }
+
+  const blocking = violations.filter(v => v.effect === 'block');
+  if (blocking.length === 0) {
+    return;
+  }
+
+  const confirmed = await ioHelper.requestResponse(IO.CDK_TOOLKIT_I5072.req(
+    'Do you wish to deploy these changes anyway',
+    {
+      motivation: `Stack ${stack.displayName} violates ${blocking.length} blocking deploy policy rule(s)`,
+      concurrency,
+      violations: blocking,
+    },
+  ));
+  if (!confirmed) {
+    throw new ToolkitError(`Deployment of stack ${stack.displayName} is blocked by the deploy policy`);
+  }
+}
+
+function parseRule(rule: any, fileName: string): PolicyRule {
+  if (typeof rule?.evaluate === 'function') {
+    if (typeof rule.name !== 'string') {
+      throw new ToolkitError(`Custom rules in deploy policy '${fileName}' must have a 'name'`);
+    }
+    return { ...rule, effect: parseEffect(rule.effect, rule.name, fileName) };
+  }
+
+  const ref = rule as BuiltinRuleReference;
+  const makeRule = BUILTIN_RULES[ref?.rule];
+  if (!makeRule) {
+    throw new ToolkitError(`Unknown rule '${ref?.rule}' in deploy policy '${fileName}'. Built-in rules are: ${Object.keys(BUILTIN_RULES).join(', ')}`);
+  }
+  return makeRule(parseEffect(ref.effect, ref.rule, fileName), { resourceTypes: ref.resourceTypes });
+}
+
+function parseEffect(effect: unknown, ruleName: string, fileName: string): PolicyEffect {
+  if (effect === undefined) {
+    return 'block';
+  }
+  if (effect !== 'block' && effect !== 'warn') {
+    throw new ToolkitError(`Rule '${ruleName}' in deploy policy '${fileName}' has invalid effect '${effect}', expected 'block' or 'warn'`);
+  }
+  return effect;
+}
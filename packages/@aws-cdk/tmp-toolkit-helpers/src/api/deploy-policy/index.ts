@@ -0,0 +1,2 @@
+export * from './deploy-policy';
+export * from './rules';
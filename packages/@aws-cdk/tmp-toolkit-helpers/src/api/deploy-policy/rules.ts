@@ -0,0 +1,157 @@
+import { ResourceImpact, type TemplateDiff } from '@aws-cdk/cloudformation-diff';
+import type { PolicyEffect } from '../io/payloads/deploy-policy';
+
+/**
+ * A single problem a policy rule found in a stack diff
+ */
+export interface PolicyRuleFinding {
+  /**
+   * The logical ID of the resource the finding is about, if any
+   */
+  readonly logicalId?: string;
+
+  /**
+   * Description of the finding
+   */
+  readonly message: string;
+}
+
+/**
+ * A rule of a deploy policy
+ */
+export interface PolicyRule {
+  /**
+   * The name of the rule, used to report violations
+   */
+  readonly name: string;
+
+  /**
+   * Whether violations of this rule block the deployment or only warn about it
+   */
+  readonly effect: PolicyEffect;
+
+  /**
+   * Evaluate the rule against the changes that will be deployed to a stack
+   */
+  evaluate(diff: TemplateDiff): PolicyRuleFinding[];
+}
+
+/**
+ * Options for the built-in rules
+ */
+export interface BuiltinRuleOptions {
+  /**
+   * Resource types the rule applies to
+   *
+   * Only used by the rules about stateful resources.
+   *
+   * @default STATEFUL_RESOURCE_TYPES
+   */
+  readonly resourceTypes?: string[];
+}
+
+/**
+ * Resource types that hold data that is lost when the resource is replaced or deleted
+ */
+export const STATEFUL_RESOURCE_TYPES = [
+  'AWS::Backup::BackupVault',
+  'AWS::Cognito::UserPool',
+  'AWS::DocDB::DBCluster',
+  'AWS::DocDB::DBInstance',
+  'AWS::DynamoDB::GlobalTable',
+  'AWS::DynamoDB::Table',
+  'AWS::EC2::Volume',
+  'AWS::EFS::FileSystem',
+  'AWS::ElastiCache::ReplicationGroup',
+  'AWS::Elasticsearch::Domain',
+  'AWS::Kinesis::Stream',
+  'AWS::KMS::Key',
+  'AWS::Logs::LogGroup',
+  'AWS::Neptune::DBCluster',
+  'AWS::Neptune::DBInstance',
+  'AWS::OpenSearchService::Domain',
+  'AWS::RDS::DBCluster',
+  'AWS::RDS::DBInstance',
+  'AWS::Redshift::Cluster',
+  'AWS::S3::Bucket',
+  'AWS::SQS::Queue',
+];
+
+const PUBLIC_CIDRS = ['0.0.0.0/0', '::/0'];
+
+/**
+ * The rules that can be referenced by name from a policy file
+ */
+export const BUILTIN_RULES: { [name: string]: (effect: PolicyEffect, options: BuiltinRuleOptions) => PolicyRule } = {
+  /**
+   * IAM statements that allow actions with a wildcard
+   */
+  'no-wildcard-actions': (effect) => ({
+    name: 'no-wildcard-actions',
+    effect,
+    evaluate: (diff) => diff.iamChanges.statements.additions
+      .filter(statement => (statement.effect as string) === 'Allow')
+      .flatMap((statement) => {
+        const resources = statement.resources.values.join(', ');
+        if (statement.actions.not) {
+          return [{ message: `IAM statement allows all actions except ${statement.actions.values.join(', ')} on ${resources}` }];
+        }
+        const wildcards = statement.actions.values.filter(action => action.includes('*'));
+        return wildcards.length > 0
+          ? [{ message: `IAM statement allows wildcard action(s) ${wildcards.join(', ')} on ${resources}` }]
+          : [];
+      }),
+  }),
+
+  /**
+   * Security group ingress from the entire internet
+   */
+  'no-public-ingress': (effect) => ({
+    name: 'no-public-ingress',
+    effect,
+    evaluate: (diff) => diff.securityGroupChanges.ingress.additions
+      .filter(rule => rule.peer?.kind === 'cidr-ip' && PUBLIC_CIDRS.includes(rule.peer.ip))
+      .map(rule => ({
+        logicalId: rule.groupId.match(/^\$\{([^.}]+)\.GroupId\}$/)?.[1],
+        message: `Security group ${rule.groupId} allows ingress from ${rule.describePeer()} (${rule.describeProtocol()})`,
+      })),
+  }),
+
+  /**
+   * Replacement of resources that hold data
+   */
+  'no-stateful-replacement': (effect, options) => ({
+    name: 'no-stateful-replacement',
+    effect,
+    evaluate: (diff) => {
+      const types = options.resourceTypes ?? STATEFUL_RESOURCE_TYPES;
+      const findings = new Array<PolicyRuleFinding>();
+      diff.resources.forEachDifference((logicalId, change) => {
+        const type = change.oldResourceType;
+        if (change.changeImpact === ResourceImpact.WILL_REPLACE && type && types.includes(type)) {
+          findings.push({ logicalId, message: `${type} ${logicalId} will be replaced, which loses the data it holds` });
+        }
+      });
+      return findings;
+    },
+  }),
+
+  /**
+   * Deletion of resources that hold data and are not retained
+   */
+  'no-unretained-deletion': (effect, options) => ({
+    name: 'no-unretained-deletion',
+    effect,
+    evaluate: (diff) => {
+      const types = options.resourceTypes ?? STATEFUL_RESOURCE_TYPES;
+      const findings = new Array<PolicyRuleFinding>();
+      diff.resources.forEachDifference((logicalId, change) => {
+        const type = change.oldResourceType;
+        if (change.isRemoval && change.changeImpact === ResourceImpact.WILL_DESTROY && type && types.includes(type)) {
+          findings.push({ logicalId, message: `${type} ${logicalId} will be deleted, because it does not have a Retain deletion policy` });
+        }
+      });
+      return findings;
+    },
+  }),
+};
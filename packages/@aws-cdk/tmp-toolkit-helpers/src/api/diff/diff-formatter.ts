@@ -1,5 +1,4 @@
 import { format } from 'node:util';
-import { Writable } from 'stream';
 import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import {
   type DescribeChangeSetOutput,
@@ -7,39 +6,22 @@ import {
   fullDiff,
   formatSecurityChanges,
   formatDifferences,
+  formatDifferencesHtml,
+  formatDifferencesMarkdown,
   mangleLikeCloudFormation,
+  templateDiffToJson,
 } from '@aws-cdk/cloudformation-diff';
 import type * as cxapi from '@aws-cdk/cx-api';
 import * as chalk from 'chalk';
 
 import type { NestedStackTemplates } from '../cloudformation/nested-stack-templates';
+import type { StackDiffJson } from '../io/payloads/diff';
 import type { IoHelper } from '../io/private';
 import { IoDefaultMessages } from '../io/private';
 import { RequireApproval } from '../require-approval';
+import { StringWriteStream } from '../streams';
 import { ToolkitError } from '../toolkit-error';
 
-/*
- * Custom writable stream that collects text into a string buffer.
- * Used on classes that take in and directly write to a stream, but
- * we intend to capture the output rather than print.
- */
-class StringWriteStream extends Writable {
-  private buffer: string[] = [];
-
-  constructor() {
-    super();
-  }
-
-  _write(chunk: any, _encoding: string, callback: (error?: Error | null) => void): void {
-    this.buffer.push(chunk.toString());
-    callback();
-  }
-
-  toString(): string {
-    return this.buffer.join('');
-  }
-}
-
 /**
  * Output of formatSecurityDiff
  */
@@ -63,6 +45,28 @@ interface FormatStackDiffOutput {
    * Complete formatted diff
    */
   readonly formattedDiff: string;
+
+  /**
+   * Machine-readable diff of the stack and all of its nested stacks
+   *
+   * This is the same diff as the formatted one, so both can be produced without diffing twice.
+   */
+  readonly stacks: StackDiffJson[];
+}
+
+/**
+ * Output of formatStackDiffJson
+ */
+interface FormatStackDiffJsonOutput {
+  /**
+   * Number of stacks with diff changes
+   */
+  readonly numStacksWithChanges: number;
+
+  /**
+   * Machine-readable diff of the stack and all of its nested stacks
+   */
+  readonly stacks: StackDiffJson[];
 }
 
 /**
@@ -157,6 +161,42 @@ interface ReusableStackDiffOptions extends Omit<FormatStackDiffOptions, 'stackNa
   readonly ioDefaultHelper: IoDefaultMessages;
 }
 
+/**
+ * Properties specific to the machine-readable stack diff
+ */
+type FormatStackDiffJsonOptions = Omit<FormatStackDiffOptions, 'context' | 'quiet'>;
+
+/**
+ * Properties specific to formatting the stack diff as a document
+ */
+interface FormatStackDiffDocumentOptions extends FormatStackDiffOptions {
+  /**
+   * The format of the document
+   */
+  readonly format: 'markdown' | 'html';
+}
+
+/**
+ * The diff of a single stack, with everything needed to render it
+ */
+interface StackTemplateDiff {
+  readonly stackName: string;
+  readonly diff: TemplateDiff;
+  readonly logicalToPathMap: { [logicalId: string]: string };
+}
+
+/**
+ * A stack diff with all changes removed that we don't want to show to users
+ */
+interface FilteredStackDiff {
+  readonly diff: TemplateDiff;
+
+  /**
+   * Number of changes that were omitted because they are likely mangled non-ASCII characters
+   */
+  readonly filteredChangesCount: number;
+}
+
 /**
  * Class for formatting the diff output
  */
@@ -176,15 +216,26 @@ export class DiffFormatter {
    */
   public formatStackDiff(options: FormatStackDiffOptions): FormatStackDiffOutput {
     const ioDefaultHelper = new IoDefaultMessages(this.ioHelper);
-    return this.formatStackDiffHelper(
-      this.oldTemplate,
-      options.stackName,
-      options.nestedStackTemplates,
-      {
-        ...options,
-        ioDefaultHelper,
-      },
-    );
+    const stacks = new Array<StackTemplateDiff>();
+
+    // nested stacks are diffed by swapping out the template of the stack artifact,
+    // put the original template back so the artifact can be used again afterwards
+    const template = this.newTemplate.template;
+    try {
+      const output = this.formatStackDiffHelper(
+        this.oldTemplate,
+        options.stackName,
+        options.nestedStackTemplates,
+        {
+          ...options,
+          ioDefaultHelper,
+        },
+        stacks,
+      );
+      return { ...output, stacks: stackDiffsToJson(stacks) };
+    } finally {
+      (this.newTemplate as any)._template = template;
+    }
   }
 
   private formatStackDiffHelper(
@@ -192,8 +243,10 @@ export class DiffFormatter {
     stackName: string | undefined,
     nestedStackTemplates: { [nestedStackLogicalId: string]: NestedStackTemplates } | undefined,
     options: ReusableStackDiffOptions,
+    stacks: StackTemplateDiff[],
   ) {
-    let diff = fullDiff(oldTemplate, this.newTemplate.template, options.changeSet, options.isImport);
+    const { diff, filteredChangesCount } = this.filteredStackDiff(oldTemplate, options);
+    stacks.push(this.stackTemplateDiff(oldTemplate, stackName ?? this.newTemplate.displayName, diff));
 
     // The stack diff is formatted via `Formatter`, which takes in a stream
     // and sends its output directly to that stream. To faciliate use of the
@@ -204,7 +257,6 @@ export class DiffFormatter {
 
     let numStacksWithChanges = 0;
     let formattedDiff = '';
-    let filteredChangesCount = 0;
     try {
       // must output the stack name if there are differences, even if quiet
       if (stackName && (!options.quiet || !diff.isEmpty)) {
@@ -215,22 +267,6 @@ export class DiffFormatter {
         stream.write('Parameters and rules created during migration do not affect resource configuration.\n');
       }
 
-      // detect and filter out mangled characters from the diff
-      if (diff.differenceCount && !options.strict) {
-        const mangledNewTemplate = JSON.parse(mangleLikeCloudFormation(JSON.stringify(this.newTemplate.template)));
-        const mangledDiff = fullDiff(this.oldTemplate, mangledNewTemplate, options.changeSet);
-        filteredChangesCount = Math.max(0, diff.differenceCount - mangledDiff.differenceCount);
-        if (filteredChangesCount > 0) {
-          diff = mangledDiff;
-        }
-      }
-
-      // filter out 'AWS::CDK::Metadata' resources from the template
-      // filter out 'CheckBootstrapVersion' rules from the template
-      if (!options.strict) {
-        obscureDiff(diff);
-      }
-
       if (!diff.isEmpty) {
         numStacksWithChanges++;
 
@@ -265,6 +301,7 @@ export class DiffFormatter {
         nestedStack.physicalName ?? nestedStackLogicalId,
         nestedStack.nestedStackTemplates,
         options,
+        stacks,
       );
       numStacksWithChanges += nextDiff.numStacksWithChanges;
       formattedDiff += nextDiff.formattedDiff;
@@ -276,6 +313,134 @@ export class DiffFormatter {
     };
   }
 
+  /**
+   * Produce a machine-readable version of the stack diff
+   *
+   * Nested stacks are returned as separate entries after their parent stack.
+   */
+  public formatStackDiffJson(options: FormatStackDiffJsonOptions): FormatStackDiffJsonOutput {
+    const stacks = this.collectStackDiffs(options);
+    return {
+      numStacksWithChanges: stacks.filter(stack => !stack.diff.isEmpty).length,
+      stacks: stackDiffsToJson(stacks),
+    };
+  }
+
+  /**
+   * Format the stack diff as a Markdown or HTML document
+   *
+   * Every stack, including nested stacks, gets its own collapsible section.
+   * HTML output is a fragment, use `formatHtmlReport` to turn it into a standalone document.
+   */
+  public formatStackDiffDocument(options: FormatStackDiffDocumentOptions): FormatStackDiffOutput {
+    const render = options.format === 'html' ? formatDifferencesHtml : formatDifferencesMarkdown;
+    const stacks = this.collectStackDiffs(options).filter(stack => !options.quiet || !stack.diff.isEmpty);
+    return {
+      numStacksWithChanges: stacks.filter(stack => !stack.diff.isEmpty).length,
+      formattedDiff: stacks.map(stack => render(stack.diff, {
+        stackName: stack.stackName,
+        logicalToPathMap: stack.logicalToPathMap,
+        context: options.context,
+      })).join('\n'),
+      stacks: stackDiffsToJson(stacks),
+    };
+  }
+
+  /**
+   * Compute the diffs of the stack and all of its nested stacks, the parent stack first
+   */
+  private collectStackDiffs(options: FormatStackDiffJsonOptions): StackTemplateDiff[] {
+    const ioDefaultHelper = new IoDefaultMessages(this.ioHelper);
+    const stacks = new Array<StackTemplateDiff>();
+
+    // nested stacks are diffed by swapping out the template of the stack artifact,
+    // put the original template back so the artifact can be used again afterwards
+    const template = this.newTemplate.template;
+    try {
+      this.collectStackDiffsHelper(
+        this.oldTemplate,
+        options.stackName ?? this.newTemplate.displayName,
+        options.nestedStackTemplates,
+        {
+          ...options,
+          ioDefaultHelper,
+        },
+        stacks,
+      );
+    } finally {
+      (this.newTemplate as any)._template = template;
+    }
+    return stacks;
+  }
+
+  private collectStackDiffsHelper(
+    oldTemplate: any,
+    stackName: string,
+    nestedStackTemplates: { [nestedStackLogicalId: string]: NestedStackTemplates } | undefined,
+    options: ReusableStackDiffOptions,
+    stacks: StackTemplateDiff[],
+  ) {
+    const { diff, filteredChangesCount } = this.filteredStackDiff(oldTemplate, options);
+
+    if (filteredChangesCount > 0) {
+      options.ioDefaultHelper.info(chalk.yellow(`Omitted ${filteredChangesCount} changes because they are likely mangled non-ASCII characters. Use --strict to print them.`));
+    }
+
+    stacks.push(this.stackTemplateDiff(oldTemplate, stackName, diff));
+
+    for (const [nestedStackLogicalId, nestedStack] of Object.entries(nestedStackTemplates ?? {})) {
+      (this.newTemplate as any)._template = nestedStack.generatedTemplate;
+      this.collectStackDiffsHelper(
+        nestedStack.deployedTemplate,
+        nestedStack.physicalName ?? nestedStackLogicalId,
+        nestedStack.nestedStackTemplates,
+        options,
+        stacks,
+      );
+    }
+  }
+
+  /**
+   * The diff of a stack, with the logical IDs of the old template and the current new template
+   */
+  private stackTemplateDiff(oldTemplate: any, stackName: string, diff: TemplateDiff): StackTemplateDiff {
+    return {
+      stackName,
+      diff,
+      logicalToPathMap: {
+        ...logicalIdMapFromTemplate(oldTemplate),
+        ...buildLogicalToPathMap(this.newTemplate),
+      },
+    };
+  }
+
+  /**
+   * Compute the diff between the old template and the current new template,
+   * without the changes that should not be shown to users unless in strict mode
+   */
+  private filteredStackDiff(oldTemplate: any, options: ReusableStackDiffOptions): FilteredStackDiff {
+    let diff = fullDiff(oldTemplate, this.newTemplate.template, options.changeSet, options.isImport);
+    let filteredChangesCount = 0;
+
+    // detect and filter out mangled characters from the diff
+    if (diff.differenceCount && !options.strict) {
+      const mangledNewTemplate = JSON.parse(mangleLikeCloudFormation(JSON.stringify(this.newTemplate.template)));
+      const mangledDiff = fullDiff(this.oldTemplate, mangledNewTemplate, options.changeSet);
+      filteredChangesCount = Math.max(0, diff.differenceCount - mangledDiff.differenceCount);
+      if (filteredChangesCount > 0) {
+        diff = mangledDiff;
+      }
+    }
+
+    // filter out 'AWS::CDK::Metadata' resources from the template
+    // filter out 'CheckBootstrapVersion' rules from the template
+    if (!options.strict) {
+      obscureDiff(diff);
+    }
+
+    return { diff, filteredChangesCount };
+  }
+
   /**
    * Format the security diff
    */
@@ -311,6 +476,13 @@ export class DiffFormatter {
   }
 }
 
+function stackDiffsToJson(stacks: StackTemplateDiff[]): StackDiffJson[] {
+  return stacks.map(stack => ({
+    stackName: stack.stackName,
+    ...templateDiffToJson(stack.diff, stack.logicalToPathMap),
+  }));
+}
+
 /**
  * Return whether the diff has security-impacting changes that need confirmation
  *
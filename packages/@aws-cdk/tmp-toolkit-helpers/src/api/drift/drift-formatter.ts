@@ -0,0 +1,145 @@
+import { format } from 'node:util';
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import { Difference, Formatter } from '@aws-cdk/cloudformation-diff';
+import type * as cxapi from '@aws-cdk/cx-api';
+import type { PropertyDifference, StackResourceDrift } from '@aws-sdk/client-cloudformation';
+import * as chalk from 'chalk';
+import type { DriftResult } from '../io/payloads/drift';
+import { StringWriteStream } from '../streams';
+
+/**
+ * Props for the Drift Formatter
+ */
+interface DriftFormatterProps {
+  /**
+   * The stack that drift detection was run on
+   */
+  readonly stack: cxapi.CloudFormationStackArtifact;
+
+  /**
+   * The drift status of the resources in the stack, as returned by CloudFormation
+   */
+  readonly resourceDrifts: StackResourceDrift[];
+}
+
+/**
+ * Class for formatting the drift output
+ */
+export class DriftFormatter {
+  private readonly stack: cxapi.CloudFormationStackArtifact;
+  private readonly resourceDrifts: StackResourceDrift[];
+
+  constructor(props: DriftFormatterProps) {
+    this.stack = props.stack;
+    this.resourceDrifts = props.resourceDrifts;
+  }
+
+  /**
+   * Format the drift of the stack
+   *
+   * Modified and deleted resources are rendered in the same style as a stack diff,
+   * going from the expected configuration to the actual configuration.
+   */
+  public formatStackDrift(): DriftResult {
+    const modified = this.resourceDrifts.filter(d => d.StackResourceDriftStatus === 'MODIFIED');
+    const deleted = this.resourceDrifts.filter(d => d.StackResourceDriftStatus === 'DELETED');
+    const unchecked = this.resourceDrifts.filter(d => d.StackResourceDriftStatus === 'NOT_CHECKED');
+    const numResourcesWithDrift = modified.length + deleted.length;
+
+    // The drift is formatted via `Formatter`, which takes in a stream
+    // and sends its output directly to that stream. We capture the
+    // output of `Formatter` to return it as a string.
+    const stream = new StringWriteStream();
+    const formatter = new Formatter(stream, buildLogicalToPathMap(this.stack));
+    try {
+      stream.write(format('Stack %s\n', chalk.bold(this.stack.displayName)));
+
+      if (modified.length > 0) {
+        formatter.printSectionHeader('Modified Resources');
+        for (const drift of modified) {
+          this.formatModifiedResource(formatter, drift);
+        }
+        formatter.printSectionFooter();
+      }
+
+      if (deleted.length > 0) {
+        formatter.printSectionHeader('Deleted Resources');
+        for (const drift of deleted) {
+          const diff = new Difference(parseValue(drift.ExpectedProperties) ?? {}, undefined);
+          formatter.print('%s %s %s', formatter.formatPrefix(diff), chalk.cyan(drift.ResourceType), formatter.formatLogicalId(drift.LogicalResourceId ?? ''));
+        }
+        formatter.printSectionFooter();
+      }
+
+      if (unchecked.length > 0) {
+        formatter.print(chalk.yellow(`${unchecked.length} resource${unchecked.length === 1 ? '' : 's'} could not be checked for drift`));
+      }
+
+      if (numResourcesWithDrift > 0) {
+        formatter.print(chalk.red(`Number of resources with drift: ${numResourcesWithDrift}`));
+      } else {
+        formatter.print(chalk.green('No drift detected'));
+      }
+    } finally {
+      stream.end();
+    }
+
+    return {
+      numResourcesWithDrift,
+      numResourcesUnchecked: unchecked.length,
+      resourceDrifts: this.resourceDrifts,
+      formattedDrift: stream.toString(),
+    };
+  }
+
+  private formatModifiedResource(formatter: Formatter, drift: StackResourceDrift) {
+    const diff = new Difference(parseValue(drift.ExpectedProperties) ?? {}, parseValue(drift.ActualProperties) ?? {});
+    formatter.print('%s %s %s', formatter.formatPrefix(diff), chalk.cyan(drift.ResourceType), formatter.formatLogicalId(drift.LogicalResourceId ?? ''));
+
+    const propertyDifferences = drift.PropertyDifferences ?? [];
+    propertyDifferences.forEach((propertyDifference, i) => {
+      formatter.formatTreeDiff(
+        propertyDifference.PropertyPath ?? '',
+        propertyDrift(propertyDifference),
+        i === propertyDifferences.length - 1,
+      );
+    });
+  }
+}
+
+/**
+ * Turn the drift of a single property into a difference from the expected to the actual value
+ */
+function propertyDrift(propertyDifference: PropertyDifference): Difference<any> {
+  switch (propertyDifference.DifferenceType) {
+    case 'ADD':
+      return new Difference(undefined, parseValue(propertyDifference.ActualValue));
+    case 'REMOVE':
+      return new Difference(parseValue(propertyDifference.ExpectedValue), undefined);
+    default:
+      return new Difference(parseValue(propertyDifference.ExpectedValue), parseValue(propertyDifference.ActualValue));
+  }
+}
+
+/**
+ * CloudFormation reports properties and values as JSON strings,
+ * but plain strings are returned without quotes.
+ */
+function parseValue(value: string | undefined): any {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function buildLogicalToPathMap(stack: cxapi.CloudFormationStackArtifact) {
+  const map: { [id: string]: string } = {};
+  for (const md of stack.findMetadataByType(cxschema.ArtifactMetadataEntryType.LOGICAL_ID)) {
+    map[md.data as string] = md.path;
+  }
+  return map;
+}
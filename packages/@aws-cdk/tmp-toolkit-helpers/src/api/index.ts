@@ -1,7 +1,10 @@
 export * from './cloud-assembly';
 export * from './cloudformation';
+export * from './deploy-policy';
 export * from './diff';
+export * from './drift';
 export * from './io';
 export * from './toolkit-error';
 export * from './require-approval';
 export * from './resource-import';
+export * from './template-validation';
@@ -6,3 +6,40 @@ export interface UpdatedContext {
   contextFile: string;
   context: { [key: string]: any };
 }
+
+/**
+ * A cached context value that was looked up longer ago than the configured maximum age
+ */
+export interface StaleContextValue {
+  /**
+   * The context key
+   */
+  readonly key: string;
+
+  /**
+   * The context provider that looked up the value
+   */
+  readonly provider: string;
+
+  /**
+   * When the value was looked up, as an ISO 8601 timestamp
+   */
+  readonly lastUpdated: string;
+
+  /**
+   * Age of the value in whole days
+   */
+  readonly ageDays: number;
+}
+
+export interface StaleContext {
+  /**
+   * The maximum age of cached context values in days
+   */
+  readonly maxAgeDays: number;
+
+  /**
+   * The cached context values that are older than the maximum age
+   */
+  readonly staleValues: StaleContextValue[];
+}
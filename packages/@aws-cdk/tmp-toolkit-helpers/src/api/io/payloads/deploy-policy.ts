@@ -0,0 +1,46 @@
+import type { ConfirmationRequest } from './types';
+
+/**
+ * What happens when a change violates a deploy policy rule
+ *
+ * - `block`: the deployment of the stack requires explicit confirmation, and fails if it cannot be confirmed
+ * - `warn`: the violation is reported, but the deployment continues
+ */
+export type PolicyEffect = 'block' | 'warn';
+
+/**
+ * A change to a stack that violates a rule of the deploy policy
+ */
+export interface PolicyViolation {
+  /**
+   * The name of the rule that was violated
+   */
+  readonly rule: string;
+
+  readonly effect: PolicyEffect;
+
+  /**
+   * The name of the stack that is being deployed
+   */
+  readonly stackName: string;
+
+  /**
+   * The logical ID of the changed resource, if the violation is about a single resource
+   */
+  readonly logicalId?: string;
+
+  /**
+   * Description of the violation
+   */
+  readonly message: string;
+}
+
+/**
+ * Payload for the confirmation of a deployment that violates blocking policy rules
+ */
+export interface PolicyConfirmationRequest extends ConfirmationRequest {
+  /**
+   * All violations of rules with the `block` effect
+   */
+  readonly violations: PolicyViolation[];
+}
@@ -99,3 +99,25 @@ export interface PublishAsset {
    */
   readonly asset: IManifestEntry;
 }
+
+/**
+ * The plan of a deployment, rendered as a graph
+ */
+export interface DeploymentPlan {
+  /**
+   * The graph format the plan is rendered in
+   */
+  readonly format: 'dot' | 'mermaid';
+
+  /**
+   * The rendered graph of stack deployments, asset builds and asset publishes
+   */
+  readonly plan: string;
+
+  /**
+   * The nodes of a dependency cycle in the plan, if there is one
+   *
+   * The first and last element are the same node.
+   */
+  readonly cycle?: string[];
+}
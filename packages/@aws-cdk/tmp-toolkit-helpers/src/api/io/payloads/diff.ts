@@ -1,3 +1,4 @@
+import type { TemplateDiffJson } from '@aws-cdk/cloudformation-diff';
 import type { Duration } from './types';
 
 /**
@@ -33,4 +34,36 @@ export interface DiffResult extends Duration {
    * Security diff formatted as a string
    */
   readonly formattedSecurityDiff: string;
+
+  /**
+   * Machine-readable diff of all stacks
+   *
+   * Not present when only the security diff was requested.
+   */
+  readonly diff?: DiffJson;
+}
+
+/**
+ * Machine-readable output of the diff command
+ */
+export interface DiffJson {
+  /**
+   * The version of the schema of this document
+   */
+  readonly schemaVersion: number;
+
+  /**
+   * The diffs of all selected stacks, including their nested stacks
+   */
+  readonly stacks: StackDiffJson[];
+}
+
+/**
+ * Machine-readable diff of a single stack
+ */
+export interface StackDiffJson extends TemplateDiffJson {
+  /**
+   * The name of the stack
+   */
+  readonly stackName: string;
 }
@@ -0,0 +1,53 @@
+import type { CloudFormationStackArtifact } from '@aws-cdk/cx-api';
+import type { StackResourceDrift } from '@aws-sdk/client-cloudformation';
+import type { Duration } from './types';
+
+/**
+ * The drift of a single stack
+ */
+export interface DriftResult {
+  /**
+   * The number of resources whose actual configuration differs from the expected one
+   */
+  readonly numResourcesWithDrift: number;
+
+  /**
+   * The number of resources that drift detection could not be run on
+   */
+  readonly numResourcesUnchecked: number;
+
+  /**
+   * The drift status of every resource in the stack, as reported by CloudFormation
+   */
+  readonly resourceDrifts: StackResourceDrift[];
+
+  /**
+   * The drift of the stack, formatted as a string
+   */
+  readonly formattedDrift: string;
+}
+
+/**
+ * Payload of the drift result of a single stack
+ */
+export interface DriftResultPayload {
+  /**
+   * The stack that drift detection was run on
+   */
+  readonly stack: CloudFormationStackArtifact;
+
+  /**
+   * The drift of the stack
+   */
+  readonly drift: DriftResult;
+}
+
+/**
+ * Output of the drift command
+ */
+export interface DriftSummary extends Duration {
+  /**
+   * The number of stacks with drifted resources
+   */
+  readonly numStacksWithDrift: number;
+}
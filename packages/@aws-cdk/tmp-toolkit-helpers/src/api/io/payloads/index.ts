@@ -12,5 +12,8 @@ export * from './progress';
 export * from './watch';
 export * from './stack-details';
 export * from './diff';
+export * from './drift';
+export * from './deploy-policy';
+export * from './template-validation';
 export * from './logs-monitor';
 export * from './hotswap';
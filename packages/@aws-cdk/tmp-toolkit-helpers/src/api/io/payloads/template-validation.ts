@@ -0,0 +1,60 @@
+import type { Duration } from './types';
+
+/**
+ * The severity of a template finding
+ *
+ * Errors will make CloudFormation reject the template, warnings might.
+ */
+export type TemplateFindingLevel = 'error' | 'warning';
+
+/**
+ * A single problem found in a synthesized template
+ */
+export interface TemplateFinding {
+  /**
+   * The check that produced the finding, e.g. `dangling-reference`
+   */
+  readonly rule: string;
+
+  readonly level: TemplateFindingLevel;
+
+  /**
+   * The name of the stack the template belongs to
+   */
+  readonly stackName: string;
+
+  /**
+   * The logical ID of the template element the finding is about, if any
+   */
+  readonly logicalId?: string;
+
+  /**
+   * The construct path of the resource, if known
+   */
+  readonly path?: string;
+
+  /**
+   * Description of the problem
+   */
+  readonly message: string;
+}
+
+/**
+ * Result of validating the templates of a cloud assembly
+ */
+export interface TemplateValidationResult extends Duration {
+  /**
+   * All problems found in the templates, ordered by stack
+   */
+  readonly findings: TemplateFinding[];
+
+  /**
+   * The number of findings with level `error`
+   */
+  readonly numErrors: number;
+
+  /**
+   * The number of findings with level `warning`
+   */
+  readonly numWarnings: number;
+}
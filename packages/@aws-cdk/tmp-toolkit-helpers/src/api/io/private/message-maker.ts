@@ -143,3 +143,13 @@ export const confirm = <T extends object = ImpossibleType>(details: Required<Omi
   ...details,
   defaultResponse: true,
 });
+
+/**
+ * A request that is a simple yes/no question, with the expectation that 'no' is the default.
+ *
+ * Hosts that cannot ask the user and answer with the default will refuse.
+ */
+export const confirmNo = <T extends object = ImpossibleType>(details: Required<Omit<RequestInfo<boolean>, 'defaultResponse'>>) => request<T, boolean>('info', {
+  ...details,
+  defaultResponse: false,
+});
@@ -3,9 +3,11 @@ import * as make from './message-maker';
 import type { SpanDefinition } from './span';
 import type { DiffResult } from '../payloads';
 import type { BootstrapEnvironmentProgress } from '../payloads/bootstrap-environment-progress';
-import type { MissingContext, UpdatedContext } from '../payloads/context';
-import type { BuildAsset, DeployConfirmationRequest, PublishAsset, StackDeployProgress, SuccessfulDeployStackResult } from '../payloads/deploy';
+import type { MissingContext, StaleContext, UpdatedContext } from '../payloads/context';
+import type { BuildAsset, DeployConfirmationRequest, DeploymentPlan, PublishAsset, StackDeployProgress, SuccessfulDeployStackResult } from '../payloads/deploy';
+import type { PolicyConfirmationRequest, PolicyViolation } from '../payloads/deploy-policy';
 import type { StackDestroy, StackDestroyProgress } from '../payloads/destroy';
+import type { DriftResultPayload, DriftSummary } from '../payloads/drift';
 import type { HotswapDeploymentDetails, HotswapDeploymentAttempt, HotswappableChange, HotswapResult } from '../payloads/hotswap';
 import type { StackDetailsPayload } from '../payloads/list';
 import type { CloudWatchLogEvent, CloudWatchLogMonitorControlEvent } from '../payloads/logs-monitor';
@@ -13,6 +15,7 @@ import type { StackRollbackProgress } from '../payloads/rollback';
 import type { SdkTrace } from '../payloads/sdk-trace';
 import type { StackActivity, StackMonitoringControlEvent } from '../payloads/stack-activity';
 import type { StackSelectionDetails } from '../payloads/synth';
+import type { TemplateFinding, TemplateValidationResult } from '../payloads/template-validation';
 import type { AssemblyData, ConfirmationRequest, ContextProviderMessageSource, Duration, ErrorPayload, StackAndAssemblyData } from '../payloads/types';
 import type { FileWatchEvent, WatchSettings } from '../payloads/watch';
 
@@ -67,6 +70,28 @@ export const IO = {
     interface: 'AssemblyData',
   }),
 
+  // Template validation (15xx)
+  CDK_TOOLKIT_I1500: make.trace<StackSelectionDetails>({
+    code: 'CDK_TOOLKIT_I1500',
+    description: 'Template validation is starting',
+    interface: 'StackSelectionDetails',
+  }),
+  CDK_TOOLKIT_I1509: make.info<TemplateValidationResult>({
+    code: 'CDK_TOOLKIT_I1509',
+    description: 'Output of the template validation',
+    interface: 'TemplateValidationResult',
+  }),
+  CDK_TOOLKIT_E1510: make.error<TemplateFinding>({
+    code: 'CDK_TOOLKIT_E1510',
+    description: 'A template contains a problem that CloudFormation will reject',
+    interface: 'TemplateFinding',
+  }),
+  CDK_TOOLKIT_W1511: make.warn<TemplateFinding>({
+    code: 'CDK_TOOLKIT_W1511',
+    description: 'A template contains a potential problem',
+    interface: 'TemplateFinding',
+  }),
+
   // 2: List (2xxx)
   CDK_TOOLKIT_I2901: make.result<StackDetailsPayload>({
     code: 'CDK_TOOLKIT_I2901',
@@ -93,6 +118,27 @@ export const IO = {
     interface: 'DiffResult',
   }),
 
+  // Drift (45xx)
+  CDK_TOOLKIT_I4500: make.trace<StackSelectionDetails>({
+    code: 'CDK_TOOLKIT_I4500',
+    description: 'Drift detection is starting',
+    interface: 'StackSelectionDetails',
+  }),
+  CDK_TOOLKIT_I4509: make.info<DriftSummary>({
+    code: 'CDK_TOOLKIT_I4509',
+    description: 'Output of the drift command',
+    interface: 'DriftSummary',
+  }),
+  CDK_TOOLKIT_I4590: make.result<DriftResultPayload>({
+    code: 'CDK_TOOLKIT_I4590',
+    description: 'Results of the drift detection for a single stack',
+    interface: 'DriftResultPayload',
+  }),
+  CDK_TOOLKIT_W4591: make.warn({
+    code: 'CDK_TOOLKIT_W4591',
+    description: 'Stack is not deployed, drift detection is skipped',
+  }),
+
   // 5: Deploy & Watch (5xxx)
   CDK_TOOLKIT_I5000: make.info<Duration>({
     code: 'CDK_TOOLKIT_I5000',
@@ -151,6 +197,21 @@ export const IO = {
     description: 'Confirm deploy security sensitive changes',
     interface: 'DeployConfirmationRequest',
   }),
+  CDK_TOOLKIT_W5070: make.warn<PolicyViolation>({
+    code: 'CDK_TOOLKIT_W5070',
+    description: 'A change violates a deploy policy rule with the "warn" effect',
+    interface: 'PolicyViolation',
+  }),
+  CDK_TOOLKIT_E5071: make.error<PolicyViolation>({
+    code: 'CDK_TOOLKIT_E5071',
+    description: 'A change violates a deploy policy rule with the "block" effect',
+    interface: 'PolicyViolation',
+  }),
+  CDK_TOOLKIT_I5072: make.confirmNo<PolicyConfirmationRequest>({
+    code: 'CDK_TOOLKIT_I5072',
+    description: 'Confirm deploying changes that are blocked by the deploy policy. Refused by default.',
+    interface: 'PolicyConfirmationRequest',
+  }),
   CDK_TOOLKIT_I5100: make.info<StackDeployProgress>({
     code: 'CDK_TOOLKIT_I5100',
     description: 'Stack deploy progress',
@@ -263,6 +324,11 @@ export const IO = {
     code: 'CDK_TOOLKIT_I5901',
     description: 'Generic deployment success messages',
   }),
+  CDK_TOOLKIT_I5902: make.result<DeploymentPlan>({
+    code: 'CDK_TOOLKIT_I5902',
+    description: 'Plan of the deployment, rendered as a graph',
+    interface: 'DeploymentPlan',
+  }),
   CDK_TOOLKIT_W5400: make.warn({
     code: 'CDK_TOOLKIT_W5400',
     description: 'Hotswap disclosure message',
@@ -426,6 +492,11 @@ export const IO = {
     description: 'Fetching missing context. This is an iterative message that may appear multiple times with different missing keys.',
     interface: 'MissingContext',
   }),
+  CDK_ASSEMBLY_W0242: make.warn<StaleContext>({
+    code: 'CDK_ASSEMBLY_W0242',
+    description: 'Cached context values are older than the configured maximum age',
+    interface: 'StaleContext',
+  }),
   CDK_ASSEMBLY_I1000: make.debug({
     code: 'CDK_ASSEMBLY_I1000',
     description: 'Cloud assembly output starts',
@@ -514,11 +585,21 @@ export const SPAN = {
     start: IO.CDK_TOOLKIT_I6100,
     end: IO.CDK_TOOLKIT_I6000,
   },
+  VALIDATE_TEMPLATES: {
+    name: 'Template validation',
+    start: IO.CDK_TOOLKIT_I1500,
+    end: IO.CDK_TOOLKIT_I1509,
+  },
   DIFF_STACK: {
     name: 'Diff',
     start: IO.CDK_TOOLKIT_I4000,
     end: IO.CDK_TOOLKIT_I4001,
   },
+  DRIFT_APP: {
+    name: 'Drift',
+    start: IO.CDK_TOOLKIT_I4500,
+    end: IO.CDK_TOOLKIT_I4509,
+  },
   DESTROY_STACK: {
     name: 'Destroy',
     start: IO.CDK_TOOLKIT_I7100,
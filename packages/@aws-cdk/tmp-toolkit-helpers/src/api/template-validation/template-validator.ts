@@ -0,0 +1,393 @@
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import type * as cxapi from '@aws-cdk/cx-api';
+import * as chalk from 'chalk';
+import type { TemplateFinding, TemplateFindingLevel } from '../io/payloads/template-validation';
+import type { IoHelper } from '../io/private';
+import { IO } from '../io/private';
+
+/**
+ * Limits CloudFormation imposes on a single template
+ *
+ * @see https://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/cloudformation-limits.html
+ */
+export const TEMPLATE_LIMITS = {
+  /** Maximum size of a template uploaded to S3, in bytes */
+  templateBodySize: 1_048_576,
+  resources: 500,
+  outputs: 200,
+  parameters: 200,
+  mappings: 200,
+};
+
+const PSEUDO_PARAMETERS = new Set([
+  'AWS::AccountId',
+  'AWS::NotificationARNs',
+  'AWS::NoValue',
+  'AWS::Partition',
+  'AWS::Region',
+  'AWS::StackId',
+  'AWS::StackName',
+  'AWS::URLSuffix',
+]);
+
+const INTRINSIC_FUNCTIONS = new Set([
+  'Fn::And',
+  'Fn::Base64',
+  'Fn::Cidr',
+  'Fn::Contains',
+  'Fn::EachMemberEquals',
+  'Fn::EachMemberIn',
+  'Fn::Equals',
+  'Fn::FindInMap',
+  'Fn::GetAtt',
+  'Fn::GetAZs',
+  'Fn::If',
+  'Fn::ImportValue',
+  'Fn::Join',
+  'Fn::Length',
+  'Fn::Not',
+  'Fn::Or',
+  'Fn::RefAll',
+  'Fn::Select',
+  'Fn::Split',
+  'Fn::Sub',
+  'Fn::ToJsonString',
+  'Fn::Transform',
+  'Fn::ValueOf',
+  'Fn::ValueOfAll',
+]);
+
+/**
+ * Props for the TemplateValidator
+ */
+interface TemplateValidatorProps {
+  /**
+   * All stacks of the cloud assembly
+   *
+   * Used to resolve `Fn::ImportValue` between stacks of the same assembly.
+   */
+  readonly assemblyStacks: cxapi.CloudFormationStackArtifact[];
+}
+
+/**
+ * Statically checks synthesized templates for problems that CloudFormation would reject them for
+ */
+export class TemplateValidator {
+  /**
+   * Exported names, mapped to the stack that exports them
+   */
+  private readonly exports = new Map<string, string>();
+  private readonly stackNames: string[];
+
+  constructor(props: TemplateValidatorProps) {
+    this.stackNames = props.assemblyStacks.map(s => s.stackName);
+    for (const stack of props.assemblyStacks) {
+      for (const output of Object.values<any>(stack.template.Outputs ?? {})) {
+        const exportName = output?.Export?.Name;
+        if (typeof exportName === 'string') {
+          this.exports.set(exportName, stack.stackName);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate the template of a single stack
+   */
+  public validateStack(stack: cxapi.CloudFormationStackArtifact): TemplateFinding[] {
+    return new StackValidation(stack, this.exports, this.stackNames).run();
+  }
+}
+
+/**
+ * Validate the templates of the given stacks, and report every finding to the IoHost
+ *
+ * @returns the findings of all stacks
+ */
+export async function validateStackTemplates(
+  ioHelper: IoHelper,
+  stacks: cxapi.CloudFormationStackArtifact[],
+  assemblyStacks: cxapi.CloudFormationStackArtifact[],
+): Promise<TemplateFinding[]> {
+  const validator = new TemplateValidator({ assemblyStacks });
+  const findings = stacks.flatMap(stack => validator.validateStack(stack));
+  for (const finding of findings) {
+    const message = `${chalk.bold(finding.stackName)}${finding.logicalId ? `/${finding.path ?? finding.logicalId}` : ''}: ${finding.message}`;
+    await ioHelper.notify(finding.level === 'error' ? IO.CDK_TOOLKIT_E1510.msg(message, finding) : IO.CDK_TOOLKIT_W1511.msg(message, finding));
+  }
+  return findings;
+}
+
+class StackValidation {
+  private readonly findings = new Array<TemplateFinding>();
+  private readonly template: any;
+  private readonly logicalToPathMap: { [id: string]: string };
+  private readonly resources: Record<string, any>;
+  private readonly parameters: Record<string, any>;
+  private readonly conditions: Record<string, any>;
+
+  /**
+   * Names that can be referenced with `Ref` in addition to parameters and resources
+   */
+  private readonly loopIdentifiers = new Set<string>();
+
+  /**
+   * CloudFormation macros can add resources, so references can't be checked reliably
+   */
+  private readonly hasTransform: boolean;
+
+  constructor(
+    private readonly stack: cxapi.CloudFormationStackArtifact,
+    private readonly exports: Map<string, string>,
+    private readonly stackNames: string[],
+  ) {
+    this.template = stack.template ?? {};
+    this.logicalToPathMap = buildLogicalToPathMap(stack);
+    this.resources = this.template.Resources ?? {};
+    this.parameters = this.template.Parameters ?? {};
+    this.conditions = this.template.Conditions ?? {};
+    this.hasTransform = this.template.Transform !== undefined;
+  }
+
+  public run(): TemplateFinding[] {
+    this.checkLimits();
+
+    this.collectLoopIdentifiers(this.template);
+    for (const [logicalId, resource] of Object.entries(this.resources)) {
+      const { DependsOn: dependsOn, Condition: condition, ...rest } = resource ?? {};
+      this.checkDependsOn(logicalId, dependsOn);
+      if (typeof condition === 'string') {
+        this.checkCondition(logicalId, condition);
+      }
+      this.checkValue(logicalId, rest);
+    }
+    for (const [logicalId, output] of Object.entries<any>(this.template.Outputs ?? {})) {
+      if (typeof output?.Condition === 'string') {
+        this.checkCondition(logicalId, output.Condition);
+      }
+      this.checkValue(logicalId, output);
+    }
+    for (const [logicalId, condition] of Object.entries(this.conditions)) {
+      this.checkValue(logicalId, condition);
+    }
+    this.checkDependsOnCycles();
+
+    return this.findings;
+  }
+
+  private checkLimits() {
+    const size = Buffer.byteLength(JSON.stringify(this.template));
+    if (size > TEMPLATE_LIMITS.templateBodySize) {
+      this.report('template-size', 'error', undefined, `Template is ${size} bytes, which exceeds the maximum template size of ${TEMPLATE_LIMITS.templateBodySize} bytes`);
+    }
+
+    for (const [section, limit] of [
+      ['Resources', TEMPLATE_LIMITS.resources],
+      ['Outputs', TEMPLATE_LIMITS.outputs],
+      ['Parameters', TEMPLATE_LIMITS.parameters],
+      ['Mappings', TEMPLATE_LIMITS.mappings],
+    ] as const) {
+      const count = Object.keys(this.template[section] ?? {}).length;
+      if (count > limit) {
+        this.report('resource-count', 'error', undefined, `Template has ${count} ${section}, which exceeds the maximum of ${limit}`);
+      }
+    }
+  }
+
+  private collectLoopIdentifiers(value: any) {
+    if (Array.isArray(value)) {
+      value.forEach(v => this.collectLoopIdentifiers(v));
+    } else if (value && typeof value === 'object') {
+      for (const [key, v] of Object.entries(value)) {
+        if (key.startsWith('Fn::ForEach::') && Array.isArray(v) && typeof v[0] === 'string') {
+          this.loopIdentifiers.add(v[0]);
+        }
+        this.collectLoopIdentifiers(v);
+      }
+    }
+  }
+
+  private checkDependsOn(logicalId: string, dependsOn: unknown) {
+    for (const target of dependencyList(dependsOn)) {
+      if (!(target in this.resources)) {
+        this.report('dangling-reference', this.referenceLevel(), logicalId, `DependsOn references resource '${target}', which does not exist in the template`);
+      }
+    }
+  }
+
+  private checkCondition(logicalId: string, condition: string) {
+    if (!(condition in this.conditions)) {
+      this.report('dangling-reference', this.referenceLevel(), logicalId, `Condition '${condition}' does not exist in the template`);
+    }
+  }
+
+  /**
+   * Walk a template value and check all intrinsic functions in it
+   */
+  private checkValue(logicalId: string, value: any) {
+    if (Array.isArray(value)) {
+      value.forEach(v => this.checkValue(logicalId, v));
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length === 1) {
+      const [fn] = keys;
+      const args = value[fn];
+      if (fn === 'Ref') {
+        this.checkRef(logicalId, args);
+      } else if (fn.startsWith('Fn::') && !fn.startsWith('Fn::ForEach::')) {
+        this.checkIntrinsic(logicalId, fn, args);
+      }
+    }
+
+    for (const v of Object.values(value)) {
+      this.checkValue(logicalId, v);
+    }
+  }
+
+  private checkIntrinsic(logicalId: string, fn: string, args: any) {
+    if (!INTRINSIC_FUNCTIONS.has(fn)) {
+      this.report('unknown-intrinsic', 'error', logicalId, `Unknown intrinsic function '${fn}'`);
+      return;
+    }
+
+    switch (fn) {
+      case 'Fn::GetAtt': {
+        const target = Array.isArray(args) ? args[0] : typeof args === 'string' ? args.split('.')[0] : undefined;
+        if (typeof target === 'string') {
+          this.checkGetAtt(logicalId, target);
+        }
+        break;
+      }
+      case 'Fn::Sub':
+        this.checkSub(logicalId, args);
+        break;
+      case 'Fn::If':
+        if (Array.isArray(args) && typeof args[0] === 'string') {
+          this.checkCondition(logicalId, args[0]);
+        }
+        break;
+      case 'Fn::ImportValue':
+        if (typeof args === 'string') {
+          this.checkImport(logicalId, args);
+        }
+        break;
+    }
+  }
+
+  private checkRef(logicalId: string, target: unknown) {
+    if (typeof target !== 'string') {
+      return;
+    }
+    if (!(target in this.resources) && !(target in this.parameters) && !PSEUDO_PARAMETERS.has(target) && !this.loopIdentifiers.has(target)) {
+      this.report('dangling-reference', this.referenceLevel(), logicalId, `Ref to '${target}', which is not a parameter or resource in the template`);
+    }
+  }
+
+  private checkGetAtt(logicalId: string, target: string) {
+    if (!(target in this.resources)) {
+      this.report('dangling-reference', this.referenceLevel(), logicalId, `Fn::GetAtt on '${target}', which is not a resource in the template`);
+    }
+  }
+
+  private checkSub(logicalId: string, args: any) {
+    const [str, variables] = Array.isArray(args) ? args : [args, {}];
+    if (typeof str !== 'string') {
+      return;
+    }
+
+    for (const match of str.matchAll(/\$\{([^!}][^}]*)\}/g)) {
+      const name = match[1].trim();
+      if (name in (variables ?? {})) {
+        continue;
+      }
+      const dot = name.indexOf('.');
+      if (dot > -1 && !name.startsWith('AWS::')) {
+        this.checkGetAtt(logicalId, name.substring(0, dot));
+      } else {
+        this.checkRef(logicalId, name);
+      }
+    }
+  }
+
+  private checkImport(logicalId: string, exportName: string) {
+    if (this.exports.has(exportName)) {
+      return;
+    }
+
+    // Only names that are evidently meant to be exported by a stack in the same assembly can be checked,
+    // anything else may be exported by a stack that is deployed separately.
+    const exportingStack = this.stackNames.find(name => exportName.startsWith(`${name}:`));
+    if (exportingStack) {
+      this.report('missing-export', 'error', logicalId, `Fn::ImportValue of '${exportName}', which is not exported by stack '${exportingStack}'`);
+    }
+  }
+
+  private checkDependsOnCycles() {
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const reported = new Set<string>();
+
+    const visit = (logicalId: string, path: string[]) => {
+      if (done.has(logicalId)) {
+        return;
+      }
+      if (visiting.has(logicalId)) {
+        const cycle = [...path.slice(path.indexOf(logicalId)), logicalId];
+        const key = [...new Set(cycle)].sort().join(',');
+        if (!reported.has(key)) {
+          reported.add(key);
+          this.report('circular-dependency', 'error', logicalId, `Circular DependsOn: ${cycle.join(' -> ')}`);
+        }
+        return;
+      }
+
+      visiting.add(logicalId);
+      for (const dep of dependencyList(this.resources[logicalId]?.DependsOn)) {
+        if (dep in this.resources) {
+          visit(dep, [...path, logicalId]);
+        }
+      }
+      visiting.delete(logicalId);
+      done.add(logicalId);
+    };
+
+    for (const logicalId of Object.keys(this.resources)) {
+      visit(logicalId, []);
+    }
+  }
+
+  private referenceLevel(): TemplateFindingLevel {
+    return this.hasTransform ? 'warning' : 'error';
+  }
+
+  private report(rule: string, level: TemplateFindingLevel, logicalId: string | undefined, message: string) {
+    this.findings.push({
+      rule,
+      level,
+      stackName: this.stack.stackName,
+      logicalId,
+      path: logicalId ? this.logicalToPathMap[logicalId]?.replace(/^\//, '') : undefined,
+      message,
+    });
+  }
+}
+
+function dependencyList(dependsOn: unknown): string[] {
+  if (typeof dependsOn === 'string') {
+    return [dependsOn];
+  }
+  return Array.isArray(dependsOn) ? dependsOn.filter((d): d is string => typeof d === 'string') : [];
+}
+
+function buildLogicalToPathMap(stack: cxapi.CloudFormationStackArtifact) {
+  const map: { [id: string]: string } = {};
+  for (const md of stack.findMetadataByType(cxschema.ArtifactMetadataEntryType.LOGICAL_ID)) {
+    map[md.data as string] = md.path;
+  }
+  return map;
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fullDiff } from '@aws-cdk/cloudformation-diff';
+import { DeployPolicy, enforceDeployPolicy } from '../../../src/api/deploy-policy';
+import { asIoHelper, TestIoHost } from '../../../src/api/io/private';
+
+describe('built-in rules', () => {
+  test('no-wildcard-actions reports added statements that allow wildcard actions', () => {
+    // GIVEN
+    const policy = policyWith('no-wildcard-actions');
+    const diff = fullDiff({}, {
+      Resources: {
+        Policy: {
+          Type: 'AWS::IAM::Policy',
+          Properties: {
+            Roles: ['MyRole'],
+            PolicyDocument: {
+              Statement: [
+                { Effect: 'Allow', Action: ['s3:*', 'sqs:SendMessage'], Resource: '*' },
+                { Effect: 'Allow', Action: 'sqs:ReceiveMessage', Resource: '*' },
+                { Effect: 'Deny', Action: '*', Resource: '*' },
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    // WHEN
+    const violations = policy.evaluate('Stack1', diff);
+
+    // THEN
+    expect(violations).toEqual([{
+      rule: 'no-wildcard-actions',
+      effect: 'block',
+      stackName: 'Stack1',
+      logicalId: undefined,
+      message: 'IAM statement allows wildcard action(s) s3:* on *',
+    }]);
+  });
+
+  test('no-public-ingress reports ingress from anywhere', () => {
+    // GIVEN
+    const policy = policyWith('no-public-ingress');
+    const diff = fullDiff({}, {
+      Resources: {
+        Group: {
+          Type: 'AWS::EC2::SecurityGroup',
+          Properties: {
+            SecurityGroupIngress: [
+              { CidrIp: '0.0.0.0/0', IpProtocol: 'tcp', FromPort: 22, ToPort: 22 },
+              { CidrIp: '10.0.0.0/8', IpProtocol: 'tcp', FromPort: 443, ToPort: 443 },
+            ],
+          },
+        },
+      },
+    });
+
+    // WHEN
+    const violations = policy.evaluate('Stack1', diff);
+
+    // THEN
+    expect(violations).toEqual([expect.objectContaining({
+      rule: 'no-public-ingress',
+      logicalId: 'Group',
+      message: 'Security group ${Group.GroupId} allows ingress from Everyone (IPv4) (TCP 22)',
+    })]);
+  });
+
+  test('no-stateful-replacement reports replaced stateful resources', () => {
+    // GIVEN
+    const policy = policyWith('no-stateful-replacement');
+    const diff = fullDiff({
+      Resources: {
+        Table: { Type: 'AWS::DynamoDB::Table', Properties: { TableName: 'old' } },
+        Topic: { Type: 'AWS::SNS::Topic', Properties: { TopicName: 'old' } },
+      },
+    }, {
+      Resources: {
+        Table: { Type: 'AWS::DynamoDB::Table', Properties: { TableName: 'new' } },
+        Topic: { Type: 'AWS::SNS::Topic', Properties: { TopicName: 'new' } },
+      },
+    });
+
+    // WHEN
+    const violations = policy.evaluate('Stack1', diff);
+
+    // THEN
+    expect(violations).toEqual([expect.objectContaining({
+      rule: 'no-stateful-replacement',
+      logicalId: 'Table',
+      message: 'AWS::DynamoDB::Table Table will be replaced, which loses the data it holds',
+    })]);
+  });
+
+  test('no-unretained-deletion reports deleted stateful resources without a Retain policy', () => {
+    // GIVEN
+    const policy = policyWith('no-unretained-deletion');
+    const diff = fullDiff({
+      Resources: {
+        Deleted: { Type: 'AWS::S3::Bucket' },
+        Retained: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain' },
+      },
+    }, { Resources: {} });
+
+    // WHEN
+    const violations = policy.evaluate('Stack1', diff);
+
+    // THEN
+    expect(violations).toEqual([expect.objectContaining({
+      rule: 'no-unretained-deletion',
+      logicalId: 'Deleted',
+    })]);
+  });
+});
+
+describe('fromFile', () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cdk-policy-'));
+  });
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  test('loads built-in rules from JSON', async () => {
+    // GIVEN
+    const file = path.join(directory, 'policy.json');
+    await writeJson(file, {
+      rules: [
+        { rule: 'no-wildcard-actions', effect: 'warn' },
+        { rule: 'no-stateful-replacement', resourceTypes: ['AWS::SNS::Topic'] },
+      ],
+    });
+
+    // WHEN
+    const policy = DeployPolicy.fromFile(file);
+
+    // THEN
+    expect(policy.rules.map(r => [r.name, r.effect])).toEqual([
+      ['no-wildcard-actions', 'warn'],
+      ['no-stateful-replacement', 'block'],
+    ]);
+  });
+
+  test('loads custom rules from a JavaScript module', async () => {
+    // GIVEN
+    const file = path.join(directory, 'policy.js');
+    await fs.promises.writeFile(file, `module.exports = { rules: [{
+      name: 'no-changes',
+      effect: 'warn',
+      evaluate: (diff) => diff.isEmpty ? [] : [{ message: 'stack changes' }],
+    }] };`);
+
+    // WHEN
+    const policy = DeployPolicy.fromFile(file);
+
+    // THEN
+    expect(policy.evaluate('Stack1', fullDiff({}, { Resources: { Topic: { Type: 'AWS::SNS::Topic' } } }))).toEqual([
+      { rule: 'no-changes', effect: 'warn', stackName: 'Stack1', logicalId: undefined, message: 'stack changes' },
+    ]);
+  });
+
+  test('rejects unknown rules and effects', async () => {
+    // GIVEN
+    const file = path.join(directory, 'policy.json');
+
+    // THEN
+    await writeJson(file, { rules: [{ rule: 'no-fun' }] });
+    expect(() => DeployPolicy.fromFile(file)).toThrow(/Unknown rule 'no-fun'/);
+    await writeJson(file, { rules: [{ rule: 'no-public-ingress', effect: 'deny' }] });
+    expect(() => DeployPolicy.fromFile(file)).toThrow(/invalid effect 'deny'/);
+  });
+});
+
+describe('enforceDeployPolicy', () => {
+  const stack = {
+    stackName: 'Stack1',
+    displayName: 'Stack1',
+    template: { Resources: { Bucket: { Type: 'AWS::S3::Bucket' } } },
+  } as any;
+  const currentTemplate = { Resources: { Bucket: { Type: 'AWS::S3::Bucket', Properties: { BucketName: 'old' } } } };
+
+  let ioHost: TestIoHost;
+  beforeEach(() => {
+    ioHost = new TestIoHost();
+  });
+
+  test('warnings do not ask for confirmation', async () => {
+    // GIVEN
+    const policy = DeployPolicy.fromRules([{ name: 'always', effect: 'warn', evaluate: () => [{ message: 'always warns' }] }]);
+
+    // WHEN
+    await enforceDeployPolicy(asIoHelper(ioHost, 'deploy'), policy, stack, currentTemplate, 1);
+
+    // THEN
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'CDK_TOOLKIT_W5070',
+      level: 'warn',
+      message: 'Stack1: [always] always warns',
+    }));
+    expect(ioHost.requestSpy).not.toHaveBeenCalled();
+  });
+
+  test('blocking violations are refused by default', async () => {
+    // GIVEN
+    const policy = policyWith('no-stateful-replacement');
+
+    // WHEN
+    await expect(enforceDeployPolicy(asIoHelper(ioHost, 'deploy'), policy, stack, currentTemplate, 1))
+      .rejects.toThrow('Deployment of stack Stack1 is blocked by the deploy policy');
+
+    // THEN
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({ code: 'CDK_TOOLKIT_E5071', level: 'error' }));
+    expect(ioHost.requestSpy).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'CDK_TOOLKIT_I5072',
+      defaultResponse: false,
+      data: expect.objectContaining({
+        motivation: 'Stack Stack1 violates 1 blocking deploy policy rule(s)',
+        violations: [expect.objectContaining({ rule: 'no-stateful-replacement', logicalId: 'Bucket' })],
+      }),
+    }));
+  });
+
+  test('blocking violations can be confirmed', async () => {
+    // GIVEN
+    const policy = policyWith('no-stateful-replacement');
+    jest.spyOn(ioHost, 'requestResponse').mockResolvedValue(true);
+
+    // THEN
+    await expect(enforceDeployPolicy(asIoHelper(ioHost, 'deploy'), policy, stack, currentTemplate, 1)).resolves.toBeUndefined();
+  });
+});
+
+function policyWith(rule: string) {
+  const file = path.join(os.tmpdir(), `cdk-policy-${rule}.json`);
+  fs.writeFileSync(file, JSON.stringify({ rules: [{ rule }] }));
+  try {
+    return DeployPolicy.fromFile(file);
+  } finally {
+    fs.unlinkSync(file);
+  }
+}
+
+async function writeJson(file: string, obj: any) {
+  await fs.promises.writeFile(file, JSON.stringify(obj));
+}
@@ -1,3 +1,4 @@
+import { mangleLikeCloudFormation } from '@aws-cdk/cloudformation-diff';
 import type * as cxapi from '@aws-cdk/cx-api';
 import * as chalk from 'chalk';
 import { DiffFormatter } from '../../../src/api/diff/diff-formatter';
@@ -163,6 +164,172 @@ describe('formatStackDiff', () => {
   });
 });
 
+describe('formatStackDiffJson and formatStackDiffDocument', () => {
+  let mockIoHelper: IoHelper;
+  let mockNewTemplate: cxapi.CloudFormationStackArtifact;
+
+  beforeEach(() => {
+    mockIoHelper = IoHelper.fromIoHost(
+      { notify: jest.fn().mockResolvedValue(undefined), requestResponse: jest.fn().mockResolvedValue(undefined) },
+      'diff',
+    );
+
+    (IoDefaultMessages as jest.Mock).mockImplementation(() => ({
+      info: jest.fn(),
+      warning: jest.fn(),
+      error: jest.fn(),
+    }));
+
+    mockNewTemplate = {
+      template: {
+        Resources: {
+          Metadata: {
+            Type: 'AWS::CDK::Metadata',
+          },
+          Func: {
+            Type: 'AWS::Lambda::Function',
+            Properties: {
+              Handler: 'index.handler',
+            },
+          },
+        },
+      },
+      templateFile: 'template.json',
+      stackName: 'test-stack',
+      displayName: 'test-stack',
+      findMetadataByType: () => [{ data: 'Func', path: '/test-stack/Func/Resource' }],
+    } as any;
+  });
+
+  test('returns the changes of the stack and its nested stacks', () => {
+    // GIVEN
+    const nestedStackTemplates = {
+      NestedStack: {
+        physicalName: undefined,
+        deployedTemplate: {},
+        generatedTemplate: {},
+        nestedStackTemplates: {},
+      },
+    };
+
+    // WHEN
+    const formatter = new DiffFormatter({
+      ioHelper: mockIoHelper,
+      oldTemplate: {},
+      newTemplate: mockNewTemplate,
+    });
+    const result = formatter.formatStackDiffJson({
+      nestedStackTemplates,
+    });
+
+    // THEN
+    expect(result.numStacksWithChanges).toBe(2);
+    expect(result.stacks.map(s => s.stackName)).toEqual(['test-stack', 'NestedStack']);
+    expect(result.stacks[0].resources).toEqual([expect.objectContaining({
+      logicalId: 'Func',
+      path: 'test-stack/Func/Resource',
+      changeType: 'ADD',
+      resourceType: 'AWS::Lambda::Function',
+    })]);
+  });
+
+  test('formatStackDiff returns the same machine-readable diff, warning about omitted changes once', () => {
+    // GIVEN
+    const info = jest.fn();
+    (IoDefaultMessages as jest.Mock).mockImplementation(() => ({ info, warning: jest.fn(), error: jest.fn() }));
+    const newTemplate = {
+      ...mockNewTemplate,
+      template: {
+        Resources: {
+          Func: { Type: 'AWS::Lambda::Function', Properties: { Handler: 'index.handler' } },
+          Topic: { Type: 'AWS::SNS::Topic', Properties: { DisplayName: 'Größe' } },
+        },
+      },
+    } as any;
+    const oldTemplate = JSON.parse(mangleLikeCloudFormation(JSON.stringify(newTemplate.template)));
+    oldTemplate.Resources.Func.Properties.Handler = 'old.handler';
+
+    // WHEN
+    const formatter = new DiffFormatter({
+      ioHelper: mockIoHelper,
+      oldTemplate,
+      newTemplate,
+    });
+    const result = formatter.formatStackDiff({ stackName: 'test-stack' });
+
+    // THEN
+    expect(info.mock.calls.filter(([message]) => message.includes('Omitted 1 changes'))).toHaveLength(1);
+    expect(result.stacks[0].resources).toEqual([expect.objectContaining({ logicalId: 'Func', changeType: 'UPDATE' })]);
+    expect(result.stacks).toEqual(formatter.formatStackDiffJson({ stackName: 'test-stack' }).stacks);
+  });
+
+  test('includes AWS::CDK::Metadata in strict mode', () => {
+    // WHEN
+    const formatter = new DiffFormatter({
+      ioHelper: mockIoHelper,
+      oldTemplate: {},
+      newTemplate: mockNewTemplate,
+    });
+    const result = formatter.formatStackDiffJson({
+      strict: true,
+    });
+
+    // THEN
+    expect(result.stacks[0].resources.map(r => r.logicalId)).toEqual(['Func', 'Metadata']);
+  });
+
+  test('formats the stack diff as markdown', () => {
+    // WHEN
+    const formatter = new DiffFormatter({
+      ioHelper: mockIoHelper,
+      oldTemplate: {},
+      newTemplate: mockNewTemplate,
+    });
+    const result = formatter.formatStackDiffDocument({
+      format: 'markdown',
+    });
+
+    // THEN
+    expect(result.numStacksWithChanges).toBe(1);
+    expect(result.formattedDiff).toContain('<summary><b>test-stack</b> (1 change)</summary>');
+    expect(result.formattedDiff).toContain('- `[+]` `AWS::Lambda::Function` Func `Func`');
+    expect(result.formattedDiff).not.toContain('AWS::CDK::Metadata');
+  });
+
+  test('formats the stack diff as html', () => {
+    // WHEN
+    const formatter = new DiffFormatter({
+      ioHelper: mockIoHelper,
+      oldTemplate: {},
+      newTemplate: mockNewTemplate,
+    });
+    const result = formatter.formatStackDiffDocument({
+      format: 'html',
+    });
+
+    // THEN
+    expect(result.formattedDiff).toContain('<summary><b>test-stack</b> (1 change)</summary>');
+    expect(result.formattedDiff).toContain('<li><span class="add">[+]</span> <code>AWS::Lambda::Function</code> Func <code>Func</code></li>');
+  });
+
+  test('leaves out stacks without changes in quiet mode', () => {
+    // WHEN
+    const formatter = new DiffFormatter({
+      ioHelper: mockIoHelper,
+      oldTemplate: mockNewTemplate.template,
+      newTemplate: mockNewTemplate,
+    });
+    const result = formatter.formatStackDiffDocument({
+      format: 'markdown',
+      quiet: true,
+    });
+
+    // THEN
+    expect(result.numStacksWithChanges).toBe(0);
+    expect(result.formattedDiff).toEqual('');
+  });
+});
+
 describe('formatSecurityDiff', () => {
   let mockIoHelper: IoHelper;
   let mockNewTemplate: cxapi.CloudFormationStackArtifact;
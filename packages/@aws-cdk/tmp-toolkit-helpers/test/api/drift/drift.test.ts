@@ -0,0 +1,100 @@
+import type * as cxapi from '@aws-cdk/cx-api';
+import type { StackResourceDrift } from '@aws-sdk/client-cloudformation';
+import * as chalk from 'chalk';
+import { DriftFormatter } from '../../../src/api/drift/drift-formatter';
+
+describe('formatStackDrift', () => {
+  let mockStack: cxapi.CloudFormationStackArtifact;
+
+  beforeEach(() => {
+    mockStack = {
+      displayName: 'test-stack',
+      stackName: 'test-stack',
+      findMetadataByType: () => [{
+        path: '/test-stack/MyFunction/Resource',
+        data: 'MyFunction',
+      }],
+    } as any;
+  });
+
+  test('reports no drift when all resources are in sync', () => {
+    // WHEN
+    const formatter = new DriftFormatter({
+      stack: mockStack,
+      resourceDrifts: [drift({ LogicalResourceId: 'MyFunction', StackResourceDriftStatus: 'IN_SYNC' })],
+    });
+    const result = formatter.formatStackDrift();
+
+    // THEN
+    expect(result.numResourcesWithDrift).toBe(0);
+    expect(result.numResourcesUnchecked).toBe(0);
+    expect(result.formattedDrift).toContain(chalk.bold('test-stack'));
+    expect(result.formattedDrift).toContain('No drift detected');
+  });
+
+  test('formats the property drift of modified resources', () => {
+    // WHEN
+    const formatter = new DriftFormatter({
+      stack: mockStack,
+      resourceDrifts: [drift({
+        LogicalResourceId: 'MyFunction',
+        ResourceType: 'AWS::Lambda::Function',
+        StackResourceDriftStatus: 'MODIFIED',
+        ExpectedProperties: '{"Timeout":3}',
+        ActualProperties: '{"Timeout":10}',
+        PropertyDifferences: [{
+          PropertyPath: '/Timeout',
+          ExpectedValue: '3',
+          ActualValue: '10',
+          DifferenceType: 'NOT_EQUAL',
+        }],
+      })],
+    });
+    const result = formatter.formatStackDrift();
+
+    // THEN
+    expect(result.numResourcesWithDrift).toBe(1);
+    const output = stripAnsi(result.formattedDrift);
+    expect(output).toContain('Modified Resources');
+    expect(output).toContain('[~] AWS::Lambda::Function MyFunction MyFunction');
+    expect(output).toContain('└─ [~] /Timeout');
+    expect(output).toContain('[-] 3');
+    expect(output).toContain('[+] 10');
+    expect(output).toContain('Number of resources with drift: 1');
+  });
+
+  test('formats deleted resources and counts unchecked resources', () => {
+    // WHEN
+    const formatter = new DriftFormatter({
+      stack: mockStack,
+      resourceDrifts: [
+        drift({ LogicalResourceId: 'MyBucket', ResourceType: 'AWS::S3::Bucket', StackResourceDriftStatus: 'DELETED' }),
+        drift({ LogicalResourceId: 'MyQueue', ResourceType: 'AWS::SQS::Queue', StackResourceDriftStatus: 'NOT_CHECKED' }),
+      ],
+    });
+    const result = formatter.formatStackDrift();
+
+    // THEN
+    expect(result.numResourcesWithDrift).toBe(1);
+    expect(result.numResourcesUnchecked).toBe(1);
+    const output = stripAnsi(result.formattedDrift);
+    expect(output).toContain('Deleted Resources');
+    expect(output).toContain('[-] AWS::S3::Bucket MyBucket');
+    expect(output).toContain('1 resource could not be checked for drift');
+  });
+});
+
+function drift(props: Partial<StackResourceDrift>): StackResourceDrift {
+  return {
+    StackId: 'stack-id',
+    LogicalResourceId: 'Resource',
+    ResourceType: 'AWS::CloudFormation::WaitConditionHandle',
+    StackResourceDriftStatus: 'IN_SYNC',
+    Timestamp: new Date(),
+    ...props,
+  };
+}
+
+function stripAnsi(str: string): string {
+  return str.replace(/\u001b\[[0-9;]*[a-zA-Z]/g, '');
+}
@@ -0,0 +1,211 @@
+import type * as cxapi from '@aws-cdk/cx-api';
+import { asIoHelper, TestIoHost } from '../../../src/api/io/private';
+import { TEMPLATE_LIMITS, TemplateValidator, validateStackTemplates } from '../../../src/api/template-validation/template-validator';
+
+describe('validateStack', () => {
+  test('reports no findings for a valid template', () => {
+    // GIVEN
+    const stack = mockStack('Stack1', {
+      Parameters: { Env: { Type: 'String' } },
+      Conditions: { IsProd: { 'Fn::Equals': [{ Ref: 'Env' }, 'prod'] } },
+      Resources: {
+        Bucket: { Type: 'AWS::S3::Bucket' },
+        Topic: {
+          Type: 'AWS::SNS::Topic',
+          Condition: 'IsProd',
+          DependsOn: 'Bucket',
+          Properties: {
+            TopicName: { 'Fn::Sub': ['${Bucket}-${AWS::Region}-${Suffix}-${!Literal}', { Suffix: 'x' }] },
+            DisplayName: { 'Fn::GetAtt': ['Bucket', 'Arn'] },
+          },
+        },
+      },
+      Outputs: {
+        BucketName: { Value: { Ref: 'Bucket' }, Export: { Name: 'Stack1:BucketName' } },
+      },
+    });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [stack] }).validateStack(stack);
+
+    // THEN
+    expect(findings).toEqual([]);
+  });
+
+  test('reports dangling references with their construct path', () => {
+    // GIVEN
+    const stack = mockStack('Stack1', {
+      Resources: {
+        Topic: {
+          Type: 'AWS::SNS::Topic',
+          DependsOn: ['Missing1'],
+          Properties: {
+            TopicName: { Ref: 'Missing2' },
+            DisplayName: { 'Fn::GetAtt': 'Missing3.Arn' },
+            KmsMasterKeyId: { 'Fn::Sub': '${Missing4.Arn}' },
+          },
+        },
+      },
+    });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [stack] }).validateStack(stack);
+
+    // THEN
+    expect(findings.map(f => f.message)).toEqual([
+      "DependsOn references resource 'Missing1', which does not exist in the template",
+      "Ref to 'Missing2', which is not a parameter or resource in the template",
+      "Fn::GetAtt on 'Missing3', which is not a resource in the template",
+      "Fn::GetAtt on 'Missing4', which is not a resource in the template",
+    ]);
+    expect(findings[0]).toEqual({
+      rule: 'dangling-reference',
+      level: 'error',
+      stackName: 'Stack1',
+      logicalId: 'Topic',
+      path: 'Stack1/Topic/Resource',
+      message: expect.any(String),
+    });
+  });
+
+  test('dangling references are only warnings in templates with a transform', () => {
+    // GIVEN
+    const stack = mockStack('Stack1', {
+      Transform: 'AWS::Serverless-2016-10-31',
+      Resources: {
+        Topic: { Type: 'AWS::SNS::Topic', Properties: { TopicName: { Ref: 'FunctionRole' } } },
+      },
+    });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [stack] }).validateStack(stack);
+
+    // THEN
+    expect(findings).toEqual([expect.objectContaining({ rule: 'dangling-reference', level: 'warning' })]);
+  });
+
+  test('reports unknown intrinsic functions', () => {
+    // GIVEN
+    const stack = mockStack('Stack1', {
+      Resources: {
+        Topic: { Type: 'AWS::SNS::Topic', Properties: { TopicName: { 'Fn::Concat': ['a', 'b'] } } },
+      },
+    });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [stack] }).validateStack(stack);
+
+    // THEN
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'unknown-intrinsic',
+      logicalId: 'Topic',
+      message: "Unknown intrinsic function 'Fn::Concat'",
+    })]);
+  });
+
+  test('reports imports of exports missing from stacks in the same assembly', () => {
+    // GIVEN
+    const producer = mockStack('Producer', {
+      Resources: { Bucket: { Type: 'AWS::S3::Bucket' } },
+      Outputs: { Exported: { Value: { Ref: 'Bucket' }, Export: { Name: 'Producer:ExportsOutputRefBucket' } } },
+    });
+    const consumer = mockStack('Consumer', {
+      Resources: {
+        Topic: {
+          Type: 'AWS::SNS::Topic',
+          Properties: {
+            TopicName: { 'Fn::ImportValue': 'Producer:ExportsOutputRefBucket' },
+            DisplayName: { 'Fn::ImportValue': 'Producer:ExportsOutputRefQueue' },
+            KmsMasterKeyId: { 'Fn::ImportValue': 'SomeOtherApp:KeyId' },
+          },
+        },
+      },
+    });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [producer, consumer] }).validateStack(consumer);
+
+    // THEN
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'missing-export',
+      level: 'error',
+      message: "Fn::ImportValue of 'Producer:ExportsOutputRefQueue', which is not exported by stack 'Producer'",
+    })]);
+  });
+
+  test('reports circular DependsOn once', () => {
+    // GIVEN
+    const stack = mockStack('Stack1', {
+      Resources: {
+        A: { Type: 'AWS::SNS::Topic', DependsOn: 'B' },
+        B: { Type: 'AWS::SNS::Topic', DependsOn: ['C'] },
+        C: { Type: 'AWS::SNS::Topic', DependsOn: ['A'] },
+        D: { Type: 'AWS::SNS::Topic', DependsOn: ['A'] },
+      },
+    });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [stack] }).validateStack(stack);
+
+    // THEN
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'circular-dependency',
+      message: 'Circular DependsOn: A -> B -> C -> A',
+    })]);
+  });
+
+  test('reports exceeded template limits', () => {
+    // GIVEN
+    const resources: Record<string, any> = {};
+    for (let i = 0; i <= TEMPLATE_LIMITS.resources; i++) {
+      resources[`Topic${i}`] = { Type: 'AWS::SNS::Topic', Properties: { TopicName: 'x'.repeat(2100) } };
+    }
+    const stack = mockStack('Stack1', { Resources: resources });
+
+    // WHEN
+    const findings = new TemplateValidator({ assemblyStacks: [stack] }).validateStack(stack);
+
+    // THEN
+    expect(findings).toEqual([
+      expect.objectContaining({ rule: 'template-size', message: expect.stringContaining('exceeds the maximum template size') }),
+      expect.objectContaining({ rule: 'resource-count', message: 'Template has 501 Resources, which exceeds the maximum of 500' }),
+    ]);
+  });
+});
+
+describe('validateStackTemplates', () => {
+  test('reports findings to the IoHost', async () => {
+    // GIVEN
+    const ioHost = new TestIoHost();
+    const stack = mockStack('Stack1', {
+      Resources: {
+        Topic: { Type: 'AWS::SNS::Topic', Properties: { TopicName: { Ref: 'Missing' } } },
+      },
+    });
+
+    // WHEN
+    const findings = await validateStackTemplates(asIoHelper(ioHost, 'synth'), [stack], [stack]);
+
+    // THEN
+    expect(findings).toHaveLength(1);
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'CDK_TOOLKIT_E1510',
+      level: 'error',
+      message: expect.stringContaining("Ref to 'Missing'"),
+      data: findings[0],
+    }));
+  });
+});
+
+function mockStack(stackName: string, template: any): cxapi.CloudFormationStackArtifact {
+  return {
+    stackName,
+    displayName: stackName,
+    template,
+    findMetadataByType: () => Object.keys(template.Resources ?? {}).map(logicalId => ({
+      path: `/${stackName}/${logicalId}/Resource`,
+      type: 'aws:cdk:logicalId',
+      data: logicalId,
+    })),
+  } as any;
+}
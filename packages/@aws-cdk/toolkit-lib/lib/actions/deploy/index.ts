@@ -1,6 +1,7 @@
 import type { BaseDeployOptions } from './private/deploy-options';
 import type { Tag } from '../../api/aws-cdk';
-import type { RequireApproval } from '../../api/shared-public';
+import type { StackSelector } from '../../api/cloud-assembly';
+import type { DeployPolicy, RequireApproval } from '../../api/shared-public';
 
 export type DeploymentMethod = DirectDeploymentMethod | ChangeSetDeploymentMethod;
 
@@ -167,6 +168,16 @@ export interface DeployOptions extends BaseDeployOptions {
    * @default - no overrides
    */
   readonly hotswapProperties?: HotswapProperties;
+
+  /**
+   * Rules that the changes to each stack must satisfy
+   *
+   * Changes that violate a rule with the `block` effect are only deployed if the
+   * `IIoHost` confirms them, which it refuses by default.
+   *
+   * @default - no deploy policy
+   */
+  readonly policy?: DeployPolicy;
 }
 
 /**
@@ -195,3 +206,41 @@ export interface HotswapProperties {
    */
   readonly ecs: EcsHotswapProperties;
 }
+
+/**
+ * Graph formats a deployment plan can be rendered in
+ */
+export enum PlanFormat {
+  /**
+   * Graphviz DOT
+   */
+  DOT = 'dot',
+
+  /**
+   * Mermaid flowchart
+   */
+  MERMAID = 'mermaid',
+}
+
+export interface PlanOptions {
+  /**
+   * Criteria for selecting stacks to plan
+   *
+   * @default - all stacks
+   */
+  readonly stacks?: StackSelector;
+
+  /**
+   * The format to render the plan in
+   *
+   * @default PlanFormat.DOT
+   */
+  readonly format?: PlanFormat;
+
+  /**
+   * When to build assets
+   *
+   * @default AssetBuildTime.ALL_BEFORE_DEPLOY
+   */
+  readonly assetBuildTime?: AssetBuildTime;
+}
@@ -0,0 +1,10 @@
+import type { StackSelector } from '../../api/cloud-assembly';
+
+export interface DriftOptions {
+  /**
+   * Criteria for selecting stacks to detect drift on
+   *
+   * @default - all stacks
+   */
+  readonly stacks?: StackSelector;
+}
@@ -2,7 +2,9 @@ export * from './bootstrap';
 export * from './deploy';
 export * from './destroy';
 export * from './diff';
+export * from './drift';
 export * from './list';
 export * from './rollback';
 export * from './synth';
+export * from './validate';
 export * from './watch';
@@ -0,0 +1,13 @@
+import type { StackSelector } from '../../api/cloud-assembly';
+
+export interface ValidateOptions {
+  /**
+   * Criteria for selecting the stacks whose templates are validated
+   *
+   * Exports of all stacks in the assembly are considered when validating `Fn::ImportValue`,
+   * regardless of the selection.
+   *
+   * @default - all stacks
+   */
+  readonly stacks?: StackSelector;
+}
@@ -1,4 +1,5 @@
 import * as path from 'node:path';
+import { DIFF_JSON_SCHEMA_VERSION } from '@aws-cdk/cloudformation-diff';
 import * as cxapi from '@aws-cdk/cx-api';
 import * as chalk from 'chalk';
 import * as chokidar from 'chokidar';
@@ -8,15 +9,17 @@ import type { ToolkitServices } from './private';
 import { assemblyFromSource } from './private';
 import type { BootstrapEnvironments, BootstrapOptions, BootstrapResult, EnvironmentBootstrapResult } from '../actions/bootstrap';
 import { BootstrapSource } from '../actions/bootstrap';
-import { AssetBuildTime, type DeployOptions } from '../actions/deploy';
+import { AssetBuildTime, type DeployOptions, PlanFormat, type PlanOptions } from '../actions/deploy';
 import { type ExtendedDeployOptions, buildParameterMap, createHotswapPropertyOverrides, removePublishedAssets } from '../actions/deploy/private';
 import { type DestroyOptions } from '../actions/destroy';
 import type { ChangeSetDiffOptions, DiffOptions, LocalFileDiffOptions } from '../actions/diff';
 import { DiffMethod } from '../actions/diff';
 import { determinePermissionType } from '../actions/diff/private';
+import { type DriftOptions } from '../actions/drift';
 import { type ListOptions } from '../actions/list';
 import { type RollbackOptions } from '../actions/rollback';
 import { type SynthOptions } from '../actions/synth';
+import { type ValidateOptions } from '../actions/validate';
 import type { WatchOptions } from '../actions/watch';
 import { patternsArrayForWatch } from '../actions/watch/private';
 import { type SdkConfig } from '../api/aws-auth';
@@ -30,8 +33,8 @@ import type { IIoHost, IoMessageLevel } from '../api/io';
 import { IO, SPAN, asSdkLogger, withoutColor, withoutEmojis, withTrimmedWhitespace } from '../api/io/private';
 import type { IoHelper } from '../api/shared-private';
 import { asIoHelper } from '../api/shared-private';
-import type { AssemblyData, StackDetails, ToolkitAction } from '../api/shared-public';
-import { DiffFormatter, RequireApproval, ToolkitError, removeNonImportResources } from '../api/shared-public';
+import type { AssemblyData, DeploymentPlan, DriftResult, StackDetails, StackDiffJson, TemplateValidationResult, ToolkitAction } from '../api/shared-public';
+import { DiffFormatter, DriftFormatter, enforceDeployPolicy, RequireApproval, ToolkitError, removeNonImportResources, validateStackTemplates } from '../api/shared-public';
 import { obscureTemplate, serializeStructure, validateSnsTopicArn, formatTime, formatErrorMessage, deserializeStructure } from '../private/util';
 import { pLimit } from '../util/concurrency';
 
@@ -252,6 +255,34 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
     return new IdentityCloudAssemblySource(assembly.assembly);
   }
 
+  /**
+   * Validate Action
+   *
+   * Statically checks the templates of the selected stacks for problems that CloudFormation would
+   * reject them for, like references to resources that don't exist or exceeded template limits.
+   */
+  public async validate(cx: ICloudAssemblySource, options: ValidateOptions = {}): Promise<TemplateValidationResult> {
+    const ioHelper = asIoHelper(this.ioHost, 'synth');
+    const selectStacks = options.stacks ?? ALL_STACKS;
+    const synthSpan = await ioHelper.span(SPAN.SYNTH_ASSEMBLY).begin({ stacks: selectStacks });
+    const assembly = await assemblyFromSource(ioHelper, cx);
+    const stacks = await assembly.selectStacksV2(selectStacks);
+    await synthSpan.end();
+
+    const validationSpan = await ioHelper.span(SPAN.VALIDATE_TEMPLATES).begin({ stacks: selectStacks });
+    const findings = await validateStackTemplates(ioHelper, stacks.stackArtifacts, assembly.assembly.stacksRecursively);
+
+    const numErrors = findings.filter(f => f.level === 'error').length;
+    const numWarnings = findings.length - numErrors;
+    const elapsed = await validationSpan.end(`✨ Template validation found ${numErrors} error(s) and ${numWarnings} warning(s)`, {
+      findings,
+      numErrors,
+      numWarnings,
+    });
+
+    return { findings, numErrors, numWarnings, duration: elapsed.asMs };
+  }
+
   /**
    * Diff Action
    */
@@ -273,6 +304,7 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
     let diffs = 0;
     let formattedSecurityDiff = '';
     let formattedStackDiff = '';
+    const stackDiffs = new Array<StackDiffJson>();
 
     if (diffMethod.method === 'local-file') {
       const methodOptions = diffMethod.options as LocalFileDiffOptions;
@@ -306,6 +338,7 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
           strict,
           context: contextLines,
         });
+        stackDiffs.push(...diff.stacks);
         formattedStackDiff = diff.formattedDiff;
         diffs = diff.numStacksWithChanges;
       }
@@ -380,6 +413,7 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
             isImport: !!resourcesToImport,
             nestedStackTemplates: nestedStacks,
           });
+          stackDiffs.push(...diff.stacks);
           formattedStackDiff = diff.formattedDiff;
           diffs = diff.numStacksWithChanges;
         }
@@ -389,11 +423,55 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
     await diffSpan.end(`✨ Number of stacks with differences: ${diffs}`, {
       formattedSecurityDiff,
       formattedStackDiff,
+      diff: options.securityOnly ? undefined : {
+        schemaVersion: DIFF_JSON_SCHEMA_VERSION,
+        stacks: stackDiffs,
+      },
     });
 
     return;
   }
 
+  /**
+   * Drift Action
+   *
+   * Runs CloudFormation drift detection on the selected stacks and reports the drift of every stack
+   */
+  public async drift(cx: ICloudAssemblySource, options: DriftOptions = {}): Promise<{ [stackName: string]: DriftResult }> {
+    const ioHelper = asIoHelper(this.ioHost, 'drift');
+    const selectStacks = options.stacks ?? ALL_STACKS;
+    const synthSpan = await ioHelper.span(SPAN.SYNTH_ASSEMBLY).begin({ stacks: selectStacks });
+    const assembly = await assemblyFromSource(ioHelper, cx);
+    const stacks = await assembly.selectStacksV2(selectStacks);
+    await synthSpan.end();
+
+    const driftSpan = await ioHelper.span(SPAN.DRIFT_APP).begin({ stacks: selectStacks });
+    const deployments = await this.deploymentsForAction('drift');
+
+    const results: { [stackName: string]: DriftResult } = {};
+    for (const stack of stacks.stackArtifacts) {
+      const stackExists = await deployments.stackExists({ stack, tryLookupRole: true });
+      if (!stackExists) {
+        await ioHelper.notify(IO.CDK_TOOLKIT_W4591.msg(`${chalk.bold(stack.displayName)}: stack is not deployed, skipping drift detection.`));
+        continue;
+      }
+
+      const resourceDrifts = await deployments.detectStackDrift(stack);
+      const formatter = new DriftFormatter({ stack, resourceDrifts });
+      const drift = formatter.formatStackDrift();
+      results[stack.stackName] = drift;
+
+      await ioHelper.notify(IO.CDK_TOOLKIT_I4590.msg(drift.formattedDrift, { stack, drift }));
+    }
+
+    const numStacksWithDrift = Object.values(results).filter(r => r.numResourcesWithDrift > 0).length;
+    await driftSpan.end(`✨ Number of stacks with drift: ${numStacksWithDrift}`, {
+      numStacksWithDrift,
+    });
+
+    return results;
+  }
+
   /**
    * List Action
    *
@@ -425,6 +503,38 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
     return this._deploy(assembly, 'deploy', options);
   }
 
+  /**
+   * Plan Action
+   *
+   * Renders the order in which stacks are deployed and assets are built and published, without deploying anything.
+   * All assets are part of the plan, including those that have already been published.
+   */
+  public async plan(cx: ICloudAssemblySource, options: PlanOptions = {}): Promise<DeploymentPlan> {
+    const ioHelper = asIoHelper(this.ioHost, 'deploy');
+    const selectStacks = options.stacks ?? ALL_STACKS;
+    const synthSpan = await ioHelper.span(SPAN.SYNTH_ASSEMBLY).begin({ stacks: selectStacks });
+    const assembly = await assemblyFromSource(ioHelper, cx);
+    const stackCollection = await assembly.selectStacksV2(selectStacks);
+    await synthSpan.end();
+
+    const prebuildAssets = (options.assetBuildTime ?? AssetBuildTime.ALL_BEFORE_DEPLOY) === AssetBuildTime.ALL_BEFORE_DEPLOY;
+    const stacksAndTheirAssetManifests = stackCollection.stackArtifacts.flatMap((stack) => [
+      stack,
+      ...stack.dependencies.filter(x => cxapi.AssetManifestArtifact.isAssetManifestArtifact(x)),
+    ]);
+    const workGraph = new WorkGraphBuilder(ioHelper, prebuildAssets).build(stacksAndTheirAssetManifests);
+
+    const format = options.format ?? PlanFormat.DOT;
+    const plan: DeploymentPlan = {
+      format,
+      plan: workGraph.render(format),
+      cycle: workGraph.findCycle(),
+    };
+    await ioHelper.notify(IO.CDK_TOOLKIT_I5902.msg(plan.plan, plan));
+
+    return plan;
+  }
+
   /**
    * Helper to allow deploy being called as part of the watch action.
    */
@@ -522,6 +632,10 @@ export class Toolkit extends CloudAssemblySourceBuilder implements AsyncDisposab
       }
 
       const currentTemplate = await deployments.readCurrentTemplate(stack);
+      if (options.policy) {
+        await enforceDeployPolicy(ioHelper, options.policy, stack, currentTemplate, concurrency);
+      }
+
       const permissionChangeType = determinePermissionType(currentTemplate, stack);
       const deployMotivation = '"--require-approval" is enabled and stack includes security-sensitive updates.';
       const deployQuestion = `${deployMotivation}\nDo you wish to deploy these changes`;
@@ -0,0 +1,13 @@
+import * as core from 'aws-cdk-lib/core';
+
+export default async () => {
+  const app = new core.App({ autoSynth: false });
+  const stack = new core.Stack(app, 'Stack1');
+  new core.CfnResource(stack, 'MyTopic', {
+    type: 'AWS::SNS::Topic',
+    properties: {
+      TopicName: { Ref: 'DoesNotExist' },
+    },
+  });
+  return app.synth();
+};
@@ -1,4 +1,4 @@
-import { RequireApproval, StackParameters } from '../../lib';
+import { DeployPolicy, PlanFormat, RequireApproval, StackParameters } from '../../lib';
 import * as awsCdkApi from '../../lib/api/aws-cdk';
 import type { DeployStackOptions, DeployStackResult } from '../../lib/api/aws-cdk';
 import { Toolkit } from '../../lib/toolkit';
@@ -93,6 +93,33 @@ describe('deploy', () => {
     }));
   });
 
+  test('blocking deploy policy violations fail the deployment by default', async () => {
+    // GIVEN
+    const policy = DeployPolicy.fromRules([{
+      name: 'no-roles',
+      effect: 'block',
+      evaluate: (diff) => diff.resources.filter(change => change?.newResourceType === 'AWS::IAM::Role').logicalIds
+        .map(logicalId => ({ logicalId, message: 'roles are not allowed' })),
+    }]);
+
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-role');
+    await expect(toolkit.deploy(cx, { policy })).rejects.toThrow('Deployment of stack Stack1 is blocked by the deploy policy');
+
+    // THEN
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'deploy',
+      level: 'error',
+      code: 'CDK_TOOLKIT_E5071',
+      message: expect.stringMatching(/Stack1: \[no-roles\] roles are not allowed/),
+    }));
+    expect(ioHost.requestSpy).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'CDK_TOOLKIT_I5072',
+      defaultResponse: false,
+    }));
+    expect(mockDeployStack).not.toHaveBeenCalled();
+  });
+
   describe('deployment options', () => {
     test('parameters are passed in', async () => {
       // WHEN
@@ -281,6 +308,39 @@ describe('deploy', () => {
   });
 });
 
+describe('plan', () => {
+  test('renders the plan without deploying', async () => {
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-asset');
+    const plan = await toolkit.plan(cx, { format: PlanFormat.MERMAID });
+
+    // THEN
+    expect(plan.format).toEqual('mermaid');
+    expect(plan.plan).toMatch(/^flowchart LR/);
+    expect(plan.plan).toContain('stack (priority 5)');
+    expect(plan.plan).toContain('asset-build (priority 10)');
+    expect(plan.plan).toContain('asset-publish (priority 0)');
+    expect(plan.cycle).toBeUndefined();
+    expect(mockDeployStack).not.toHaveBeenCalled();
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'deploy',
+      level: 'result',
+      code: 'CDK_TOOLKIT_I5902',
+      message: plan.plan,
+    }));
+  });
+
+  test('renders DOT by default', async () => {
+    // WHEN
+    const cx = await builderFixture(toolkit, 'two-empty-stacks');
+    const plan = await toolkit.plan(cx);
+
+    // THEN
+    expect(plan.format).toEqual('dot');
+    expect(plan.plan).toMatch(/^digraph WorkGraph \{/);
+  });
+});
+
 function successfulDeployment() {
   expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
     action: 'deploy',
@@ -55,6 +55,36 @@ describe('diff', () => {
     }));
   });
 
+  test('sends machine-readable diff to IoHost', async () => {
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-bucket');
+    await toolkit.diff(cx, {
+      stacks: { strategy: StackSelectionStrategy.ALL_STACKS },
+    });
+
+    // THEN
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'diff',
+      code: 'CDK_TOOLKIT_I4001',
+      data: expect.objectContaining({
+        diff: {
+          schemaVersion: 1,
+          stacks: [expect.objectContaining({
+            stackName: 'Stack1',
+            isEmpty: false,
+            resources: [expect.objectContaining({
+              logicalId: 'MyBucketF68F3FF0',
+              path: 'Stack1/MyBucket/Resource',
+              changeType: 'ADD',
+              resourceType: 'AWS::S3::Bucket',
+              impact: 'WILL_CREATE',
+            })],
+          })],
+        },
+      }),
+    }));
+  });
+
   // TODO: uncomment when diff returns a value
   // test('returns diff', async () => {
   //   // WHEN
@@ -0,0 +1,102 @@
+import * as chalk from 'chalk';
+import * as awsCdkApi from '../../lib/api/aws-cdk';
+import { StackSelectionStrategy, Toolkit } from '../../lib/toolkit';
+import { builderFixture, TestIoHost } from '../_helpers';
+
+let ioHost: TestIoHost;
+let toolkit: Toolkit;
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  ioHost = new TestIoHost();
+  toolkit = new Toolkit({ ioHost });
+
+  jest.spyOn(awsCdkApi.Deployments.prototype, 'stackExists').mockResolvedValue(true);
+});
+
+describe('drift', () => {
+  test('sends drift results to IoHost', async () => {
+    // GIVEN
+    jest.spyOn(awsCdkApi.Deployments.prototype, 'detectStackDrift').mockResolvedValue([{
+      StackId: 'Stack1',
+      LogicalResourceId: 'MyBucketF68F3FF0',
+      ResourceType: 'AWS::S3::Bucket',
+      StackResourceDriftStatus: 'MODIFIED',
+      Timestamp: new Date(),
+      PropertyDifferences: [{
+        PropertyPath: '/VersioningConfiguration/Status',
+        ExpectedValue: 'Enabled',
+        ActualValue: 'Suspended',
+        DifferenceType: 'NOT_EQUAL',
+      }],
+    }]);
+
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-bucket');
+    const result = await toolkit.drift(cx, {
+      stacks: { strategy: StackSelectionStrategy.ALL_STACKS },
+    });
+
+    // THEN
+    expect(result.Stack1.numResourcesWithDrift).toBe(1);
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'drift',
+      level: 'result',
+      code: 'CDK_TOOLKIT_I4590',
+      message: expect.stringContaining(chalk.bold('Stack1')),
+      data: expect.objectContaining({
+        drift: expect.objectContaining({
+          numResourcesWithDrift: 1,
+          formattedDrift: expect.stringContaining('/VersioningConfiguration/Status'),
+        }),
+      }),
+    }));
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'drift',
+      level: 'info',
+      code: 'CDK_TOOLKIT_I4509',
+      message: expect.stringContaining('✨ Number of stacks with drift: 1'),
+      data: expect.objectContaining({
+        numStacksWithDrift: 1,
+      }),
+    }));
+  });
+
+  test('reports no drift for stacks in sync', async () => {
+    // GIVEN
+    jest.spyOn(awsCdkApi.Deployments.prototype, 'detectStackDrift').mockResolvedValue([]);
+
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-bucket');
+    const result = await toolkit.drift(cx);
+
+    // THEN
+    expect(result.Stack1.numResourcesWithDrift).toBe(0);
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'drift',
+      code: 'CDK_TOOLKIT_I4509',
+      message: expect.stringContaining('✨ Number of stacks with drift: 0'),
+    }));
+  });
+
+  test('skips stacks that are not deployed', async () => {
+    // GIVEN
+    jest.spyOn(awsCdkApi.Deployments.prototype, 'stackExists').mockResolvedValue(false);
+    const detectStackDrift = jest.spyOn(awsCdkApi.Deployments.prototype, 'detectStackDrift');
+
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-bucket');
+    const result = await toolkit.drift(cx, {
+      stacks: { strategy: StackSelectionStrategy.ALL_STACKS },
+    });
+
+    // THEN
+    expect(result).toEqual({});
+    expect(detectStackDrift).not.toHaveBeenCalled();
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'drift',
+      level: 'warn',
+      code: 'CDK_TOOLKIT_W4591',
+    }));
+  });
+});
@@ -0,0 +1,50 @@
+import { StackSelectionStrategy, Toolkit } from '../../lib/toolkit';
+import { builderFixture, TestIoHost } from '../_helpers';
+
+const ioHost = new TestIoHost();
+const toolkit = new Toolkit({ ioHost });
+
+beforeEach(() => {
+  ioHost.notifySpy.mockClear();
+  ioHost.requestSpy.mockClear();
+});
+
+describe('validate', () => {
+  test('reports no findings for valid templates', async () => {
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-bucket');
+    const result = await toolkit.validate(cx);
+
+    // THEN
+    expect(result).toEqual(expect.objectContaining({ findings: [], numErrors: 0, numWarnings: 0 }));
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'synth',
+      level: 'info',
+      code: 'CDK_TOOLKIT_I1509',
+      message: expect.stringContaining('found 0 error(s) and 0 warning(s)'),
+    }));
+  });
+
+  test('reports findings to the IoHost', async () => {
+    // WHEN
+    const cx = await builderFixture(toolkit, 'stack-with-dangling-reference');
+    const result = await toolkit.validate(cx, {
+      stacks: { strategy: StackSelectionStrategy.ALL_STACKS },
+    });
+
+    // THEN
+    expect(result.numErrors).toBe(1);
+    expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'synth',
+      level: 'error',
+      code: 'CDK_TOOLKIT_E1510',
+      message: expect.stringContaining("Stack1/MyTopic: Ref to 'DoesNotExist'"),
+      data: expect.objectContaining({
+        rule: 'dangling-reference',
+        stackName: 'Stack1',
+        logicalId: 'MyTopic',
+        path: 'Stack1/MyTopic',
+      }),
+    }));
+  });
+});
@@ -1,3 +1,12 @@
+import {
+  APIGatewayClient,
+  CreateDeploymentCommand,
+  type CreateDeploymentCommandInput,
+  type CreateDeploymentCommandOutput,
+  PutRestApiCommand,
+  type PutRestApiCommandInput,
+  type PutRestApiCommandOutput,
+} from '@aws-sdk/client-api-gateway';
 import type {
   FunctionConfiguration,
   GetSchemaCreationStatusCommandInput,
@@ -64,6 +73,12 @@ import type {
   DescribeStackEventsCommandInput,
   DescribeStacksCommandInput,
   DescribeStacksCommandOutput,
+  DescribeStackDriftDetectionStatusCommandInput,
+  DescribeStackDriftDetectionStatusCommandOutput,
+  DescribeStackResourceDriftsCommandInput,
+  DescribeStackResourceDriftsCommandOutput,
+  DetectStackDriftCommandInput,
+  DetectStackDriftCommandOutput,
   ExecuteChangeSetCommandInput,
   ExecuteChangeSetCommandOutput,
   GetGeneratedTemplateCommandInput,
@@ -100,9 +115,12 @@ import {
   DescribeChangeSetCommand,
   DescribeGeneratedTemplateCommand,
   DescribeResourceScanCommand,
+  DescribeStackDriftDetectionStatusCommand,
   DescribeStackEventsCommand,
+  DescribeStackResourceDriftsCommand,
   DescribeStackResourcesCommand,
   DescribeStacksCommand,
+  DetectStackDriftCommand,
   ExecuteChangeSetCommand,
   GetGeneratedTemplateCommand,
   GetTemplateCommand,
@@ -231,6 +249,18 @@ import {
   paginateDescribeListeners,
   paginateDescribeLoadBalancers,
 } from '@aws-sdk/client-elastic-load-balancing-v2';
+import {
+  EventBridgeClient,
+  PutRuleCommand,
+  type PutRuleCommandInput,
+  type PutRuleCommandOutput,
+  PutTargetsCommand,
+  type PutTargetsCommandInput,
+  type PutTargetsCommandOutput,
+  RemoveTargetsCommand,
+  type RemoveTargetsCommandInput,
+  type RemoveTargetsCommandOutput,
+} from '@aws-sdk/client-eventbridge';
 import {
   CreatePolicyCommand,
   type CreatePolicyCommandInput,
@@ -253,10 +283,19 @@ import {
   type ListAliasesCommandOutput,
 } from '@aws-sdk/client-kms';
 import {
+  AddLayerVersionPermissionCommand,
+  type AddLayerVersionPermissionCommandInput,
+  type AddLayerVersionPermissionCommandOutput,
+  GetFunctionConfigurationCommand,
+  type GetFunctionConfigurationCommandInput,
+  type GetFunctionConfigurationCommandOutput,
   InvokeCommand,
   type InvokeCommandInput,
   type InvokeCommandOutput,
   LambdaClient,
+  PublishLayerVersionCommand,
+  type PublishLayerVersionCommandInput,
+  type PublishLayerVersionCommandOutput,
   PublishVersionCommand,
   type PublishVersionCommandInput,
   type PublishVersionCommandOutput,
@@ -299,6 +338,8 @@ import type {
   GetBucketLocationCommandOutput,
   GetObjectCommandInput,
   GetObjectCommandOutput,
+  HeadObjectCommandInput,
+  HeadObjectCommandOutput,
   ListObjectsV2CommandInput,
   ListObjectsV2CommandOutput,
   PutObjectCommandInput,
@@ -310,6 +351,7 @@ import {
   GetBucketLocationCommand,
   GetObjectCommand,
   GetObjectTaggingCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   PutObjectTaggingCommand,
   S3Client,
@@ -388,6 +430,11 @@ export interface ConfigurationOptions {
   computeChecksums?: boolean;
 }
 
+export interface IApiGatewayClient {
+  createDeployment(input: CreateDeploymentCommandInput): Promise<CreateDeploymentCommandOutput>;
+  putRestApi(input: PutRestApiCommandInput): Promise<PutRestApiCommandOutput>;
+}
+
 export interface IAppSyncClient {
   getSchemaCreationStatus(input: GetSchemaCreationStatusCommandInput): Promise<GetSchemaCreationStatusCommandOutput>;
   startSchemaCreation(input: StartSchemaCreationCommandInput): Promise<StartSchemaCreationCommandOutput>;
@@ -417,7 +464,12 @@ export interface ICloudFormationClient {
   ): Promise<DescribeGeneratedTemplateCommandOutput>;
   describeResourceScan(input: DescribeResourceScanCommandInput): Promise<DescribeResourceScanCommandOutput>;
   describeStacks(input: DescribeStacksCommandInput): Promise<DescribeStacksCommandOutput>;
+  describeStackDriftDetectionStatus(
+    input: DescribeStackDriftDetectionStatusCommandInput,
+  ): Promise<DescribeStackDriftDetectionStatusCommandOutput>;
+  describeStackResourceDrifts(input: DescribeStackResourceDriftsCommandInput): Promise<DescribeStackResourceDriftsCommandOutput>;
   describeStackResources(input: DescribeStackResourcesCommandInput): Promise<DescribeStackResourcesCommandOutput>;
+  detectStackDrift(input: DetectStackDriftCommandInput): Promise<DetectStackDriftCommandOutput>;
   executeChangeSet(input: ExecuteChangeSetCommandInput): Promise<ExecuteChangeSetCommandOutput>;
   getGeneratedTemplate(input: GetGeneratedTemplateCommandInput): Promise<GetGeneratedTemplateCommandOutput>;
   getTemplate(input: GetTemplateCommandInput): Promise<GetTemplateCommandOutput>;
@@ -497,6 +549,12 @@ export interface IElasticLoadBalancingV2Client {
   paginateDescribeLoadBalancers(input: DescribeLoadBalancersCommandInput): Promise<LoadBalancer[]>;
 }
 
+export interface IEventBridgeClient {
+  putRule(input: PutRuleCommandInput): Promise<PutRuleCommandOutput>;
+  putTargets(input: PutTargetsCommandInput): Promise<PutTargetsCommandOutput>;
+  removeTargets(input: RemoveTargetsCommandInput): Promise<RemoveTargetsCommandOutput>;
+}
+
 export interface IIAMClient {
   createPolicy(input: CreatePolicyCommandInput): Promise<CreatePolicyCommandOutput>;
   getPolicy(input: GetPolicyCommandInput): Promise<GetPolicyCommandOutput>;
@@ -509,7 +567,10 @@ export interface IKMSClient {
 }
 
 export interface ILambdaClient {
+  addLayerVersionPermission(input: AddLayerVersionPermissionCommandInput): Promise<AddLayerVersionPermissionCommandOutput>;
+  getFunctionConfiguration(input: GetFunctionConfigurationCommandInput): Promise<GetFunctionConfigurationCommandOutput>;
   invokeCommand(input: InvokeCommandInput): Promise<InvokeCommandOutput>;
+  publishLayerVersion(input: PublishLayerVersionCommandInput): Promise<PublishLayerVersionCommandOutput>;
   publishVersion(input: PublishVersionCommandInput): Promise<PublishVersionCommandOutput>;
   updateAlias(input: UpdateAliasCommandInput): Promise<UpdateAliasCommandOutput>;
   updateFunctionCode(input: UpdateFunctionCodeCommandInput): Promise<UpdateFunctionCodeCommandOutput>;
@@ -533,6 +594,7 @@ export interface IS3Client {
   getBucketLocation(input: GetBucketLocationCommandInput): Promise<GetBucketLocationCommandOutput>;
   getObject(input: GetObjectCommandInput): Promise<GetObjectCommandOutput>;
   getObjectTagging(input: GetObjectTaggingCommandInput): Promise<GetObjectTaggingCommandOutput>;
+  headObject(input: HeadObjectCommandInput): Promise<HeadObjectCommandOutput>;
   listObjectsV2(input: ListObjectsV2CommandInput): Promise<ListObjectsV2CommandOutput>;
   putObjectTagging(input: PutObjectTaggingCommandInput): Promise<PutObjectTaggingCommandOutput>;
   upload(input: PutObjectCommandInput): Promise<CompleteMultipartUploadCommandOutput>;
@@ -608,6 +670,16 @@ export class SDK {
     this.config.customUserAgent = this.config.customUserAgent?.replace(userAgentData, '');
   }
 
+  public apiGateway(): IApiGatewayClient {
+    const client = new APIGatewayClient(this.config);
+    return {
+      createDeployment: (input: CreateDeploymentCommandInput): Promise<CreateDeploymentCommandOutput> =>
+        client.send(new CreateDeploymentCommand(input)),
+      putRestApi: (input: PutRestApiCommandInput): Promise<PutRestApiCommandOutput> =>
+        client.send(new PutRestApiCommand(input)),
+    };
+  }
+
   public appsync(): IAppSyncClient {
     const client = new AppSyncClient(this.config);
     return {
@@ -677,8 +749,17 @@ export class SDK {
         client.send(new DescribeResourceScanCommand(input)),
       describeStacks: (input: DescribeStacksCommandInput): Promise<DescribeStacksCommandOutput> =>
         client.send(new DescribeStacksCommand(input)),
+      describeStackDriftDetectionStatus: (
+        input: DescribeStackDriftDetectionStatusCommandInput,
+      ): Promise<DescribeStackDriftDetectionStatusCommandOutput> =>
+        client.send(new DescribeStackDriftDetectionStatusCommand(input)),
+      describeStackResourceDrifts: (
+        input: DescribeStackResourceDriftsCommandInput,
+      ): Promise<DescribeStackResourceDriftsCommandOutput> => client.send(new DescribeStackResourceDriftsCommand(input)),
       describeStackResources: (input: DescribeStackResourcesCommandInput): Promise<DescribeStackResourcesCommandOutput> =>
         client.send(new DescribeStackResourcesCommand(input)),
+      detectStackDrift: (input: DetectStackDriftCommandInput): Promise<DetectStackDriftCommandOutput> =>
+        client.send(new DetectStackDriftCommand(input)),
       executeChangeSet: (input: ExecuteChangeSetCommandInput): Promise<ExecuteChangeSetCommandOutput> =>
         client.send(new ExecuteChangeSetCommand(input)),
       getGeneratedTemplate: (input: GetGeneratedTemplateCommandInput): Promise<GetGeneratedTemplateCommandOutput> =>
@@ -850,6 +931,18 @@ export class SDK {
     };
   }
 
+  public eventBridge(): IEventBridgeClient {
+    const client = new EventBridgeClient(this.config);
+    return {
+      putRule: (input: PutRuleCommandInput): Promise<PutRuleCommandOutput> =>
+        client.send(new PutRuleCommand(input)),
+      putTargets: (input: PutTargetsCommandInput): Promise<PutTargetsCommandOutput> =>
+        client.send(new PutTargetsCommand(input)),
+      removeTargets: (input: RemoveTargetsCommandInput): Promise<RemoveTargetsCommandOutput> =>
+        client.send(new RemoveTargetsCommand(input)),
+    };
+  }
+
   public iam(): IIAMClient {
     const client = new IAMClient(this.config);
     return {
@@ -874,7 +967,15 @@ export class SDK {
   public lambda(): ILambdaClient {
     const client = new LambdaClient(this.config);
     return {
+      addLayerVersionPermission: (
+        input: AddLayerVersionPermissionCommandInput,
+      ): Promise<AddLayerVersionPermissionCommandOutput> => client.send(new AddLayerVersionPermissionCommand(input)),
+      getFunctionConfiguration: (
+        input: GetFunctionConfigurationCommandInput,
+      ): Promise<GetFunctionConfigurationCommandOutput> => client.send(new GetFunctionConfigurationCommand(input)),
       invokeCommand: (input: InvokeCommandInput): Promise<InvokeCommandOutput> => client.send(new InvokeCommand(input)),
+      publishLayerVersion: (input: PublishLayerVersionCommandInput): Promise<PublishLayerVersionCommandOutput> =>
+        client.send(new PublishLayerVersionCommand(input)),
       publishVersion: (input: PublishVersionCommandInput): Promise<PublishVersionCommandOutput> =>
         client.send(new PublishVersionCommand(input)),
       updateAlias: (input: UpdateAliasCommandInput): Promise<UpdateAliasCommandOutput> =>
@@ -933,6 +1034,8 @@ export class SDK {
         client.send(new GetObjectCommand(input)),
       getObjectTagging: (input: GetObjectTaggingCommandInput): Promise<GetObjectTaggingCommandOutput> =>
         client.send(new GetObjectTaggingCommand(input)),
+      headObject: (input: HeadObjectCommandInput): Promise<HeadObjectCommandOutput> =>
+        client.send(new HeadObjectCommand(input)),
       listObjectsV2: (input: ListObjectsV2CommandInput): Promise<ListObjectsV2CommandOutput> =>
         client.send(new ListObjectsV2Command(input)),
       putObjectTagging: (input: PutObjectTaggingCommandInput): Promise<PutObjectTaggingCommandOutput> =>
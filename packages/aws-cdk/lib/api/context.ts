@@ -1,9 +1,38 @@
+import type * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import { Settings } from './settings';
 import { ToolkitError } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api';
+import type { StaleContextValue } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/payloads';
 
 export { TRANSIENT_CONTEXT_KEY } from './settings';
 export const PROJECT_CONTEXT = 'cdk.context.json';
 
+/**
+ * The context key under which the metadata of looked up context values is stored
+ *
+ * This key is not passed to the app, and not listed as a context value.
+ */
+export const CONTEXT_METADATA_KEY = '$contextMetadata';
+
+/**
+ * Metadata about a context value that was looked up by a context provider
+ */
+export interface ContextValueMetadata {
+  /**
+   * The context provider that looked up the value
+   */
+  readonly provider: string;
+
+  /**
+   * The query the context provider was called with
+   */
+  readonly props: cxschema.ContextQueryProperties;
+
+  /**
+   * When the value was looked up, as an ISO 8601 timestamp
+   */
+  readonly lastUpdated: string;
+}
+
 interface ContextBag {
   /**
    * The file name of the context. Will be used to potentially
@@ -51,7 +80,8 @@ export class Context {
       ret = ret.merge(bag);
     }
 
-    return ret.all;
+    const { [CONTEXT_METADATA_KEY]: _, ...values } = ret.all;
+    return values;
   }
 
   public get(key: string): any {
@@ -78,12 +108,51 @@ export class Context {
 
   public unset(key: string) {
     this.set(key, undefined);
+    if (!this.has(key)) {
+      this.setMetadata(key, undefined);
+    }
   }
 
   public clear() {
     for (const key of this.keys) {
       this.unset(key);
     }
+    this.set(CONTEXT_METADATA_KEY, undefined);
+  }
+
+  /**
+   * Return the metadata of a looked up context value, if it was recorded
+   */
+  public getMetadata(key: string): ContextValueMetadata | undefined {
+    return this.get(CONTEXT_METADATA_KEY)?.[key];
+  }
+
+  /**
+   * Record (or remove) the metadata of a looked up context value
+   */
+  public setMetadata(key: string, metadata: ContextValueMetadata | undefined) {
+    const { [key]: _, ...others } = this.get(CONTEXT_METADATA_KEY) ?? {};
+    const updated = metadata ? { ...others, [key]: metadata } : others;
+    this.set(CONTEXT_METADATA_KEY, Object.keys(updated).length > 0 ? updated : undefined);
+  }
+
+  /**
+   * Return the looked up context values that are older than the given number of days
+   */
+  public staleValues(maxAgeDays: number, now: Date = new Date()): StaleContextValue[] {
+    const ret = new Array<StaleContextValue>();
+    for (const key of this.keys) {
+      const metadata = this.getMetadata(key);
+      if (!metadata) {
+        continue;
+      }
+
+      const ageDays = Math.floor((now.getTime() - new Date(metadata.lastUpdated).getTime()) / DAY_MS);
+      if (ageDays > maxAgeDays) {
+        ret.push({ key, provider: metadata.provider, lastUpdated: metadata.lastUpdated, ageDays });
+      }
+    }
+    return ret;
   }
 
   /**
@@ -106,3 +175,5 @@ export class Context {
     return this;
   }
 }
+
+const DAY_MS = 24 * 60 * 60 * 1000;
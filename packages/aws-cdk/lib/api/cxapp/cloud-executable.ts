@@ -108,10 +108,32 @@ export class CloudExecutable {
         }
       }
 
+      await this.warnAboutStaleContext();
       return new CloudAssembly(assembly, this.props.ioHelper);
     }
   }
 
+  /**
+   * Warn about cached context values that are older than the configured maximum age
+   */
+  private async warnAboutStaleContext() {
+    const maxAgeDays: number | undefined = this.props.configuration.settings.get(['contextMaxAgeDays']);
+    if (maxAgeDays === undefined) {
+      return;
+    }
+
+    const staleValues = this.props.configuration.context.staleValues(maxAgeDays);
+    if (staleValues.length === 0) {
+      return;
+    }
+
+    await this.props.ioHelper.notify(IO.CDK_ASSEMBLY_W0242.msg([
+      `${staleValues.length} cached context value(s) are older than ${maxAgeDays} days:`,
+      ...staleValues.map(v => `  ${v.key} (${v.ageDays} days)`),
+      "Run 'cdk context --refresh' to look them up again.",
+    ].join('\n'), { maxAgeDays, staleValues }));
+  }
+
   private get canLookup() {
     return !!(this.props.configuration.settings.get(['lookups']) ?? true);
   }
@@ -1,5 +1,6 @@
 import { randomUUID } from 'crypto';
 import type * as cxapi from '@aws-cdk/cx-api';
+import type { StackResourceDrift } from '@aws-sdk/client-cloudformation';
 import * as cdk_assets from 'cdk-assets';
 import * as chalk from 'chalk';
 import { AssetManifestBuilder } from './asset-manifest-builder';
@@ -30,6 +31,7 @@ import {
   loadCurrentTemplateWithNestedStacks,
   makeBodyParameter,
 } from '../cloudformation';
+import { detectStackDrift } from '../drift';
 import { type EnvironmentResources, EnvironmentAccess } from '../environment';
 import type { HotswapMode, HotswapPropertyOverrides } from '../hotswap/common';
 import type { ResourceIdentifierSummaries, ResourcesToImport } from '../resource-import';
@@ -298,6 +300,13 @@ export interface DeploymentsProps {
   readonly sdkProvider: SdkProvider;
   readonly toolkitStackName?: string;
   readonly ioHelper: IoHelper;
+
+  /**
+   * Persistent cache for built assets, shared between runs
+   *
+   * @default - Configured by environment variables, see cdk-assets
+   */
+  readonly assetCache?: cdk_assets.AssetCacheOptions;
 }
 
 /**
@@ -366,6 +375,17 @@ export class Deployments {
     return loadCurrentTemplate(stackArtifact, env.sdk);
   }
 
+  /**
+   * Run CloudFormation drift detection on the deployed version of a stack
+   *
+   * Returns the drift status of every resource in the stack.
+   */
+  public async detectStackDrift(stackArtifact: cxapi.CloudFormationStackArtifact): Promise<StackResourceDrift[]> {
+    await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`Detecting drift for stack ${stackArtifact.displayName}.`));
+    const env = await this.envs.accessStackForLookupBestEffort(stackArtifact);
+    return detectStackDrift(env.sdk.cloudFormation(), this.ioHelper, stackArtifact.stackName);
+  }
+
   public async resourceIdentifierSummaries(
     stackArtifact: cxapi.CloudFormationStackArtifact,
   ): Promise<ResourceIdentifierSummaries> {
@@ -709,6 +729,7 @@ export class Deployments {
       // give it a direct `SdkProvider`.
       aws: new PublishingAws(this.assetSdkProvider, env),
       progressListener: new ParallelSafeAssetProgress(prefix, this.ioHelper),
+      assetCache: this.props.assetCache,
     });
     this.publisherCache.set(assetManifest, publisher);
     return publisher;
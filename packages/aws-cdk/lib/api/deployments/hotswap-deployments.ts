@@ -13,6 +13,7 @@ import { formatErrorMessage } from '../../util';
 import type { SDK, SdkProvider } from '../aws-auth';
 import type { CloudFormationStack, NestedStackTemplates } from '../cloudformation';
 import { loadCurrentTemplateWithNestedStacks, EvaluateCloudFormationTemplate } from '../cloudformation';
+import { isHotswappableApiGatewayChange } from '../hotswap/apigateway-rest-apis';
 import { isHotswappableAppSyncChange } from '../hotswap/appsync-mapping-templates';
 import { isHotswappableCodeBuildProjectChange } from '../hotswap/code-build-projects';
 import type {
@@ -26,7 +27,9 @@ import {
   nonHotswappableResource,
 } from '../hotswap/common';
 import { isHotswappableEcsServiceChange } from '../hotswap/ecs-services';
+import { isHotswappableEventBridgeRuleChange } from '../hotswap/eventbridge-rules';
 import { isHotswappableLambdaFunctionChange } from '../hotswap/lambda-functions';
+import { isHotswappableLambdaLayerVersionChange } from '../hotswap/lambda-layer-versions';
 import {
   skipChangeForS3DeployCustomResourcePolicy,
   isHotswappableS3BucketDeploymentChange,
@@ -52,6 +55,8 @@ const RESOURCE_DETECTORS: { [key: string]: HotswapDetector } = {
   'AWS::Lambda::Function': isHotswappableLambdaFunctionChange,
   'AWS::Lambda::Version': isHotswappableLambdaFunctionChange,
   'AWS::Lambda::Alias': isHotswappableLambdaFunctionChange,
+  'AWS::Lambda::LayerVersion': isHotswappableLambdaLayerVersionChange,
+  'AWS::Lambda::LayerVersionPermission': isHotswappableLambdaLayerVersionChange,
 
   // AppSync
   'AWS::AppSync::Resolver': isHotswappableAppSyncChange,
@@ -59,9 +64,15 @@ const RESOURCE_DETECTORS: { [key: string]: HotswapDetector } = {
   'AWS::AppSync::GraphQLSchema': isHotswappableAppSyncChange,
   'AWS::AppSync::ApiKey': isHotswappableAppSyncChange,
 
+  // API Gateway
+  'AWS::ApiGateway::RestApi': isHotswappableApiGatewayChange,
+  'AWS::ApiGateway::Deployment': isHotswappableApiGatewayChange,
+  'AWS::ApiGateway::Stage': isHotswappableApiGatewayChange,
+
   'AWS::ECS::TaskDefinition': isHotswappableEcsServiceChange,
   'AWS::CodeBuild::Project': isHotswappableCodeBuildProjectChange,
   'AWS::StepFunctions::StateMachine': isHotswappableStateMachineChange,
+  'AWS::Events::Rule': isHotswappableEventBridgeRuleChange,
   'Custom::CDKBucketDeployment': isHotswappableS3BucketDeploymentChange,
   'AWS::IAM::Policy': async (
     logicalId: string,
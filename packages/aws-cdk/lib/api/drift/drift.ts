@@ -0,0 +1,90 @@
+import { format } from 'util';
+import type { StackResourceDrift } from '@aws-sdk/client-cloudformation';
+import { ToolkitError } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api';
+import { IO, type IoHelper } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
+import type { ICloudFormationClient } from '../aws-auth';
+
+/**
+ * Options for drift detection
+ */
+export interface DetectStackDriftOptions {
+  /**
+   * How long to wait between checks of the drift detection status, in milliseconds
+   *
+   * @default 2000
+   */
+  readonly pollInterval?: number;
+
+  /**
+   * How long to wait for drift detection to finish before giving up, in milliseconds
+   *
+   * @default 300000
+   */
+  readonly timeout?: number;
+}
+
+/**
+ * Runs CloudFormation drift detection on a stack, waits for it to finish and
+ * returns the drift status of every resource in the stack.
+ *
+ * @param cfn       a CloudFormation client
+ * @param ioHelper  helper to send messages to the IoHost
+ * @param stackName the name of the deployed stack
+ *
+ * @returns the drift of every resource in the stack that drift detection was run on
+ */
+export async function detectStackDrift(
+  cfn: ICloudFormationClient,
+  ioHelper: IoHelper,
+  stackName: string,
+  options: DetectStackDriftOptions = {},
+): Promise<StackResourceDrift[]> {
+  const pollInterval = options.pollInterval ?? 2_000;
+  const timeout = options.timeout ?? 300_000;
+
+  await ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(format('Starting drift detection for stack %s...', stackName)));
+  const { StackDriftDetectionId: detectionId } = await cfn.detectStackDrift({ StackName: stackName });
+  if (!detectionId) {
+    throw new ToolkitError(`Drift detection for stack ${stackName} did not return a detection id`);
+  }
+
+  const deadline = Date.now() + timeout;
+  while (true) {
+    const status = await cfn.describeStackDriftDetectionStatus({ StackDriftDetectionId: detectionId });
+
+    if (status.DetectionStatus === 'DETECTION_COMPLETE') {
+      break;
+    }
+
+    if (status.DetectionStatus === 'DETECTION_FAILED') {
+      // Drift detection fails if any of the resources could not be checked,
+      // but the results for all other resources are still available.
+      await ioHelper.notify(IO.DEFAULT_TOOLKIT_WARN.msg(format(
+        'Drift detection for stack %s did not complete for all resources: %s',
+        stackName,
+        status.DetectionStatusReason ?? 'no reason provided',
+      )));
+      break;
+    }
+
+    if (Date.now() > deadline) {
+      throw new ToolkitError(`Drift detection for stack ${stackName} took too long to complete; aborting`);
+    }
+
+    await ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(format('Drift detection for stack %s is still in progress', stackName)));
+    await new Promise((cb) => setTimeout(cb, pollInterval));
+  }
+
+  const drifts = new Array<StackResourceDrift>();
+  let nextToken: string | undefined;
+  do {
+    const response = await cfn.describeStackResourceDrifts({
+      StackName: stackName,
+      NextToken: nextToken,
+    });
+    drifts.push(...(response.StackResourceDrifts ?? []));
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return drifts;
+}
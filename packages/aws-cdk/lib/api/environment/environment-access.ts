@@ -1,4 +1,5 @@
-import type * as cxapi from '@aws-cdk/cx-api';
+import type { AwsDestination } from '@aws-cdk/cloud-assembly-schema';
+import * as cxapi from '@aws-cdk/cx-api';
 import type { SDK } from '../aws-auth';
 import type { EnvironmentResources } from './environment-resources';
 import { EnvironmentResourcesRegistry } from './environment-resources';
@@ -141,6 +142,32 @@ export class EnvironmentAccess {
     return this.accessStackForStackOperations(stack, Mode.ForReading);
   }
 
+  /**
+   * Get an SDK to access one of the asset destinations of the given stack
+   *
+   * Will ask plugins for mutating credentials if available, use the default AWS
+   * credentials if not.
+   *
+   * Will assume the destination's publishing role if configured. Through this role,
+   * the destination may be in a different account than the stack, and it may be in
+   * a different region.
+   */
+  public async accessAssetDestination(stack: cxapi.CloudFormationStackArtifact, destination: AwsDestination): Promise<TargetEnvironment> {
+    if (!stack.environment) {
+      throw new ToolkitError(`The stack ${stack.displayName} does not have an environment`);
+    }
+
+    // The region may be a placeholder for the stack's region
+    const region = destination.region && !destination.region.includes('${') ? destination.region : stack.environment.region;
+    return this.prepareSdk({
+      environment: cxapi.EnvironmentUtils.make(stack.environment.account, region),
+      mode: Mode.ForWriting,
+      assumeRoleArn: destination.assumeRoleArn,
+      assumeRoleExternalId: destination.assumeRoleExternalId,
+      assumeRoleAdditionalOptions: destination.assumeRoleAdditionalOptions,
+    });
+  }
+
   /**
    * Get an SDK to access the given stack's environment for stack operations
    *
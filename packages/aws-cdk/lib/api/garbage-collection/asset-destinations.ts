@@ -0,0 +1,142 @@
+import type { AwsDestination } from '@aws-cdk/cloud-assembly-schema';
+import * as cxapi from '@aws-cdk/cx-api';
+import { AssetManifest, DockerImageManifestEntry, FileManifestEntry } from 'cdk-assets';
+import type { SDK } from '../aws-auth';
+import type { EnvironmentAccess, TargetEnvironment } from '../environment';
+
+/**
+ * A bucket or repository that assets are published to, as found in the asset manifests of a cloud assembly
+ */
+export interface AssetDestination {
+  /**
+   * Whether the destination is an S3 bucket or an ECR repository
+   */
+  readonly type: 's3' | 'ecr';
+
+  /**
+   * Name of the bucket or repository
+   */
+  readonly name: string;
+
+  /**
+   * Only objects with keys that start with this prefix are assets
+   *
+   * @default '' - all objects in the bucket
+   */
+  readonly prefix?: string;
+
+  /**
+   * The environment the destination is accessed in
+   *
+   * Note that when a role is assumed, the destination may live in a different account.
+   */
+  readonly environment: cxapi.Environment;
+
+  /**
+   * The role that is assumed to access the destination
+   *
+   * @default - the default credentials are used
+   */
+  readonly assumeRoleArn?: string;
+
+  /**
+   * SDK to access the destination with
+   */
+  readonly sdk: SDK;
+
+  /**
+   * SDKs for the environments of all stacks that publish assets to this destination
+   *
+   * The templates of the stacks in these environments determine which assets are in use.
+   */
+  readonly stackSdks: SDK[];
+}
+
+/**
+ * A human-readable description of an asset destination
+ */
+export function describeAssetDestination(destination: AssetDestination): string {
+  const location = destination.type === 's3'
+    ? `s3://${destination.name}/${destination.prefix ?? ''}`
+    : `${destination.name} (${destination.environment.name})`;
+  return destination.assumeRoleArn ? `${location} via ${destination.assumeRoleArn}` : location;
+}
+
+/**
+ * Find all asset destinations of the given stacks
+ *
+ * Destinations that are used by multiple stacks are only returned once, and remember the
+ * environments of all of these stacks.
+ */
+export async function discoverAssetDestinations(
+  stacks: cxapi.CloudFormationStackArtifact[],
+  envs: EnvironmentAccess,
+): Promise<AssetDestination[]> {
+  const destinations = new Map<string, { destination: AssetDestination; stackEnvironments: Set<string> }>();
+  const targets = new Map<string, Promise<TargetEnvironment>>();
+
+  const accessDestination = (stack: cxapi.CloudFormationStackArtifact, dest: AwsDestination) => {
+    const key = [stack.id, dest.region, dest.assumeRoleArn, dest.assumeRoleExternalId, JSON.stringify(dest.assumeRoleAdditionalOptions)].join('|');
+    if (!targets.has(key)) {
+      targets.set(key, envs.accessAssetDestination(stack, dest));
+    }
+    return targets.get(key)!;
+  };
+
+  for (const stack of stacks) {
+    const stackEnvironment = `${stack.environment.name}|${stack.assumeRoleArn ?? ''}`;
+    let stackSdk: SDK | undefined;
+
+    for (const artifact of stack.dependencies.filter(cxapi.AssetManifestArtifact.isAssetManifestArtifact)) {
+      for (const entry of AssetManifest.fromFile(artifact.file).entries) {
+        if (!(entry instanceof FileManifestEntry) && !(entry instanceof DockerImageManifestEntry)) {
+          continue;
+        }
+
+        const dest: AwsDestination = entry.destination;
+        const target = await accessDestination(stack, dest);
+        let type: AssetDestination['type'];
+        let name: string;
+        let prefix: string | undefined;
+        if (entry instanceof FileManifestEntry) {
+          type = 's3';
+          name = (await target.replacePlaceholders(entry.destination.bucketName))!;
+          const objectKey = (await target.replacePlaceholders(entry.destination.objectKey))!;
+          prefix = objectKey.substring(0, objectKey.lastIndexOf('/') + 1);
+        } else {
+          type = 'ecr';
+          name = (await target.replacePlaceholders(entry.destination.repositoryName))!;
+        }
+
+        const assumeRoleArn = await target.replacePlaceholders(dest.assumeRoleArn);
+        // With an assumed role, the destination lives in the account of the role rather than the stack's
+        const location = assumeRoleArn ? `${assumeRoleArn}|${target.resolvedEnvironment.region}` : target.resolvedEnvironment.name;
+        const key = [type, location, name, prefix ?? ''].join('|');
+        let existing = destinations.get(key);
+        if (!existing) {
+          existing = {
+            destination: {
+              type,
+              name,
+              prefix: prefix || undefined,
+              environment: target.resolvedEnvironment,
+              assumeRoleArn,
+              sdk: target.sdk,
+              stackSdks: [],
+            },
+            stackEnvironments: new Set(),
+          };
+          destinations.set(key, existing);
+        }
+
+        if (!existing.stackEnvironments.has(stackEnvironment)) {
+          existing.stackEnvironments.add(stackEnvironment);
+          stackSdk = stackSdk ?? (await envs.accessStackForReadOnlyStackOperations(stack)).sdk;
+          existing.destination.stackSdks.push(stackSdk);
+        }
+      }
+    }
+  }
+
+  return Array.from(destinations.values()).map(d => d.destination);
+}
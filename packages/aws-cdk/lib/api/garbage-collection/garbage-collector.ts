@@ -3,8 +3,12 @@ import type { ImageIdentifier } from '@aws-sdk/client-ecr';
 import type { Tag } from '@aws-sdk/client-s3';
 import * as chalk from 'chalk';
 import * as promptly from 'promptly';
-import type { IECRClient, IS3Client, SDK, SdkProvider } from '../aws-auth';
+import type { ICloudFormationClient, IECRClient, IS3Client, SDK, SdkProvider } from '../aws-auth';
 import { DEFAULT_TOOLKIT_STACK_NAME, ToolkitInfo } from '../toolkit-info';
+import type { AssetDestination } from './asset-destinations';
+import { describeAssetDestination } from './asset-destinations';
+import type { GcReportEntry } from './gc-report';
+import { estimateMonthlyCost, GarbageCollectionReport, parseIsolationDate } from './gc-report';
 import { ProgressPrinter } from './progress-printer';
 import { ActiveAssetCache, BackgroundStackRefresh, refreshStacks } from './stack-refresh';
 import { ToolkitError } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api';
@@ -31,6 +35,7 @@ export class ImageAsset {
     public readonly size: number,
     public readonly tags: string[],
     public readonly manifest: string,
+    public readonly lastModified?: Date,
   ) {
   }
 
@@ -75,11 +80,21 @@ export class ImageAsset {
 export class ObjectAsset {
   private cached_tags: Tag[] | undefined = undefined;
 
-  public constructor(private readonly bucket: string, public readonly key: string, public readonly size: number) {
+  public constructor(
+    private readonly bucket: string,
+    public readonly key: string,
+    public readonly size: number,
+    public readonly lastModified?: Date,
+  ) {
   }
 
+  /**
+   * The asset hash of the object, which is the last segment of its key without extension
+   *
+   * Keys can have a prefix, but templates only refer to the hash.
+   */
   public fileName(): string {
-    return this.key.split('.')[0];
+    return this.key.split('/').pop()!.split('.')[0];
   }
 
   public async allTags(s3: IS3Client) {
@@ -117,6 +132,10 @@ export class ObjectAsset {
     }
     return new Date(tagValue) < date;
   }
+
+  public dateIsolated() {
+    return this.getTag(S3_ISOLATED_TAG);
+  }
 }
 
 /**
@@ -126,8 +145,10 @@ interface GarbageCollectorProps {
   /**
    * The action to perform. Specify this if you want to perform a truncated set
    * of actions available.
+   *
+   * `report` does not tag or delete anything, but collects all isolated assets in `report`.
    */
-  readonly action: 'print' | 'tag' | 'delete-tagged' | 'full';
+  readonly action: 'print' | 'report' | 'tag' | 'delete-tagged' | 'full';
 
   /**
    * The type of asset to garbage collect.
@@ -177,6 +198,35 @@ interface GarbageCollectorProps {
    * @default true
    */
   readonly confirm?: boolean;
+
+  /**
+   * Collect this asset destination instead of the bootstrap bucket and repository
+   *
+   * The assets in use are determined from the stacks in the environments of all stacks
+   * that publish to the destination.
+   *
+   * @default - the bootstrap bucket and repository of the resolved environment
+   */
+  readonly destination?: AssetDestination;
+
+  /**
+   * Whether the assets in `destination` are only used by stacks in the environments of its `stackSdks`
+   *
+   * Destinations are often shared, and assets that are used by stacks in other environments
+   * would appear unused. Assets are therefore only deleted from a destination if this is set.
+   *
+   * @default false
+   */
+  readonly exclusiveDestination?: boolean;
+
+  /**
+   * The report to add isolated assets to when the action is `report`
+   *
+   * Pass the same report to the collectors of multiple environments to combine them.
+   *
+   * @default - a new report
+   */
+  readonly report?: GarbageCollectionReport;
 }
 
 /**
@@ -191,6 +241,11 @@ export class GarbageCollector {
   private confirm: boolean;
   private ioHelper: IoHelper;
 
+  /**
+   * Isolated assets, only collected when the action is `report`
+   */
+  public readonly report: GarbageCollectionReport;
+
   public constructor(readonly props: GarbageCollectorProps) {
     this.ioHelper = props.ioHelper;
 
@@ -200,6 +255,7 @@ export class GarbageCollector {
     this.permissionToDelete = ['delete-tagged', 'full'].includes(props.action);
     this.permissionToTag = ['tag', 'full'].includes(props.action);
     this.confirm = props.confirm ?? true;
+    this.report = props.report ?? new GarbageCollectionReport();
 
     this.bootstrapStackName = props.bootstrapStackName ?? DEFAULT_TOOLKIT_STACK_NAME;
   }
@@ -211,10 +267,18 @@ export class GarbageCollector {
     await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`${this.garbageCollectS3Assets} ${this.garbageCollectEcrAssets}`));
 
     // SDKs
-    const sdk = (await this.props.sdkProvider.forEnvironment(this.props.resolvedEnvironment, Mode.ForWriting)).sdk;
-    const cfn = sdk.cloudFormation();
+    const destination = this.props.destination;
+    if (destination && this.permissionToDelete && !this.props.exclusiveDestination) {
+      throw new ToolkitError(`Refusing to delete assets from ${describeAssetDestination(destination)}, because stacks outside the environments of the app may use them. ` +
+        'Use \'--exclusive-destinations\' if only the stacks in these environments publish to it, or run with \'--action=report\' or \'--action=tag\'.');
+    }
+    const sdk = destination?.sdk ?? (await this.props.sdkProvider.forEnvironment(this.props.resolvedEnvironment, Mode.ForWriting)).sdk;
+    const cfn: ICloudFormationClient[] = destination
+      ? destination.stackSdks.map(stackSdk => stackSdk.cloudFormation())
+      : [sdk.cloudFormation()];
 
-    const qualifier = await this.bootstrapQualifier(sdk, this.bootstrapStackName);
+    // Asset destinations outside of the bootstrap stack are not tied to a qualifier
+    const qualifier = destination ? undefined : await this.bootstrapQualifier(sdk, this.bootstrapStackName);
     const activeAssets = new ActiveAssetCache();
 
     // Grab stack templates first
@@ -229,11 +293,11 @@ export class GarbageCollector {
     backgroundStackRefresh.start();
 
     try {
-      if (this.garbageCollectS3Assets) {
+      if (this.garbageCollectS3Assets && (!destination || destination.type === 's3')) {
         await this.garbageCollectS3(sdk, activeAssets, backgroundStackRefresh);
       }
 
-      if (this.garbageCollectEcrAssets) {
+      if (this.garbageCollectEcrAssets && (!destination || destination.type === 'ecr')) {
         await this.garbageCollectEcr(sdk, activeAssets, backgroundStackRefresh);
       }
     } catch (err: any) {
@@ -248,7 +312,7 @@ export class GarbageCollector {
    */
   public async garbageCollectEcr(sdk: SDK, activeAssets: ActiveAssetCache, backgroundStackRefresh: BackgroundStackRefresh) {
     const ecr = sdk.ecr();
-    const repo = await this.bootstrapRepositoryName(sdk, this.bootstrapStackName);
+    const repo = this.props.destination?.name ?? await this.bootstrapRepositoryName(sdk, this.bootstrapStackName);
     const numImages = await this.numImagesInRepo(ecr, repo);
     const printer = new ProgressPrinter(this.ioHelper, numImages, 1000);
 
@@ -295,6 +359,10 @@ export class GarbageCollector {
         await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`${taggables.length} taggable assets`));
         await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`${untaggables.length} assets to untag`));
 
+        if (this.props.action === 'report') {
+          this.reportIsolated('ecr', isolated, deletables, currentTime, img => `${repo}@${img.digest}`);
+        }
+
         if (this.permissionToDelete && deletables.length > 0) {
           await this.confirmationPrompt(printer, deletables, 'image');
           await this.parallelDeleteEcr(ecr, repo, deletables, printer);
@@ -322,8 +390,9 @@ export class GarbageCollector {
    */
   public async garbageCollectS3(sdk: SDK, activeAssets: ActiveAssetCache, backgroundStackRefresh: BackgroundStackRefresh) {
     const s3 = sdk.s3();
-    const bucket = await this.bootstrapBucketName(sdk, this.bootstrapStackName);
-    const numObjects = await this.numObjectsInBucket(s3, bucket);
+    const bucket = this.props.destination?.name ?? await this.bootstrapBucketName(sdk, this.bootstrapStackName);
+    const prefix = this.props.destination?.prefix;
+    const numObjects = await this.numObjectsInBucket(s3, bucket, prefix);
     const printer = new ProgressPrinter(this.ioHelper, numObjects, 1000);
 
     await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`Found bootstrap bucket ${bucket} with ${numObjects} objects`));
@@ -340,7 +409,7 @@ export class GarbageCollector {
       // Process objects in batches of 1000
       // This is the batch limit of s3.DeleteObject and we intend to optimize for the "worst case" scenario
       // where gc is run for the first time on a long-standing bucket where ~100% of objects are isolated.
-      for await (const batch of this.readBucketInBatches(s3, bucket, batchSize, currentTime)) {
+      for await (const batch of this.readBucketInBatches(s3, bucket, prefix, batchSize, currentTime)) {
         await backgroundStackRefresh.noOlderThan(600_000); // 10 mins
 
         const { included: isolated, excluded: notIsolated } = partition(batch, asset => !activeAssets.contains(asset.fileName()));
@@ -372,6 +441,14 @@ export class GarbageCollector {
         await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`${taggables.length} taggable assets`));
         await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`${untaggables.length} assets to untag`));
 
+        if (this.props.action === 'report') {
+          if (graceDays === 0) {
+            // Isolation dates are only known from the tags
+            await this.parallelReadAllTags(s3, isolated);
+          }
+          this.reportIsolated('s3', isolated, deletables, currentTime, obj => `s3://${bucket}/${obj.key}`);
+        }
+
         if (this.permissionToDelete && deletables.length > 0) {
           await this.confirmationPrompt(printer, deletables, 'object');
           await this.parallelDeleteS3(s3, bucket, deletables, printer);
@@ -394,6 +471,31 @@ export class GarbageCollector {
     }
   }
 
+  /**
+   * Add isolated assets to the report
+   */
+  private reportIsolated<A extends GcAsset>(
+    type: 's3' | 'ecr',
+    isolated: A[],
+    deletables: A[],
+    currentTime: number,
+    location: (asset: A) => string,
+  ) {
+    const environment = this.props.resolvedEnvironment.name;
+    const deletableAssets = new Set(deletables);
+    this.report.add(...isolated.map((asset): GcReportEntry => ({
+      environment,
+      type,
+      location: location(asset),
+      size: asset.size,
+      lastModified: asset.lastModified?.toISOString(),
+      ageDays: asset.lastModified ? Math.floor((currentTime - asset.lastModified.getTime()) / DAY) : undefined,
+      dateIsolated: parseIsolationDate(asset.dateIsolated())?.toISOString(),
+      deletable: deletableAssets.has(asset),
+      estimatedMonthlySaving: estimateMonthlyCost(type, asset.size),
+    })));
+  }
+
   private async parallelReadAllTags(s3: IS3Client, objects: ObjectAsset[]) {
     const limit = pLimit(P_LIMIT);
 
@@ -591,13 +693,14 @@ export class GarbageCollector {
     return toolkitInfo.bootstrapStack.parameters.Qualifier;
   }
 
-  private async numObjectsInBucket(s3: IS3Client, bucket: string): Promise<number> {
+  private async numObjectsInBucket(s3: IS3Client, bucket: string, prefix?: string): Promise<number> {
     let totalCount = 0;
     let continuationToken: string | undefined;
 
     do {
       const response = await s3.listObjectsV2({
         Bucket: bucket,
+        Prefix: prefix,
         ContinuationToken: continuationToken,
       });
 
@@ -674,7 +777,7 @@ export class GarbageCollector {
           const lastModified = image.imagePushedAt ?? new Date(currentTime);
           // Store the image if it was pushed earlier than today - createdBufferDays
           if (image.imageDigest && lastModified < new Date(currentTime - (this.props.createdBufferDays * DAY))) {
-            batch.push(new ImageAsset(image.imageDigest, image.imageSizeInBytes ?? 0, image.imageTags ?? [], image.manifest ?? ''));
+            batch.push(new ImageAsset(image.imageDigest, image.imageSizeInBytes ?? 0, image.imageTags ?? [], image.manifest ?? '', image.imagePushedAt));
           }
         }
 
@@ -692,7 +795,13 @@ export class GarbageCollector {
   /**
    * Generator function that reads objects from the S3 Bucket in batches.
    */
-  private async *readBucketInBatches(s3: IS3Client, bucket: string, batchSize: number = 1000, currentTime: number): AsyncGenerator<ObjectAsset[]> {
+  private async *readBucketInBatches(
+    s3: IS3Client,
+    bucket: string,
+    prefix: string | undefined,
+    batchSize: number = 1000,
+    currentTime: number,
+  ): AsyncGenerator<ObjectAsset[]> {
     let continuationToken: string | undefined;
 
     do {
@@ -701,6 +810,7 @@ export class GarbageCollector {
       while (batch.length < batchSize) {
         const response = await s3.listObjectsV2({
           Bucket: bucket,
+          Prefix: prefix,
           ContinuationToken: continuationToken,
         });
 
@@ -711,7 +821,7 @@ export class GarbageCollector {
           // Store the object if it has a Key and
           // if it has not been modified since today - createdBufferDays
           if (key && lastModified < new Date(currentTime - (this.props.createdBufferDays * DAY))) {
-            batch.push(new ObjectAsset(bucket, key, size));
+            batch.push(new ObjectAsset(bucket, key, size, obj.LastModified));
           }
         });
 
@@ -0,0 +1,172 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+
+/**
+ * Storage price in USD per GiB-month, used to estimate the savings of deleting assets
+ *
+ * These are the list prices in us-east-1. Prices in other regions differ, so the
+ * estimates are only an indication.
+ */
+export const STORAGE_PRICE_PER_GB_MONTH = {
+  s3: 0.023,
+  ecr: 0.10,
+};
+
+/**
+ * A single isolated asset in the garbage collection report
+ */
+export interface GcReportEntry {
+  /**
+   * The environment the asset lives in
+   */
+  readonly environment: string;
+
+  /**
+   * Whether the asset is an S3 object or an ECR image
+   */
+  readonly type: 's3' | 'ecr';
+
+  /**
+   * Location of the asset, `s3://bucket/key` for objects and `repository@digest` for images
+   */
+  readonly location: string;
+
+  /**
+   * Size of the asset in bytes
+   */
+  readonly size: number;
+
+  /**
+   * When the asset was uploaded, as an ISO 8601 timestamp
+   */
+  readonly lastModified?: string;
+
+  /**
+   * Age of the asset in whole days
+   */
+  readonly ageDays?: number;
+
+  /**
+   * When the asset was tagged as isolated, as an ISO 8601 timestamp
+   *
+   * @default - the asset has not been tagged as isolated yet
+   */
+  readonly dateIsolated?: string;
+
+  /**
+   * Whether a `full` run with the same options would delete the asset
+   */
+  readonly deletable: boolean;
+
+  /**
+   * Estimated storage cost of the asset in USD per month
+   */
+  readonly estimatedMonthlySaving: number;
+}
+
+/**
+ * Totals of a garbage collection report
+ */
+export interface GcReportSummary {
+  readonly assets: number;
+  readonly size: number;
+  readonly deletableAssets: number;
+  readonly deletableSize: number;
+  readonly estimatedMonthlySaving: number;
+}
+
+const CSV_COLUMNS: Array<keyof GcReportEntry> = [
+  'environment',
+  'type',
+  'location',
+  'size',
+  'lastModified',
+  'ageDays',
+  'dateIsolated',
+  'deletable',
+  'estimatedMonthlySaving',
+];
+
+/**
+ * Isolated assets found by a garbage collection run with `action: 'report'`
+ */
+export class GarbageCollectionReport {
+  private readonly _entries = new Array<GcReportEntry>();
+
+  public get entries(): ReadonlyArray<GcReportEntry> {
+    return this._entries;
+  }
+
+  public add(...entries: GcReportEntry[]) {
+    this._entries.push(...entries);
+  }
+
+  public summary(): GcReportSummary {
+    const deletable = this._entries.filter(e => e.deletable);
+    return {
+      assets: this._entries.length,
+      size: sumSizes(this._entries),
+      deletableAssets: deletable.length,
+      deletableSize: sumSizes(deletable),
+      estimatedMonthlySaving: roundCents(this._entries.reduce((total, e) => total + e.estimatedMonthlySaving, 0)),
+    };
+  }
+
+  public toJson(): string {
+    return JSON.stringify({ summary: this.summary(), assets: this._entries }, undefined, 2);
+  }
+
+  public toCsv(): string {
+    const lines = [
+      CSV_COLUMNS.join(','),
+      ...this._entries.map(entry => CSV_COLUMNS.map(column => csvValue(entry[column])).join(',')),
+    ];
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Write the report to a file, as CSV if the file name ends in `.csv` and as JSON otherwise
+   */
+  public async writeFile(fileName: string) {
+    const contents = path.extname(fileName).toLowerCase() === '.csv' ? this.toCsv() : this.toJson();
+    await fs.ensureDir(path.dirname(fileName));
+    await fs.writeFile(fileName, contents);
+  }
+}
+
+/**
+ * Estimated monthly storage cost of an asset, in USD
+ */
+export function estimateMonthlyCost(type: 's3' | 'ecr', size: number): number {
+  const cost = (size / 1_073_741_824) * STORAGE_PRICE_PER_GB_MONTH[type];
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Parse the value of an isolation tag
+ *
+ * Tags written by garbage collection contain a timestamp in milliseconds, but ISO dates are accepted as well.
+ */
+export function parseIsolationDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function sumSizes(entries: GcReportEntry[]) {
+  return entries.reduce((total, e) => total + e.size, 0);
+}
+
+function roundCents(x: number) {
+  return Math.round(x * 100) / 100;
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined) {
+    return '';
+  }
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
@@ -1 +1,3 @@
 export * from './garbage-collector';
+export * from './gc-report';
+export * from './asset-destinations';
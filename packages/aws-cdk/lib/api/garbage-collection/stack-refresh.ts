@@ -97,11 +97,18 @@ function bootstrapFilter(parameters?: ParameterDeclaration[], qualifier?: string
           splitBootstrapVersion[2] != qualifier);
 }
 
-export async function refreshStacks(cfn: ICloudFormationClient, ioHelper: IoHelper, activeAssets: ActiveAssetCache, qualifier?: string) {
+export async function refreshStacks(
+  cfn: ICloudFormationClient | ICloudFormationClient[],
+  ioHelper: IoHelper,
+  activeAssets: ActiveAssetCache,
+  qualifier?: string,
+) {
   try {
-    const stacks = await fetchAllStackTemplates(cfn, ioHelper, qualifier);
-    for (const stack of stacks) {
-      activeAssets.rememberStack(stack);
+    for (const client of Array.isArray(cfn) ? cfn : [cfn]) {
+      const stacks = await fetchAllStackTemplates(client, ioHelper, qualifier);
+      for (const stack of stacks) {
+        activeAssets.rememberStack(stack);
+      }
     }
   } catch (err) {
     throw new ToolkitError(`Error refreshing stacks: ${err}`);
@@ -114,8 +121,10 @@ export async function refreshStacks(cfn: ICloudFormationClient, ioHelper: IoHelp
 export interface BackgroundStackRefreshProps {
   /**
    * The CFN SDK handler
+   *
+   * Pass multiple handlers to find the active assets in multiple environments.
    */
-  readonly cfn: ICloudFormationClient;
+  readonly cfn: ICloudFormationClient | ICloudFormationClient[];
 
   /**
    * Used to send messages.
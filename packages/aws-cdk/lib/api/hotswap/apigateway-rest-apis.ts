@@ -0,0 +1,163 @@
+import type { HotswapChange } from './common';
+import { classifyChanges } from './common';
+import type { AffectedResource, ResourceChange } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/payloads/hotswap';
+import type { SDK } from '../aws-auth';
+import type { EvaluateCloudFormationTemplate } from '../cloudformation';
+
+export async function isHotswappableApiGatewayChange(
+  logicalId: string,
+  change: ResourceChange,
+  evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<HotswapChange[]> {
+  // Deployments are immutable snapshots of a RestApi, and the CDK changes their logical ID whenever the RestApi changes.
+  // We will create a new deployment when we get to hotswapping the actual RestApi this Deployment points to.
+  if (change.newValue.Type === 'AWS::ApiGateway::Deployment') {
+    return classifyDeploymentChanges(change);
+  }
+
+  // we handle Stages specially too
+  // the actual stage update will happen if we change the RestApi
+  if (change.newValue.Type === 'AWS::ApiGateway::Stage') {
+    return classifyStageChanges(change);
+  }
+
+  if (change.newValue.Type !== 'AWS::ApiGateway::RestApi') {
+    return [];
+  }
+
+  const ret: HotswapChange[] = [];
+  const classifiedChanges = classifyChanges(change, ['Body', 'BodyS3Location']);
+  classifiedChanges.reportNonHotswappablePropertyChanges(ret);
+
+  if (classifiedChanges.namesOfHotswappableProps.length === 0) {
+    return ret;
+  }
+
+  const restApiId = await evaluateCfnTemplate.findPhysicalNameFor(logicalId);
+
+  // nothing to do here
+  if (!restApiId) {
+    return ret;
+  }
+
+  const stages = await stagesOfRestApi(logicalId, restApiId, evaluateCfnTemplate);
+
+  ret.push({
+    change: {
+      cause: change,
+      resources: [
+        {
+          logicalId,
+          resourceType: change.newValue.Type,
+          physicalName: restApiId,
+          metadata: evaluateCfnTemplate.metadataFor(logicalId),
+        },
+        ...stages,
+      ],
+    },
+    hotswappable: true,
+    service: 'apigateway',
+    apply: async (sdk: SDK) => {
+      const apiGateway = sdk.apiGateway();
+
+      await apiGateway.putRestApi({
+        restApiId,
+        mode: 'overwrite',
+        body: await restApiBody(sdk, change, evaluateCfnTemplate),
+      });
+
+      // the new definition is only served after it has been deployed to a stage
+      for (const stage of stages) {
+        await apiGateway.createDeployment({
+          restApiId,
+          stageName: stage.physicalName,
+        });
+      }
+    },
+  });
+
+  return ret;
+}
+
+/**
+ * Determines which changes to this Deployment are hotswappable or not
+ */
+function classifyDeploymentChanges(change: ResourceChange): HotswapChange[] {
+  // A Deployment whose logical ID was changed shows up as a change of all of its properties,
+  // even though they stayed the same. The RestApi hotswap takes care of deploying it.
+  if (JSON.stringify(change.oldValue.Properties) === JSON.stringify(change.newValue.Properties)) {
+    return [];
+  }
+
+  const ret: HotswapChange[] = [];
+  const classifiedChanges = classifyChanges(change, []);
+  classifiedChanges.reportNonHotswappablePropertyChanges(ret);
+
+  return ret;
+}
+
+/**
+ * Determines which changes to this Stage are hotswappable or not
+ */
+function classifyStageChanges(change: ResourceChange): HotswapChange[] {
+  const ret: HotswapChange[] = [];
+  const classifiedChanges = classifyChanges(change, ['DeploymentId']);
+  classifiedChanges.reportNonHotswappablePropertyChanges(ret);
+
+  // we only want to report not hotswappable changes to stages
+  // the actual stage update will happen if we change the RestApi
+
+  return ret;
+}
+
+/**
+ * Evaluates the new definition of the RestApi, either from the inline body or from the S3 location
+ */
+async function restApiBody(
+  sdk: SDK,
+  change: ResourceChange,
+  evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<Uint8Array> {
+  const properties = change.newValue.Properties ?? {};
+
+  if (properties.Body !== undefined) {
+    const body = await evaluateCfnTemplate.evaluateCfnExpression(properties.Body);
+    return Buffer.from(typeof body === 'string' ? body : JSON.stringify(body));
+  }
+
+  const location = await evaluateCfnTemplate.evaluateCfnExpression(properties.BodyS3Location);
+  const response = await sdk.s3().getObject({
+    Bucket: location?.Bucket,
+    Key: location?.Key,
+    VersionId: location?.Version,
+  });
+  return (await response.Body?.transformToByteArray()) ?? new Uint8Array();
+}
+
+/**
+ * Finds the names of all Stages the RestApi with logical ID `logicalId` is deployed to.
+ * This includes the Stages created implicitly by a Deployment with a `StageName`.
+ */
+async function stagesOfRestApi(
+  logicalId: string,
+  restApiId: string,
+  evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<AffectedResource[]> {
+  const candidates = evaluateCfnTemplate
+    .findReferencesTo(logicalId)
+    .filter((r) => r.Type === 'AWS::ApiGateway::Stage' || (r.Type === 'AWS::ApiGateway::Deployment' && r.Properties?.StageName));
+
+  const ret = new Array<AffectedResource>();
+  for (const candidate of candidates) {
+    const stageName = await evaluateCfnTemplate.evaluateCfnExpression(candidate.Properties?.StageName);
+    ret.push({
+      logicalId: candidate.LogicalId,
+      resourceType: candidate.Type,
+      physicalName: stageName,
+      description: `AWS::ApiGateway::Stage '${stageName}' for AWS::ApiGateway::RestApi '${restApiId}'`,
+      metadata: evaluateCfnTemplate.metadataFor(candidate.LogicalId),
+    });
+  }
+
+  return ret;
+}
@@ -0,0 +1,108 @@
+import type { HotswapChange } from './common';
+import { classifyChanges } from './common';
+import type { ResourceChange } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/payloads/hotswap';
+import { transformObjectKeys } from '../../util';
+import type { SDK } from '../aws-auth';
+import type { EvaluateCloudFormationTemplate } from '../cloudformation';
+
+export async function isHotswappableEventBridgeRuleChange(
+  logicalId: string,
+  change: ResourceChange,
+  evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<HotswapChange[]> {
+  if (change.newValue.Type !== 'AWS::Events::Rule') {
+    return [];
+  }
+
+  const ret: HotswapChange[] = [];
+  const classifiedChanges = classifyChanges(change, ['EventPattern', 'ScheduleExpression', 'State', 'Description', 'Targets']);
+  classifiedChanges.reportNonHotswappablePropertyChanges(ret);
+
+  const namesOfHotswappableChanges = classifiedChanges.namesOfHotswappableProps;
+  if (namesOfHotswappableChanges.length === 0) {
+    return ret;
+  }
+
+  const physicalName = await evaluateCfnTemplate.establishResourcePhysicalName(
+    logicalId,
+    change.newValue.Properties?.Name,
+  );
+
+  // nothing to do here
+  if (!physicalName) {
+    return ret;
+  }
+
+  // rules on a custom event bus have a physical ID of the form 'eventBusName|ruleName'
+  const ruleName = physicalName.split('|').pop()!;
+
+  ret.push({
+    change: {
+      cause: change,
+      resources: [{
+        logicalId,
+        resourceType: change.newValue.Type,
+        physicalName: ruleName,
+        metadata: evaluateCfnTemplate.metadataFor(logicalId),
+      }],
+    },
+    hotswappable: true,
+    service: 'events',
+    apply: async (sdk: SDK) => {
+      const eventBridge = sdk.eventBridge();
+      const properties = change.newValue.Properties ?? {};
+      const eventBusName = await evaluateCfnTemplate.evaluateCfnExpression(properties.EventBusName);
+
+      // PutRule replaces the whole rule, so all properties have to be passed, not just the changed ones
+      if (namesOfHotswappableChanges.some((name) => name !== 'Targets')) {
+        const eventPattern = await evaluateCfnTemplate.evaluateCfnExpression(properties.EventPattern);
+        await eventBridge.putRule({
+          Name: ruleName,
+          EventBusName: eventBusName,
+          EventPattern: eventPattern === undefined || typeof eventPattern === 'string' ? eventPattern : JSON.stringify(eventPattern),
+          ScheduleExpression: await evaluateCfnTemplate.evaluateCfnExpression(properties.ScheduleExpression),
+          State: await evaluateCfnTemplate.evaluateCfnExpression(properties.State),
+          Description: await evaluateCfnTemplate.evaluateCfnExpression(properties.Description),
+          RoleArn: await evaluateCfnTemplate.evaluateCfnExpression(properties.RoleArn),
+        });
+      }
+
+      if (namesOfHotswappableChanges.includes('Targets')) {
+        const newTargets = transformObjectKeys(
+          await evaluateCfnTemplate.evaluateCfnExpression(properties.Targets ?? []),
+          convertTargetCloudformationKeyToSdkKey,
+        );
+        if (newTargets.length > 0) {
+          await eventBridge.putTargets({
+            Rule: ruleName,
+            EventBusName: eventBusName,
+            Targets: newTargets,
+          });
+        }
+
+        // target IDs are literal strings in practice, so we can read them from the old template without evaluating them
+        const newTargetIds: string[] = newTargets.map((t: any) => t.Id);
+        const removedTargetIds = (change.oldValue.Properties?.Targets ?? [])
+          .map((t: any) => t.Id)
+          .filter((id: any) => typeof id === 'string' && !newTargetIds.includes(id));
+        if (removedTargetIds.length > 0) {
+          await eventBridge.removeTargets({
+            Rule: ruleName,
+            EventBusName: eventBusName,
+            Ids: removedTargetIds,
+          });
+        }
+      }
+    },
+  });
+
+  return ret;
+}
+
+function convertTargetCloudformationKeyToSdkKey(key: string): string {
+  // the only key of a target that is spelled differently in the SDK
+  if (key === 'AwsVpcConfiguration') {
+    return 'awsvpcConfiguration';
+  }
+  return key;
+}
@@ -303,7 +303,7 @@ function zipString(fileName: string, rawString: string): Promise<Buffer> {
  * or very slowly. For example, Zip based functions _not_ in a VPC can take ~1 second whereas VPC
  * or Container functions can take ~25 seconds (and 'idle' VPC functions can take minutes).
  */
-async function waitForLambdasPropertiesUpdateToFinish(
+export async function waitForLambdasPropertiesUpdateToFinish(
   currentFunctionConfiguration: FunctionConfiguration,
   lambda: ILambdaClient,
   functionName: string,
@@ -0,0 +1,171 @@
+import type { HotswapChange } from './common';
+import { classifyChanges } from './common';
+import { waitForLambdasPropertiesUpdateToFinish } from './lambda-functions';
+import type { AffectedResource, ResourceChange } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/payloads/hotswap';
+import type { SDK } from '../aws-auth';
+import type { EvaluateCloudFormationTemplate } from '../cloudformation';
+
+export async function isHotswappableLambdaLayerVersionChange(
+  logicalId: string,
+  change: ResourceChange,
+  evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<HotswapChange[]> {
+  // we handle LayerVersionPermissions specially
+  // the permissions are granted on the new version when we hotswap the LayerVersion they point to
+  if (change.newValue.Type === 'AWS::Lambda::LayerVersionPermission') {
+    return classifyLayerVersionPermissionChanges(change);
+  }
+
+  if (change.newValue.Type !== 'AWS::Lambda::LayerVersion') {
+    return [];
+  }
+
+  const ret: HotswapChange[] = [];
+  // Layer versions are immutable, so instead of updating the layer we publish a new version of it.
+  // Every property that is sent along with PublishLayerVersion can therefore be hotswapped.
+  const classifiedChanges = classifyChanges(change, [
+    'Content',
+    'Description',
+    'CompatibleRuntimes',
+    'CompatibleArchitectures',
+    'LicenseInfo',
+  ]);
+  classifiedChanges.reportNonHotswappablePropertyChanges(ret);
+
+  if (classifiedChanges.namesOfHotswappableProps.length === 0) {
+    return ret;
+  }
+
+  const physicalName = await evaluateCfnTemplate.establishResourcePhysicalName(
+    logicalId,
+    change.newValue.Properties?.LayerName,
+  );
+
+  // nothing to do here
+  if (!physicalName) {
+    return ret;
+  }
+
+  // the physical name of a layer version is its versioned ARN,
+  // but new versions have to be published under the unversioned layer name
+  const layerName = layerArnWithoutVersion(physicalName);
+  const functions = await dependantFunctions(logicalId, layerName, evaluateCfnTemplate);
+  const permissions = evaluateCfnTemplate
+    .findReferencesTo(logicalId)
+    .filter((r) => r.Type === 'AWS::Lambda::LayerVersionPermission');
+
+  ret.push({
+    change: {
+      cause: change,
+      resources: [
+        {
+          logicalId,
+          resourceType: change.newValue.Type,
+          physicalName: layerName,
+          metadata: evaluateCfnTemplate.metadataFor(logicalId),
+        },
+        ...functions,
+      ],
+    },
+    hotswappable: true,
+    service: 'lambda',
+    apply: async (sdk: SDK) => {
+      const lambda = sdk.lambda();
+      const properties = change.newValue.Properties ?? {};
+
+      const newLayerVersion = await lambda.publishLayerVersion({
+        LayerName: layerName,
+        Content: await evaluateCfnTemplate.evaluateCfnExpression(properties.Content),
+        Description: await evaluateCfnTemplate.evaluateCfnExpression(properties.Description),
+        CompatibleRuntimes: await evaluateCfnTemplate.evaluateCfnExpression(properties.CompatibleRuntimes),
+        CompatibleArchitectures: await evaluateCfnTemplate.evaluateCfnExpression(properties.CompatibleArchitectures),
+        LicenseInfo: await evaluateCfnTemplate.evaluateCfnExpression(properties.LicenseInfo),
+      });
+
+      // permissions are granted per version, so they need to be copied over to the new version
+      for (const permission of permissions) {
+        await lambda.addLayerVersionPermission({
+          LayerName: layerName,
+          VersionNumber: newLayerVersion.Version,
+          StatementId: permission.LogicalId,
+          Action: await evaluateCfnTemplate.evaluateCfnExpression(permission.Properties?.Action),
+          Principal: await evaluateCfnTemplate.evaluateCfnExpression(permission.Properties?.Principal),
+          OrganizationId: await evaluateCfnTemplate.evaluateCfnExpression(permission.Properties?.OrganizationId),
+        });
+      }
+
+      // point every function that uses this layer to the new version,
+      // keeping the order of all other layers of the function intact
+      for (const fn of functions) {
+        const functionName = fn.physicalName!;
+        const currentConfiguration = await lambda.getFunctionConfiguration({ FunctionName: functionName });
+        const layers = (currentConfiguration.Layers ?? []).map((layer) =>
+          layerArnWithoutVersion(layer.Arn!) === newLayerVersion.LayerArn ? newLayerVersion.LayerVersionArn! : layer.Arn!,
+        );
+
+        const updateFunctionConfigurationResponse = await lambda.updateFunctionConfiguration({
+          FunctionName: functionName,
+          Layers: layers,
+        });
+        await waitForLambdasPropertiesUpdateToFinish(updateFunctionConfigurationResponse, lambda, functionName);
+      }
+    },
+  });
+
+  return ret;
+}
+
+/**
+ * Determines which changes to this LayerVersionPermission are hotswappable or not
+ */
+function classifyLayerVersionPermissionChanges(change: ResourceChange): HotswapChange[] {
+  const ret: HotswapChange[] = [];
+  const classifiedChanges = classifyChanges(change, ['LayerVersionArn']);
+  classifiedChanges.reportNonHotswappablePropertyChanges(ret);
+
+  // we only want to report not hotswappable changes to permissions
+  // a change of the LayerVersionArn is caused by the new version of the layer they point to
+
+  return ret;
+}
+
+/**
+ * Finds all AWS::Lambda::Functions that reference the AWS::Lambda::LayerVersion with logical ID `logicalId`
+ */
+async function dependantFunctions(
+  logicalId: string,
+  layerName: string,
+  evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<AffectedResource[]> {
+  const functionsReferencingLayer = evaluateCfnTemplate
+    .findReferencesTo(logicalId)
+    .filter((r) => r.Type === 'AWS::Lambda::Function');
+
+  const ret = new Array<AffectedResource>();
+  for (const fn of functionsReferencingLayer) {
+    const functionName = await evaluateCfnTemplate.establishResourcePhysicalName(fn.LogicalId, fn.Properties?.FunctionName);
+    // the function will be created by this deployment, so it will pick up the new layer version anyway
+    if (!functionName) {
+      continue;
+    }
+    ret.push({
+      logicalId: fn.LogicalId,
+      resourceType: fn.Type,
+      physicalName: functionName,
+      description: `${fn.Type} '${functionName}' using AWS::Lambda::LayerVersion '${layerName}'`,
+      metadata: evaluateCfnTemplate.metadataFor(fn.LogicalId),
+    });
+  }
+
+  return ret;
+}
+
+/**
+ * Turns a (versioned) layer version ARN into the ARN of the layer.
+ * Plain layer names and unversioned layer ARNs are returned as-is.
+ */
+function layerArnWithoutVersion(layerArn: string): string {
+  // arn:${Partition}:lambda:${Region}:${Account}:layer:${LayerName}:${Version}
+  const parts = layerArn.split(':');
+  return parts.length > 7 ? parts.slice(0, 7).join(':') : layerArn;
+}
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import type * as cxapi from '@aws-cdk/cx-api';
+import * as fs from 'fs-extra';
+import type { AssetPublishNode, StackNode } from './work-graph-types';
+import { DeploymentState } from './work-graph-types';
+import { IO, type IoHelper } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
+
+/**
+ * Name of the journal file inside the cloud assembly directory
+ */
+export const DEPLOYMENT_JOURNAL_FILE = 'deployment-journal.json';
+
+const JOURNAL_VERSION = 1;
+
+/**
+ * The nodes of a WorkGraph that are recorded in the journal
+ */
+export type JournaledNode = StackNode | AssetPublishNode;
+
+/**
+ * The recorded state of a single node
+ */
+export interface DeploymentJournalEntry {
+  readonly state: DeploymentState;
+
+  /**
+   * Hash of everything that determines the outcome of deploying the node
+   */
+  readonly fingerprint: string;
+}
+
+/**
+ * Options for a DeploymentJournal
+ */
+export interface DeploymentJournalOptions {
+  /**
+   * The inputs of deploying a stack that are not part of the stack artifact,
+   * like parameter values given on the command line
+   *
+   * These are part of the fingerprint of the stack, so that a stack is deployed
+   * again when they changed since it was recorded.
+   *
+   * @default - only the stack artifact determines the fingerprint
+   */
+  readonly stackInputs?: (stack: cxapi.CloudFormationStackArtifact) => any;
+}
+
+interface JournalFile {
+  readonly version: number;
+  readonly nodes: Record<string, DeploymentJournalEntry>;
+}
+
+/**
+ * Records which nodes of a deployment have completed, so that a failed
+ * deployment can be resumed without repeating the work that already succeeded.
+ *
+ * The journal lives in the cloud assembly directory. Nodes are matched by their
+ * id and a fingerprint of their contents, so a node that changed since it was
+ * recorded is deployed again.
+ */
+export class DeploymentJournal {
+  /**
+   * Load the journal from the given cloud assembly directory
+   *
+   * A missing or unreadable journal results in an empty journal.
+   */
+  public static async load(directory: string, ioHelper: IoHelper, options: DeploymentJournalOptions = {}): Promise<DeploymentJournal> {
+    const file = path.join(directory, DEPLOYMENT_JOURNAL_FILE);
+    const journal = new DeploymentJournal(file, ioHelper, options);
+
+    try {
+      const contents: JournalFile = await fs.readJson(file);
+      if (contents.version !== JOURNAL_VERSION) {
+        await ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`Ignoring deployment journal ${file} with unsupported version ${contents.version}`));
+      } else {
+        Object.assign(journal.entries, contents.nodes);
+      }
+    } catch (e: any) {
+      if (e instanceof SyntaxError) {
+        await ioHelper.notify(IO.DEFAULT_TOOLKIT_DEBUG.msg(`Ignoring corrupt deployment journal ${file}`));
+      } else if (e.code !== 'ENOENT') {
+        throw e;
+      }
+    }
+
+    return journal;
+  }
+
+  /**
+   * Calculate the fingerprint of a node
+   */
+  public static fingerprint(node: JournaledNode, options: DeploymentJournalOptions = {}): string {
+    const hash = createHash('sha256');
+    switch (node.type) {
+      case 'stack':
+        hash.update(JSON.stringify({
+          stackName: node.stack.stackName,
+          environment: node.stack.environment.name,
+          template: node.stack.template,
+          parameters: node.stack.parameters,
+          tags: node.stack.tags,
+          inputs: options.stackInputs?.(node.stack),
+        }));
+        break;
+      case 'asset-publish':
+        hash.update(JSON.stringify({
+          id: node.asset.id.toString(),
+          source: node.asset.genericSource,
+          destination: node.asset.genericDestination,
+        }));
+        break;
+    }
+    return hash.digest('hex');
+  }
+
+  private readonly entries: Record<string, DeploymentJournalEntry> = {};
+  private writing: Promise<void> = Promise.resolve();
+
+  private constructor(
+    public readonly file: string,
+    private readonly ioHelper: IoHelper,
+    private readonly options: DeploymentJournalOptions,
+  ) {
+  }
+
+  /**
+   * Whether the node was completed in a previous run and has not changed since
+   */
+  public isCompleted(node: JournaledNode): boolean {
+    const entry = this.entries[node.id];
+    return entry?.state === DeploymentState.COMPLETED && entry.fingerprint === DeploymentJournal.fingerprint(node, this.options);
+  }
+
+  /**
+   * The number of recorded nodes
+   */
+  public get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  /**
+   * Record that a node has completed and persist the journal
+   */
+  public async recordCompleted(node: JournaledNode): Promise<void> {
+    this.entries[node.id] = {
+      state: DeploymentState.COMPLETED,
+      fingerprint: DeploymentJournal.fingerprint(node, this.options),
+    };
+    await this.save();
+  }
+
+  /**
+   * Forget all recorded nodes and remove the journal file
+   */
+  public async clear(): Promise<void> {
+    for (const id of Object.keys(this.entries)) {
+      delete this.entries[id];
+    }
+    this.writing = this.writing.then(() => fs.remove(this.file));
+    await this.writing;
+  }
+
+  private async save() {
+    // Nodes complete in parallel, serialize the writes so they don't interleave
+    this.writing = this.writing.then(async () => {
+      const contents: JournalFile = { version: JOURNAL_VERSION, nodes: this.entries };
+      await fs.writeJson(this.file, contents, { spaces: 2 });
+      await this.ioHelper.notify(IO.DEFAULT_TOOLKIT_TRACE.msg(`Updated deployment journal ${this.file}`));
+    });
+    await this.writing;
+  }
+}
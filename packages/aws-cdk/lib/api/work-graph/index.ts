@@ -1,3 +1,4 @@
 export * from './work-graph';
 export * from './work-graph-builder';
 export * from './work-graph-types';
+export * from './deployment-journal';
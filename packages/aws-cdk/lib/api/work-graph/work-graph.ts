@@ -5,6 +5,11 @@ import { IO, type IoHelper } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/
 import { parallelPromises } from '../../util';
 export type Concurrency = number | Record<WorkNode['type'], number>;
 
+/**
+ * Formats the WorkGraph can be rendered in
+ */
+export type WorkGraphFormat = 'dot' | 'mermaid';
+
 export class WorkGraph {
   public readonly nodes: Record<string, WorkNode>;
   private readonly readyPool: Array<WorkNode> = [];
@@ -234,6 +239,33 @@ export class WorkGraph {
     }
   }
 
+  /**
+   * Render the graph for human inspection
+   *
+   * Arrows point in the order in which work is performed, from a dependency
+   * to the nodes that depend on it. Every node is labeled with its type and
+   * priority. If the graph contains a dependency cycle, the nodes and edges
+   * involved in it are highlighted in red.
+   */
+  public render(format: WorkGraphFormat): string {
+    const cycle = this.findCycle() ?? [];
+    const cycleEdges = new Set<string>();
+    for (let i = 0; i < cycle.length - 1; i++) {
+      cycleEdges.add(`${cycle[i]}\0${cycle[i + 1]}`);
+    }
+
+    // Sort for stable output, the order in which nodes were added is not meaningful
+    const nodes = Object.values(this.nodes).sort((a, b) => a.id.localeCompare(b.id));
+    const edges = nodes.flatMap((node) => Array.from(node.dependencies).sort().map((dep) => ({
+      from: dep,
+      to: node.id,
+      inCycle: cycleEdges.has(`${node.id}\0${dep}`),
+    })));
+
+    const renderer = format === 'mermaid' ? renderMermaid : renderDot;
+    return renderer(nodes, edges, new Set(cycle));
+  }
+
   /**
    * Ensure all dependencies actually exist. This protects against scenarios such as the following:
    * StackA depends on StackB, but StackB is not selected to deploy. The dependency is redundant
@@ -279,6 +311,45 @@ export class WorkGraph {
     }
   }
 
+  /**
+   * Mark stacks and asset publishes that were already completed in an earlier run as completed,
+   * so that they are not performed again. Returns the nodes that were marked.
+   *
+   * A node is only considered completed if all of its dependencies are as well, so work
+   * resumes from the first node that did not complete. Asset builds are completed if every
+   * publish that uses them is.
+   */
+  public markCompleted(isCompleted: (x: StackNode | AssetPublishNode) => boolean): WorkNode[] {
+    const marked = new Array<WorkNode>();
+    const completedPublishes = new Set(this.nodesOfType('asset-publish').filter(isCompleted).map(n => n.id));
+
+    for (const build of this.nodesOfType('asset-build')) {
+      const dependees = this.dependees(build);
+      if (dependees.length > 0 && dependees.every(d => completedPublishes.has(d.id))) {
+        build.deploymentState = DeploymentState.COMPLETED;
+        marked.push(build);
+      }
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const node of Object.values(this.nodes)) {
+        if (node.type === 'asset-build' || node.deploymentState !== DeploymentState.PENDING) {
+          continue;
+        }
+        const depsCompleted = Array.from(node.dependencies).every(id => this.tryGetNode(id)?.deploymentState === DeploymentState.COMPLETED);
+        if (depsCompleted && isCompleted(node)) {
+          node.deploymentState = DeploymentState.COMPLETED;
+          marked.push(node);
+          changed = true;
+        }
+      }
+    }
+
+    return marked;
+  }
+
   private async updateReadyPool() {
     const activeCount = Object.values(this.nodes).filter((x) => x.deploymentState === DeploymentState.DEPLOYING).length;
     const pendingCount = Object.values(this.nodes).filter((x) => x.deploymentState === DeploymentState.PENDING).length;
@@ -399,6 +470,79 @@ function retainOnly<A>(xs: A[], pred: (x: A) => boolean) {
   xs.splice(0, xs.length, ...xs.filter(pred));
 }
 
+interface RenderedEdge {
+  readonly from: string;
+  readonly to: string;
+  readonly inCycle: boolean;
+}
+
+const DOT_SHAPES: Record<WorkNode['type'], string> = {
+  'asset-build': 'ellipse',
+  'asset-publish': 'parallelogram',
+  'stack': 'box',
+};
+
+function renderDot(nodes: WorkNode[], edges: RenderedEdge[], cycle: Set<string>): string {
+  return [
+    'digraph WorkGraph {',
+    '  rankdir=LR;',
+    ...nodes.map((node) => `  ${gv(node.id, {
+      label: nodeLabel(node, '\\n').replace(/"/g, '\\"'),
+      shape: DOT_SHAPES[node.type],
+      color: cycle.has(node.id) ? 'red' : undefined,
+    })};`),
+    ...edges.map((edge) => `  ${gv(edge.from)} -> ${gv(edge.to)}${edge.inCycle ? ' [color="red"]' : ''};`),
+    '}',
+  ].join('\n');
+}
+
+function renderMermaid(nodes: WorkNode[], edges: RenderedEdge[], cycle: Set<string>): string {
+  // Mermaid is picky about the characters in node ids, so we number them instead
+  const ids = new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+
+  const lines = ['flowchart LR'];
+  for (const node of nodes) {
+    const label = `"${nodeLabel(node, '<br/>').replace(/"/g, '#quot;')}"`;
+    const id = ids.get(node.id)!;
+    switch (node.type) {
+      case 'stack':
+        lines.push(`  ${id}[${label}]`);
+        break;
+      case 'asset-build':
+        lines.push(`  ${id}([${label}])`);
+        break;
+      case 'asset-publish':
+        lines.push(`  ${id}[/${label}/]`);
+        break;
+    }
+  }
+
+  const cycleLinks: number[] = [];
+  edges.forEach((edge, i) => {
+    lines.push(`  ${ids.get(edge.from) ?? edge.from} --> ${ids.get(edge.to)}`);
+    if (edge.inCycle) {
+      cycleLinks.push(i);
+    }
+  });
+
+  if (cycle.size > 0) {
+    lines.push('  classDef cycle stroke:#f00,stroke-width:2px');
+    lines.push(`  class ${nodes.filter((node) => cycle.has(node.id)).map((node) => ids.get(node.id)).join(',')} cycle`);
+  }
+  if (cycleLinks.length > 0) {
+    lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:#f00,stroke-width:2px`);
+  }
+
+  return lines.join('\n');
+}
+
+function nodeLabel(node: WorkNode, lineBreak: string) {
+  return [
+    node.note ?? simplifyId(node.id),
+    `${node.type} (priority ${node.priority ?? 0})`,
+  ].join(lineBreak);
+}
+
 function gv(id: string, attrs?: Record<string, string | undefined>) {
   const attrString = Object.entries(attrs ?? {}).flatMap(([k, v]) => v !== undefined ? [`${k}="${v}"`] : []).join(',');
 
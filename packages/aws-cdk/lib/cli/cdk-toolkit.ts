@@ -1,5 +1,6 @@
 import * as path from 'path';
 import { format } from 'util';
+import { DIFF_JSON_SCHEMA_VERSION, formatHtmlReport } from '@aws-cdk/cloudformation-diff';
 import * as cxapi from '@aws-cdk/cx-api';
 import * as chalk from 'chalk';
 import * as chokidar from 'chokidar';
@@ -8,7 +9,8 @@ import * as promptly from 'promptly';
 import * as uuid from 'uuid';
 import type { Configuration } from './user-configuration';
 import { PROJECT_CONFIG } from './user-configuration';
-import { ToolkitError } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api';
+import type { StackDiffJson } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api';
+import { DeployPolicy, enforceDeployPolicy, ToolkitError, validateStackTemplates } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api';
 import { asIoHelper } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
 import { DEFAULT_TOOLKIT_STACK_NAME } from '../api';
 import type { SdkProvider } from '../api/aws-auth';
@@ -27,16 +29,18 @@ import type { CloudExecutable } from '../api/cxapp/cloud-executable';
 import { environmentsFromDescriptors, globEnvironmentsFromStacks, looksLikeGlob } from '../api/cxapp/environments';
 import type { DeploymentMethod, SuccessfulDeployStackResult, Deployments } from '../api/deployments';
 import { createDiffChangeSet } from '../api/deployments/cfn-api';
-import { GarbageCollector } from '../api/garbage-collection/garbage-collector';
+import { describeAssetDestination, discoverAssetDestinations, GarbageCollectionReport, GarbageCollector } from '../api/garbage-collection';
 import { HotswapMode, HotswapPropertyOverrides, EcsHotswapProperties } from '../api/hotswap/common';
 import { findCloudWatchLogGroups } from '../api/logs/find-cloudwatch-logs';
 import { CloudWatchLogEventMonitor } from '../api/logs/logs-monitor';
 import { ResourceImporter, removeNonImportResources, ResourceMigrator } from '../api/resource-import';
 import { tagsForStack, type Tag } from '../api/tags';
-import type { AssetBuildNode, AssetPublishNode, Concurrency, StackNode, WorkGraph } from '../api/work-graph';
+import type { AssetBuildNode, AssetPublishNode, Concurrency, StackNode, WorkGraph, WorkGraphFormat } from '../api/work-graph';
+import { DeploymentJournal } from '../api/work-graph/deployment-journal';
 import { WorkGraphBuilder } from '../api/work-graph/work-graph-builder';
 import { StackActivityProgress } from '../commands/deploy';
 import { DiffFormatter, RequireApproval } from '../commands/diff';
+import { DriftFormatter } from '../commands/drift';
 import { listStacks } from '../commands/list-stacks';
 import type {
   FromScan,
@@ -60,7 +64,7 @@ import {
 } from '../commands/migrate';
 import { result as logResult, debug, error, highlight, info, success, warning } from '../logging';
 import { CliIoHost } from './io-host';
-import { partition, validateSnsTopicArn, formatErrorMessage, deserializeStructure, obscureTemplate, serializeStructure, formatTime } from '../util';
+import { partition, validateSnsTopicArn, formatErrorMessage, deserializeStructure, obscureTemplate, serializeStructure, formatTime, formatBytes } from '../util';
 
 // Must use a require() otherwise esbuild complains about calling a namespace
 // eslint-disable-next-line @typescript-eslint/no-require-imports,@typescript-eslint/consistent-type-imports
@@ -178,8 +182,16 @@ export class CdkToolkit {
     const strict = !!options.strict;
     const contextLines = options.contextLines || 3;
     const quiet = options.quiet || false;
+    const json = options.format === 'json';
+    const documentFormat = options.format === 'markdown' || options.format === 'html' ? options.format : undefined;
+
+    if ((json || documentFormat) && options.securityOnly) {
+      throw new ToolkitError(`--security-only cannot be combined with --format=${options.format}. The ${options.format} output always contains the security changes.`);
+    }
 
     let diffs = 0;
+    const stackDiffs = new Array<StackDiffJson>();
+    const documents = new Array<string>();
     const parameterMap = buildParameterMap(options.parameters);
 
     if (options.templatePath !== undefined) {
@@ -209,6 +221,19 @@ export class CdkToolkit {
           info(securityDiff.formattedDiff);
           diffs += 1;
         }
+      } else if (json) {
+        const diff = formatter.formatStackDiffJson({ strict });
+        diffs = diff.numStacksWithChanges;
+        stackDiffs.push(...diff.stacks);
+      } else if (documentFormat) {
+        const diff = formatter.formatStackDiffDocument({
+          format: documentFormat,
+          strict,
+          context: contextLines,
+          quiet,
+        });
+        diffs = diff.numStacksWithChanges;
+        documents.push(diff.formattedDiff);
       } else {
         const diff = formatter.formatStackDiff({
           strict,
@@ -289,6 +314,29 @@ export class CdkToolkit {
             info(securityDiff.formattedDiff);
             diffs += 1;
           }
+        } else if (json) {
+          const diff = formatter.formatStackDiffJson({
+            strict,
+            stackName: stack.displayName,
+            changeSet,
+            isImport: !!resourcesToImport,
+            nestedStackTemplates: nestedStacks,
+          });
+          stackDiffs.push(...diff.stacks);
+          diffs += diff.numStacksWithChanges;
+        } else if (documentFormat) {
+          const diff = formatter.formatStackDiffDocument({
+            format: documentFormat,
+            strict,
+            context: contextLines,
+            quiet,
+            stackName: stack.displayName,
+            changeSet,
+            isImport: !!resourcesToImport,
+            nestedStackTemplates: nestedStacks,
+          });
+          documents.push(diff.formattedDiff);
+          diffs += diff.numStacksWithChanges;
         } else {
           const diff = formatter.formatStackDiff({
             strict,
@@ -305,13 +353,50 @@ export class CdkToolkit {
       }
     }
 
+    if (json) {
+      printSerializedObject({ schemaVersion: DIFF_JSON_SCHEMA_VERSION, stacks: stackDiffs }, true);
+    } else if (documentFormat === 'markdown') {
+      logResult(documents.filter(d => d).join('\n'));
+    } else if (documentFormat === 'html') {
+      logResult(formatHtmlReport(documents.filter(d => d), { title: 'cdk diff' }));
+    }
+
     info(format('\n✨  Number of stacks with differences: %s\n', diffs));
 
     return diffs && options.fail ? 1 : 0;
   }
 
+  public async drift(options: DriftOptions): Promise<number> {
+    const stacks = await this.selectStacksForDiff(options.stackNames, options.exclusively);
+
+    let stacksWithDrift = 0;
+    for (const stack of stacks.stackArtifacts) {
+      const stackExists = await this.props.deployments.stackExists({ stack, tryLookupRole: true });
+      if (!stackExists) {
+        warning(`${chalk.bold(stack.displayName)}: stack is not deployed, skipping drift detection.`);
+        continue;
+      }
+
+      const resourceDrifts = await this.props.deployments.detectStackDrift(stack);
+      const formatter = new DriftFormatter({ stack, resourceDrifts });
+      const drift = formatter.formatStackDrift();
+      info(drift.formattedDrift);
+
+      if (drift.numResourcesWithDrift > 0) {
+        stacksWithDrift += 1;
+      }
+    }
+
+    info(format('\n✨  Number of stacks with drift: %s\n', stacksWithDrift));
+
+    return stacksWithDrift && options.fail ? 1 : 0;
+  }
+
   public async deploy(options: DeployOptions) {
     if (options.watch) {
+      if (options.printPlan) {
+        throw new ToolkitError('--print-plan cannot be combined with --watch');
+      }
       return this.watch(options);
     }
 
@@ -335,6 +420,15 @@ export class CdkToolkit {
       return;
     }
 
+    const assetBuildTime = options.assetBuildTime ?? AssetBuildTime.ALL_BEFORE_DEPLOY;
+    const prebuildAssets = assetBuildTime === AssetBuildTime.ALL_BEFORE_DEPLOY;
+
+    // Printing the plan must not change anything, so it happens before any other work
+    if (options.printPlan) {
+      logResult(this.deployWorkGraph(stackCollection, prebuildAssets).render(options.printPlan));
+      return;
+    }
+
     const migrator = new ResourceMigrator({
       deployments: this.props.deployments,
       ioHelper: asIoHelper(this.ioHost, 'deploy'),
@@ -346,7 +440,12 @@ export class CdkToolkit {
 
     const requireApproval = options.requireApproval ?? RequireApproval.BROADENING;
 
+    const deployPolicyFile = this.props.configuration.settings.get(['deployPolicy']);
+    const deployPolicy = deployPolicyFile ? DeployPolicy.fromFile(deployPolicyFile) : undefined;
+
     const parameterMap = buildParameterMap(options.parameters);
+    const stackParameters = (stack: cxapi.CloudFormationStackArtifact) =>
+      Object.assign({}, parameterMap['*'], parameterMap[stack.stackName]);
 
     if (options.hotswap !== HotswapMode.FULL_DEPLOYMENT) {
       warning(
@@ -420,8 +519,15 @@ export class CdkToolkit {
         return;
       }
 
+      const currentTemplate = deployPolicy || requireApproval !== RequireApproval.NEVER
+        ? await this.props.deployments.readCurrentTemplate(stack)
+        : undefined;
+
+      if (deployPolicy) {
+        await enforceDeployPolicy(asIoHelper(this.ioHost, 'deploy'), deployPolicy, stack, currentTemplate, concurrency);
+      }
+
       if (requireApproval !== RequireApproval.NEVER) {
-        const currentTemplate = await this.props.deployments.readCurrentTemplate(stack);
         const formatter = new DiffFormatter({
           ioHelper: asIoHelper(this.ioHost, 'deploy'),
           oldTemplate: currentTemplate,
@@ -488,7 +594,7 @@ export class CdkToolkit {
             changeSetName: options.changeSetName,
             deploymentMethod: options.deploymentMethod,
             force: options.force,
-            parameters: Object.assign({}, parameterMap['*'], parameterMap[stack.stackName]),
+            parameters: stackParameters(stack),
             usePreviousParameters: options.usePreviousParameters,
             rollback,
             hotswap: options.hotswap,
@@ -606,8 +712,6 @@ export class CdkToolkit {
       info(`\n✨  Total time: ${formatTime(elapsedSynthTime + elapsedDeployTime)}s\n`);
     };
 
-    const assetBuildTime = options.assetBuildTime ?? AssetBuildTime.ALL_BEFORE_DEPLOY;
-    const prebuildAssets = assetBuildTime === AssetBuildTime.ALL_BEFORE_DEPLOY;
     const concurrency = options.concurrency || 1;
     if (concurrency > 1) {
       // always force "events" progress output when we have concurrency
@@ -619,20 +723,30 @@ export class CdkToolkit {
       }
     }
 
-    const stacksAndTheirAssetManifests = stacks.flatMap((stack) => [
-      stack,
-      ...stack.dependencies.filter(x => cxapi.AssetManifestArtifact.isAssetManifestArtifact(x)),
-    ]);
-    const workGraph = new WorkGraphBuilder(
-      asIoHelper(this.ioHost, 'deploy'),
-      prebuildAssets,
-    ).build(stacksAndTheirAssetManifests);
+    const workGraph = this.deployWorkGraph(stackCollection, prebuildAssets);
 
     // Unless we are running with '--force', skip already published assets
     if (!options.force) {
       await this.removePublishedAssets(workGraph, options);
     }
 
+    // Completed work is recorded, so a deployment that fails can be resumed with '--resume'
+    const journal = await DeploymentJournal.load(stackCollection.assembly.directory, asIoHelper(this.ioHost, 'deploy'), {
+      stackInputs: (stack) => ({
+        parameters: stackParameters(stack),
+        usePreviousParameters: options.usePreviousParameters,
+        tags: options.tags,
+        notificationArns: options.notificationArns,
+        roleArn: options.roleArn,
+        deploymentMethod: options.deploymentMethod,
+      }),
+    });
+    if (options.resume) {
+      this.resumeDeployment(workGraph, journal);
+    } else {
+      await journal.clear();
+    }
+
     const graphConcurrency: Concurrency = {
       'stack': concurrency,
       'asset-build': 1, // This will be CPU-bound/memory bound, mostly matters for Docker builds
@@ -640,10 +754,19 @@ export class CdkToolkit {
     };
 
     await workGraph.doParallel(graphConcurrency, {
-      deployStack,
+      deployStack: async (stackNode) => {
+        await deployStack(stackNode);
+        await journal.recordCompleted(stackNode);
+      },
       buildAsset,
-      publishAsset,
+      publishAsset: async (assetNode) => {
+        await publishAsset(assetNode);
+        await journal.recordCompleted(assetNode);
+      },
     });
+
+    // Everything has been deployed, there is nothing left to resume
+    await journal.clear();
   }
 
   /**
@@ -978,9 +1101,14 @@ export class CdkToolkit {
     quiet: boolean,
     autoValidate?: boolean,
     json?: boolean,
+    validateTemplates?: boolean,
   ): Promise<any> {
     const stacks = await this.selectStacksForDiff(stackNames, exclusively, autoValidate);
 
+    if (validateTemplates) {
+      await this.validateTemplates(stacks);
+    }
+
     // if we have a single stack, print it to STDOUT
     if (stacks.stackCount === 1) {
       if (!quiet) {
@@ -998,6 +1126,25 @@ export class CdkToolkit {
     return undefined;
   }
 
+  /**
+   * Statically check the templates of the given stacks, and fail if CloudFormation would reject any of them
+   */
+  private async validateTemplates(stacks: StackCollection) {
+    const findings = await validateStackTemplates(
+      asIoHelper(this.ioHost, 'synth'),
+      stacks.stackArtifacts,
+      stacks.assembly.assembly.stacksRecursively,
+    );
+
+    const numErrors = findings.filter(f => f.level === 'error').length;
+    if (numErrors > 0) {
+      throw new ToolkitError(`Template validation found ${numErrors} error(s), CloudFormation will reject the templates`);
+    }
+    if (findings.length === 0) {
+      success('✨  Template validation found no problems');
+    }
+  }
+
   /**
    * Bootstrap the CDK Toolkit stack in the accounts used by the specified stack(s).
    *
@@ -1039,8 +1186,13 @@ export class CdkToolkit {
    */
   public async garbageCollect(userEnvironmentSpecs: string[], options: GarbageCollectionOptions) {
     const environments = await this.defineEnvironments(userEnvironmentSpecs);
+    const report = new GarbageCollectionReport();
 
-    for (const environment of environments) {
+    if (options.destinations === 'assembly') {
+      await this.garbageCollectAssetDestinations(environments, options, report);
+    }
+
+    for (const environment of options.destinations === 'assembly' ? [] : environments) {
       success(' ⏳  Garbage Collecting environment %s...', chalk.blue(environment.name));
       const gc = new GarbageCollector({
         sdkProvider: this.props.sdkProvider,
@@ -1052,11 +1204,85 @@ export class CdkToolkit {
         action: options.action ?? 'full',
         type: options.type ?? 'all',
         confirm: options.confirm ?? true,
+        report,
+      });
+      await gc.garbageCollect();
+    }
+
+    if (options.action === 'report') {
+      await this.printGarbageCollectionReport(report, options.reportFile);
+    }
+  }
+
+  /**
+   * Garbage collect the asset destinations found in the asset manifests of the app
+   */
+  private async garbageCollectAssetDestinations(
+    environments: cxapi.Environment[],
+    options: GarbageCollectionOptions,
+    report: GarbageCollectionReport,
+  ) {
+    if (!this.props.cloudExecutable.hasApp) {
+      throw new ToolkitError('Collecting the asset destinations of the app requires an app, run in a directory with \'cdk.json\'');
+    }
+
+    const environmentNames = new Set(environments.map(env => env.name));
+    const stacks: cxapi.CloudFormationStackArtifact[] = [];
+    for (const stack of (await this.selectStacksForList([])).stackArtifacts) {
+      const environment = await this.props.deployments.resolveEnvironment(stack);
+      if (environmentNames.has(environment.name)) {
+        stacks.push(stack);
+      }
+    }
+
+    const destinations = await discoverAssetDestinations(stacks, this.props.deployments.envs);
+    if (destinations.length === 0) {
+      warning('No asset destinations found in the app');
+    }
+
+    for (const destination of destinations) {
+      success(' ⏳  Garbage Collecting asset destination %s...', chalk.blue(describeAssetDestination(destination)));
+      const gc = new GarbageCollector({
+        sdkProvider: this.props.sdkProvider,
+        ioHelper: asIoHelper(this.ioHost, 'gc'),
+        resolvedEnvironment: destination.environment,
+        rollbackBufferDays: options.rollbackBufferDays,
+        createdBufferDays: options.createdBufferDays,
+        action: options.action ?? 'full',
+        type: options.type ?? 'all',
+        confirm: options.confirm ?? true,
+        destination,
+        exclusiveDestination: options.exclusiveDestinations ?? false,
+        report,
       });
       await gc.garbageCollect();
     }
   }
 
+  private async printGarbageCollectionReport(report: GarbageCollectionReport, reportFile?: string) {
+    if (reportFile) {
+      await report.writeFile(reportFile);
+    } else {
+      for (const entry of report.entries) {
+        const isolated = entry.dateIsolated ? `isolated since ${entry.dateIsolated}` : 'not tagged as isolated';
+        info(`${entry.location}: ${formatBytes(entry.size)}, ${entry.ageDays ?? '?'} days old, ${isolated}${entry.deletable ? ', deletable' : ''}`);
+      }
+    }
+
+    const summary = report.summary();
+    success(
+      '\n✨  Found %d isolated assets (%s), %d (%s) of which can be deleted now. Estimated storage saving: $%s per month',
+      summary.assets,
+      formatBytes(summary.size),
+      summary.deletableAssets,
+      formatBytes(summary.deletableSize),
+      summary.estimatedMonthlySaving.toFixed(2),
+    );
+    if (reportFile) {
+      info('Report written to %s', reportFile);
+    }
+  }
+
   private async defineEnvironments(userEnvironmentSpecs: string[]): Promise<cxapi.Environment[]> {
     // By default, glob for everything
     const environmentSpecs = userEnvironmentSpecs.length > 0 ? [...userEnvironmentSpecs] : ['**'];
@@ -1330,6 +1556,37 @@ export class CdkToolkit {
     }
   }
 
+  /**
+   * Build the graph of stack deployments and asset builds and publishes for the given stacks
+   */
+  private deployWorkGraph(stackCollection: StackCollection, prebuildAssets: boolean): WorkGraph {
+    const stacksAndTheirAssetManifests = stackCollection.stackArtifacts.flatMap((stack) => [
+      stack,
+      ...stack.dependencies.filter(x => cxapi.AssetManifestArtifact.isAssetManifestArtifact(x)),
+    ]);
+    return new WorkGraphBuilder(
+      asIoHelper(this.ioHost, 'deploy'),
+      prebuildAssets,
+    ).build(stacksAndTheirAssetManifests);
+  }
+
+  /**
+   * Mark the work that was completed by an earlier deployment as done
+   */
+  private resumeDeployment(graph: WorkGraph, journal: DeploymentJournal) {
+    if (journal.size === 0) {
+      warning('No earlier deployment found to resume, deploying all selected stacks');
+      return;
+    }
+
+    const resumed = graph.markCompleted(node => journal.isCompleted(node));
+    const resumedStacks = resumed.filter(node => node.type === 'stack');
+    for (const node of resumedStacks) {
+      info(`${chalk.bold(node.stack.displayName)}: already deployed by an earlier run, skipping`);
+    }
+    info(`Resuming deployment, skipping ${resumedStacks.length} stack(s) and ${resumed.length - resumedStacks.length} asset step(s) that already completed\n`);
+  }
+
   /**
    * Remove the asset publishing and building from the work graph for assets that are already in place
    */
@@ -1407,6 +1664,18 @@ export interface DiffOptions {
    */
   readonly securityOnly?: boolean;
 
+  /**
+   * The format of the diff output
+   *
+   * With 'json', a machine-readable document describing the changes
+   * of all stacks is written to stdout instead of the formatted diff.
+   * With 'markdown' or 'html', the diff is written to stdout as GitHub-flavored
+   * Markdown (e.g. for a pull request comment) or as a standalone HTML report.
+   *
+   * @default 'text'
+   */
+  readonly format?: 'text' | 'json' | 'markdown' | 'html';
+
   /**
    * Whether to run the diff against the template after the CloudFormation Transforms inside it have been executed
    * (as opposed to the original template, the default, which contains the unprocessed Transforms).
@@ -1436,6 +1705,30 @@ export interface DiffOptions {
   readonly changeSet?: boolean;
 }
 
+/**
+ * Options for the drift command
+ */
+export interface DriftOptions {
+  /**
+   * Stack names to detect drift on
+   */
+  readonly stackNames: string[];
+
+  /**
+   * Only select the given stack
+   *
+   * @default false
+   */
+  readonly exclusively?: boolean;
+
+  /**
+   * Whether to fail with exit code 1 in case of drift
+   *
+   * @default false
+   */
+  readonly fail?: boolean;
+}
+
 interface CfnDeployOptions {
   /**
    * Criteria for selecting stacks to deploy
@@ -1646,6 +1939,26 @@ export interface DeployOptions extends CfnDeployOptions, WatchOptions {
    * @default false
    */
   readonly ignoreNoStacks?: boolean;
+
+  /**
+   * Print the plan of the deployment in the given format instead of deploying
+   *
+   * The plan contains all stacks and asset build and publish steps, including
+   * assets that have already been published.
+   *
+   * @default - deploy
+   */
+  readonly printPlan?: WorkGraphFormat;
+
+  /**
+   * Skip stacks and asset publishes that were completed by an earlier deployment that failed
+   *
+   * Completed work is recorded in a journal in the cloud assembly directory. Work
+   * is only skipped if it has not changed since it was recorded.
+   *
+   * @default false
+   */
+  readonly resume?: boolean;
 }
 
 export interface RollbackOptions {
@@ -1750,7 +2063,7 @@ export interface GarbageCollectionOptions {
    *
    * @default 'full'
    */
-  readonly action: 'print' | 'tag' | 'delete-tagged' | 'full';
+  readonly action: 'print' | 'report' | 'tag' | 'delete-tagged' | 'full';
 
   /**
    * The type of the assets to be garbage collected.
@@ -1784,6 +2097,32 @@ export interface GarbageCollectionOptions {
    * @default false
    */
   readonly confirm?: boolean;
+
+  /**
+   * File to write the report to when the action is `report`
+   *
+   * @default - the report is printed
+   */
+  readonly reportFile?: string;
+
+  /**
+   * Which asset destinations to collect
+   *
+   * - `bootstrap`: the bootstrap bucket and repository of each environment
+   * - `assembly`: the buckets and repositories that the asset manifests of the app publish to
+   *
+   * @default 'bootstrap'
+   */
+  readonly destinations?: 'bootstrap' | 'assembly';
+
+  /**
+   * Whether the asset destinations of the app are only used by stacks in the environments of the app
+   *
+   * Assets are only deleted from the asset destinations of the app if this is set.
+   *
+   * @default false
+   */
+  readonly exclusiveDestinations?: boolean;
 }
 
 export interface MigrateOptions {
@@ -67,6 +67,7 @@ export async function makeConfig(): Promise<CliConfig> {
           exclusively: { type: 'boolean', alias: 'e', desc: 'Only synthesize requested stacks, don\'t include dependencies' },
           validation: { type: 'boolean', desc: 'After synthesis, validate stacks with the "validateOnSynth" attribute set (can also be controlled with CDK_VALIDATION)', default: true },
           quiet: { type: 'boolean', alias: 'q', desc: 'Do not output CloudFormation Template to stdout', default: false },
+          validate: { type: 'boolean', desc: 'After synthesis, check the templates for problems CloudFormation would reject them for, like references to missing resources or exceeded template limits', default: false },
         },
       },
       bootstrap: {
@@ -104,12 +105,20 @@ export async function makeConfig(): Promise<CliConfig> {
           variadic: true,
         },
         options: {
-          'action': { type: 'string', desc: 'The action (or sub-action) you want to perform. Valid entires are "print", "tag", "delete-tagged", "full".', default: 'full' },
+          'action': { type: 'string', desc: 'The action (or sub-action) you want to perform. Valid entires are "print", "report", "tag", "delete-tagged", "full".', default: 'full' },
           'type': { type: 'string', desc: 'Specify either ecr, s3, or all', default: 'all' },
           'rollback-buffer-days': { type: 'number', desc: 'Delete assets that have been marked as isolated for this many days', default: 0 },
           'created-buffer-days': { type: 'number', desc: 'Never delete assets younger than this (in days)', default: 1 },
           'confirm': { type: 'boolean', desc: 'Confirm via manual prompt before deletion', default: true },
           'bootstrap-stack-name': { type: 'string', desc: 'The name of the CDK toolkit stack, if different from the default "CDKToolkit"', requiresArg: true },
+          'destinations': {
+            type: 'string',
+            choices: ['bootstrap', 'assembly'],
+            desc: 'Collect the bootstrap bucket and repository of each environment, or the asset destinations from the asset manifests of the app',
+            default: 'bootstrap',
+          },
+          'exclusive-destinations': { type: 'boolean', desc: 'With --destinations=assembly, allow deleting assets because no stacks outside the environments of this app use the destinations', default: false },
+          'report-file': { type: 'string', desc: 'With --action=report, write the report to this file, as CSV if it ends in .csv and as JSON otherwise', requiresArg: true },
         },
       },
       deploy: {
@@ -175,6 +184,8 @@ export async function makeConfig(): Promise<CliConfig> {
           'asset-parallelism': { type: 'boolean', desc: 'Whether to build/publish assets in parallel' },
           'asset-prebuild': { type: 'boolean', desc: 'Whether to build all assets before deploying the first stack (useful for failing Docker builds)', default: true },
           'ignore-no-stacks': { type: 'boolean', desc: 'Whether to deploy if the app contains no stacks', default: false },
+          'print-plan': { type: 'string', choices: ['dot', 'mermaid'], desc: 'Print the order of stack deployments and asset builds and publishes in the given graph format to stdout, instead of deploying', requiresArg: true },
+          'resume': { type: 'boolean', desc: 'Skip stacks and assets that were already deployed by an earlier, failed run of this deployment and have not changed since', default: false },
         },
         arg: {
           name: 'STACKS',
@@ -308,12 +319,24 @@ export async function makeConfig(): Promise<CliConfig> {
           'template': { type: 'string', desc: 'The path to the CloudFormation template to compare with', requiresArg: true },
           'strict': { type: 'boolean', desc: 'Do not filter out AWS::CDK::Metadata resources, mangled non-ASCII characters, or the CheckBootstrapVersionRule', default: false },
           'security-only': { type: 'boolean', desc: 'Only diff for broadened security changes', default: false },
+          'format': { type: 'string', alias: 'output-format', choices: ['text', 'json', 'markdown', 'html'], desc: 'The format of the diff output. \'json\' writes a machine-readable document describing all changes to stdout, \'markdown\' and \'html\' write a report that can be posted as a pull request comment or viewed in a browser', default: 'text', requiresArg: true },
           'fail': { type: 'boolean', desc: 'Fail with exit code 1 in case of diff' },
           'processed': { type: 'boolean', desc: 'Whether to compare against the template with Transforms already processed', default: false },
           'quiet': { type: 'boolean', alias: 'q', desc: 'Do not print stack name and default message when there is no diff to stdout', default: false },
           'change-set': { type: 'boolean', alias: 'changeset', desc: 'Whether to create a changeset to analyze resource replacements. In this mode, diff will use the deploy role instead of the lookup role.', default: true },
         },
       },
+      drift: {
+        description: 'Detects drift between the specified stacks and their deployed resources, and returns with status 1 if any drift is found',
+        arg: {
+          name: 'STACKS',
+          variadic: true,
+        },
+        options: {
+          exclusively: { type: 'boolean', alias: 'e', desc: 'Only detect drift on requested stacks, don\'t include dependencies' },
+          fail: { type: 'boolean', desc: 'Fail with exit code 1 in case of drift. Use --no-fail to always exit with code 0', default: true },
+        },
+      },
       metadata: {
         description: 'Returns all metadata associated with this stack',
         arg: {
@@ -382,6 +405,8 @@ export async function makeConfig(): Promise<CliConfig> {
           reset: { alias: 'e', desc: 'The context key (or its index) to reset', type: 'string', requiresArg: true, default: undefined },
           force: { alias: 'f', desc: 'Ignore missing key error', type: 'boolean', default: false },
           clear: { desc: 'Clear all context', type: 'boolean', default: false },
+          refresh: { desc: 'Look up cached context values again and show what changed. Pass a context key (or its index) to only refresh that value', type: 'string', default: undefined },
+          provider: { desc: 'Only refresh context values of this context provider (e.g. ami, vpc-provider)', type: 'string', requiresArg: true, default: undefined },
         },
       },
       docs: {
@@ -209,6 +209,7 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
       sdkProvider,
       toolkitStackName,
       ioHelper: asIoHelper(ioHost, ioHost.currentAction as any),
+      assetCache: configuration.settings.get(['assetCache']),
     });
 
     if (args.all && args.STACKS) {
@@ -244,6 +245,10 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
           json: argv.json,
           force: argv.force,
           reset: argv.reset,
+          refresh: argv.refresh,
+          provider: argv.provider,
+          sdkProvider,
+          ioHelper: asIoHelper(ioHost, ioHost.currentAction as any),
         });
 
       case 'docs':
@@ -274,6 +279,7 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
           strict: args.strict,
           contextLines: args.contextLines,
           securityOnly: args.securityOnly,
+          format: args.format,
           fail: args.fail != null ? args.fail : !enableDiffNoFail,
           compareAgainstProcessedTemplate: args.processed,
           quiet: args.quiet,
@@ -281,6 +287,14 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
           toolkitStackName: toolkitStackName,
         });
 
+      case 'drift':
+        ioHost.currentAction = 'drift';
+        return cli.drift({
+          stackNames: args.STACKS,
+          exclusively: args.exclusively,
+          fail: args.fail,
+        });
+
       case 'bootstrap':
         ioHost.currentAction = 'bootstrap';
         const source: BootstrapSource = determineBootstrapVersion(ioHost, args);
@@ -391,6 +405,8 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
             ? AssetBuildTime.ALL_BEFORE_DEPLOY
             : AssetBuildTime.JUST_IN_TIME,
           ignoreNoStacks: args.ignoreNoStacks,
+          printPlan: args.printPlan,
+          resume: args.resume,
         });
 
       case 'rollback':
@@ -463,6 +479,9 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
           createdBufferDays: args['created-buffer-days'],
           bootstrapStackName: args.bootstrapStackName,
           confirm: args.confirm,
+          reportFile: args.reportFile,
+          destinations: args.destinations,
+          exclusiveDestinations: args.exclusiveDestinations,
         });
 
       case 'synthesize':
@@ -470,9 +489,9 @@ export async function exec(args: string[], synthesizer?: Synthesizer): Promise<n
         ioHost.currentAction = 'synth';
         const quiet = configuration.settings.get(['quiet']) ?? args.quiet;
         if (args.exclusively) {
-          return cli.synth(args.STACKS, args.exclusively, quiet, args.validation, argv.json);
+          return cli.synth(args.STACKS, args.exclusively, quiet, args.validation, argv.json, args.validate);
         } else {
-          return cli.synth(args.STACKS, true, quiet, args.validation, argv.json);
+          return cli.synth(args.STACKS, true, quiet, args.validation, argv.json, args.validate);
         }
 
       case 'notices':
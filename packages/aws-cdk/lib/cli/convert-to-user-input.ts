@@ -52,6 +52,7 @@ export function convertYargsToUserInput(args: any): UserInput {
         exclusively: args.exclusively,
         validation: args.validation,
         quiet: args.quiet,
+        validate: args.validate,
         STACKS: args.STACKS,
       };
       break;
@@ -89,6 +90,9 @@ export function convertYargsToUserInput(args: any): UserInput {
         createdBufferDays: args.createdBufferDays,
         confirm: args.confirm,
         bootstrapStackName: args.bootstrapStackName,
+        destinations: args.destinations,
+        exclusiveDestinations: args.exclusiveDestinations,
+        reportFile: args.reportFile,
         ENVIRONMENTS: args.ENVIRONMENTS,
       };
       break;
@@ -120,6 +124,8 @@ export function convertYargsToUserInput(args: any): UserInput {
         assetParallelism: args.assetParallelism,
         assetPrebuild: args.assetPrebuild,
         ignoreNoStacks: args.ignoreNoStacks,
+        printPlan: args.printPlan,
+        resume: args.resume,
         STACKS: args.STACKS,
       };
       break;
@@ -181,6 +187,7 @@ export function convertYargsToUserInput(args: any): UserInput {
         template: args.template,
         strict: args.strict,
         securityOnly: args.securityOnly,
+        format: args.format,
         fail: args.fail,
         processed: args.processed,
         quiet: args.quiet,
@@ -189,6 +196,14 @@ export function convertYargsToUserInput(args: any): UserInput {
       };
       break;
 
+    case 'drift':
+      commandOptions = {
+        exclusively: args.exclusively,
+        fail: args.fail,
+        STACKS: args.STACKS,
+      };
+      break;
+
     case 'metadata':
       commandOptions = {
         STACK: args.STACK,
@@ -238,6 +253,8 @@ export function convertYargsToUserInput(args: any): UserInput {
         reset: args.reset,
         force: args.force,
         clear: args.clear,
+        refresh: args.refresh,
+        provider: args.provider,
       };
       break;
 
@@ -298,6 +315,7 @@ export function convertConfigToUserInput(config: any): UserInput {
     exclusively: config.synth?.exclusively,
     validation: config.synth?.validation,
     quiet: config.synth?.quiet,
+    validate: config.synth?.validate,
   };
   const bootstrapOptions = {
     bootstrapBucketName: config.bootstrap?.bootstrapBucketName,
@@ -327,6 +345,9 @@ export function convertConfigToUserInput(config: any): UserInput {
     createdBufferDays: config.gc?.createdBufferDays,
     confirm: config.gc?.confirm,
     bootstrapStackName: config.gc?.bootstrapStackName,
+    destinations: config.gc?.destinations,
+    exclusiveDestinations: config.gc?.exclusiveDestinations,
+    reportFile: config.gc?.reportFile,
   };
   const deployOptions = {
     all: config.deploy?.all,
@@ -354,6 +375,8 @@ export function convertConfigToUserInput(config: any): UserInput {
     assetParallelism: config.deploy?.assetParallelism,
     assetPrebuild: config.deploy?.assetPrebuild,
     ignoreNoStacks: config.deploy?.ignoreNoStacks,
+    printPlan: config.deploy?.printPlan,
+    resume: config.deploy?.resume,
   };
   const rollbackOptions = {
     all: config.rollback?.all,
@@ -395,11 +418,16 @@ export function convertConfigToUserInput(config: any): UserInput {
     template: config.diff?.template,
     strict: config.diff?.strict,
     securityOnly: config.diff?.securityOnly,
+    format: config.diff?.format,
     fail: config.diff?.fail,
     processed: config.diff?.processed,
     quiet: config.diff?.quiet,
     changeSet: config.diff?.changeSet,
   };
+  const driftOptions = {
+    exclusively: config.drift?.exclusively,
+    fail: config.drift?.fail,
+  };
   const metadataOptions = {};
   const acknowledgeOptions = {};
   const noticesOptions = {
@@ -427,6 +455,8 @@ export function convertConfigToUserInput(config: any): UserInput {
     reset: config.context?.reset,
     force: config.context?.force,
     clear: config.context?.clear,
+    refresh: config.context?.refresh,
+    provider: config.context?.provider,
   };
   const docsOptions = {
     browser: config.docs?.browser,
@@ -444,6 +474,7 @@ export function convertConfigToUserInput(config: any): UserInput {
     watch: watchOptions,
     destroy: destroyOptions,
     diff: diffOptions,
+    drift: driftOptions,
     metadata: metadataOptions,
     acknowledge: acknowledgeOptions,
     notices: noticesOptions,
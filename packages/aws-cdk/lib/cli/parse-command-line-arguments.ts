@@ -188,6 +188,11 @@ export function parseCommandLineArguments(args: Array<string>): any {
           type: 'boolean',
           alias: 'q',
           desc: 'Do not output CloudFormation Template to stdout',
+        })
+        .option('validate', {
+          default: false,
+          type: 'boolean',
+          desc: 'After synthesis, check the templates for problems CloudFormation would reject them for, like references to missing resources or exceeded template limits',
         }),
     )
     .command('bootstrap [ENVIRONMENTS..]', 'Deploys the CDK toolkit stack into an AWS environment', (yargs: Argv) =>
@@ -317,7 +322,7 @@ export function parseCommandLineArguments(args: Array<string>): any {
           .option('action', {
             default: 'full',
             type: 'string',
-            desc: 'The action (or sub-action) you want to perform. Valid entires are "print", "tag", "delete-tagged", "full".',
+            desc: 'The action (or sub-action) you want to perform. Valid entires are "print", "report", "tag", "delete-tagged", "full".',
           })
           .option('type', {
             default: 'all',
@@ -344,6 +349,23 @@ export function parseCommandLineArguments(args: Array<string>): any {
             type: 'string',
             desc: 'The name of the CDK toolkit stack, if different from the default "CDKToolkit"',
             requiresArg: true,
+          })
+          .option('destinations', {
+            default: 'bootstrap',
+            type: 'string',
+            choices: ['bootstrap', 'assembly'],
+            desc: 'Collect the bootstrap bucket and repository of each environment, or the asset destinations from the asset manifests of the app',
+          })
+          .option('exclusive-destinations', {
+            default: false,
+            type: 'boolean',
+            desc: 'With --destinations=assembly, allow deleting assets because no stacks outside the environments of this app use the destinations',
+          })
+          .option('report-file', {
+            default: undefined,
+            type: 'string',
+            desc: 'With --action=report, write the report to this file, as CSV if it ends in .csv and as JSON otherwise',
+            requiresArg: true,
           }),
     )
     .command('deploy [STACKS..]', 'Deploys the stack(s) named STACKS into your AWS account', (yargs: Argv) =>
@@ -494,6 +516,18 @@ export function parseCommandLineArguments(args: Array<string>): any {
           default: false,
           type: 'boolean',
           desc: 'Whether to deploy if the app contains no stacks',
+        })
+        .option('print-plan', {
+          default: undefined,
+          type: 'string',
+          choices: ['dot', 'mermaid'],
+          desc: 'Print the order of stack deployments and asset builds and publishes in the given graph format to stdout, instead of deploying',
+          requiresArg: true,
+        })
+        .option('resume', {
+          default: false,
+          type: 'boolean',
+          desc: 'Skip stacks and assets that were already deployed by an earlier, failed run of this deployment and have not changed since',
         }),
     )
     .command('rollback [STACKS..]', 'Rolls back the stack(s) named STACKS to their last stable state', (yargs: Argv) =>
@@ -693,6 +727,14 @@ export function parseCommandLineArguments(args: Array<string>): any {
             type: 'boolean',
             desc: 'Only diff for broadened security changes',
           })
+          .option('format', {
+            default: 'text',
+            type: 'string',
+            alias: 'output-format',
+            choices: ['text', 'json', 'markdown', 'html'],
+            desc: "The format of the diff output. 'json' writes a machine-readable document describing all changes to stdout, 'markdown' and 'html' write a report that can be posted as a pull request comment or viewed in a browser",
+            requiresArg: true,
+          })
           .option('fail', {
             default: undefined,
             type: 'boolean',
@@ -716,6 +758,23 @@ export function parseCommandLineArguments(args: Array<string>): any {
             desc: 'Whether to create a changeset to analyze resource replacements. In this mode, diff will use the deploy role instead of the lookup role.',
           }),
     )
+    .command(
+      'drift [STACKS..]',
+      'Detects drift between the specified stacks and their deployed resources, and returns with status 1 if any drift is found',
+      (yargs: Argv) =>
+        yargs
+          .option('exclusively', {
+            default: undefined,
+            type: 'boolean',
+            alias: 'e',
+            desc: "Only detect drift on requested stacks, don't include dependencies",
+          })
+          .option('fail', {
+            default: true,
+            type: 'boolean',
+            desc: 'Fail with exit code 1 in case of drift. Use --no-fail to always exit with code 0',
+          }),
+    )
     .command('metadata [STACK]', 'Returns all metadata associated with this stack')
     .command(['acknowledge [ID]', 'ack [ID]'], 'Acknowledge a notice so that it does not show up anymore')
     .command('notices', 'Returns a list of relevant notices', (yargs: Argv) =>
@@ -829,6 +888,17 @@ export function parseCommandLineArguments(args: Array<string>): any {
           default: false,
           desc: 'Clear all context',
           type: 'boolean',
+        })
+        .option('refresh', {
+          default: undefined,
+          desc: 'Look up cached context values again and show what changed. Pass a context key (or its index) to only refresh that value',
+          type: 'string',
+        })
+        .option('provider', {
+          default: undefined,
+          desc: 'Only refresh context values of this context provider (e.g. ami, vpc-provider)',
+          type: 'string',
+          requiresArg: true,
         }),
     )
     .command(['docs', 'doc'], 'Opens the reference documentation in a browser', (yargs: Argv) =>
@@ -16,6 +16,7 @@ export enum Command {
   LS = 'ls',
   LIST = 'list',
   DIFF = 'diff',
+  DRIFT = 'drift',
   BOOTSTRAP = 'bootstrap',
   DEPLOY = 'deploy',
   DESTROY = 'destroy',
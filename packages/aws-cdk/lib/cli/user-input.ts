@@ -75,6 +75,11 @@ export interface UserInput {
    */
   readonly diff?: DiffOptions;
 
+  /**
+   * Detects drift between the specified stacks and their deployed resources, and returns with status 1 if any drift is found
+   */
+  readonly drift?: DriftOptions;
+
   /**
    * Returns all metadata associated with this stack
    */
@@ -367,6 +372,13 @@ export interface SynthOptions {
    */
   readonly quiet?: boolean;
 
+  /**
+   * After synthesis, check the templates for problems CloudFormation would reject them for, like references to missing resources or exceeded template limits
+   *
+   * @default - false
+   */
+  readonly validate?: boolean;
+
   /**
    * Positional argument for synth
    */
@@ -535,7 +547,7 @@ export interface BootstrapOptions {
  */
 export interface GcOptions {
   /**
-   * The action (or sub-action) you want to perform. Valid entires are "print", "tag", "delete-tagged", "full".
+   * The action (or sub-action) you want to perform. Valid entires are "print", "report", "tag", "delete-tagged", "full".
    *
    * @default - "full"
    */
@@ -576,6 +588,27 @@ export interface GcOptions {
    */
   readonly bootstrapStackName?: string;
 
+  /**
+   * Collect the bootstrap bucket and repository of each environment, or the asset destinations from the asset manifests of the app
+   *
+   * @default - "bootstrap"
+   */
+  readonly destinations?: string;
+
+  /**
+   * With --destinations=assembly, allow deleting assets because no stacks outside the environments of this app use the destinations
+   *
+   * @default - false
+   */
+  readonly exclusiveDestinations?: boolean;
+
+  /**
+   * With --action=report, write the report to this file, as CSV if it ends in .csv and as JSON otherwise
+   *
+   * @default - undefined
+   */
+  readonly reportFile?: string;
+
   /**
    * Positional argument for gc
    */
@@ -776,6 +809,20 @@ export interface DeployOptions {
    */
   readonly ignoreNoStacks?: boolean;
 
+  /**
+   * Print the order of stack deployments and asset builds and publishes in the given graph format to stdout, instead of deploying
+   *
+   * @default - undefined
+   */
+  readonly printPlan?: string;
+
+  /**
+   * Skip stacks and assets that were already deployed by an earlier, failed run of this deployment and have not changed since
+   *
+   * @default - false
+   */
+  readonly resume?: boolean;
+
   /**
    * Positional argument for deploy
    */
@@ -1073,6 +1120,15 @@ export interface DiffOptions {
    */
   readonly securityOnly?: boolean;
 
+  /**
+   * The format of the diff output. 'json' writes a machine-readable document describing all changes to stdout, 'markdown' and 'html' write a report that can be posted as a pull request comment or viewed in a browser
+   *
+   * aliases: output-format
+   *
+   * @default - "text"
+   */
+  readonly format?: string;
+
   /**
    * Fail with exit code 1 in case of diff
    *
@@ -1111,6 +1167,34 @@ export interface DiffOptions {
   readonly STACKS?: Array<string>;
 }
 
+/**
+ * Detects drift between the specified stacks and their deployed resources, and returns with status 1 if any drift is found
+ *
+ * @struct
+ */
+export interface DriftOptions {
+  /**
+   * Only detect drift on requested stacks, don't include dependencies
+   *
+   * aliases: e
+   *
+   * @default - undefined
+   */
+  readonly exclusively?: boolean;
+
+  /**
+   * Fail with exit code 1 in case of drift. Use --no-fail to always exit with code 0
+   *
+   * @default - true
+   */
+  readonly fail?: boolean;
+
+  /**
+   * Positional argument for drift
+   */
+  readonly STACKS?: Array<string>;
+}
+
 /**
  * Returns all metadata associated with this stack
  *
@@ -1315,6 +1399,20 @@ export interface ContextOptions {
    * @default - false
    */
   readonly clear?: boolean;
+
+  /**
+   * Look up cached context values again and show what changed. Pass a context key (or its index) to only refresh that value
+   *
+   * @default - undefined
+   */
+  readonly refresh?: string;
+
+  /**
+   * Only refresh context values of this context provider (e.g. ami, vpc-provider)
+   *
+   * @default - undefined
+   */
+  readonly provider?: string;
 }
 
 /**
@@ -1,10 +1,13 @@
 import * as chalk from 'chalk';
 import { minimatch } from 'minimatch';
 import { ToolkitError } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api';
+import type { IoHelper } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
+import type { SdkProvider } from '../api/aws-auth';
 import type { Context } from '../api/context';
 import { renderTable } from '../cli/tables';
 import { PROJECT_CONFIG, PROJECT_CONTEXT, USER_DEFAULTS } from '../cli/user-configuration';
 import * as version from '../cli/version';
+import { refreshContextValues } from '../context-providers';
 import { error, warning, info, result } from '../logging';
 
 /**
@@ -37,6 +40,36 @@ export interface ContextOptions {
    */
   clear?: boolean;
 
+  /**
+   * Look up cached context values again
+   *
+   * The context key (or its index) to refresh, or an empty string to refresh all values.
+   *
+   * @default undefined
+   */
+  refresh?: string;
+
+  /**
+   * Only refresh context values of this context provider
+   *
+   * @default - values of all providers are refreshed
+   */
+  provider?: string;
+
+  /**
+   * The SDK provider used to refresh context values
+   *
+   * @default undefined
+   */
+  sdkProvider?: SdkProvider;
+
+  /**
+   * The IoHelper used by the context providers when refreshing context values
+   *
+   * @default undefined
+   */
+  ioHelper?: IoHelper;
+
   /**
    * Use JSON output instead of YAML when templates are printed to STDOUT
    *
@@ -53,6 +86,9 @@ export async function contextHandler(options: ContextOptions): Promise<number> {
   } else if (options.reset) {
     invalidateContext(options.context, options.reset, options.force ?? false);
     await options.context.save(PROJECT_CONTEXT);
+  } else if (options.refresh !== undefined) {
+    await refreshContext(options);
+    await options.context.save(PROJECT_CONTEXT);
   } else {
     // List -- support '--json' flag
     if (options.json) {
@@ -82,10 +118,10 @@ function listContext(context: Context) {
   }
 
   // Print config by default
-  const data_out: any[] = [[chalk.green('#'), chalk.green('Key'), chalk.green('Value')]];
+  const data_out: any[] = [[chalk.green('#'), chalk.green('Key'), chalk.green('Value'), chalk.green('Last updated')]];
   for (const [i, key] of keys) {
     const jsonWithoutNewlines = JSON.stringify(context.all[key], undefined, 2).replace(/\s+/g, ' ');
-    data_out.push([i, key, jsonWithoutNewlines]);
+    data_out.push([i, key, jsonWithoutNewlines, context.getMetadata(key)?.lastUpdated.substring(0, 10) ?? '']);
   }
   info('Context found in %s:', chalk.blue(PROJECT_CONFIG));
   info('');
@@ -93,6 +129,97 @@ function listContext(context: Context) {
 
   // eslint-disable-next-line max-len
   info(`Run ${chalk.blue('cdk context --reset KEY_OR_NUMBER')} to remove a context key. It will be refreshed on the next CDK synthesis run.`);
+  info(`Run ${chalk.blue('cdk context --refresh [KEY_OR_NUMBER]')} to look up context values again and see what changed.`);
+}
+
+async function refreshContext(options: ContextOptions) {
+  const context = options.context;
+  if (!options.sdkProvider || !options.ioHelper) {
+    throw new ToolkitError('Refreshing context values requires an SDK provider');
+  }
+
+  let keys = options.refresh ? keysByKeyOrExpression(context, options.refresh) : context.keys.sort();
+  if (options.provider) {
+    keys = keys.filter(key => context.getMetadata(key)?.provider === options.provider);
+  }
+  if (keys.length === 0) {
+    throw new ToolkitError(options.provider
+      ? `No context values of provider ${options.provider} to refresh`
+      : `No context value matching key: ${options.refresh}`);
+  }
+
+  const unrecorded = keys.filter(key => !context.getMetadata(key));
+  if (unrecorded.length > 0) {
+    warning('The following context values were not looked up by this version of the CLI and cannot be refreshed');
+    unrecorded.forEach((key) => {
+      info('  %s', key);
+    });
+    info(`Run ${chalk.blue('cdk context --reset KEY_OR_NUMBER')} to look them up again on the next CDK synthesis run.`);
+  }
+
+  const refreshed = await refreshContextValues(keys, context, options.sdkProvider, options.ioHelper);
+  let changed = 0;
+  for (const { key, oldValue, newValue } of refreshed) {
+    const lines = renderValueDiff(oldValue, newValue);
+    if (lines.length === 0) {
+      info('%s: unchanged', chalk.blue(key));
+      continue;
+    }
+    changed += 1;
+    info('%s:', chalk.blue(key));
+    lines.forEach((line) => {
+      info('  %s', line);
+    });
+  }
+  info('');
+  info('Refreshed %d context value(s), %d changed.', refreshed.length, changed);
+}
+
+function keysByKeyOrExpression(context: Context, key: string): string[] {
+  const i = parseInt(key, 10);
+  if (`${i}` === key) {
+    return [keyByNumber(context, i)];
+  }
+  if (context.has(key)) {
+    return [key];
+  }
+  return keysByExpression(context, key).sort();
+}
+
+/**
+ * Render the differences between two context values, one line per changed leaf value
+ */
+function renderValueDiff(oldValue: any, newValue: any): string[] {
+  const before = flattenValue(oldValue);
+  const after = flattenValue(newValue);
+
+  const lines = new Array<string>();
+  for (const path of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[path]) === JSON.stringify(after[path])) {
+      continue;
+    }
+    const label = path ? `${path}: ` : '';
+    if (path in before) {
+      lines.push(chalk.red(`- ${label}${JSON.stringify(before[path])}`));
+    }
+    if (path in after) {
+      lines.push(chalk.green(`+ ${label}${JSON.stringify(after[path])}`));
+    }
+  }
+  return lines;
+}
+
+function flattenValue(value: any, prefix = '', ret: { [path: string]: any } = {}): { [path: string]: any } {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((v, i) => flattenValue(v, `${prefix}[${i}]`, ret));
+  } else if (value && typeof value === 'object' && Object.keys(value).length > 0) {
+    for (const [k, v] of Object.entries(value)) {
+      flattenValue(v, prefix ? `${prefix}.${k}` : k, ret);
+    }
+  } else {
+    ret[prefix] = value;
+  }
+  return ret;
 }
 
 function invalidateContext(context: Context, key: string, force: boolean) {
@@ -0,0 +1 @@
+export { DriftFormatter } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api';
@@ -14,7 +14,7 @@ import { ContextProviderError } from '../../../@aws-cdk/tmp-toolkit-helpers/src/
 import type { IoHelper } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
 import { IO } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
 import type { SdkProvider } from '../api';
-import type { Context } from '../api/context';
+import type { Context, ContextValueMetadata } from '../api/context';
 import { TRANSIENT_CONTEXT_KEY } from '../api/context';
 import { replaceEnvPlaceholders } from '../api/environment';
 import { PluginHost } from '../api/plugin';
@@ -75,47 +75,20 @@ export async function provideContextValues(
   sdk: SdkProvider,
   ioHelper: IoHelper,
 ) {
+  ioHelper = ioHelper ?? CliIoHost.instance().asIoHelper();
+
   for (const missingContext of missingValues) {
     const key = missingContext.key;
-
-    const providerName = missingContext.provider === cxschema.ContextProvider.PLUGIN
-      ? `${PLUGIN_PROVIDER_PREFIX}:${(missingContext.props as cxschema.PluginContextQuery).pluginName}`
-      : missingContext.provider;
-
-    let factory;
-    if (providerName.startsWith(`${PLUGIN_PROVIDER_PREFIX}:`)) {
-      const plugin = PluginHost.instance.contextProviderPlugins[providerName.substring(PLUGIN_PROVIDER_PREFIX.length + 1)];
-      if (!plugin) {
-        // eslint-disable-next-line max-len
-        throw new ContextProviderError(`Unrecognized plugin context provider name: ${missingContext.provider}.`);
-      }
-      factory = () => plugin;
-    } else {
-      factory = availableContextProviders[providerName];
-      if (!factory) {
-        // eslint-disable-next-line max-len
-        throw new ContextProviderError(`Unrecognized context provider name: ${missingContext.provider}. You might need to update the toolkit to match the version of the construct library.`);
-      }
-    }
-
-    ioHelper = ioHelper ?? CliIoHost.instance().asIoHelper();
-    const provider = factory(sdk, new ContextProviderMessages(ioHelper, providerName));
+    const provider = contextProviderFor(missingContext, sdk, ioHelper);
 
     let value;
     try {
-      const environment = missingContext.props.account && missingContext.props.region
-        ? cxapi.EnvironmentUtils.make(missingContext.props.account, missingContext.props.region)
-        : undefined;
-
-      const resolvedEnvironment: cxapi.Environment = environment
-        ? await sdk.resolveEnvironment(environment)
-        : { account: '?', region: '?', name: '?' };
-
-      const arns = await replaceEnvPlaceholders({
-        lookupRoleArn: missingContext.props.lookupRoleArn,
-      }, resolvedEnvironment, sdk);
-
-      value = await provider.getValue({ ...missingContext.props, lookupRoleArn: arns.lookupRoleArn });
+      value = await lookupContextValue(provider, missingContext, sdk);
+      context.setMetadata(key, {
+        provider: missingContext.provider,
+        props: missingContext.props,
+        lastUpdated: new Date().toISOString(),
+      });
     } catch (e: any) {
       // Set a specially formatted provider value which will be interpreted
       // as a lookup failure in the toolkit.
@@ -126,6 +99,92 @@ export async function provideContextValues(
   }
 }
 
+/**
+ * A cached context value that was looked up again
+ */
+export interface RefreshedContextValue {
+  readonly key: string;
+  readonly oldValue: any;
+  readonly newValue: any;
+}
+
+/**
+ * Look up the given context keys again, using the query that was recorded when they were first looked up
+ *
+ * Keys without recorded metadata are skipped. If any lookup fails, no values are changed.
+ */
+export async function refreshContextValues(
+  keys: string[],
+  context: Context,
+  sdk: SdkProvider,
+  ioHelper: IoHelper,
+): Promise<RefreshedContextValue[]> {
+  const refreshed = new Array<RefreshedContextValue & { metadata: ContextValueMetadata }>();
+  for (const key of keys) {
+    const metadata = context.getMetadata(key);
+    if (!metadata) {
+      continue;
+    }
+
+    const missingContext = { key, provider: metadata.provider, props: metadata.props } as cxschema.MissingContext;
+    const provider = contextProviderFor(missingContext, sdk, ioHelper);
+    let newValue;
+    try {
+      newValue = await lookupContextValue(provider, missingContext, sdk);
+    } catch (e: any) {
+      throw new ContextProviderError(`Refreshing context value ${key} failed: ${formatErrorMessage(e)}`);
+    }
+    refreshed.push({ key, oldValue: context.get(key), newValue, metadata });
+  }
+
+  const lastUpdated = new Date().toISOString();
+  for (const { key, newValue, metadata } of refreshed) {
+    context.set(key, newValue);
+    context.setMetadata(key, { ...metadata, lastUpdated });
+  }
+  return refreshed.map(({ key, oldValue, newValue }) => ({ key, oldValue, newValue }));
+}
+
+function contextProviderFor(missingContext: cxschema.MissingContext, sdk: SdkProvider, ioHelper: IoHelper): ContextProviderPlugin {
+  const providerName = missingContext.provider === cxschema.ContextProvider.PLUGIN
+    ? `${PLUGIN_PROVIDER_PREFIX}:${(missingContext.props as cxschema.PluginContextQuery).pluginName}`
+    : missingContext.provider;
+
+  let factory;
+  if (providerName.startsWith(`${PLUGIN_PROVIDER_PREFIX}:`)) {
+    const plugin = PluginHost.instance.contextProviderPlugins[providerName.substring(PLUGIN_PROVIDER_PREFIX.length + 1)];
+    if (!plugin) {
+      // eslint-disable-next-line max-len
+      throw new ContextProviderError(`Unrecognized plugin context provider name: ${missingContext.provider}.`);
+    }
+    factory = () => plugin;
+  } else {
+    factory = availableContextProviders[providerName];
+    if (!factory) {
+      // eslint-disable-next-line max-len
+      throw new ContextProviderError(`Unrecognized context provider name: ${missingContext.provider}. You might need to update the toolkit to match the version of the construct library.`);
+    }
+  }
+
+  return factory(sdk, new ContextProviderMessages(ioHelper, providerName));
+}
+
+async function lookupContextValue(provider: ContextProviderPlugin, missingContext: cxschema.MissingContext, sdk: SdkProvider) {
+  const environment = missingContext.props.account && missingContext.props.region
+    ? cxapi.EnvironmentUtils.make(missingContext.props.account, missingContext.props.region)
+    : undefined;
+
+  const resolvedEnvironment: cxapi.Environment = environment
+    ? await sdk.resolveEnvironment(environment)
+    : { account: '?', region: '?', name: '?' };
+
+  const arns = await replaceEnvPlaceholders({
+    lookupRoleArn: missingContext.props.lookupRoleArn,
+  }, resolvedEnvironment, sdk);
+
+  return provider.getValue({ ...missingContext.props, lookupRoleArn: arns.lookupRoleArn });
+}
+
 /**
  * Register a context provider
  *
@@ -3,6 +3,7 @@ import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import { DefaultSelection } from '../../../lib/api/cxapp/cloud-assembly';
 import { registerContextProvider } from '../../../lib/context-providers';
 import { MockCloudExecutable } from '../../_helpers/assembly';
+import { TestIoHost } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
 
 describe('AWS::CDK::Metadata', () => {
   test('is not generated for new frameworks', async () => {
@@ -62,6 +63,36 @@ test('fails if lookups are disabled and missing context is synthesized', async (
   await expect(cloudExecutable.synthesize()).rejects.toThrow(/Context lookups have been disabled/);
 });
 
+test('warns about context values older than the maximum age', async () => {
+  // GIVEN
+  const ioHost = new TestIoHost();
+  const cloudExecutable = new MockCloudExecutable({
+    stacks: [{
+      stackName: 'thestack',
+      template: { resource: 'noerrorresource' },
+    }],
+  }, undefined, ioHost);
+  cloudExecutable.configuration.settings.set(['contextMaxAgeDays'], 30);
+  cloudExecutable.configuration.context.set('old', 'value');
+  cloudExecutable.configuration.context.setMetadata('old', {
+    provider: cxschema.ContextProvider.AMI_PROVIDER,
+    props: { account: '1324', region: 'us-east-1' },
+    lastUpdated: '2020-01-01T00:00:00.000Z',
+  });
+
+  // WHEN
+  await cloudExecutable.synthesize();
+
+  // THEN
+  expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+    code: 'CDK_ASSEMBLY_W0242',
+    data: {
+      maxAgeDays: 30,
+      staleValues: [expect.objectContaining({ key: 'old', provider: 'ami' })],
+    },
+  }));
+});
+
 async function testCloudExecutable(
   { env, versionReporting = true, schemaVersion }:
   { env?: string; versionReporting?: boolean; schemaVersion?: string } = {},
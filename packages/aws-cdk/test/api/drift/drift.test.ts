@@ -0,0 +1,93 @@
+import {
+  DescribeStackDriftDetectionStatusCommand,
+  DescribeStackResourceDriftsCommand,
+  DetectStackDriftCommand,
+} from '@aws-sdk/client-cloudformation';
+import { detectStackDrift } from '../../../lib/api/drift';
+import { MockSdk, mockCloudFormationClient, restoreSdkMocksToDefault } from '../../util/mock-sdk';
+import { asIoHelper, TestIoHost } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
+
+let ioHost = new TestIoHost();
+let sdk: MockSdk;
+
+beforeEach(() => {
+  restoreSdkMocksToDefault();
+  ioHost.notifySpy.mockReset();
+  sdk = new MockSdk();
+
+  mockCloudFormationClient.on(DetectStackDriftCommand).resolves({ StackDriftDetectionId: 'detection-id' });
+});
+
+test('waits for drift detection to complete and returns resource drifts', async () => {
+  // GIVEN
+  mockCloudFormationClient.on(DescribeStackDriftDetectionStatusCommand)
+    .resolvesOnce({ DetectionStatus: 'DETECTION_IN_PROGRESS' } as any)
+    .resolves({ DetectionStatus: 'DETECTION_COMPLETE' } as any);
+  mockCloudFormationClient.on(DescribeStackResourceDriftsCommand).resolves({
+    StackResourceDrifts: [{
+      StackId: 'stack-id',
+      LogicalResourceId: 'MyFunction',
+      ResourceType: 'AWS::Lambda::Function',
+      StackResourceDriftStatus: 'MODIFIED',
+      Timestamp: new Date(),
+    }],
+  });
+
+  // WHEN
+  const drifts = await detectStackDrift(sdk.cloudFormation(), asIoHelper(ioHost, 'drift'), 'MyStack', { pollInterval: 0 });
+
+  // THEN
+  expect(mockCloudFormationClient).toHaveReceivedCommandWith(DetectStackDriftCommand, { StackName: 'MyStack' });
+  expect(mockCloudFormationClient).toHaveReceivedCommandTimes(DescribeStackDriftDetectionStatusCommand, 2);
+  expect(drifts).toEqual([expect.objectContaining({ LogicalResourceId: 'MyFunction', StackResourceDriftStatus: 'MODIFIED' })]);
+});
+
+test('fetches all pages of resource drifts', async () => {
+  // GIVEN
+  mockCloudFormationClient.on(DescribeStackDriftDetectionStatusCommand).resolves({ DetectionStatus: 'DETECTION_COMPLETE' } as any);
+  mockCloudFormationClient.on(DescribeStackResourceDriftsCommand)
+    .resolvesOnce({
+      StackResourceDrifts: [{ LogicalResourceId: 'First' } as any],
+      NextToken: 'next',
+    })
+    .resolves({
+      StackResourceDrifts: [{ LogicalResourceId: 'Second' } as any],
+    });
+
+  // WHEN
+  const drifts = await detectStackDrift(sdk.cloudFormation(), asIoHelper(ioHost, 'drift'), 'MyStack', { pollInterval: 0 });
+
+  // THEN
+  expect(mockCloudFormationClient).toHaveReceivedCommandWith(DescribeStackResourceDriftsCommand, { StackName: 'MyStack', NextToken: 'next' });
+  expect(drifts.map(d => d.LogicalResourceId)).toEqual(['First', 'Second']);
+});
+
+test('warns but returns the available results if drift detection failed', async () => {
+  // GIVEN
+  mockCloudFormationClient.on(DescribeStackDriftDetectionStatusCommand).resolves({
+    DetectionStatus: 'DETECTION_FAILED',
+    DetectionStatusReason: 'Failed to detect drift on resource MyQueue',
+  } as any);
+  mockCloudFormationClient.on(DescribeStackResourceDriftsCommand).resolves({
+    StackResourceDrifts: [{ LogicalResourceId: 'MyFunction' } as any],
+  });
+
+  // WHEN
+  const drifts = await detectStackDrift(sdk.cloudFormation(), asIoHelper(ioHost, 'drift'), 'MyStack', { pollInterval: 0 });
+
+  // THEN
+  expect(drifts).toHaveLength(1);
+  expect(ioHost.notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+    level: 'warn',
+    message: expect.stringContaining('Failed to detect drift on resource MyQueue'),
+  }));
+});
+
+test('gives up if drift detection does not complete in time', async () => {
+  // GIVEN
+  mockCloudFormationClient.on(DescribeStackDriftDetectionStatusCommand).resolves({ DetectionStatus: 'DETECTION_IN_PROGRESS' } as any);
+
+  // WHEN
+  await expect(detectStackDrift(sdk.cloudFormation(), asIoHelper(ioHost, 'drift'), 'MyStack', { pollInterval: 0, timeout: -1 }))
+    .rejects.toThrow(/took too long/);
+});
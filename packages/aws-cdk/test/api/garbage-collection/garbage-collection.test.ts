@@ -7,6 +7,11 @@ import {
   Stack,
 } from '@aws-sdk/client-cloudformation';
 import { ECR_ISOLATED_TAG, GarbageCollector, S3_ISOLATED_TAG, ToolkitInfo } from '../../../lib/api';
+import { discoverAssetDestinations } from '../../../lib/api/garbage-collection';
+import type { AssetDestination } from '../../../lib/api/garbage-collection';
+import { EnvironmentAccess } from '../../../lib/api/environment';
+import { testAssembly } from '../../_helpers/assembly';
+import { Manifest } from '@aws-cdk/cloud-assembly-schema';
 import { mockBootstrapStack, mockCloudFormationClient, mockECRClient, mockS3Client, MockSdk, MockSdkProvider } from '../../util/mock-sdk';
 import {
   DeleteObjectsCommand,
@@ -21,6 +26,10 @@ import {
   BackgroundStackRefreshProps,
 } from '../../../lib/api/garbage-collection/stack-refresh';
 import { ProgressPrinter } from '../../../lib/api/garbage-collection/progress-printer';
+import { estimateMonthlyCost, GarbageCollectionReport, parseIsolationDate } from '../../../lib/api/garbage-collection/gc-report';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
 import {
   BatchDeleteImageCommand,
   BatchGetImageCommand,
@@ -69,7 +78,9 @@ function gc(props: {
   type: 's3' | 'ecr' | 'all';
   rollbackBufferDays?: number;
   createdAtBufferDays?: number;
-  action: 'full' | 'print' | 'tag' | 'delete-tagged';
+  action: 'full' | 'print' | 'report' | 'tag' | 'delete-tagged';
+  destination?: AssetDestination;
+  exclusiveDestination?: boolean;
 }): GarbageCollector {
   return new GarbageCollector({
     sdkProvider: new MockSdkProvider(),
@@ -85,6 +96,8 @@ function gc(props: {
     createdBufferDays: props.createdAtBufferDays ?? 0,
     type: props.type,
     confirm: false,
+    destination: props.destination,
+    exclusiveDestination: props.exclusiveDestination,
   });
 }
 
@@ -214,6 +227,34 @@ describe('S3 Garbage Collection', () => {
     expect(s3Client).toHaveReceivedCommandTimes(DeleteObjectsCommand, 0);
   });
 
+  test('action = report -- reports isolated assets without tagging or deleting', async () => {
+    mockTheToolkitInfo({
+      Outputs: [
+        {
+          OutputKey: 'BootstrapVersion',
+          OutputValue: '999',
+        },
+      ],
+    });
+
+    garbageCollector = gc({
+      type: 's3',
+      rollbackBufferDays: 3,
+      action: 'report',
+    });
+    await garbageCollector.garbageCollect();
+
+    // no tagging or deleting
+    expect(s3Client).toHaveReceivedCommandTimes(PutObjectTaggingCommand, 0);
+    expect(s3Client).toHaveReceivedCommandTimes(DeleteObjectsCommand, 0);
+
+    expect(garbageCollector.report.entries).toEqual([
+      expect.objectContaining({ location: 's3://BUCKET_NAME/asset1', ageDays: 2, dateIsolated: undefined, deletable: false }),
+      expect.objectContaining({ location: 's3://BUCKET_NAME/asset2', ageDays: 10, dateIsolated: expect.any(String), deletable: false }),
+      expect.objectContaining({ location: 's3://BUCKET_NAME/asset3', ageDays: 100, dateIsolated: undefined, deletable: false }),
+    ]);
+  });
+
   test('action = tag -- does not delete', async () => {
     mockTheToolkitInfo({
       Outputs: [
@@ -419,6 +460,38 @@ describe('ECR Garbage Collection', () => {
     expect(ecrClient).toHaveReceivedCommandTimes(BatchDeleteImageCommand, 0);
   });
 
+  test('action = report -- reports isolated images with their estimated cost', async () => {
+    mockTheToolkitInfo({
+      Outputs: [
+        {
+          OutputKey: 'BootstrapVersion',
+          OutputValue: '999',
+        },
+      ],
+    });
+
+    garbageCollector = gc({
+      type: 'ecr',
+      rollbackBufferDays: 0,
+      action: 'report',
+    });
+    await garbageCollector.garbageCollect();
+
+    // no tagging or deleting
+    expect(ecrClient).toHaveReceivedCommandTimes(PutImageCommand, 0);
+    expect(ecrClient).toHaveReceivedCommandTimes(BatchDeleteImageCommand, 0);
+
+    // digest1 is in use
+    expect(garbageCollector.report.entries.map(e => e.location)).toEqual(['REPO_NAME@digest3', 'REPO_NAME@digest2']);
+    expect(garbageCollector.report.summary()).toEqual({
+      assets: 2,
+      size: 300_000_100,
+      deletableAssets: 2,
+      deletableSize: 300_000_100,
+      estimatedMonthlySaving: 0.03,
+    });
+  });
+
   test('action = tag -- does not delete', async () => {
     mockTheToolkitInfo({
       Outputs: [
@@ -665,6 +738,179 @@ describe('ECR Garbage Collection', () => {
   });
 });
 
+describe('Asset destination Garbage Collection', () => {
+  function s3Destination(): AssetDestination {
+    return {
+      type: 's3',
+      name: 'CUSTOM_BUCKET',
+      prefix: 'assets/',
+      environment: { account: '123456789012', region: 'us-east-1', name: 'aws://123456789012/us-east-1' },
+      sdk: new MockSdk(),
+      stackSdks: [new MockSdk(), new MockSdk()],
+    };
+  }
+
+  test('collects the destination bucket under its prefix', async () => {
+    const lookup = jest.spyOn(ToolkitInfo, 'lookup');
+
+    garbageCollector = gc({
+      type: 'all',
+      rollbackBufferDays: 0,
+      action: 'full',
+      destination: s3Destination(),
+      exclusiveDestination: true,
+    });
+    await garbageCollector.garbageCollect();
+
+    // the bootstrap stack is not used
+    expect(lookup).not.toHaveBeenCalled();
+
+    // the stacks of all environments that publish to the destination are scanned
+    expect(cfnClient).toHaveReceivedCommandTimes(ListStacksCommand, 2);
+
+    expect(s3Client).toHaveReceivedCommandWith(ListObjectsV2Command, {
+      Bucket: 'CUSTOM_BUCKET',
+      Prefix: 'assets/',
+    });
+    expect(s3Client).toHaveReceivedCommandWith(DeleteObjectsCommand, {
+      Bucket: 'CUSTOM_BUCKET',
+      Delete: {
+        Objects: [
+          { Key: 'asset1' },
+          { Key: 'asset2' },
+          { Key: 'asset3' },
+        ],
+        Quiet: true,
+      },
+    });
+
+    // only the type of the destination is collected
+    expect(ecrClient).toHaveReceivedCommandTimes(ListImagesCommand, 0);
+  });
+
+  test('matches prefixed keys on their asset hash', async () => {
+    s3Client.on(ListObjectsV2Command).resolves({
+      Contents: [
+        { Key: 'assets/asset1.zip', LastModified: new Date(0) },
+        { Key: 'assets/asset2.zip', LastModified: new Date(0) },
+      ],
+      KeyCount: 2,
+    });
+    cfnClient.on(GetTemplateCommand).resolves({
+      TemplateBody: JSON.stringify({ Resources: { Function: { Properties: { Code: { S3Key: 'asset1.zip' } } } } }),
+    });
+
+    garbageCollector = gc({
+      type: 'all',
+      rollbackBufferDays: 0,
+      action: 'full',
+      destination: s3Destination(),
+      exclusiveDestination: true,
+    });
+    await garbageCollector.garbageCollect();
+
+    // only the asset that is not referenced is deleted
+    expect(s3Client).toHaveReceivedCommandWith(DeleteObjectsCommand, {
+      Bucket: 'CUSTOM_BUCKET',
+      Delete: {
+        Objects: [{ Key: 'assets/asset2.zip' }],
+        Quiet: true,
+      },
+    });
+  });
+
+  test('does not delete assets from destinations that other stacks may use', async () => {
+    // asset2 is only used by a stack in an account outside of the app, which is not scanned
+    s3Client.on(ListObjectsV2Command).resolves({
+      Contents: [
+        { Key: 'assets/asset1.zip', LastModified: new Date(0) },
+        { Key: 'assets/asset2.zip', LastModified: new Date(0) },
+      ],
+      KeyCount: 2,
+    });
+    cfnClient.on(GetTemplateCommand).resolves({
+      TemplateBody: JSON.stringify({ Resources: { Function: { Properties: { Code: { S3Key: 'asset1.zip' } } } } }),
+    });
+
+    garbageCollector = gc({
+      type: 'all',
+      rollbackBufferDays: 0,
+      action: 'full',
+      destination: s3Destination(),
+    });
+    await expect(garbageCollector.garbageCollect()).rejects.toThrow(/Refusing to delete assets from s3:\/\/CUSTOM_BUCKET\/assets\//);
+
+    expect(s3Client).toHaveReceivedCommandTimes(PutObjectTaggingCommand, 0);
+    expect(s3Client).toHaveReceivedCommandTimes(DeleteObjectsCommand, 0);
+
+    // the asset can still be reported
+    garbageCollector = gc({
+      type: 'all',
+      rollbackBufferDays: 0,
+      action: 'report',
+      destination: s3Destination(),
+    });
+    await garbageCollector.garbageCollect();
+
+    expect(s3Client).toHaveReceivedCommandTimes(DeleteObjectsCommand, 0);
+    expect(garbageCollector.report.entries).toEqual([
+      expect.objectContaining({ location: 's3://CUSTOM_BUCKET/assets/asset2.zip' }),
+    ]);
+  });
+
+  test('discovers destinations from the asset manifests of the stacks', async () => {
+    const sdkProvider = new MockSdkProvider();
+    const forEnvironment = jest.spyOn(sdkProvider, 'forEnvironment').mockImplementation(async (_env, _mode, options) => ({
+      sdk: new MockSdk(),
+      didAssumeRole: !!options?.assumeRoleArn,
+    }));
+    const assetManifest = (bucketName: string, assumeRoleArn?: string) => ({
+      version: Manifest.version(),
+      files: {
+        asset1: {
+          source: { path: 'asset1' },
+          destinations: {
+            current: { bucketName, objectKey: 'assets/asset1.zip', assumeRoleArn },
+          },
+        },
+      },
+      dockerImages: {
+        image1: {
+          source: { directory: 'image1' },
+          destinations: {
+            current: { repositoryName: 'repo-${AWS::Region}', imageTag: 'image1', region: 'eu-west-1' },
+          },
+        },
+      },
+    });
+    const assembly = testAssembly({
+      stacks: [
+        { stackName: 'Stack1', env: 'aws://111111111111/us-east-1', assetManifest: assetManifest('shared-assets', 'arn:aws:iam::999999999999:role/publish') },
+        { stackName: 'Stack2', env: 'aws://222222222222/us-east-1', assetManifest: assetManifest('shared-assets', 'arn:aws:iam::999999999999:role/publish') },
+        { stackName: 'Stack3', env: 'aws://222222222222/us-east-1', assetManifest: assetManifest('bucket-${AWS::AccountId}') },
+      ],
+    });
+
+    const destinations = await discoverAssetDestinations(
+      assembly.stacks,
+      new EnvironmentAccess(sdkProvider, 'CDKToolkit', asIoHelper(ioHost, 'gc')),
+    );
+
+    expect(forEnvironment).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'aws://222222222222/us-east-1' }),
+      expect.anything(),
+      expect.objectContaining({ assumeRoleArn: 'arn:aws:iam::999999999999:role/publish' }),
+    );
+
+    expect(destinations.map(d => [d.type, d.name, d.prefix, d.environment.name, d.assumeRoleArn, d.stackSdks.length])).toEqual([
+      ['s3', 'shared-assets', 'assets/', 'aws://111111111111/us-east-1', 'arn:aws:iam::999999999999:role/publish', 2],
+      ['ecr', 'repo-eu-west-1', undefined, 'aws://111111111111/eu-west-1', undefined, 1],
+      ['ecr', 'repo-eu-west-1', undefined, 'aws://222222222222/eu-west-1', undefined, 1],
+      ['s3', 'bucket-222222222222', 'assets/', 'aws://222222222222/us-east-1', undefined, 1],
+    ]);
+  });
+});
+
 describe('CloudFormation API calls', () => {
   test('bootstrap filters out other bootstrap versions', async () => {
     mockTheToolkitInfo({
@@ -1010,6 +1256,48 @@ describe('BackgroundStackRefresh', () => {
   });
 });
 
+describe('GarbageCollectionReport', () => {
+  const report = new GarbageCollectionReport();
+  report.add({
+    environment: 'aws://123456789012/us-east-1',
+    type: 's3',
+    location: 's3://BUCKET_NAME/asset,1.zip',
+    size: 2_147_483_648,
+    lastModified: '2025-01-01T00:00:00.000Z',
+    ageDays: 30,
+    deletable: true,
+    estimatedMonthlySaving: 0.046,
+  });
+
+  test('renders CSV with escaped values', () => {
+    expect(report.toCsv()).toEqual([
+      'environment,type,location,size,lastModified,ageDays,dateIsolated,deletable,estimatedMonthlySaving',
+      'aws://123456789012/us-east-1,s3,"s3://BUCKET_NAME/asset,1.zip",2147483648,2025-01-01T00:00:00.000Z,30,,true,0.046',
+      '',
+    ].join('\n'));
+  });
+
+  test('writes JSON unless the file ends in .csv', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cdk-gc-report-'));
+    try {
+      await report.writeFile(path.join(dir, 'report.json'));
+      expect(await fs.readJson(path.join(dir, 'report.json'))).toEqual({
+        summary: { assets: 1, size: 2_147_483_648, deletableAssets: 1, deletableSize: 2_147_483_648, estimatedMonthlySaving: 0.05 },
+        assets: report.entries,
+      });
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  test('estimates cost and parses isolation tags', () => {
+    expect(estimateMonthlyCost('ecr', 1_073_741_824)).toEqual(0.1);
+    expect(parseIsolationDate('1735689600000')?.toISOString()).toEqual('2025-01-01T00:00:00.000Z');
+    expect(parseIsolationDate('2025-01-01T00:00:00.000Z')?.toISOString()).toEqual('2025-01-01T00:00:00.000Z');
+    expect(parseIsolationDate('not a date')).toBeUndefined();
+  });
+});
+
 describe('ProgressPrinter', () => {
   let progressPrinter: ProgressPrinter;
   let setInterval: jest.SpyInstance;
@@ -0,0 +1,159 @@
+import { CreateDeploymentCommand, PutRestApiCommand } from '@aws-sdk/client-api-gateway';
+import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import * as setup from '../_helpers/hotswap-test-setup';
+import { HotswapMode } from '../../../lib/api/hotswap/common';
+import { mockApiGatewayClient, mockS3Client } from '../../util/mock-sdk';
+import { silentTest } from '../../util/silent';
+
+let hotswapMockSdkProvider: setup.HotswapMockSdkProvider;
+
+beforeEach(() => {
+  hotswapMockSdkProvider = setup.setupHotswapTests();
+});
+
+function apiTemplate(body: any, deploymentLogicalId: string = 'Deployment') {
+  return {
+    Resources: {
+      Api: {
+        Type: 'AWS::ApiGateway::RestApi',
+        Properties: {
+          Body: body,
+          Name: 'my-api',
+        },
+      },
+      [deploymentLogicalId]: {
+        Type: 'AWS::ApiGateway::Deployment',
+        Properties: {
+          RestApiId: { Ref: 'Api' },
+          Description: 'Automatically created by the RestApi construct',
+        },
+      },
+      Stage: {
+        Type: 'AWS::ApiGateway::Stage',
+        Properties: {
+          RestApiId: { Ref: 'Api' },
+          DeploymentId: { Ref: deploymentLogicalId },
+          StageName: 'prod',
+        },
+      },
+    },
+  };
+}
+
+describe.each([HotswapMode.FALL_BACK, HotswapMode.HOTSWAP_ONLY])('%p mode', (hotswapMode) => {
+  silentTest('calls the putRestApi() API and deploys to the stages when the body of a RestApi changes', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate(apiTemplate({ openapi: '3.0.2', paths: { '/old': {} } }, 'DeploymentOld'));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Api', 'AWS::ApiGateway::RestApi', 'api-id'));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: apiTemplate({ openapi: '3.0.2', paths: { '/new': {} } }, 'DeploymentNew'),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(deployStackResult).not.toBeUndefined();
+    expect(deployStackResult?.noOp).toEqual(false);
+    expect(mockApiGatewayClient).toHaveReceivedCommandWith(PutRestApiCommand, {
+      restApiId: 'api-id',
+      mode: 'overwrite',
+      body: Buffer.from(JSON.stringify({ openapi: '3.0.2', paths: { '/new': {} } })),
+    });
+    expect(mockApiGatewayClient).toHaveReceivedCommandWith(CreateDeploymentCommand, {
+      restApiId: 'api-id',
+      stageName: 'prod',
+    });
+  });
+
+  silentTest('reads the new body of a RestApi from its S3 location', async () => {
+    // GIVEN
+    const template = (key: string) => ({
+      Resources: {
+        Api: {
+          Type: 'AWS::ApiGateway::RestApi',
+          Properties: {
+            BodyS3Location: { Bucket: 'asset-bucket', Key: key },
+          },
+        },
+      },
+    });
+    mockS3Client.on(GetObjectCommand).resolves({
+      Body: sdkStreamMixin(Readable.from(['{"openapi":"3.0.2"}'])),
+    });
+    setup.setCurrentCfnStackTemplate(template('old-key'));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Api', 'AWS::ApiGateway::RestApi', 'api-id'));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: template('new-key'),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(deployStackResult).not.toBeUndefined();
+    expect(mockS3Client).toHaveReceivedCommandWith(GetObjectCommand, {
+      Bucket: 'asset-bucket',
+      Key: 'new-key',
+    });
+    expect(mockApiGatewayClient).toHaveReceivedCommandWith(PutRestApiCommand, {
+      restApiId: 'api-id',
+      mode: 'overwrite',
+      body: new Uint8Array(Buffer.from('{"openapi":"3.0.2"}')),
+    });
+    expect(mockApiGatewayClient).not.toHaveReceivedCommand(CreateDeploymentCommand);
+  });
+
+  silentTest('does not hotswap a change to the description of a Deployment', async () => {
+    // GIVEN
+    const template = (description: string) => ({
+      Resources: {
+        Deployment: {
+          Type: 'AWS::ApiGateway::Deployment',
+          Properties: {
+            RestApiId: 'api-id',
+            Description: description,
+          },
+        },
+      },
+    });
+    setup.setCurrentCfnStackTemplate(template('old'));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: template('new'),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    if (hotswapMode === HotswapMode.FALL_BACK) {
+      expect(deployStackResult).toBeUndefined();
+    } else {
+      expect(deployStackResult?.noOp).toEqual(true);
+    }
+    expect(mockApiGatewayClient).not.toHaveReceivedCommand(CreateDeploymentCommand);
+  });
+
+  silentTest('does not hotswap a change to the name of a RestApi', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate(apiTemplate({ openapi: '3.0.2' }));
+    const newTemplate = apiTemplate({ openapi: '3.0.2' });
+    newTemplate.Resources.Api.Properties.Name = 'new-name';
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: newTemplate,
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    if (hotswapMode === HotswapMode.FALL_BACK) {
+      expect(deployStackResult).toBeUndefined();
+    } else {
+      expect(deployStackResult?.noOp).toEqual(true);
+    }
+    expect(mockApiGatewayClient).not.toHaveReceivedCommand(PutRestApiCommand);
+  });
+});
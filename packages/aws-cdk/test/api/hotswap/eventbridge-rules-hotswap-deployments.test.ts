@@ -0,0 +1,136 @@
+import { PutRuleCommand, PutTargetsCommand, RemoveTargetsCommand } from '@aws-sdk/client-eventbridge';
+import * as setup from '../_helpers/hotswap-test-setup';
+import { HotswapMode } from '../../../lib/api/hotswap/common';
+import { mockEventBridgeClient } from '../../util/mock-sdk';
+import { silentTest } from '../../util/silent';
+
+let hotswapMockSdkProvider: setup.HotswapMockSdkProvider;
+
+beforeEach(() => {
+  hotswapMockSdkProvider = setup.setupHotswapTests();
+});
+
+function ruleTemplate(properties: any) {
+  return {
+    Resources: {
+      Rule: {
+        Type: 'AWS::Events::Rule',
+        Properties: properties,
+      },
+    },
+  };
+}
+
+describe.each([HotswapMode.FALL_BACK, HotswapMode.HOTSWAP_ONLY])('%p mode', (hotswapMode) => {
+  silentTest('calls the putRule() API when the event pattern of a rule changes', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate(ruleTemplate({
+      EventPattern: { source: ['old.source'] },
+      State: 'ENABLED',
+    }));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Rule', 'AWS::Events::Rule', 'my-rule'));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: ruleTemplate({
+        EventPattern: { source: ['new.source'] },
+        State: 'ENABLED',
+      }),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(deployStackResult).not.toBeUndefined();
+    expect(mockEventBridgeClient).toHaveReceivedCommandWith(PutRuleCommand, {
+      Name: 'my-rule',
+      EventPattern: JSON.stringify({ source: ['new.source'] }),
+      State: 'ENABLED',
+    });
+    expect(mockEventBridgeClient).not.toHaveReceivedCommand(PutTargetsCommand);
+  });
+
+  silentTest('puts new targets and removes old targets of a rule on a custom event bus', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate(ruleTemplate({
+      EventBusName: 'my-bus',
+      ScheduleExpression: 'rate(1 hour)',
+      Targets: [
+        { Id: 'Target0', Arn: 'arn:swa:lambda:here:123456789012:function:old' },
+        { Id: 'Target1', Arn: 'arn:swa:sqs:here:123456789012:queue' },
+      ],
+    }));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Rule', 'AWS::Events::Rule', 'my-bus|my-rule'));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: ruleTemplate({
+        EventBusName: 'my-bus',
+        ScheduleExpression: 'rate(1 hour)',
+        Targets: [
+          {
+            Id: 'Target0',
+            Arn: 'arn:swa:ecs:here:123456789012:cluster/my-cluster',
+            EcsParameters: {
+              TaskDefinitionArn: 'arn:swa:ecs:here:123456789012:task-definition/my-task',
+              NetworkConfiguration: {
+                AwsVpcConfiguration: { Subnets: ['subnet-1'] },
+              },
+            },
+          },
+        ],
+      }),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(deployStackResult).not.toBeUndefined();
+    expect(mockEventBridgeClient).not.toHaveReceivedCommand(PutRuleCommand);
+    expect(mockEventBridgeClient).toHaveReceivedCommandWith(PutTargetsCommand, {
+      Rule: 'my-rule',
+      EventBusName: 'my-bus',
+      Targets: [
+        {
+          Id: 'Target0',
+          Arn: 'arn:swa:ecs:here:123456789012:cluster/my-cluster',
+          EcsParameters: {
+            TaskDefinitionArn: 'arn:swa:ecs:here:123456789012:task-definition/my-task',
+            NetworkConfiguration: {
+              awsvpcConfiguration: { Subnets: ['subnet-1'] },
+            },
+          },
+        },
+      ],
+    });
+    expect(mockEventBridgeClient).toHaveReceivedCommandWith(RemoveTargetsCommand, {
+      Rule: 'my-rule',
+      EventBusName: 'my-bus',
+      Ids: ['Target1'],
+    });
+  });
+
+  silentTest('does not hotswap a change to the role of a rule', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate(ruleTemplate({
+      ScheduleExpression: 'rate(1 hour)',
+      RoleArn: 'arn:swa:iam::123456789012:role/old',
+    }));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Rule', 'AWS::Events::Rule', 'my-rule'));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: ruleTemplate({
+        ScheduleExpression: 'rate(1 hour)',
+        RoleArn: 'arn:swa:iam::123456789012:role/new',
+      }),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    if (hotswapMode === HotswapMode.FALL_BACK) {
+      expect(deployStackResult).toBeUndefined();
+    } else {
+      expect(deployStackResult?.noOp).toEqual(true);
+    }
+    expect(mockEventBridgeClient).not.toHaveReceivedCommand(PutRuleCommand);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  AddLayerVersionPermissionCommand,
+  GetFunctionConfigurationCommand,
+  PublishLayerVersionCommand,
+  UpdateFunctionConfigurationCommand,
+} from '@aws-sdk/client-lambda';
+import * as setup from '../_helpers/hotswap-test-setup';
+import { HotswapMode } from '../../../lib/api/hotswap/common';
+import { mockLambdaClient } from '../../util/mock-sdk';
+import { silentTest } from '../../util/silent';
+
+jest.mock('@aws-sdk/client-lambda', () => {
+  const original = jest.requireActual('@aws-sdk/client-lambda');
+
+  return {
+    ...original,
+    waitUntilFunctionUpdatedV2: jest.fn(),
+  };
+});
+
+let hotswapMockSdkProvider: setup.HotswapMockSdkProvider;
+
+const LAYER_ARN = 'arn:swa:lambda:here:123456789012:layer:my-layer';
+
+beforeEach(() => {
+  hotswapMockSdkProvider = setup.setupHotswapTests();
+  mockLambdaClient.on(PublishLayerVersionCommand).resolves({
+    LayerArn: LAYER_ARN,
+    LayerVersionArn: `${LAYER_ARN}:2`,
+    Version: 2,
+  });
+  mockLambdaClient.on(GetFunctionConfigurationCommand).resolves({
+    Layers: [
+      { Arn: 'arn:swa:lambda:here:123456789012:layer:other-layer:7' },
+      { Arn: `${LAYER_ARN}:1` },
+    ],
+  });
+});
+
+function layerTemplate(s3Key: string, extraResources: any = {}) {
+  return {
+    Resources: {
+      Layer: {
+        Type: 'AWS::Lambda::LayerVersion',
+        Properties: {
+          Content: {
+            S3Bucket: 'current-bucket',
+            S3Key: s3Key,
+          },
+          CompatibleRuntimes: ['nodejs20.x'],
+        },
+        Metadata: {
+          'aws:asset:path': 'old-path',
+        },
+      },
+      ...extraResources,
+    },
+  };
+}
+
+describe.each([HotswapMode.FALL_BACK, HotswapMode.HOTSWAP_ONLY])('%p mode', (hotswapMode) => {
+  silentTest('calls the publishLayerVersion() API when the content of a layer version changes', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate(layerTemplate('old-key'));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Layer', 'AWS::Lambda::LayerVersion', `${LAYER_ARN}:1`));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: layerTemplate('new-key'),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(deployStackResult).not.toBeUndefined();
+    expect(mockLambdaClient).toHaveReceivedCommandWith(PublishLayerVersionCommand, {
+      LayerName: LAYER_ARN,
+      Content: {
+        S3Bucket: 'current-bucket',
+        S3Key: 'new-key',
+      },
+      CompatibleRuntimes: ['nodejs20.x'],
+    });
+    expect(mockLambdaClient).not.toHaveReceivedCommand(UpdateFunctionConfigurationCommand);
+  });
+
+  silentTest('points functions using the layer to the new layer version', async () => {
+    // GIVEN
+    const func = {
+      Func: {
+        Type: 'AWS::Lambda::Function',
+        Properties: {
+          FunctionName: 'my-function',
+          Layers: ['arn:swa:lambda:here:123456789012:layer:other-layer:7', { Ref: 'Layer' }],
+        },
+      },
+    };
+    setup.setCurrentCfnStackTemplate(layerTemplate('old-key', func));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Layer', 'AWS::Lambda::LayerVersion', `${LAYER_ARN}:1`));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: layerTemplate('new-key', func),
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(deployStackResult).not.toBeUndefined();
+    expect(mockLambdaClient).toHaveReceivedCommandWith(UpdateFunctionConfigurationCommand, {
+      FunctionName: 'my-function',
+      Layers: ['arn:swa:lambda:here:123456789012:layer:other-layer:7', `${LAYER_ARN}:2`],
+    });
+  });
+
+  silentTest('grants the permissions of the layer on the new layer version', async () => {
+    // GIVEN
+    const permission = {
+      LayerPermission: {
+        Type: 'AWS::Lambda::LayerVersionPermission',
+        Properties: {
+          Action: 'lambda:GetLayerVersion',
+          LayerVersionArn: { Ref: 'Layer' },
+          Principal: '*',
+          OrganizationId: 'o-123456',
+        },
+      },
+    };
+    setup.setCurrentCfnStackTemplate(layerTemplate('old-key', permission));
+    setup.pushStackResourceSummaries(setup.stackSummaryOf('Layer', 'AWS::Lambda::LayerVersion', `${LAYER_ARN}:1`));
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: layerTemplate('new-key', permission),
+    });
+
+    // WHEN
+    await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    expect(mockLambdaClient).toHaveReceivedCommandWith(AddLayerVersionPermissionCommand, {
+      LayerName: LAYER_ARN,
+      VersionNumber: 2,
+      StatementId: 'LayerPermission',
+      Action: 'lambda:GetLayerVersion',
+      Principal: '*',
+      OrganizationId: 'o-123456',
+    });
+  });
+
+  silentTest('does not hotswap a change to the name of a layer', async () => {
+    // GIVEN
+    setup.setCurrentCfnStackTemplate({
+      Resources: {
+        Layer: {
+          Type: 'AWS::Lambda::LayerVersion',
+          Properties: {
+            LayerName: 'old-name',
+          },
+        },
+      },
+    });
+    const cdkStackArtifact = setup.cdkStackArtifactOf({
+      template: {
+        Resources: {
+          Layer: {
+            Type: 'AWS::Lambda::LayerVersion',
+            Properties: {
+              LayerName: 'new-name',
+            },
+          },
+        },
+      },
+    });
+
+    // WHEN
+    const deployStackResult = await hotswapMockSdkProvider.tryHotswapDeployment(hotswapMode, cdkStackArtifact);
+
+    // THEN
+    if (hotswapMode === HotswapMode.FALL_BACK) {
+      expect(deployStackResult).toBeUndefined();
+    } else {
+      expect(deployStackResult?.noOp).toEqual(true);
+    }
+    expect(mockLambdaClient).not.toHaveReceivedCommand(PublishLayerVersionCommand);
+  });
+});
@@ -0,0 +1,97 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { asIoHelper, TestIoHost } from '../../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
+import { DEPLOYMENT_JOURNAL_FILE, DeploymentJournal, DeploymentState } from '../../../lib/api/work-graph';
+import type { StackNode } from '../../../lib/api/work-graph';
+
+const ioHelper = asIoHelper(new TestIoHost(), 'deploy');
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cdk-journal-'));
+});
+
+afterEach(async () => {
+  await fs.remove(directory);
+});
+
+test('completed nodes are remembered across loads', async () => {
+  // GIVEN
+  const journal = await DeploymentJournal.load(directory, ioHelper);
+  await journal.recordCompleted(stackNode('Stack1', { Resources: { Queue: { Type: 'AWS::SQS::Queue' } } }));
+
+  // WHEN
+  const reloaded = await DeploymentJournal.load(directory, ioHelper);
+
+  // THEN
+  expect(reloaded.isCompleted(stackNode('Stack1', { Resources: { Queue: { Type: 'AWS::SQS::Queue' } } }))).toBe(true);
+  expect(reloaded.isCompleted(stackNode('Stack2', {}))).toBe(false);
+});
+
+test('nodes that changed since they were recorded are not completed', async () => {
+  // GIVEN
+  const journal = await DeploymentJournal.load(directory, ioHelper);
+  await journal.recordCompleted(stackNode('Stack1', { Resources: { Queue: { Type: 'AWS::SQS::Queue' } } }));
+
+  // WHEN
+  const reloaded = await DeploymentJournal.load(directory, ioHelper);
+
+  // THEN
+  expect(reloaded.isCompleted(stackNode('Stack1', { Resources: { Topic: { Type: 'AWS::SNS::Topic' } } }))).toBe(false);
+});
+
+test('stacks whose deployment inputs changed since they were recorded are not completed', async () => {
+  // GIVEN
+  let parameters = { Param: 'old' };
+  const journal = await DeploymentJournal.load(directory, ioHelper, { stackInputs: () => ({ parameters }) });
+  await journal.recordCompleted(stackNode('Stack1', {}));
+
+  // WHEN
+  parameters = { Param: 'new' };
+  const reloaded = await DeploymentJournal.load(directory, ioHelper, { stackInputs: () => ({ parameters }) });
+
+  // THEN
+  expect(reloaded.isCompleted(stackNode('Stack1', {}))).toBe(false);
+});
+
+test('clearing removes the journal file', async () => {
+  // GIVEN
+  const journal = await DeploymentJournal.load(directory, ioHelper);
+  await journal.recordCompleted(stackNode('Stack1', {}));
+  expect(await fs.pathExists(path.join(directory, DEPLOYMENT_JOURNAL_FILE))).toBe(true);
+
+  // WHEN
+  await journal.clear();
+
+  // THEN
+  expect(await fs.pathExists(path.join(directory, DEPLOYMENT_JOURNAL_FILE))).toBe(false);
+  expect((await DeploymentJournal.load(directory, ioHelper)).size).toBe(0);
+});
+
+test('a corrupt journal is ignored', async () => {
+  // GIVEN
+  await fs.writeFile(path.join(directory, DEPLOYMENT_JOURNAL_FILE), '{ "version": 1, "nod');
+
+  // WHEN
+  const journal = await DeploymentJournal.load(directory, ioHelper);
+
+  // THEN
+  expect(journal.size).toBe(0);
+});
+
+function stackNode(stackName: string, template: any): StackNode {
+  return {
+    type: 'stack',
+    id: stackName,
+    dependencies: new Set(),
+    deploymentState: DeploymentState.PENDING,
+    stack: {
+      stackName,
+      template,
+      environment: { name: 'aws://123456789012/us-east-1' },
+      parameters: {},
+      tags: {},
+    } as any,
+  };
+}
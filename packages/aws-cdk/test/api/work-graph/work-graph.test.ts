@@ -270,6 +270,38 @@ describe('WorkGraph', () => {
     expect(actionedAssets).toEqual(['a-build', 'a-publish', 'A']);
   });
 
+  test('can resume from previously completed nodes', async () => {
+    const graph = new WorkGraph({}, asIoHelper(ioHost, 'deploy'));
+    addTestArtifactsToGraph([
+      { id: 'a', type: 'asset' },
+      { id: 'b', type: 'asset' },
+      { id: 'A', type: 'stack', assetDependencies: ['a'] },
+      { id: 'B', type: 'stack', stackDependencies: ['A'], assetDependencies: ['b'] },
+    ], graph);
+
+    // 'b' was built and published, 'A' was deployed
+    const marked = graph.markCompleted(node => ['a-publish', 'b-publish', 'A'].includes(node.id));
+    await graph.doParallel(1, callbacks);
+
+    expect(marked.map(n => n.id).sort()).toEqual(['A', 'a-build', 'a-publish', 'b-build', 'b-publish']);
+    expect(actionedAssets).toEqual(['B']);
+  });
+
+  test('does not resume nodes whose dependencies did not complete', async () => {
+    const graph = new WorkGraph({}, asIoHelper(ioHost, 'deploy'));
+    addTestArtifactsToGraph([
+      { id: 'A', type: 'stack' },
+      { id: 'B', type: 'stack', stackDependencies: ['A'] },
+      { id: 'C', type: 'stack' },
+    ], graph);
+
+    const marked = graph.markCompleted(node => ['B', 'C'].includes(node.id));
+    await graph.doParallel(1, callbacks);
+
+    expect(marked.map(n => n.id)).toEqual(['C']);
+    expect(actionedAssets).toEqual(['A', 'B']);
+  });
+
   // Failure Concurrency
   test.each([
     // Concurrency 1
@@ -421,6 +453,62 @@ describe('WorkGraph', () => {
   });
 });
 
+describe('render', () => {
+  test('renders nodes, types and priorities as DOT', () => {
+    const graph = new WorkGraph({}, asIoHelper(ioHost, 'deploy'));
+    addTestArtifactsToGraph(createArtifacts([
+      { id: 'a', type: 'asset' },
+      { id: 'A', type: 'stack', assetDependencies: ['a'] },
+      { id: 'B', type: 'stack', stackDependencies: ['A'] },
+    ]), graph);
+
+    expect(graph.render('dot')).toEqual([
+      'digraph WorkGraph {',
+      '  rankdir=LR;',
+      '  "A" [label="A\\nstack (priority 0)",shape="box"];',
+      '  "a-build" [label="a-build\\nasset-build (priority 0)",shape="ellipse"];',
+      '  "a-publish" [label="a-publish\\nasset-publish (priority 0)",shape="parallelogram"];',
+      '  "B" [label="B\\nstack (priority 0)",shape="box"];',
+      '  "a-publish" -> "A";',
+      '  "a-build" -> "a-publish";',
+      '  "A" -> "B";',
+      '}',
+    ].join('\n'));
+  });
+
+  test('renders nodes, types and priorities as Mermaid', () => {
+    const graph = new WorkGraph({}, asIoHelper(ioHost, 'deploy'));
+    addTestArtifactsToGraph(createArtifacts([
+      { id: 'a', type: 'asset' },
+      { id: 'A', type: 'stack', assetDependencies: ['a'] },
+    ]), graph);
+
+    expect(graph.render('mermaid')).toEqual([
+      'flowchart LR',
+      '  n0["A<br/>stack (priority 0)"]',
+      '  n1(["a-build<br/>asset-build (priority 0)"])',
+      '  n2[/"a-publish<br/>asset-publish (priority 0)"/]',
+      '  n2 --> n0',
+      '  n1 --> n2',
+    ].join('\n'));
+  });
+
+  test('highlights dependency cycles', () => {
+    const graph = new WorkGraph({}, asIoHelper(ioHost, 'deploy'));
+    addTestArtifactsToGraph(createArtifacts([
+      { id: 'A', type: 'stack' },
+      { id: 'B', type: 'stack', stackDependencies: ['A', 'C'] },
+      { id: 'C', type: 'stack', stackDependencies: ['B'] },
+    ]), graph);
+
+    expect(graph.render('dot')).toContain('"B" -> "C" [color="red"];');
+    expect(graph.render('dot')).toContain('"C" -> "B" [color="red"];');
+    expect(graph.render('dot')).toContain('"A" -> "B";');
+    expect(graph.render('mermaid')).toContain('  class n1,n2 cycle');
+    expect(graph.render('mermaid')).toContain('  linkStyle 1,2 stroke:#f00,stroke-width:2px');
+  });
+});
+
 interface TestArtifact {
   stackDependencies?: string[];
   assetDependencies?: string[];
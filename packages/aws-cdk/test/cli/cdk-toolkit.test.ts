@@ -82,6 +82,7 @@ import {
 } from '../../lib/api/deployments';
 import { HotswapMode } from '../../lib/api/hotswap/common';
 import { Mode } from '../../lib/api/plugin';
+import { ResourceMigrator } from '../../lib/api/resource-import';
 import { Tag } from '../../lib/api/tags';
 import { CdkToolkit, markTesting } from '../../lib/cli/cdk-toolkit';
 import { Configuration } from '../../lib/cli/user-configuration';
@@ -318,6 +319,175 @@ describe('deploy', () => {
       publishEntry.mockRestore();
     });
 
+    test('prints the plan instead of deploying', async () => {
+      // GIVEN
+      const deployments = new FakeCloudFormation({});
+      const deployStack = jest.spyOn(deployments, 'deployStack');
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        deployments,
+      });
+
+      // WHEN
+      await toolkit.deploy({
+        selector: { patterns: ['Test-Stack-A', 'Test-Stack-B'] },
+        hotswap: HotswapMode.FULL_DEPLOYMENT,
+        printPlan: 'mermaid',
+      });
+
+      // THEN
+      expect(mockResult).toHaveBeenCalledWith(expect.stringMatching(/^flowchart LR\n.*Test-Stack-B<br\/>stack \(priority 5\)/s));
+      expect(deployStack).not.toHaveBeenCalled();
+    });
+
+    test('printing the plan does not migrate resources', async () => {
+      // GIVEN
+      const tryMigrateResources = jest.spyOn(ResourceMigrator.prototype, 'tryMigrateResources');
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        deployments: new FakeCloudFormation({}),
+      });
+
+      // WHEN
+      await toolkit.deploy({
+        selector: { patterns: ['Test-Stack-A-Display-Name'] },
+        hotswap: HotswapMode.FULL_DEPLOYMENT,
+        printPlan: 'dot',
+      });
+
+      // THEN
+      expect(tryMigrateResources).not.toHaveBeenCalled();
+      tryMigrateResources.mockRestore();
+    });
+
+    test('printing the plan cannot be combined with watch', async () => {
+      // GIVEN
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        deployments: new FakeCloudFormation({}),
+      });
+
+      // WHEN
+      await expect(toolkit.deploy({
+        selector: { patterns: ['Test-Stack-A-Display-Name'] },
+        hotswap: HotswapMode.FULL_DEPLOYMENT,
+        printPlan: 'dot',
+        watch: true,
+      })).rejects.toThrow(/--print-plan cannot be combined with --watch/);
+    });
+
+    test('resumes a failed deployment', async () => {
+      // GIVEN
+      const deployments = new FakeCloudFormation({});
+      const deployStack = jest.spyOn(deployments, 'deployStack');
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        deployments,
+      });
+      deployStack.mockImplementation(async (options) => {
+        if (options.stack.stackName === 'Test-Stack-A') {
+          throw new Error('Transient failure');
+        }
+        return { type: 'did-deploy-stack', noOp: false, outputs: {}, stackArn: 'arn' };
+      });
+      const deployOptions = {
+        selector: { patterns: ['Test-Stack-A-Display-Name', 'Test-Stack-B'] },
+        hotswap: HotswapMode.FULL_DEPLOYMENT,
+        concurrency: 2,
+      };
+      await expect(toolkit.deploy(deployOptions)).rejects.toThrow(/Transient failure/);
+      expect(deployStack).toHaveBeenCalledWith(expect.objectContaining({ deployName: 'Test-Stack-B' }));
+
+      // WHEN
+      deployStack.mockClear();
+      deployStack.mockResolvedValue({ type: 'did-deploy-stack', noOp: false, outputs: {}, stackArn: 'arn' });
+      await toolkit.deploy({ ...deployOptions, resume: true });
+
+      // THEN
+      const deployed = deployStack.mock.calls.map(([options]) => options.deployName);
+      expect(deployed).toContain('Test-Stack-A');
+      expect(deployed).not.toContain('Test-Stack-B');
+    });
+
+    test('resuming deploys stacks again whose parameters changed', async () => {
+      // GIVEN
+      const deployments = new FakeCloudFormation({});
+      const deployStack = jest.spyOn(deployments, 'deployStack');
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        deployments,
+      });
+      deployStack.mockImplementation(async (options) => {
+        if (options.stack.stackName === 'Test-Stack-A') {
+          throw new Error('Transient failure');
+        }
+        return { type: 'did-deploy-stack', noOp: false, outputs: {}, stackArn: 'arn' };
+      });
+      const deployOptions = {
+        selector: { patterns: ['Test-Stack-A-Display-Name', 'Test-Stack-B'] },
+        hotswap: HotswapMode.FULL_DEPLOYMENT,
+        concurrency: 2,
+        parameters: { 'Test-Stack-B:Param': 'old' },
+      };
+      await expect(toolkit.deploy(deployOptions)).rejects.toThrow(/Transient failure/);
+
+      // WHEN
+      deployStack.mockClear();
+      deployStack.mockResolvedValue({ type: 'did-deploy-stack', noOp: false, outputs: {}, stackArn: 'arn' });
+      await toolkit.deploy({ ...deployOptions, parameters: { 'Test-Stack-B:Param': 'new' }, resume: true });
+
+      // THEN
+      const deployed = deployStack.mock.calls.map(([options]) => options.deployName);
+      expect(deployed).toContain('Test-Stack-A');
+      expect(deployed).toContain('Test-Stack-B');
+    });
+
+    test('fails on blocking deploy policy violations without a terminal', async () => {
+      // GIVEN
+      const ioHost = CliIoHost.instance();
+      const isTTY = ioHost.isTTY;
+      ioHost.isTTY = false;
+      const policyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cdk-deploy-policy'));
+      const policyFile = path.join(policyDir, 'deploy-policy.js');
+      await fs.writeFile(policyFile, `module.exports = { rules: [
+        { name: 'no-deployments', effect: 'block', evaluate: () => [{ message: 'nothing may be deployed' }] },
+      ] };`);
+      cloudExecutable.configuration.settings.set(['deployPolicy'], policyFile);
+      const deployments = new FakeCloudFormation({});
+      const deployStack = jest.spyOn(deployments, 'deployStack');
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        deployments,
+      });
+
+      try {
+        // WHEN
+        await expect(toolkit.deploy({
+          selector: { patterns: ['Test-Stack-A-Display-Name'] },
+          hotswap: HotswapMode.FULL_DEPLOYMENT,
+        })).rejects.toThrow(/Stack Test-Stack-A-Display-Name violates 1 blocking deploy policy rule\(s\)/);
+
+        // THEN
+        expect(stderrMock).toHaveBeenCalledWith(expect.stringContaining('[no-deployments] nothing may be deployed'));
+        expect(deployStack).not.toHaveBeenCalled();
+      } finally {
+        ioHost.isTTY = isTTY;
+        await fs.remove(policyDir);
+      }
+    });
+
     test('with stacks all stacks specified as wildcard', async () => {
       // GIVEN
       const toolkit = defaultToolkitSetup();
@@ -1320,6 +1490,44 @@ describe('synth', () => {
     expect(mockResult.mock.calls.length).toEqual(0);
   });
 
+  describe('with template validation', () => {
+    test('succeeds for valid templates', async () => {
+      const toolkit = defaultToolkitSetup();
+      await toolkit.synth(['Test-Stack-A-Display-Name'], false, true, undefined, undefined, true);
+      expect(stderrMock).toHaveBeenCalledWith(expect.stringContaining('Template validation found no problems'));
+    });
+
+    test('fails for templates CloudFormation would reject', async () => {
+      // GIVEN
+      cloudExecutable = new MockCloudExecutable({
+        stacks: [{
+          stackName: 'Test-Stack-Invalid',
+          template: {
+            Resources: {
+              Topic: { Type: 'AWS::SNS::Topic', Properties: { TopicName: { Ref: 'DoesNotExist' } } },
+            },
+          },
+          env: 'aws://123456789012/bermuda-triangle-1',
+        }],
+      });
+      const toolkit = defaultToolkitSetup();
+      const notifySpy = jest.spyOn(CliIoHost.instance(), 'notify');
+
+      // WHEN
+      await expect(toolkit.synth(['Test-Stack-Invalid'], false, true, undefined, undefined, true))
+        .rejects.toThrow(/Template validation found 1 error\(s\)/);
+
+      // THEN
+      expect(stderrMock).toHaveBeenCalledWith(expect.stringContaining("Ref to 'DoesNotExist', which is not a parameter or resource in the template"));
+      expect(notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'CDK_TOOLKIT_E1510',
+        data: expect.objectContaining({ stackName: 'Test-Stack-Invalid', rule: expect.any(String) }),
+      }));
+      expect(mockResult).not.toHaveBeenCalled();
+      notifySpy.mockRestore();
+    });
+  });
+
   describe('stack with error and flagged for validation', () => {
     beforeEach(() => {
       cloudExecutable = new MockCloudExecutable({
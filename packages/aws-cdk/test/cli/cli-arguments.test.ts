@@ -59,6 +59,7 @@ describe('yargs', () => {
         previousParameters: true,
         progress: undefined,
         requireApproval: undefined,
+        resume: false,
         rollback: false,
         tags: undefined,
         toolkitStackName: undefined,
@@ -127,6 +128,7 @@ describe('config', () => {
       deploy: expect.anything(),
       destroy: expect.anything(),
       diff: expect.anything(),
+      drift: expect.anything(),
       init: expect.anything(),
       metadata: expect.anything(),
       migrate: expect.anything(),
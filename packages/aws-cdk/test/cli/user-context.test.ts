@@ -151,3 +151,50 @@ test('cannot save readonly values', async () => {
   // THEN
   await expect(context.save(PROJECT_CONFIG)).rejects.toThrow(/Context file cdk.json is read only!/);
 });
+
+test('lookup metadata is saved but not listed as a context value', async () => {
+  // GIVEN
+  const config1 = await new Configuration({ readUserContext: false }).load();
+  config1.context.set('some_key', 'some_value');
+  config1.context.setMetadata('some_key', { provider: 'ami', props: { account: '1234', region: 'us-east-1' }, lastUpdated: '2025-01-01T00:00:00.000Z' });
+  await config1.context.save(PROJECT_CONTEXT);
+
+  // WHEN
+  const config2 = await new Configuration({ readUserContext: false }).load();
+
+  // THEN
+  expect(config2.context.all).toEqual({ some_key: 'some_value' });
+  expect(config2.context.getMetadata('some_key')).toEqual(expect.objectContaining({ provider: 'ami' }));
+});
+
+test('unsetting a value removes its lookup metadata', async () => {
+  // GIVEN
+  const config = await new Configuration({ readUserContext: false }).load();
+  config.context.set('some_key', 'some_value');
+  config.context.setMetadata('some_key', { provider: 'ami', props: { account: '1234', region: 'us-east-1' }, lastUpdated: '2025-01-01T00:00:00.000Z' });
+
+  // WHEN
+  config.context.unset('some_key');
+
+  // THEN
+  expect(config.context.getMetadata('some_key')).toBeUndefined();
+});
+
+test('values looked up longer ago than the maximum age are stale', async () => {
+  // GIVEN
+  const context = new Context();
+  const props = { account: '1234', region: 'us-east-1' };
+  context.set('old', 'a');
+  context.setMetadata('old', { provider: 'ami', props, lastUpdated: '2025-01-01T00:00:00.000Z' });
+  context.set('new', 'b');
+  context.setMetadata('new', { provider: 'ami', props, lastUpdated: '2025-03-01T00:00:00.000Z' });
+  context.set('unrecorded', 'c');
+
+  // WHEN
+  const stale = context.staleValues(30, new Date('2025-03-15T00:00:00.000Z'));
+
+  // THEN
+  expect(stale).toEqual([
+    { key: 'old', provider: 'ami', lastUpdated: '2025-01-01T00:00:00.000Z', ageDays: 73 },
+  ]);
+});
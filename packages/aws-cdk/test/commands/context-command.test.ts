@@ -1,5 +1,9 @@
 /* eslint-disable import/order */
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import { contextHandler } from '../../lib/commands/context';
+import { registerContextProvider } from '../../lib/context-providers';
+import { asIoHelper, TestIoHost } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
+import { MockSdkProvider } from '../util/mock-sdk';
 import { Settings } from '../../lib/api/settings';
 import { Context } from '../../lib/api/context';
 import { Configuration } from '../../lib/cli/user-configuration';
@@ -253,3 +257,84 @@ describe('context --clear', () => {
     expect(configuration.context.all).toEqual({});
   });
 });
+
+describe('context --refresh', () => {
+  const ioHelper = asIoHelper(new TestIoHost(), 'synth');
+  const sdkProvider = new MockSdkProvider();
+  const props = { account: '1234', region: 'us-east-1' };
+
+  beforeEach(() => {
+    registerContextProvider(cxschema.ContextProvider.AMI_PROVIDER, {
+      async getValue(): Promise<any> {
+        return 'ami-new';
+      },
+    });
+    registerContextProvider(cxschema.ContextProvider.AVAILABILITY_ZONE_PROVIDER, {
+      async getValue(): Promise<any> {
+        return ['us-east-1a', 'us-east-1b'];
+      },
+    });
+  });
+
+  function lookedUpContext() {
+    const configuration = new Configuration();
+    configuration.context.set('ami:key', 'ami-old');
+    configuration.context.setMetadata('ami:key', { provider: cxschema.ContextProvider.AMI_PROVIDER, props, lastUpdated: '2025-01-01T00:00:00.000Z' });
+    configuration.context.set('azs:key', ['us-east-1a']);
+    configuration.context.setMetadata('azs:key', { provider: cxschema.ContextProvider.AVAILABILITY_ZONE_PROVIDER, props, lastUpdated: '2025-01-01T00:00:00.000Z' });
+    return configuration.context;
+  }
+
+  test('refreshes all looked up values', async () => {
+    // GIVEN
+    const context = lookedUpContext();
+
+    // WHEN
+    await contextHandler({ context, refresh: '', sdkProvider, ioHelper });
+
+    // THEN
+    expect(context.all).toEqual({
+      'ami:key': 'ami-new',
+      'azs:key': ['us-east-1a', 'us-east-1b'],
+    });
+  });
+
+  test('refreshes a single key', async () => {
+    // GIVEN
+    const context = lookedUpContext();
+
+    // WHEN
+    await contextHandler({ context, refresh: 'ami:key', sdkProvider, ioHelper });
+
+    // THEN
+    expect(context.all).toEqual({
+      'ami:key': 'ami-new',
+      'azs:key': ['us-east-1a'],
+    });
+  });
+
+  test('refreshes only the values of a provider', async () => {
+    // GIVEN
+    const context = lookedUpContext();
+
+    // WHEN
+    await contextHandler({ context, refresh: '', provider: 'availability-zones', sdkProvider, ioHelper });
+
+    // THEN
+    expect(context.all).toEqual({
+      'ami:key': 'ami-old',
+      'azs:key': ['us-east-1a', 'us-east-1b'],
+    });
+  });
+
+  test('throws when no value matches', async () => {
+    // GIVEN
+    const context = lookedUpContext();
+
+    // THEN
+    await expect(contextHandler({ context, refresh: 'missing', sdkProvider, ioHelper }))
+      .rejects.toThrow('No context value matching key: missing');
+    await expect(contextHandler({ context, refresh: '', provider: 'vpc-provider', sdkProvider, ioHelper }))
+      .rejects.toThrow('No context values of provider vpc-provider to refresh');
+  });
+});
@@ -1147,3 +1147,137 @@ Resources
     expect(exitCode).toBe(0);
   });
 });
+
+describe('--format', () => {
+  beforeEach(() => {
+    cloudFormation = instanceMockFrom(Deployments);
+    cloudFormation.readCurrentTemplateWithNestedStacks.mockImplementation((_stackArtifact: CloudFormationStackArtifact) => {
+      return Promise.resolve({
+        deployedRootTemplate: {
+          Resources: {
+            Queue: {
+              Type: 'AWS::SQS::Queue',
+              Properties: { QueueName: 'old-name' },
+            },
+          },
+        },
+        nestedStacks: {},
+      });
+    });
+
+    cloudExecutable = new MockCloudExecutable({
+      stacks: [
+        {
+          stackName: 'A',
+          template: {
+            Resources: {
+              MetadataResource: {
+                Type: 'AWS::CDK::Metadata',
+              },
+              Queue: {
+                Type: 'AWS::SQS::Queue',
+                Properties: { QueueName: 'new-name' },
+              },
+            },
+          },
+        },
+      ],
+    }, undefined, ioHost);
+
+    toolkit = new CdkToolkit({
+      cloudExecutable,
+      deployments: cloudFormation,
+      configuration: cloudExecutable.configuration,
+      sdkProvider: cloudExecutable.sdkProvider,
+    });
+  });
+
+  test('writes a machine-readable diff as the result', async () => {
+    // WHEN
+    const exitCode = await toolkit.diff({
+      stackNames: ['A'],
+      format: 'json',
+      fail: true,
+    });
+
+    // THEN
+    const results = notifySpy.mock.calls.filter(([msg]) => msg.level === 'result');
+    expect(results).toHaveLength(1);
+    expect(JSON.parse(results[0][0].message)).toEqual({
+      schemaVersion: 1,
+      stacks: [expect.objectContaining({
+        stackName: 'A',
+        isEmpty: false,
+        resources: [expect.objectContaining({
+          logicalId: 'Queue',
+          changeType: 'UPDATE',
+          resourceType: 'AWS::SQS::Queue',
+          impact: 'WILL_REPLACE',
+          propertyChanges: [{
+            name: 'QueueName',
+            changeType: 'UPDATE',
+            oldValue: 'old-name',
+            newValue: 'new-name',
+            impact: 'WILL_REPLACE',
+          }],
+        })],
+      })],
+    });
+    expect(notifySpy).not.toHaveBeenCalledWith(expect.objectContaining({
+      message: expect.stringContaining('Stack A'),
+    }));
+    expect(exitCode).toBe(1);
+  });
+
+  test('cannot be combined with --security-only', async () => {
+    await expect(toolkit.diff({
+      stackNames: ['A'],
+      format: 'json',
+      securityOnly: true,
+    })).rejects.toThrow(/--security-only cannot be combined with --format=json/);
+  });
+
+  test('writes a markdown diff as the result', async () => {
+    // WHEN
+    const exitCode = await toolkit.diff({
+      stackNames: ['A'],
+      format: 'markdown',
+      fail: true,
+    });
+
+    // THEN
+    const results = notifySpy.mock.calls.filter(([msg]) => msg.level === 'result');
+    expect(results).toHaveLength(1);
+    const markdown = results[0][0].message;
+    expect(markdown).toContain('<summary><b>A</b> (1 change)</summary>');
+    expect(markdown).toContain('#### Resources');
+    expect(markdown).toContain('- `[~]` `AWS::SQS::Queue` `Queue` **replace**');
+    expect(markdown).toContain('  - `[~]` `QueueName` (requires replacement)');
+    expect(markdown).not.toContain('MetadataResource');
+    expect(exitCode).toBe(1);
+  });
+
+  test('writes an html report as the result', async () => {
+    // WHEN
+    await toolkit.diff({
+      stackNames: ['A'],
+      format: 'html',
+    });
+
+    // THEN
+    const results = notifySpy.mock.calls.filter(([msg]) => msg.level === 'result');
+    expect(results).toHaveLength(1);
+    const html = results[0][0].message;
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<summary><b>A</b> (1 change)</summary>');
+    expect(html).toContain('<code>QueueName</code> (requires replacement)');
+  });
+
+  test('markdown cannot be combined with --security-only', async () => {
+    await expect(toolkit.diff({
+      stackNames: ['A'],
+      format: 'markdown',
+      securityOnly: true,
+    })).rejects.toThrow(/--security-only cannot be combined with --format=markdown/);
+  });
+});
@@ -0,0 +1,126 @@
+import { instanceMockFrom, MockCloudExecutable } from '../_helpers';
+import { Deployments } from '../../lib/api/deployments';
+import { CdkToolkit } from '../../lib/cli/cdk-toolkit';
+import { CliIoHost } from '../../lib/cli/io-host';
+
+let cloudExecutable: MockCloudExecutable;
+let cloudFormation: jest.Mocked<Deployments>;
+let toolkit: CdkToolkit;
+let ioHost = CliIoHost.instance();
+let notifySpy: jest.SpyInstance<Promise<void>>;
+
+beforeEach(() => {
+  notifySpy = jest.spyOn(ioHost, 'notify');
+  notifySpy.mockClear();
+
+  cloudExecutable = new MockCloudExecutable({
+    stacks: [
+      {
+        stackName: 'A',
+        template: {
+          Resources: {
+            Func: { Type: 'AWS::Lambda::Function' },
+          },
+        },
+      },
+      {
+        stackName: 'B',
+        template: {
+          Resources: {
+            Bucket: { Type: 'AWS::S3::Bucket' },
+          },
+        },
+      },
+    ],
+  }, undefined, ioHost);
+
+  cloudFormation = instanceMockFrom(Deployments);
+  cloudFormation.stackExists.mockResolvedValue(true);
+  cloudFormation.detectStackDrift.mockImplementation(async (stack) => {
+    if (stack.stackName === 'A') {
+      return [{
+        StackId: 'A',
+        LogicalResourceId: 'Func',
+        ResourceType: 'AWS::Lambda::Function',
+        StackResourceDriftStatus: 'MODIFIED',
+        Timestamp: new Date(),
+        PropertyDifferences: [{
+          PropertyPath: '/Timeout',
+          ExpectedValue: '3',
+          ActualValue: '10',
+          DifferenceType: 'NOT_EQUAL',
+        }],
+      }];
+    }
+    return [{
+      StackId: 'B',
+      LogicalResourceId: 'Bucket',
+      ResourceType: 'AWS::S3::Bucket',
+      StackResourceDriftStatus: 'IN_SYNC',
+      Timestamp: new Date(),
+    }];
+  });
+
+  toolkit = new CdkToolkit({
+    cloudExecutable,
+    deployments: cloudFormation,
+    configuration: cloudExecutable.configuration,
+    sdkProvider: cloudExecutable.sdkProvider,
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('prints the drift of every stack and fails if drift is found', async () => {
+  // WHEN
+  const exitCode = await toolkit.drift({
+    stackNames: ['A', 'B'],
+    fail: true,
+  });
+
+  // THEN
+  const plainTextOutput = notifySpy.mock.calls.map(c => c[0].message).join('\n').replace(/\x1B\[[0-?]*[ -/]*[@-~]/g, '');
+  expect(plainTextOutput).toContain(`Modified Resources
+[~] AWS::Lambda::Function Func
+ └─ [~] /Timeout
+     ├─ [-] 3
+     └─ [+] 10
+`);
+  expect(plainTextOutput).toContain('No drift detected');
+  expect(notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+    message: expect.stringContaining('✨  Number of stacks with drift: 1'),
+  }));
+  expect(exitCode).toBe(1);
+});
+
+test('does not fail on drift with --no-fail', async () => {
+  // WHEN
+  const exitCode = await toolkit.drift({
+    stackNames: ['A'],
+    fail: false,
+  });
+
+  // THEN
+  expect(exitCode).toBe(0);
+});
+
+test('skips stacks that are not deployed', async () => {
+  // GIVEN
+  cloudFormation.stackExists.mockResolvedValue(false);
+
+  // WHEN
+  const exitCode = await toolkit.drift({
+    stackNames: ['A'],
+    fail: true,
+  });
+
+  // THEN
+  expect(cloudFormation.detectStackDrift).not.toHaveBeenCalled();
+  expect(notifySpy).toHaveBeenCalledWith(expect.objectContaining({
+    level: 'warn',
+    message: expect.stringContaining('stack is not deployed, skipping drift detection'),
+  }));
+  expect(exitCode).toBe(0);
+});
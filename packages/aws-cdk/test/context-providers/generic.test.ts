@@ -2,6 +2,7 @@
 import { PluginHost } from '../../lib/api/plugin';
 import * as contextproviders from '../../lib/context-providers';
 import { Context, TRANSIENT_CONTEXT_KEY } from '../../lib/api/context';
+import { asIoHelper, TestIoHost } from '../../../@aws-cdk/tmp-toolkit-helpers/src/api/io/private';
 import { MockSdkProvider, setDefaultSTSMocks } from '../util/mock-sdk';
 
 const mockSDK = new MockSdkProvider();
@@ -121,3 +122,94 @@ test('plugin context provider can be called without account/region', async () =>
   // THEN - error is marked transient
   expect(context.get('asdf')).toEqual('yay');
 });
+
+test('successful lookups record their query and when they were made', async () => {
+  // GIVEN
+  contextproviders.registerContextProvider(TEST_PROVIDER, {
+    async getValue(_: {[key: string]: any}): Promise<any> {
+      return 'value';
+    },
+  });
+  const context = new Context();
+
+  // WHEN
+  await contextproviders.provideContextValues([
+    { key: 'asdf', props: { account: '1234', region: 'us-east-1' }, provider: TEST_PROVIDER },
+  ], context, mockSDK, asIoHelper(new TestIoHost(), 'synth'));
+
+  // THEN
+  expect(context.getMetadata('asdf')).toEqual({
+    provider: TEST_PROVIDER,
+    props: { account: '1234', region: 'us-east-1' },
+    lastUpdated: expect.any(String),
+  });
+});
+
+test('failed lookups do not record metadata', async () => {
+  // GIVEN
+  contextproviders.registerContextProvider(TEST_PROVIDER, {
+    async getValue(_: {[key: string]: any}): Promise<any> {
+      throw new Error('Something went wrong');
+    },
+  });
+  const context = new Context();
+
+  // WHEN
+  await contextproviders.provideContextValues([
+    { key: 'asdf', props: { account: '1234', region: 'us-east-1' }, provider: TEST_PROVIDER },
+  ], context, mockSDK, asIoHelper(new TestIoHost(), 'synth'));
+
+  // THEN
+  expect(context.getMetadata('asdf')).toBeUndefined();
+});
+
+describe('refreshContextValues', () => {
+  const ioHelper = asIoHelper(new TestIoHost(), 'synth');
+  const props = { account: '1234', region: 'us-east-1' };
+
+  test('looks up recorded values again', async () => {
+    // GIVEN
+    contextproviders.registerContextProvider(TEST_PROVIDER, {
+      async getValue(args: {[key: string]: any}): Promise<any> {
+        return `new value for ${args.account}`;
+      },
+    });
+    const context = new Context();
+    context.set('asdf', 'old value');
+    context.setMetadata('asdf', { provider: TEST_PROVIDER, props, lastUpdated: '2025-01-01T00:00:00.000Z' });
+    context.set('unrecorded', 'old value');
+
+    // WHEN
+    const refreshed = await contextproviders.refreshContextValues(['asdf', 'unrecorded'], context, mockSDK, ioHelper);
+
+    // THEN
+    expect(refreshed).toEqual([{ key: 'asdf', oldValue: 'old value', newValue: 'new value for 1234' }]);
+    expect(context.get('asdf')).toEqual('new value for 1234');
+    expect(context.get('unrecorded')).toEqual('old value');
+    expect(context.getMetadata('asdf')?.lastUpdated).not.toEqual('2025-01-01T00:00:00.000Z');
+  });
+
+  test('leaves all values unchanged if a lookup fails', async () => {
+    // GIVEN
+    contextproviders.registerContextProvider(TEST_PROVIDER, {
+      async getValue(args: {[key: string]: any}): Promise<any> {
+        if (args.account === 'bad') {
+          throw new Error('Something went wrong');
+        }
+        return 'new value';
+      },
+    });
+    const context = new Context();
+    context.set('good', 'old value');
+    context.setMetadata('good', { provider: TEST_PROVIDER, props, lastUpdated: '2025-01-01T00:00:00.000Z' });
+    context.set('bad', 'old value');
+    context.setMetadata('bad', { provider: TEST_PROVIDER, props: { ...props, account: 'bad' }, lastUpdated: '2025-01-01T00:00:00.000Z' });
+
+    // WHEN
+    await expect(contextproviders.refreshContextValues(['good', 'bad'], context, mockSDK, ioHelper))
+      .rejects.toThrow('Refreshing context value bad failed: Something went wrong');
+
+    // THEN
+    expect(context.get('good')).toEqual('old value');
+  });
+});
@@ -1,5 +1,6 @@
 import 'aws-sdk-client-mock-jest';
 import { Environment } from '@aws-cdk/cx-api';
+import { APIGatewayClient } from '@aws-sdk/client-api-gateway';
 import { AppSyncClient } from '@aws-sdk/client-appsync';
 import { CloudControlClient } from '@aws-sdk/client-cloudcontrol';
 import { CloudFormationClient, Stack, StackStatus } from '@aws-sdk/client-cloudformation';
@@ -9,6 +10,7 @@ import { EC2Client } from '@aws-sdk/client-ec2';
 import { ECRClient } from '@aws-sdk/client-ecr';
 import { ECSClient } from '@aws-sdk/client-ecs';
 import { ElasticLoadBalancingV2Client } from '@aws-sdk/client-elastic-load-balancing-v2';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
 import { IAMClient } from '@aws-sdk/client-iam';
 import { KMSClient } from '@aws-sdk/client-kms';
 import { LambdaClient } from '@aws-sdk/client-lambda';
@@ -34,6 +36,7 @@ export const FAKE_CREDENTIALS: AwsCredentialIdentity = {
 export const FAKE_CREDENTIAL_CHAIN = createCredentialChain(() => Promise.resolve(FAKE_CREDENTIALS));
 
 // Default implementations
+export const mockApiGatewayClient = mockClient(APIGatewayClient);
 export const mockAppSyncClient = mockClient(AppSyncClient);
 export const mockCloudControlClient = mockClient(CloudControlClient);
 export const mockCloudFormationClient = mockClient(CloudFormationClient);
@@ -43,6 +46,7 @@ export const mockEC2Client = mockClient(EC2Client);
 export const mockECRClient = mockClient(ECRClient);
 export const mockECSClient = mockClient(ECSClient);
 export const mockElasticLoadBalancingV2Client = mockClient(ElasticLoadBalancingV2Client);
+export const mockEventBridgeClient = mockClient(EventBridgeClient);
 export const mockIAMClient = mockClient(IAMClient);
 export const mockKMSClient = mockClient(KMSClient);
 export const mockLambdaClient = mockClient(LambdaClient);
@@ -65,6 +69,7 @@ export const mockSTSClient = mockClient(STSClient);
 export const restoreSdkMocksToDefault = () => {
   applyToAllMocks('reset');
 
+  mockApiGatewayClient.onAnyCommand().resolves({});
   mockAppSyncClient.onAnyCommand().resolves({});
   mockCloudControlClient.onAnyCommand().resolves({});
   mockCloudFormationClient.onAnyCommand().resolves({});
@@ -74,6 +79,7 @@ export const restoreSdkMocksToDefault = () => {
   mockECRClient.onAnyCommand().resolves({});
   mockECSClient.onAnyCommand().resolves({});
   mockElasticLoadBalancingV2Client.onAnyCommand().resolves({});
+  mockEventBridgeClient.onAnyCommand().resolves({});
   mockIAMClient.onAnyCommand().resolves({});
   mockKMSClient.onAnyCommand().resolves({});
   mockLambdaClient.onAnyCommand().resolves({});
@@ -100,6 +106,7 @@ export function undoAllSdkMocks() {
 };
 
 function applyToAllMocks(meth: 'reset' | 'restore') {
+  mockApiGatewayClient[meth]();
   mockAppSyncClient[meth]();
   mockCloudFormationClient[meth]();
   mockCloudWatchClient[meth]();
@@ -108,6 +115,7 @@ function applyToAllMocks(meth: 'reset' | 'restore') {
   mockECRClient[meth]();
   mockECSClient[meth]();
   mockElasticLoadBalancingV2Client[meth]();
+  mockEventBridgeClient[meth]();
   mockIAMClient[meth]();
   mockKMSClient[meth]();
   mockLambdaClient[meth]();
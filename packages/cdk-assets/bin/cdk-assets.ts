@@ -2,6 +2,7 @@ import * as yargs from 'yargs';
 import { list } from './list';
 import { setLogThreshold, VERSION } from './logging';
 import { publish } from './publish';
+import { verify } from './verify';
 import { AssetManifest } from '../lib';
 
 async function main() {
@@ -53,6 +54,34 @@ async function main() {
         });
       })
     )
+    .command(
+      'verify [ASSET..]',
+      'Verify that assets in the given manifest are published and match their source',
+      (command) =>
+        command
+          .option('profile', {
+            type: 'string',
+            describe: 'Profile to use from AWS Credentials file',
+          })
+          .option('json', {
+            type: 'boolean',
+            describe: 'Print the results as JSON',
+            default: false,
+          })
+          .positional('ASSET', {
+            type: 'string',
+            array: true,
+            describe: 'Assets to verify (format: "ASSET[:DEST]"), default all',
+          }),
+      wrapHandler(async (args) => {
+        await verify({
+          path: args.path,
+          assets: args.ASSET,
+          profile: args.profile,
+          json: args.json,
+        });
+      })
+    )
     .demandCommand()
     .help()
     .strict() // Error on wrong command
@@ -53,7 +53,7 @@ const EVENT_TO_LEVEL: Record<EventType, LogLevel> = {
   shell_close: 'verbose',
 };
 
-class ConsoleProgress implements IPublishProgressListener {
+export class ConsoleProgress implements IPublishProgressListener {
   public onPublishEvent(type: EventType, event: IPublishProgress): void {
     const stream = ['open', 'data_stdout', 'close'].includes(type) ? 'stdout' : 'stderr';
     log(EVENT_TO_LEVEL[type], `[${event.percentComplete}%] ${type}: ${event.message}`, stream);
@@ -0,0 +1,47 @@
+import { log } from './logging';
+import { ConsoleProgress } from './publish';
+import type { AssetVerification } from '../lib';
+import { AssetManifest, AssetPublishing, DefaultAwsClient, DestinationPattern } from '../lib';
+
+export async function verify(args: { path: string; assets?: string[]; profile?: string; json?: boolean }) {
+  let manifest = AssetManifest.fromPath(args.path);
+  log('verbose', `Loaded manifest from ${args.path}: ${manifest.entries.length} assets found`);
+
+  if (args.assets && args.assets.length > 0) {
+    const selection = args.assets.map((a) => DestinationPattern.parse(a));
+    manifest = manifest.select(selection);
+    log('verbose', `Applied selection: ${manifest.entries.length} assets selected.`);
+  }
+
+  const pub = new AssetPublishing(manifest, {
+    aws: new DefaultAwsClient(args.profile),
+    progressListener: new ConsoleProgress(),
+    throwOnError: false,
+  });
+
+  const verifications = new Array<AssetVerification>();
+  for (const entry of manifest.entries) {
+    verifications.push(await pub.verifyEntry(entry));
+  }
+
+  if (args.json) {
+    // Written without a log level prefix, so the output can be parsed
+    process.stdout.write(JSON.stringify(verifications.map((v) => ({
+      id: v.asset.id.toString(),
+      type: v.asset.type,
+      status: v.status,
+      message: v.message,
+      sourceChecksum: v.sourceChecksum,
+      destinationChecksum: v.destinationChecksum,
+    })), undefined, 2) + '\n');
+  } else {
+    const width = Math.max(0, ...verifications.map((v) => v.status.length));
+    for (const v of verifications) {
+      log('info', `${v.status.padEnd(width)}  ${v.asset.id}  ${v.message}`, 'stdout');
+    }
+  }
+
+  if (verifications.some((v) => v.status !== 'ok' && v.status !== 'unverified')) {
+    process.exitCode = 1;
+  }
+}
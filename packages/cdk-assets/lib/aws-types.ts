@@ -228,6 +228,48 @@ export const OptionalObjectAttributes = {
 export type OptionalObjectAttributes =
   (typeof OptionalObjectAttributes)[keyof typeof OptionalObjectAttributes];
 
+export const ChecksumMode = {
+  ENABLED: 'ENABLED',
+} as const;
+
+export type ChecksumMode = (typeof ChecksumMode)[keyof typeof ChecksumMode];
+
+export interface HeadObjectCommandInput {
+  /**
+   * <p>The name of the bucket that contains the object.</p>
+   */
+  Bucket: string | undefined;
+  /**
+   * <p>The object key.</p>
+   */
+  Key: string | undefined;
+  /**
+   * <p>To retrieve the checksum, this parameter must be enabled.</p>
+   */
+  ChecksumMode?: ChecksumMode;
+}
+
+export interface HeadObjectOutput {
+  /**
+   * <p>Size of the body in bytes.</p>
+   */
+  ContentLength?: number;
+  /**
+   * <p>An entity tag (ETag) is an opaque identifier assigned by a web server to a specific
+   *          version of a resource found at a URL.</p>
+   */
+  ETag?: string;
+  /**
+   * <p>The Base64 encoded, 256-bit <code>SHA256</code> digest of the object. This will only be
+   *          present if the object was uploaded with the object. For multipart uploads, this is
+   *          a checksum of the checksums of the parts, followed by the number of parts.</p>
+   */
+  ChecksumSHA256?: string;
+}
+
+export interface HeadObjectCommandOutput extends HeadObjectOutput, MetadataBearer {
+}
+
 export interface ListObjectsV2CommandInput {
   /**
    * <p>
@@ -1492,6 +1534,81 @@ export interface DescribeImagesResponse {
   nextToken?: string;
 }
 
+export interface BatchGetImageRequest {
+  /**
+   * <p>The Amazon Web Services account ID associated with the registry that contains the images to
+   *             describe. If you do not specify a registry, the default registry is assumed.</p>
+   */
+  registryId?: string;
+  /**
+   * <p>The repository that contains the images to describe.</p>
+   */
+  repositoryName: string | undefined;
+  /**
+   * <p>A list of image ID references that correspond to images to describe.</p>
+   */
+  imageIds: ImageIdentifier[] | undefined;
+  /**
+   * <p>The accepted media types for the request.</p>
+   */
+  acceptedMediaTypes?: string[];
+}
+
+export interface Image {
+  /**
+   * <p>The Amazon Web Services account ID associated with the registry containing the image.</p>
+   */
+  registryId?: string;
+  /**
+   * <p>The name of the repository associated with the image.</p>
+   */
+  repositoryName?: string;
+  /**
+   * <p>An object containing the image tag and image digest associated with an image.</p>
+   */
+  imageId?: ImageIdentifier;
+  /**
+   * <p>The image manifest associated with the image.</p>
+   */
+  imageManifest?: string;
+  /**
+   * <p>The manifest media type of the image.</p>
+   */
+  imageManifestMediaType?: string;
+}
+
+export interface ImageFailure {
+  /**
+   * <p>The image ID associated with the failure.</p>
+   */
+  imageId?: ImageIdentifier;
+  /**
+   * <p>The code associated with the failure.</p>
+   */
+  failureCode?: string;
+  /**
+   * <p>The reason for the failure.</p>
+   */
+  failureReason?: string;
+}
+
+export interface BatchGetImageResponse {
+  /**
+   * <p>A list of image objects corresponding to the image references in the request.</p>
+   */
+  images?: Image[];
+  /**
+   * <p>Any failures associated with the call.</p>
+   */
+  failures?: ImageFailure[];
+}
+
+export interface BatchGetImageCommandInput extends BatchGetImageRequest {
+}
+
+export interface BatchGetImageCommandOutput extends BatchGetImageResponse, MetadataBearer {
+}
+
 export interface DescribeRepositoriesRequest {
   /**
    * <p>The Amazon Web Services account ID associated with the registry that contains the repositories to be
@@ -1,5 +1,6 @@
 import * as os from 'os';
 import {
+  BatchGetImageCommand,
   DescribeImagesCommand,
   DescribeRepositoriesCommand,
   ECRClient,
@@ -8,6 +9,7 @@ import {
 import {
   GetBucketEncryptionCommand,
   GetBucketLocationCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   S3Client,
 } from '@aws-sdk/client-s3';
@@ -29,6 +31,8 @@ import {
 import { loadConfig } from '@smithy/node-config-provider';
 import type {
   AwsCredentialIdentityProvider,
+  BatchGetImageCommandInput,
+  BatchGetImageCommandOutput,
   CompleteMultipartUploadCommandOutput,
   DescribeImagesCommandInput,
   DescribeImagesCommandOutput,
@@ -42,6 +46,8 @@ import type {
   GetBucketLocationCommandOutput,
   GetSecretValueCommandInput,
   GetSecretValueCommandOutput,
+  HeadObjectCommandInput,
+  HeadObjectCommandOutput,
   ListObjectsV2CommandInput,
   ListObjectsV2CommandOutput,
   PutObjectCommandInput,
@@ -56,11 +62,13 @@ export interface IS3Client {
     input: GetBucketEncryptionCommandInput
   ): Promise<GetBucketEncryptionCommandOutput>;
   getBucketLocation(input: GetBucketLocationCommandInput): Promise<GetBucketLocationCommandOutput>;
+  headObject(input: HeadObjectCommandInput): Promise<HeadObjectCommandOutput>;
   listObjectsV2(input: ListObjectsV2CommandInput): Promise<ListObjectsV2CommandOutput>;
   upload(input: PutObjectCommandInput): Promise<CompleteMultipartUploadCommandOutput>;
 }
 
 export interface IECRClient {
+  batchGetImage(input: BatchGetImageCommandInput): Promise<BatchGetImageCommandOutput>;
   describeImages(input: DescribeImagesCommandInput): Promise<DescribeImagesCommandOutput>;
   describeRepositories(
     input: DescribeRepositoriesCommandInput
@@ -160,6 +168,8 @@ export class DefaultAwsClient implements IAws {
         input: GetBucketLocationCommandInput,
       ): Promise<GetBucketLocationCommandOutput> =>
         client.send(new GetBucketLocationCommand(input)),
+      headObject: (input: HeadObjectCommandInput): Promise<HeadObjectCommandOutput> =>
+        client.send(new HeadObjectCommand(input)),
       listObjectsV2: (input: ListObjectsV2CommandInput): Promise<ListObjectsV2CommandOutput> =>
         client.send(new ListObjectsV2Command(input)),
       upload: (input: PutObjectCommandInput): Promise<CompleteMultipartUploadCommandOutput> => {
@@ -175,6 +185,8 @@ export class DefaultAwsClient implements IAws {
   public async ecrClient(options: ClientOptions): Promise<IECRClient> {
     const client = new ECRClient(await this.awsOptions(options));
     return {
+      batchGetImage: (input: BatchGetImageCommandInput): Promise<BatchGetImageCommandOutput> =>
+        client.send(new BatchGetImageCommand(input)),
       describeImages: (input: DescribeImagesCommandInput): Promise<DescribeImagesCommandOutput> =>
         client.send(new DescribeImagesCommand(input)),
       describeRepositories: (
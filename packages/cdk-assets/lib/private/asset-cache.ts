@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { EventEmitter } from '../progress';
+import { EventType } from '../progress';
+import type { AssetCacheOptions } from '../publishing';
+
+/**
+ * Default maximum size of the asset cache: 10 GiB
+ */
+const DEFAULT_MAX_SIZE_MB = 10 * 1024;
+
+/**
+ * Prefix of files that are still being written to the cache
+ */
+const TEMP_PREFIX = '.tmp-';
+
+/**
+ * A persistent cache of built assets, shared between runs
+ *
+ * Entries are files keyed by asset hash (zip archives for file assets, image
+ * tarballs for Docker image assets). When the total size of the cache exceeds
+ * its maximum, the least recently used entries are evicted.
+ */
+export class AssetCache {
+  /**
+   * Return the configured asset cache, if any
+   *
+   * Explicit options take precedence over the `CDK_ASSETS_CACHE_DIR` and
+   * `CDK_ASSETS_CACHE_MAX_SIZE_MB` environment variables.
+   */
+  public static fromOptions(options?: AssetCacheOptions): AssetCache | undefined {
+    const directory = options?.directory ?? process.env.CDK_ASSETS_CACHE_DIR;
+    if (!directory) {
+      return undefined;
+    }
+
+    const maxSizeMb = options?.maxSizeMb ?? parseMaxSize(process.env.CDK_ASSETS_CACHE_MAX_SIZE_MB);
+    return new AssetCache(path.resolve(directory), maxSizeMb ?? DEFAULT_MAX_SIZE_MB);
+  }
+
+  private readonly maxSize: number;
+
+  constructor(public readonly directory: string, maxSizeMb: number) {
+    this.maxSize = maxSizeMb * 1024 * 1024;
+  }
+
+  /**
+   * Return the path of the cache entry for the given key, if it exists
+   *
+   * Marks the entry as recently used, and reports the hit or miss as a CACHED event.
+   */
+  public async lookup(key: string, eventEmitter: EventEmitter): Promise<string | undefined> {
+    const entryPath = this.entryPath(key);
+    try {
+      const now = new Date();
+      await fs.utimes(entryPath, now, now);
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        throw e;
+      }
+      eventEmitter(EventType.CACHED, `Asset cache miss ${entryPath}`);
+      return undefined;
+    }
+
+    eventEmitter(EventType.CACHED, `Asset cache hit ${entryPath}`);
+    return entryPath;
+  }
+
+  /**
+   * Store a cache entry for the given key
+   *
+   * The `write` function is called with a temporary path to write the entry to, which
+   * is moved into place once complete so that concurrent readers never observe partial
+   * entries. Afterwards, entries are evicted until the cache fits its maximum size.
+   */
+  public async store(key: string, write: (file: string) => Promise<void>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const tempPath = path.join(this.directory, `${TEMP_PREFIX}${process.pid}-${safeName(key)}`);
+    try {
+      await write(tempPath);
+      await fs.rename(tempPath, this.entryPath(key));
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+
+    await this.evict();
+  }
+
+  /**
+   * Remove the least recently used entries until the cache fits its maximum size
+   */
+  private async evict() {
+    const entries = new Array<{ file: string; size: number; lastUsed: number }>();
+    for (const name of await fs.readdir(this.directory)) {
+      if (name.startsWith(TEMP_PREFIX)) {
+        continue;
+      }
+      const file = path.join(this.directory, name);
+      try {
+        const stat = await fs.stat(file);
+        entries.push({ file, size: stat.size, lastUsed: stat.mtimeMs });
+      } catch (e: any) {
+        // Evicted concurrently by another process
+        if (e.code !== 'ENOENT') {
+          throw e;
+        }
+      }
+    }
+
+    let totalSize = entries.reduce((acc, e) => acc + e.size, 0);
+    entries.sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of entries) {
+      if (totalSize <= this.maxSize) {
+        break;
+      }
+      await fs.rm(entry.file, { force: true });
+      totalSize -= entry.size;
+    }
+  }
+
+  private entryPath(key: string) {
+    return path.join(this.directory, safeName(key));
+  }
+}
+
+function parseMaxSize(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const ret = Number(value);
+  if (isNaN(ret) || ret < 0) {
+    throw new Error(`CDK_ASSETS_CACHE_MAX_SIZE_MB should be a number of megabytes, got: ${value}`);
+  }
+  return ret;
+}
+
+/**
+ * Turn a cache key into a file name
+ */
+function safeName(key: string) {
+  return key.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
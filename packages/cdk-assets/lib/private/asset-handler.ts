@@ -1,6 +1,8 @@
+import type { AssetCache } from './asset-cache';
 import type { DockerFactory } from './docker';
 import type { IAws } from '../aws';
 import type { EventEmitter } from '../progress';
+import type { AssetVerification } from '../publishing';
 
 /**
  * Options for publishing an asset.
@@ -40,13 +42,25 @@ export interface IAssetHandler {
    * Return whether the asset already exists
    */
   isPublished(): Promise<boolean>;
+
+  /**
+   * Verify the published asset against its source
+   */
+  verify(): Promise<VerificationResult>;
 }
 
+export type VerificationResult = Omit<AssetVerification, 'asset'>;
+
 export interface IHandlerHost {
   readonly aws: IAws;
   readonly aborted: boolean;
   readonly dockerFactory: DockerFactory;
 
+  /**
+   * Persistent cache for built assets, if configured
+   */
+  readonly assetCache?: AssetCache;
+
   emitMessage: EventEmitter;
 }
 
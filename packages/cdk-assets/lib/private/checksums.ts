@@ -0,0 +1,41 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+
+/**
+ * Part size of multipart uploads, the default of the S3 `Upload` helper that files are uploaded with
+ */
+const UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Compute the SHA256 checksum that S3 stores for a file uploaded by cdk-assets
+ *
+ * Files that fit in a single part are uploaded in one go, and S3 stores the checksum of
+ * the file. For larger files, S3 stores the checksum of the checksums of the parts,
+ * followed by the number of parts.
+ */
+export async function s3Sha256Checksum(file: string): Promise<string> {
+  const partChecksums = new Array<Buffer>();
+
+  const handle = await fs.open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(UPLOAD_PART_SIZE);
+    while (true) {
+      const { bytesRead } = await handle.read(buffer, 0, UPLOAD_PART_SIZE, null);
+      if (bytesRead === 0 && partChecksums.length > 0) {
+        break;
+      }
+      partChecksums.push(crypto.createHash('sha256').update(buffer.subarray(0, bytesRead)).digest());
+      if (bytesRead < UPLOAD_PART_SIZE) {
+        break;
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (partChecksums.length === 1) {
+    return partChecksums[0].toString('base64');
+  }
+  const checksum = crypto.createHash('sha256').update(Buffer.concat(partChecksums)).digest('base64');
+  return `${checksum}-${partChecksums.length}`;
+}
@@ -1,16 +1,20 @@
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import type { SubprocessOutputDestination } from './asset-handler';
 import { cdkCredentialsConfig, obtainEcrCredentials } from './docker-credentials';
+import { DaemonlessImageBuilder } from './image-builders';
 import type { ShellOptions, ProcessFailedError } from './shell';
 import { shell } from './shell';
 import { createCriticalSection } from './util';
 import type { IECRClient } from '../aws';
-import type { SubprocessOutputDestination } from './asset-handler';
 import type { EventEmitter } from '../progress';
 import { shellEventPublisherFromEventEmitter } from '../progress';
+import type { ImageBuilderType } from '../publishing';
 
-interface BuildOptions {
+const IMAGE_BUILDERS: ImageBuilderType[] = ['docker', 'buildctl', 'buildah'];
+
+export interface BuildOptions {
   readonly directory: string;
 
   /**
@@ -121,11 +125,11 @@ export class Docker {
       ...(options.cacheFrom
         ? [
           ...options.cacheFrom
-            .map((cacheFrom) => ['--cache-from', this.cacheOptionToFlag(cacheFrom)])
+            .map((cacheFrom) => ['--cache-from', cacheOptionToFlag(cacheFrom)])
             .flat(),
         ]
         : []),
-      ...(options.cacheTo ? ['--cache-to', this.cacheOptionToFlag(options.cacheTo)] : []),
+      ...(options.cacheTo ? ['--cache-to', cacheOptionToFlag(options.cacheTo)] : []),
       ...(options.cacheDisabled ? ['--no-cache'] : []),
       '.',
     ];
@@ -158,16 +162,54 @@ export class Docker {
     );
   }
 
+  /**
+   * Return the digests of an image in the repositories it was pushed to (or pulled from)
+   *
+   * Digests are in the form `repository@sha256:...`.
+   */
+  public async repoDigests(tag: string): Promise<string[]> {
+    const output = await this.execute(['inspect', '--format', '{{json .RepoDigests}}', tag], {
+      subprocessOutputDestination: 'ignore',
+    });
+    return JSON.parse(output) ?? [];
+  }
+
   public async tag(sourceTag: string, targetTag: string) {
     await this.execute(['tag', sourceTag, targetTag]);
   }
 
+  /**
+   * Export an image to a tarball
+   */
+  public async save(tag: string, file: string) {
+    await this.execute(['save', '--output', file, tag]);
+  }
+
+  /**
+   * Import the images in a tarball created by `save`
+   */
+  public async load(file: string) {
+    await this.execute(['load', '--input', file], {
+      subprocessOutputDestination: this.subprocessOutputDestination,
+    });
+  }
+
   public async push(options: PushOptions) {
     await this.execute(['push', options.tag], {
       subprocessOutputDestination: this.subprocessOutputDestination,
     });
   }
 
+  /**
+   * Create a manifest list referring to the given (pushed) images, and push it under the given tag
+   */
+  public async pushManifestList(tag: string, images: string[]) {
+    await this.execute(['manifest', 'create', '--amend', tag, ...images]);
+    await this.execute(['manifest', 'push', '--purge', tag], {
+      subprocessOutputDestination: this.subprocessOutputDestination,
+    });
+  }
+
   /**
    * If a CDK Docker Credentials file exists, creates a new Docker config directory.
    * Sets up `docker-credential-cdk-assets` to be the credential helper for each domain in the CDK config.
@@ -178,23 +220,24 @@ export class Docker {
    * @returns true if CDK config was found and configured, false otherwise
    */
   public configureCdkCredentials(): boolean {
-    const config = cdkCredentialsConfig();
-    if (!config) {
+    const credHelpers = cdkCredentialHelpers();
+    if (!credHelpers) {
       return false;
     }
 
-    this.configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cdkDockerConfig'));
+    this.configureCredentialHelpers(credHelpers);
+    return true;
+  }
 
-    const domains = Object.keys(config.domainCredentials);
-    const credHelpers = domains.reduce((map: Record<string, string>, domain) => {
-      map[domain] = 'cdk-assets'; // Use docker-credential-cdk-assets for this domain
-      return map;
-    }, {});
+  /**
+   * Creates a new Docker config directory that uses the given credential helper for each domain.
+   * All future commands (e.g., `build`, `push`) will use this config.
+   */
+  public configureCredentialHelpers(credHelpers: Record<string, string>) {
+    this.configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cdkDockerConfig'));
     fs.writeFileSync(path.join(this.configDir, 'config.json'), JSON.stringify({ credHelpers }), {
       encoding: 'utf-8',
     });
-
-    return true;
   }
 
   /**
@@ -214,7 +257,7 @@ export class Docker {
 
     const shellEventPublisher = shellEventPublisherFromEventEmitter(this.eventEmitter);
     try {
-      await shell([getDockerCmd(), ...configArgs, ...args], {
+      return await shell([getDockerCmd(), ...configArgs, ...args], {
         ...options,
         shellEventPublisher: shellEventPublisher,
         env: {
@@ -232,18 +275,31 @@ export class Docker {
       throw e;
     }
   }
+}
 
-  private cacheOptionToFlag(option: DockerCacheOption): string {
-    let flag = `type=${option.type}`;
-    if (option.params) {
-      flag +=
-        ',' +
-        Object.entries(option.params)
-          .map(([k, v]) => `${k}=${v}`)
-          .join(',');
-    }
-    return flag;
-  }
+export interface DockerRegistryOptions {
+  /**
+   * Host of the registry images will be pushed to
+   */
+  readonly registryHost: string;
+
+  /**
+   * Docker credential helper for the registry
+   *
+   * @default - Use the credentials from the Docker configuration
+   */
+  readonly credentialHelper?: string;
+  readonly eventEmitter: EventEmitter;
+  readonly subprocessOutputDestination: SubprocessOutputDestination;
+}
+
+export interface DockerFactoryProps {
+  /**
+   * The tool to build images with
+   *
+   * @default - The `CDK_ASSETS_IMAGE_BUILDER` environment variable, or 'docker'
+   */
+  readonly imageBuilder?: ImageBuilderType;
 }
 
 export interface DockerFactoryOptions {
@@ -260,6 +316,21 @@ export interface DockerFactoryOptions {
 export class DockerFactory {
   private enterLoggedInDestinationsCriticalSection = createCriticalSection();
   private loggedInDestinations = new Set<string>();
+  private readonly imageBuilder: ImageBuilderType;
+
+  constructor(props: DockerFactoryProps = {}) {
+    this.imageBuilder = props.imageBuilder ?? imageBuilderFromEnv() ?? 'docker';
+  }
+
+  /**
+   * Whether images are built without a Docker daemon
+   *
+   * Daemonless image builders push images as part of building them, so both
+   * happen when publishing.
+   */
+  public get daemonless(): boolean {
+    return this.imageBuilder !== 'docker';
+  }
 
   /**
    * Gets a Docker instance for building images.
@@ -289,6 +360,70 @@ export class DockerFactory {
     return docker;
   }
 
+  /**
+   * Gets a Docker instance for inspecting local images, without logging in anywhere.
+   */
+  public forLocalImages(options: { eventEmitter: EventEmitter; subprocessOutputDestination: SubprocessOutputDestination }): Docker {
+    return new Docker(options.eventEmitter, options.subprocessOutputDestination);
+  }
+
+  /**
+   * Gets a Docker instance for building images and pushing them to a generic OCI registry.
+   *
+   * Registries other than ECR are not logged in to; their credentials come from a credential helper,
+   * or from the Docker configuration.
+   */
+  public async forRegistry(options: DockerRegistryOptions): Promise<Docker> {
+    const docker = new Docker(options.eventEmitter, options.subprocessOutputDestination);
+
+    const credHelpers = {
+      ...cdkCredentialHelpers(),
+      ...(options.credentialHelper ? { [options.registryHost]: options.credentialHelper } : {}),
+    };
+    if (Object.keys(credHelpers).length > 0) {
+      docker.configureCredentialHelpers(credHelpers);
+    }
+
+    return docker;
+  }
+
+  /**
+   * Gets a daemonless image builder for building images and pushing them to ECR.
+   */
+  public async forDaemonlessEcrPush(options: DockerFactoryOptions): Promise<DaemonlessImageBuilder> {
+    const builder = this.daemonlessImageBuilder(options);
+
+    // The Dockerfile may reference images in domains from the CDK Docker Credentials file
+    const credHelpers = cdkCredentialHelpers();
+    if (credHelpers) {
+      builder.configureCredentialHelpers(credHelpers);
+    }
+    await builder.login(options.ecr);
+
+    return builder;
+  }
+
+  /**
+   * Gets a daemonless image builder for building images and pushing them to a generic OCI registry.
+   */
+  public async forDaemonlessRegistryPush(options: DockerRegistryOptions): Promise<DaemonlessImageBuilder> {
+    const builder = this.daemonlessImageBuilder(options);
+
+    builder.configureCredentialHelpers({
+      ...cdkCredentialHelpers(),
+      ...(options.credentialHelper ? { [options.registryHost]: options.credentialHelper } : {}),
+    });
+
+    return builder;
+  }
+
+  private daemonlessImageBuilder(options: { eventEmitter: EventEmitter; subprocessOutputDestination: SubprocessOutputDestination }) {
+    if (this.imageBuilder === 'docker') {
+      throw new Error('Images are built with docker, not with a daemonless image builder');
+    }
+    return DaemonlessImageBuilder.create(this.imageBuilder, options.eventEmitter, options.subprocessOutputDestination);
+  }
+
   private async loginOncePerDestination(docker: Docker, options: DockerFactoryOptions) {
     // Changes: 012345678910.dkr.ecr.us-west-2.amazonaws.com/tagging-test
     // To this: 012345678910.dkr.ecr.us-west-2.amazonaws.com
@@ -306,6 +441,48 @@ export class DockerFactory {
   }
 }
 
+/**
+ * Credential helpers for the domains in the CDK Docker Credentials file, if it exists
+ */
+function cdkCredentialHelpers(): Record<string, string> | undefined {
+  const config = cdkCredentialsConfig();
+  if (!config) {
+    return undefined;
+  }
+
+  const domains = Object.keys(config.domainCredentials);
+  return domains.reduce((map: Record<string, string>, domain) => {
+    map[domain] = 'cdk-assets'; // Use docker-credential-cdk-assets for this domain
+    return map;
+  }, {});
+}
+
+/**
+ * Render a cache option in the `type=...,key=value` format of the build commands
+ */
+export function cacheOptionToFlag(option: DockerCacheOption): string {
+  let flag = `type=${option.type}`;
+  if (option.params) {
+    flag +=
+      ',' +
+      Object.entries(option.params)
+        .map(([k, v]) => `${k}=${v}`)
+        .join(',');
+  }
+  return flag;
+}
+
+function imageBuilderFromEnv(): ImageBuilderType | undefined {
+  const value = process.env.CDK_ASSETS_IMAGE_BUILDER;
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!IMAGE_BUILDERS.includes(value as ImageBuilderType)) {
+    throw new Error(`CDK_ASSETS_IMAGE_BUILDER should be one of ${IMAGE_BUILDERS.join(', ')}, got: ${value}`);
+  }
+  return value as ImageBuilderType;
+}
+
 function getDockerCmd(): string {
   return process.env.CDK_DOCKER ?? 'docker';
 }
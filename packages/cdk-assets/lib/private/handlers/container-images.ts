@@ -4,9 +4,13 @@ import { destinationToClientOptions } from './client-options';
 import type { DockerImageManifestEntry } from '../../asset-manifest';
 import type { IECRClient } from '../../aws';
 import { EventType, shellEventPublisherFromEventEmitter } from '../../progress';
-import type { IAssetHandler, IHandlerHost, IHandlerOptions } from '../asset-handler';
-import type { Docker } from '../docker';
+import type { IAssetHandler, IHandlerHost, IHandlerOptions, VerificationResult } from '../asset-handler';
+import type { BuildOptions, Docker } from '../docker';
+import { pathExists } from '../fs-extra';
+import type { DaemonlessImageBuilder } from '../image-builders';
 import { replaceAwsPlaceholders } from '../placeholders';
+import { missingPlatforms, platformTag } from '../platforms';
+import { MANIFEST_MEDIA_TYPES } from '../registry';
 import { shell } from '../shell';
 
 interface ContainerImageAssetHandlerInit {
@@ -36,6 +40,10 @@ export class ContainerImageAssetHandler implements IAssetHandler {
     if (this.host.aborted) {
       return;
     }
+    if (this.host.dockerFactory.daemonless) {
+      // Built and pushed in one go when publishing
+      return;
+    }
 
     const dockerForBuilding = await this.host.dockerFactory.forBuild({
       repoUri: initOnce.repoUri,
@@ -44,22 +52,7 @@ export class ContainerImageAssetHandler implements IAssetHandler {
       subprocessOutputDestination: this.options.subprocessOutputDestination,
     });
 
-    const builder = new ContainerImageBuilder(
-      dockerForBuilding,
-      this.workDir,
-      this.asset,
-      this.host,
-    );
-    const localTagName = await builder.build();
-
-    if (localTagName === undefined || this.host.aborted) {
-      return;
-    }
-    if (this.host.aborted) {
-      return;
-    }
-
-    await dockerForBuilding.tag(localTagName, initOnce.imageUri);
+    await buildAndTag(dockerForBuilding, this.workDir, this.asset, this.host, initOnce.imageUri);
   }
 
   public async isPublished(): Promise<boolean> {
@@ -82,6 +75,17 @@ export class ContainerImageAssetHandler implements IAssetHandler {
       return;
     }
 
+    if (this.host.dockerFactory.daemonless) {
+      const builder = await this.host.dockerFactory.forDaemonlessEcrPush({
+        repoUri: initOnce.repoUri,
+        eventEmitter: this.host.emitMessage,
+        ecr: initOnce.ecr,
+        subprocessOutputDestination: this.options.subprocessOutputDestination,
+      });
+      await buildAndPushWithoutDaemon(builder, this.workDir, this.asset, this.host, initOnce.imageUri);
+      return;
+    }
+
     const dockerForPushing = await this.host.dockerFactory.forEcrPush({
       repoUri: initOnce.repoUri,
       eventEmitter: this.host.emitMessage,
@@ -93,10 +97,30 @@ export class ContainerImageAssetHandler implements IAssetHandler {
       return;
     }
 
-    this.host.emitMessage(EventType.UPLOAD, `Push ${initOnce.imageUri}`);
-    await dockerForPushing.push({
-      tag: initOnce.imageUri,
-    });
+    await pushImages(dockerForPushing, this.asset, this.host, initOnce.imageUri);
+  }
+
+  public async verify(): Promise<VerificationResult> {
+    const missingSource = await verifyImageSource(this.workDir, this.asset);
+    if (missingSource) {
+      return missingSource;
+    }
+
+    const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
+    const ecr = await this.host.aws.ecrClient(destinationToClientOptions(destination));
+    const repoUri = await repositoryUri(ecr, destination.repositoryName);
+    if (!repoUri) {
+      return { status: 'missing-destination', message: `No ECR repository named '${destination.repositoryName}'` };
+    }
+
+    const imageUri = `${repoUri}:${destination.imageTag}`;
+    this.host.emitMessage(EventType.CHECK, `Check ${imageUri}`);
+    const digest = await imageDigest(ecr, destination.repositoryName, destination.imageTag);
+
+    return verifyPublishedImage(this.host, this.options, this.asset, imageUri, digest ? {
+      digest,
+      manifest: () => imageManifest(ecr, destination.repositoryName, destination.imageTag),
+    } : undefined);
   }
 
   private async initOnce(
@@ -145,21 +169,39 @@ export class ContainerImageAssetHandler implements IAssetHandler {
     imageUri: string,
   ): Promise<boolean> {
     this.host.emitMessage(EventType.CHECK, `Check ${imageUri}`);
-    if (await imageExists(ecr, destination.repositoryName, destination.imageTag)) {
-      this.host.emitMessage(EventType.FOUND, `Found ${imageUri}`);
-      return true;
+    if (!(await imageExists(ecr, destination.repositoryName, destination.imageTag))) {
+      return false;
     }
 
-    return false;
+    const platforms = assetPlatforms(this.asset);
+    if (platforms) {
+      const manifest = await imageManifest(ecr, destination.repositoryName, destination.imageTag);
+      const missing = manifest ? missingPlatforms(manifest, platforms) : platforms;
+      if (missing.length > 0) {
+        this.host.emitMessage(EventType.DEBUG, `${imageUri} is missing platforms: ${missing.join(', ')}`);
+        return false;
+      }
+    }
+
+    this.host.emitMessage(EventType.FOUND, `Found ${imageUri}`);
+    return true;
   }
 }
 
-class ContainerImageBuilder {
+/**
+ * Builds the local image for a container image asset
+ */
+export class ContainerImageBuilder {
+  /**
+   * @param platform Build for this platform of a multi-platform asset, instead of
+   * the `platform` of the asset source
+   */
   constructor(
     private readonly docker: Docker,
     private readonly workDir: string,
     private readonly asset: DockerImageManifestEntry,
     private readonly host: IHandlerHost,
+    private readonly platform?: string,
   ) {
   }
 
@@ -176,14 +218,18 @@ class ContainerImageBuilder {
    * the build if it already exists.
    */
   private async buildDirectoryAsset(): Promise<string | undefined> {
-    const localTagName = `cdkasset-${this.asset.id.assetId.toLowerCase()}`;
+    const assetTagName = localImageTag(this.asset);
+    const localTagName = this.platform ? platformTag(assetTagName, this.platform) : assetTagName;
 
     if (!(await this.isImageCached(localTagName))) {
       if (this.host.aborted) {
         return undefined;
       }
 
-      await this.buildImage(localTagName);
+      if (!(await this.loadFromAssetCache())) {
+        await this.buildImage(localTagName);
+        await this.saveToAssetCache(localTagName);
+      }
     }
 
     return localTagName;
@@ -218,31 +264,36 @@ class ContainerImageBuilder {
   }
 
   private async buildImage(localTagName: string): Promise<void> {
-    const source = this.asset.source;
-    if (!source.directory) {
-      throw new Error(
-        `'directory' is expected in the DockerImage asset source, got: ${JSON.stringify(source)}`,
-      );
+    const options = imageBuildOptions(this.workDir, this.asset, localTagName, this.platform ?? this.asset.source.platform);
+    const forPlatform = this.platform ? ` for ${this.platform}` : '';
+    this.host.emitMessage(EventType.BUILD, `Building Docker image at ${options.directory}${forPlatform}`);
+
+    await this.docker.build(options);
+  }
+
+  /**
+   * Load the image from the persistent asset cache, if it is there
+   *
+   * The tarball was saved from the local tag, so loading it restores that tag.
+   */
+  private async loadFromAssetCache(): Promise<boolean> {
+    const cachedPath = await this.host.assetCache?.lookup(this.assetCacheKey, this.host.emitMessage);
+    if (!cachedPath) {
+      return false;
     }
 
-    const fullPath = path.resolve(this.workDir, source.directory);
-    this.host.emitMessage(EventType.BUILD, `Building Docker image at ${fullPath}`);
-
-    await this.docker.build({
-      directory: fullPath,
-      tag: localTagName,
-      buildArgs: source.dockerBuildArgs,
-      buildSecrets: source.dockerBuildSecrets,
-      buildSsh: source.dockerBuildSsh,
-      target: source.dockerBuildTarget,
-      file: source.dockerFile,
-      networkMode: source.networkMode,
-      platform: source.platform,
-      outputs: source.dockerOutputs,
-      cacheFrom: source.cacheFrom,
-      cacheTo: source.cacheTo,
-      cacheDisabled: source.cacheDisabled,
-    });
+    await this.docker.load(cachedPath);
+    return true;
+  }
+
+  private async saveToAssetCache(localTagName: string): Promise<void> {
+    await this.host.assetCache?.store(this.assetCacheKey, (file) => this.docker.save(localTagName, file));
+  }
+
+  private get assetCacheKey() {
+    return this.platform
+      ? `${platformTag(this.asset.id.assetId, this.platform)}.tar`
+      : `${this.asset.id.assetId}.tar`;
   }
 
   private async isImageCached(localTagName: string): Promise<boolean> {
@@ -255,6 +306,271 @@ class ContainerImageBuilder {
   }
 }
 
+/**
+ * Build the image(s) for a container image asset, and tag them with the given image URI
+ *
+ * For a multi-platform asset, the image for each platform is tagged with the URI of that platform.
+ */
+export async function buildAndTag(
+  docker: Docker,
+  workDir: string,
+  asset: DockerImageManifestEntry,
+  host: IHandlerHost,
+  imageUri: string,
+): Promise<void> {
+  for (const image of platformImages(asset, imageUri)) {
+    const builder = new ContainerImageBuilder(docker, workDir, asset, host, image.platform);
+    const localTagName = await builder.build();
+
+    if (localTagName === undefined || host.aborted) {
+      return;
+    }
+
+    await docker.tag(localTagName, image.imageUri);
+  }
+}
+
+/**
+ * Push the image(s) tagged by `buildAndTag`
+ *
+ * For a multi-platform asset, the image for each platform is pushed, followed
+ * by a manifest list referring to all of them under the given image URI.
+ */
+export async function pushImages(
+  docker: Docker,
+  asset: DockerImageManifestEntry,
+  host: IHandlerHost,
+  imageUri: string,
+): Promise<void> {
+  const images = platformImages(asset, imageUri);
+  for (const image of images) {
+    if (host.aborted) {
+      return;
+    }
+    host.emitMessage(EventType.UPLOAD, `Push ${image.imageUri}`);
+    await docker.push({
+      tag: image.imageUri,
+    });
+  }
+
+  if (assetPlatforms(asset)) {
+    host.emitMessage(EventType.UPLOAD, `Push manifest list ${imageUri}`);
+    await docker.pushManifestList(imageUri, images.map((image) => image.imageUri));
+  }
+}
+
+/**
+ * The image under the tag of a container image asset at its destination
+ */
+export interface PublishedImage {
+  /**
+   * Digest of the image
+   */
+  readonly digest: string;
+
+  /**
+   * Return the manifest of the image
+   */
+  manifest(): Promise<string | undefined>;
+}
+
+/**
+ * Verify that the source of a container image asset exists
+ *
+ * Returns the failed verification if it doesn't, and undefined if it does.
+ */
+export async function verifyImageSource(
+  workDir: string,
+  asset: DockerImageManifestEntry,
+): Promise<VerificationResult | undefined> {
+  const source = asset.source;
+  if (source.executable || !source.directory) {
+    return undefined;
+  }
+
+  const dockerFile = path.resolve(workDir, source.directory, source.dockerFile ?? 'Dockerfile');
+  if (!(await pathExists(dockerFile))) {
+    return { status: 'missing-source', message: `Source ${dockerFile} does not exist` };
+  }
+  return undefined;
+}
+
+/**
+ * Verify a published container image asset
+ *
+ * Images are not built for verification. Instead, the digest of the published image
+ * is compared with the digests the local image of the asset was pushed with, if
+ * that image exists. The image index of a multi-platform asset must have an
+ * image for every platform.
+ */
+export async function verifyPublishedImage(
+  host: IHandlerHost,
+  options: IHandlerOptions,
+  asset: DockerImageManifestEntry,
+  imageUri: string,
+  published: PublishedImage | undefined,
+): Promise<VerificationResult> {
+  if (!published) {
+    return { status: 'missing-destination', message: `${imageUri} does not exist` };
+  }
+  const destinationChecksum = published.digest;
+
+  const platforms = assetPlatforms(asset);
+  if (platforms) {
+    const manifest = await published.manifest();
+    const missing = manifest ? missingPlatforms(manifest, platforms) : platforms;
+    if (missing.length > 0) {
+      return { status: 'drift', message: `${imageUri} is missing platforms: ${missing.join(', ')}`, destinationChecksum };
+    }
+    return { status: 'unverified', message: `${imageUri} has every platform; multi-platform images are not compared with local images`, destinationChecksum };
+  }
+
+  if (asset.source.executable || host.dockerFactory.daemonless) {
+    return { status: 'unverified', message: `${imageUri} exists; there is no local image to compare it with`, destinationChecksum };
+  }
+
+  const docker = host.dockerFactory.forLocalImages({
+    eventEmitter: host.emitMessage,
+    subprocessOutputDestination: options.subprocessOutputDestination,
+  });
+  const localTag = localImageTag(asset);
+  if (!(await docker.exists(localTag))) {
+    return { status: 'unverified', message: `${imageUri} exists; local image ${localTag} to compare it with was not found`, destinationChecksum };
+  }
+
+  const repository = imageUri.slice(0, imageUri.lastIndexOf(':'));
+  const pushedDigests = (await docker.repoDigests(localTag))
+    .filter((repoDigest) => repoDigest.startsWith(`${repository}@`))
+    .map((repoDigest) => repoDigest.slice(repository.length + 1));
+  if (pushedDigests.length === 0) {
+    return { status: 'unverified', message: `${imageUri} exists; local image ${localTag} was not pushed to ${repository}`, destinationChecksum };
+  }
+
+  return pushedDigests.includes(destinationChecksum)
+    ? { status: 'ok', message: `${imageUri} matches local image ${localTag}`, sourceChecksum: destinationChecksum, destinationChecksum }
+    : { status: 'drift', message: `${imageUri} does not match local image ${localTag}`, sourceChecksum: pushedDigests[0], destinationChecksum };
+}
+
+/**
+ * Return the platforms of a multi-platform asset, or undefined for a single-platform asset
+ */
+export function assetPlatforms(asset: DockerImageManifestEntry): string[] | undefined {
+  const source = asset.source;
+  if (!source.platforms) {
+    return undefined;
+  }
+  if (source.platform) {
+    throw new Error(`'platform' and 'platforms' cannot both be set in the DockerImage asset source, got: ${JSON.stringify(source)}`);
+  }
+  if (source.executable) {
+    throw new Error(`'platforms' is not supported for DockerImage assets built by an executable, got: ${JSON.stringify(source)}`);
+  }
+  return source.platforms;
+}
+
+/**
+ * The images to build for an asset, with the URIs to push them to
+ */
+function platformImages(asset: DockerImageManifestEntry, imageUri: string): Array<{ platform?: string; imageUri: string }> {
+  const platforms = assetPlatforms(asset);
+  if (!platforms) {
+    return [{ imageUri }];
+  }
+  return platforms.map((platform) => ({ platform, imageUri: platformTag(imageUri, platform) }));
+}
+
+/**
+ * Build the image for a container image asset with a daemonless image builder, pushing it to the given URI
+ */
+export async function buildAndPushWithoutDaemon(
+  builder: DaemonlessImageBuilder,
+  workDir: string,
+  asset: DockerImageManifestEntry,
+  host: IHandlerHost,
+  imageUri: string,
+): Promise<void> {
+  if (asset.source.executable) {
+    throw new Error(
+      `Container image assets built by an executable require docker, got: ${JSON.stringify(asset.source.executable)}`,
+    );
+  }
+
+  const options = imageBuildOptions(workDir, asset, imageUri, assetPlatforms(asset)?.join(',') ?? asset.source.platform);
+  host.emitMessage(EventType.BUILD, `Building image at ${options.directory}`);
+  host.emitMessage(EventType.UPLOAD, `Push ${imageUri}`);
+  await builder.buildAndPush(options);
+}
+
+/**
+ * The tag of the local image of a container image asset
+ */
+function localImageTag(asset: DockerImageManifestEntry): string {
+  return `cdkasset-${asset.id.assetId.toLowerCase()}`;
+}
+
+/**
+ * Options to build the image of a container image asset from a directory under the given tag
+ */
+function imageBuildOptions(
+  workDir: string,
+  asset: DockerImageManifestEntry,
+  tag: string,
+  platform: string | undefined,
+): BuildOptions {
+  const source = asset.source;
+  if (!source.directory) {
+    throw new Error(
+      `'directory' is expected in the DockerImage asset source, got: ${JSON.stringify(source)}`,
+    );
+  }
+
+  return {
+    directory: path.resolve(workDir, source.directory),
+    tag,
+    buildArgs: source.dockerBuildArgs,
+    buildSecrets: source.dockerBuildSecrets,
+    buildSsh: source.dockerBuildSsh,
+    target: source.dockerBuildTarget,
+    file: source.dockerFile,
+    networkMode: source.networkMode,
+    platform,
+    outputs: source.dockerOutputs,
+    cacheFrom: source.cacheFrom,
+    cacheTo: source.cacheTo,
+    cacheDisabled: source.cacheDisabled,
+  };
+}
+
+/**
+ * Return the digest of the image with the given tag in ECR, or undefined if it doesn't exist
+ */
+async function imageDigest(ecr: IECRClient, repositoryName: string, imageTag: string): Promise<string | undefined> {
+  try {
+    const response = await ecr.describeImages({
+      repositoryName,
+      imageIds: [{ imageTag }],
+    });
+    return response.imageDetails?.[0]?.imageDigest;
+  } catch (e: any) {
+    if (e.name !== 'ImageNotFoundException') {
+      throw e;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Return the manifest of the image with the given tag, as stored in ECR
+ */
+async function imageManifest(ecr: IECRClient, repositoryName: string, imageTag: string): Promise<string | undefined> {
+  const response = await ecr.batchGetImage({
+    repositoryName,
+    imageIds: [{ imageTag }],
+    acceptedMediaTypes: MANIFEST_MEDIA_TYPES,
+  });
+  return response.images?.[0]?.imageManifest;
+}
+
 async function imageExists(ecr: IECRClient, repositoryName: string, imageTag: string) {
   try {
     await ecr.describeImages({
@@ -9,7 +9,8 @@ import type { IS3Client } from '../../aws';
 import type { PutObjectCommandInput } from '../../aws-types';
 import { EventType, shellEventPublisherFromEventEmitter } from '../../progress';
 import { zipDirectory } from '../archive';
-import type { IAssetHandler, IHandlerHost, PublishOptions } from '../asset-handler';
+import type { IAssetHandler, IHandlerHost, PublishOptions, VerificationResult } from '../asset-handler';
+import { s3Sha256Checksum } from '../checksums';
 import { pathExists } from '../fs-extra';
 import { replaceAwsPlaceholders } from '../placeholders';
 import { shell } from '../shell';
@@ -55,6 +56,41 @@ export class FileAssetHandler implements IAssetHandler {
     return false;
   }
 
+  public async verify(): Promise<VerificationResult> {
+    const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
+    const s3Url = `s3://${destination.bucketName}/${destination.objectKey}`;
+
+    const source = this.asset.source;
+    if (source.path && !(await pathExists(path.resolve(this.workDir, source.path)))) {
+      return { status: 'missing-source', message: `Source ${path.resolve(this.workDir, source.path)} does not exist` };
+    }
+
+    const s3 = await this.host.aws.s3Client(destinationToClientOptions(destination));
+    this.host.emitMessage(EventType.CHECK, `Check ${s3Url}`);
+    if (!(await objectExists(s3, destination.bucketName, destination.objectKey))) {
+      return { status: 'missing-destination', message: `${s3Url} does not exist` };
+    }
+
+    const head = await s3.headObject({
+      Bucket: destination.bucketName,
+      Key: destination.objectKey,
+      ChecksumMode: 'ENABLED',
+    });
+    const destinationChecksum = head.ChecksumSHA256;
+    if (source.executable) {
+      return { status: 'unverified', message: `${s3Url} exists; its source is built by an executable`, destinationChecksum };
+    }
+    if (!destinationChecksum) {
+      return { status: 'unverified', message: `${s3Url} exists, but was uploaded without a SHA256 checksum` };
+    }
+
+    const publishFile = await this.packageFile(source);
+    const sourceChecksum = await s3Sha256Checksum(publishFile.packagedPath);
+    return sourceChecksum === destinationChecksum
+      ? { status: 'ok', message: `${s3Url} matches its source`, sourceChecksum, destinationChecksum }
+      : { status: 'drift', message: `${s3Url} does not match its source`, sourceChecksum, destinationChecksum };
+  }
+
   public async publish(options: PublishOptions = {}): Promise<void> {
     const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
     const s3Url = `s3://${destination.bucketName}/${destination.objectKey}`;
@@ -193,8 +229,17 @@ export class FileAssetHandler implements IAssetHandler {
         return { packagedPath, contentType };
       }
 
+      const assetCache = this.host.assetCache;
+      const cacheKey = `${this.asset.id.assetId}.zip`;
+      const cachedPath = await assetCache?.lookup(cacheKey, this.host.emitMessage);
+      if (cachedPath) {
+        await fs.copyFile(cachedPath, packagedPath);
+        return { packagedPath, contentType };
+      }
+
       this.host.emitMessage(EventType.BUILD, `Zip ${fullPath} -> ${packagedPath}`);
       await zipDirectory(fullPath, packagedPath, (m) => this.host.emitMessage(EventType.DEBUG, m));
+      await assetCache?.store(cacheKey, (file) => fs.copyFile(packagedPath, file));
       return { packagedPath, contentType };
     } else {
       const contentType = mime.getType(fullPath) ?? 'application/octet-stream';
@@ -1,5 +1,6 @@
 import { ContainerImageAssetHandler } from './container-images';
 import { FileAssetHandler } from './files';
+import { RegistryImageAssetHandler } from './registry-images';
 import {
   type AssetManifest,
   DockerImageManifestEntry,
@@ -18,7 +19,9 @@ export function makeAssetHandler(
     return new FileAssetHandler(manifest.directory, asset, host);
   }
   if (asset instanceof DockerImageManifestEntry) {
-    return new ContainerImageAssetHandler(manifest.directory, asset, host, options);
+    return asset.destination.registry
+      ? new RegistryImageAssetHandler(manifest.directory, asset, host, options)
+      : new ContainerImageAssetHandler(manifest.directory, asset, host, options);
   }
 
   throw new Error(`Unrecognized asset type: '${asset}'`);
@@ -0,0 +1,167 @@
+import type { OciRegistry } from '@aws-cdk/cloud-assembly-schema';
+import {
+  assetPlatforms,
+  buildAndPushWithoutDaemon,
+  buildAndTag,
+  pushImages,
+  verifyImageSource,
+  verifyPublishedImage,
+} from './container-images';
+import type { DockerImageManifestEntry } from '../../asset-manifest';
+import { EventType } from '../../progress';
+import type { IAssetHandler, IHandlerHost, IHandlerOptions, VerificationResult } from '../asset-handler';
+import type { Docker, DockerRegistryOptions } from '../docker';
+import { replaceAwsPlaceholders } from '../placeholders';
+import { missingPlatforms } from '../platforms';
+import { obtainRegistryCredentials, RegistryClient, registryRepository } from '../registry';
+
+interface RegistryImageAssetHandlerInit {
+  readonly registry: OciRegistry;
+  readonly registryHost: string;
+  readonly imageUri: string;
+  readonly destinationAlreadyExists: boolean;
+}
+
+/**
+ * Publishes container images to a generic OCI registry instead of ECR
+ */
+export class RegistryImageAssetHandler implements IAssetHandler {
+  private init?: RegistryImageAssetHandlerInit;
+
+  constructor(
+    private readonly workDir: string,
+    private readonly asset: DockerImageManifestEntry,
+    private readonly host: IHandlerHost,
+    private readonly options: IHandlerOptions,
+  ) {
+  }
+
+  public async build(): Promise<void> {
+    const initOnce = await this.initOnce();
+
+    if (initOnce.destinationAlreadyExists) {
+      return;
+    }
+    if (this.host.aborted) {
+      return;
+    }
+    if (this.host.dockerFactory.daemonless) {
+      // Built and pushed in one go when publishing
+      return;
+    }
+
+    const docker = await this.docker(initOnce);
+    await buildAndTag(docker, this.workDir, this.asset, this.host, initOnce.imageUri);
+  }
+
+  public async isPublished(): Promise<boolean> {
+    try {
+      const initOnce = await this.initOnce();
+      return initOnce.destinationAlreadyExists;
+    } catch (e: any) {
+      this.host.emitMessage(EventType.DEBUG, `${e.message}`);
+    }
+    return false;
+  }
+
+  public async publish(): Promise<void> {
+    const initOnce = await this.initOnce();
+
+    if (initOnce.destinationAlreadyExists) {
+      return;
+    }
+    if (this.host.aborted) {
+      return;
+    }
+
+    if (this.host.dockerFactory.daemonless) {
+      const builder = await this.host.dockerFactory.forDaemonlessRegistryPush(this.registryOptions(initOnce));
+      await buildAndPushWithoutDaemon(builder, this.workDir, this.asset, this.host, initOnce.imageUri);
+      return;
+    }
+
+    const docker = await this.docker(initOnce);
+    await pushImages(docker, this.asset, this.host, initOnce.imageUri);
+  }
+
+  public async verify(): Promise<VerificationResult> {
+    const missingSource = await verifyImageSource(this.workDir, this.asset);
+    if (missingSource) {
+      return missingSource;
+    }
+
+    const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
+    const repository = registryRepository(destination.registry!, destination.repositoryName);
+    const imageUri = `${repository.host}/${repository.name}:${destination.imageTag}`;
+
+    const credentials = await obtainRegistryCredentials(repository.host, destination.registry!.credentialHelper, this.host.emitMessage);
+    const client = new RegistryClient(repository, credentials);
+
+    this.host.emitMessage(EventType.CHECK, `Check ${imageUri}`);
+    const manifest = await client.getManifest(destination.imageTag);
+
+    return verifyPublishedImage(this.host, this.options, this.asset, imageUri, manifest ? {
+      digest: manifest.digest,
+      manifest: async () => manifest.body,
+    } : undefined);
+  }
+
+  private docker(initOnce: RegistryImageAssetHandlerInit): Promise<Docker> {
+    return this.host.dockerFactory.forRegistry(this.registryOptions(initOnce));
+  }
+
+  private registryOptions(initOnce: RegistryImageAssetHandlerInit): DockerRegistryOptions {
+    return {
+      registryHost: initOnce.registryHost,
+      credentialHelper: initOnce.registry.credentialHelper,
+      eventEmitter: this.host.emitMessage,
+      subprocessOutputDestination: this.options.subprocessOutputDestination,
+    };
+  }
+
+  private async initOnce(): Promise<RegistryImageAssetHandlerInit> {
+    if (this.init) {
+      return this.init;
+    }
+
+    const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
+    const registry = destination.registry!;
+    const repository = registryRepository(registry, destination.repositoryName);
+    const imageUri = `${repository.host}/${repository.name}:${destination.imageTag}`;
+
+    const credentials = await obtainRegistryCredentials(repository.host, registry.credentialHelper, this.host.emitMessage);
+    const client = new RegistryClient(repository, credentials);
+
+    this.host.emitMessage(EventType.CHECK, `Check ${imageUri}`);
+    const destinationAlreadyExists = await this.imageExists(client, destination.imageTag, imageUri);
+    if (destinationAlreadyExists) {
+      this.host.emitMessage(EventType.FOUND, `Found ${imageUri}`);
+    }
+
+    this.init = {
+      registry,
+      registryHost: repository.host,
+      imageUri,
+      destinationAlreadyExists,
+    };
+
+    return this.init;
+  }
+
+  /**
+   * Check whether the image exists in the registry, with an image for every platform of a multi-platform asset
+   */
+  private async imageExists(client: RegistryClient, imageTag: string, imageUri: string): Promise<boolean> {
+    const platforms = assetPlatforms(this.asset);
+    if (!platforms) {
+      return client.imageExists(imageTag);
+    }
+
+    const manifest = await client.getManifest(imageTag);
+    const missing = manifest ? missingPlatforms(manifest.body, platforms) : platforms;
+    if (manifest && missing.length > 0) {
+      this.host.emitMessage(EventType.DEBUG, `${imageUri} is missing platforms: ${missing.join(', ')}`);
+    }
+    return missing.length === 0;
+  }
+}
@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { BuildOptions, DockerCacheOption } from './docker';
+import { cacheOptionToFlag } from './docker';
+import { obtainEcrCredentials } from './docker-credentials';
+import { dockerConfig } from './registry';
+import type { ShellOptions } from './shell';
+import { shell } from './shell';
+import type { IECRClient } from '../aws';
+import type { SubprocessOutputDestination } from './asset-handler';
+import type { EventEmitter } from '../progress';
+import { shellEventPublisherFromEventEmitter } from '../progress';
+import type { ImageBuilderType } from '../publishing';
+
+/**
+ * Builds container images without a Docker daemon
+ *
+ * There is no local image store to build into, so images are pushed to their
+ * destination as part of the build. Registry credentials are passed to the
+ * builder in a temporary Docker configuration file, which also contains the
+ * user's own Docker configuration.
+ */
+export abstract class DaemonlessImageBuilder {
+  /**
+   * Return the image builder of the given type
+   */
+  public static create(
+    type: Exclude<ImageBuilderType, 'docker'>,
+    eventEmitter: EventEmitter,
+    subprocessOutputDestination: SubprocessOutputDestination,
+  ): DaemonlessImageBuilder {
+    switch (type) {
+      case 'buildctl':
+        return new BuildKitImageBuilder(eventEmitter, subprocessOutputDestination);
+      case 'buildah':
+        return new BuildahImageBuilder(eventEmitter, subprocessOutputDestination);
+    }
+  }
+
+  private readonly auths: Record<string, { auth: string }> = {};
+  private readonly credHelpers: Record<string, string> = {};
+
+  /**
+   * Name of the executable of the builder
+   */
+  protected abstract readonly command: string;
+
+  constructor(
+    protected readonly eventEmitter: EventEmitter,
+    protected readonly subprocessOutputDestination: SubprocessOutputDestination,
+  ) {
+  }
+
+  /**
+   * Build an image and push it to the image URI given as its tag
+   */
+  public abstract buildAndPush(options: BuildOptions): Promise<void>;
+
+  /**
+   * Get credentials from ECR and use them for the ECR registry
+   */
+  public async login(ecr: IECRClient) {
+    const credentials = await obtainEcrCredentials(ecr, this.eventEmitter);
+    const host = credentials.endpoint.replace(/^https?:\/\/|\/$/g, '');
+    this.auths[host] = { auth: Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64') };
+  }
+
+  /**
+   * Use the given credential helper for each domain
+   */
+  public configureCredentialHelpers(credHelpers: Record<string, string>) {
+    Object.assign(this.credHelpers, credHelpers);
+  }
+
+  /**
+   * Run the given function with the path of a Docker configuration file containing the credentials
+   *
+   * The path is undefined if no credentials were configured, in which case the builder uses
+   * the user's own configuration. The file is removed afterwards, since it contains secrets.
+   */
+  protected async withConfigFile<A>(fn: (configFile: string | undefined) => Promise<A>): Promise<A> {
+    if (Object.keys(this.auths).length === 0 && Object.keys(this.credHelpers).length === 0) {
+      return fn(undefined);
+    }
+
+    const userConfig = dockerConfig();
+    const config = {
+      ...userConfig,
+      auths: { ...userConfig.auths, ...this.auths },
+      credHelpers: { ...userConfig.credHelpers, ...this.credHelpers },
+      // A credentials store takes precedence over 'auths', which would hide the ECR credentials
+      credsStore: Object.keys(this.auths).length > 0 ? undefined : userConfig.credsStore,
+    };
+
+    const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cdkImageBuilderConfig'));
+    try {
+      const configFile = path.join(configDir, 'config.json');
+      fs.writeFileSync(configFile, JSON.stringify(config), { encoding: 'utf-8', mode: 0o600 });
+      return await fn(configFile);
+    } finally {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    }
+  }
+
+  protected async execute(args: string[], options: Omit<ShellOptions, 'shellEventPublisher'> = {}) {
+    const pathToCdkAssets = path.resolve(__dirname, '..', '..', 'bin');
+
+    try {
+      await shell([this.command, ...args], {
+        subprocessOutputDestination: this.subprocessOutputDestination,
+        ...options,
+        shellEventPublisher: shellEventPublisherFromEventEmitter(this.eventEmitter),
+        env: {
+          ...process.env,
+          ...options.env,
+          // Makes docker-credential-cdk-assets available to the builder
+          PATH: `${pathToCdkAssets}${path.delimiter}${options.env?.PATH ?? process.env.PATH}`,
+        },
+      });
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        throw new Error(
+          `Unable to execute '${this.command}' in order to build a container asset. Please install '${this.command}' and try again.`,
+        );
+      }
+      throw e;
+    }
+  }
+}
+
+/**
+ * Builds images with the BuildKit client `buildctl`
+ *
+ * The BuildKit daemon to use is configured with the `BUILDKIT_HOST` environment
+ * variable, as usual for `buildctl`.
+ */
+class BuildKitImageBuilder extends DaemonlessImageBuilder {
+  protected readonly command = 'buildctl';
+
+  public async buildAndPush(options: BuildOptions): Promise<void> {
+    const file = options.file ?? 'Dockerfile';
+
+    const buildCommand = [
+      'build',
+      '--frontend',
+      'dockerfile.v0',
+      '--local',
+      `context=${options.directory}`,
+      '--local',
+      `dockerfile=${path.resolve(options.directory, path.dirname(file))}`,
+      '--opt',
+      `filename=${path.basename(file)}`,
+      ...Object.entries(options.buildArgs ?? {}).flatMap(([k, v]) => ['--opt', `build-arg:${k}=${v}`]),
+      ...Object.entries(options.buildSecrets ?? {}).flatMap(([k, v]) => ['--secret', `id=${k},${v}`]),
+      ...(options.buildSsh ? ['--ssh', options.buildSsh] : []),
+      ...(options.target ? ['--opt', `target=${options.target}`] : []),
+      ...(options.networkMode && options.networkMode !== 'default' ? ['--opt', `force-network-mode=${options.networkMode}`] : []),
+      ...(options.platform ? ['--opt', `platform=${options.platform}`] : []),
+      ...(options.cacheFrom ?? []).flatMap((cacheFrom) => ['--import-cache', cacheOptionToFlag(cacheFrom)]),
+      ...(options.cacheTo ? ['--export-cache', cacheOptionToFlag(options.cacheTo)] : []),
+      ...(options.cacheDisabled ? ['--no-cache'] : []),
+      '--output',
+      `type=image,name=${options.tag},push=true`,
+      ...(options.outputs ?? []).flatMap((output) => ['--output', output]),
+    ];
+
+    await this.withConfigFile((configFile) => this.execute(buildCommand, {
+      cwd: options.directory,
+      env: configFile ? { DOCKER_CONFIG: path.dirname(configFile) } : {},
+    }));
+  }
+}
+
+/**
+ * Builds images with `buildah`
+ */
+class BuildahImageBuilder extends DaemonlessImageBuilder {
+  protected readonly command = 'buildah';
+
+  public async buildAndPush(options: BuildOptions): Promise<void> {
+    // buildah caches layers in a repository, rather than taking cache options
+    const cacheArgs = [
+      ...(options.cacheFrom ?? []).flatMap((cacheFrom) => ['--cache-from', cacheRepository(cacheFrom)]),
+      ...(options.cacheTo ? ['--cache-to', cacheRepository(options.cacheTo)] : []),
+    ];
+
+    // Images for multiple platforms are collected in a manifest list rather than tagged
+    const multiPlatform = options.platform?.includes(',') ?? false;
+
+    await this.withConfigFile(async (configFile) => {
+      const authArgs = configFile ? ['--authfile', configFile] : [];
+
+      await this.execute([
+        'build',
+        ...authArgs,
+        ...Object.entries(options.buildArgs ?? {}).flatMap(([k, v]) => ['--build-arg', `${k}=${v}`]),
+        ...Object.entries(options.buildSecrets ?? {}).flatMap(([k, v]) => ['--secret', `id=${k},${v}`]),
+        ...(options.buildSsh ? ['--ssh', options.buildSsh] : []),
+        multiPlatform ? '--manifest' : '--tag',
+        options.tag,
+        ...(options.target ? ['--target', options.target] : []),
+        ...(options.file ? ['--file', options.file] : []),
+        ...(options.networkMode && options.networkMode !== 'default' ? ['--network', options.networkMode] : []),
+        ...(options.platform ? ['--platform', options.platform] : []),
+        ...(options.outputs ?? []).map((output) => `--output=${output}`),
+        ...(cacheArgs.length > 0 ? ['--layers', ...cacheArgs] : []),
+        ...(options.cacheDisabled ? ['--no-cache'] : []),
+        '.',
+      ], {
+        cwd: options.directory,
+      });
+
+      await this.execute(multiPlatform
+        ? ['manifest', 'push', '--all', ...authArgs, options.tag, `docker://${options.tag}`]
+        : ['push', ...authArgs, options.tag]);
+    });
+  }
+}
+
+/**
+ * Return the repository a registry build cache is stored in
+ *
+ * buildah tags the cached layers itself, so a tag in the cache reference is dropped.
+ */
+function cacheRepository(option: DockerCacheOption): string {
+  if (option.type !== 'registry' || !option.params?.ref) {
+    throw new Error(`buildah only supports build caches of type 'registry' with a 'ref', got: ${cacheOptionToFlag(option)}`);
+  }
+  return option.params.ref.replace(/:[^:/]*$/, '');
+}
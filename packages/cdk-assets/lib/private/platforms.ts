@@ -0,0 +1,33 @@
+/**
+ * Return the image reference for a single platform of a multi-platform image
+ *
+ * The platform is appended to the tag, so `repo:tag` for `linux/arm64` becomes `repo:tag-linux-arm64`.
+ */
+export function platformTag(imageRef: string, platform: string): string {
+  return `${imageRef}-${platform.replace(/[^a-zA-Z0-9_.-]/g, '-')}`;
+}
+
+/**
+ * Return the platforms that an image index (manifest list) does not have an image for
+ *
+ * A manifest that is not an index is missing all platforms. A platform without a
+ * variant, like `linux/arm64`, is present if the index has an image for any variant.
+ */
+export function missingPlatforms(manifest: string, platforms: string[]): string[] {
+  const present: ManifestPlatform[] = (JSON.parse(manifest).manifests ?? [])
+    .map((m: { platform?: ManifestPlatform }) => m.platform)
+    .filter((p: ManifestPlatform | undefined) => p !== undefined);
+
+  return platforms.filter((platform) => {
+    const [os, architecture, variant] = platform.split('/');
+    return !present.some((p) =>
+      p.os === os && p.architecture === architecture && (variant === undefined || p.variant === variant),
+    );
+  });
+}
+
+interface ManifestPlatform {
+  readonly os: string;
+  readonly architecture: string;
+  readonly variant?: string;
+}
@@ -0,0 +1,309 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import type { OciRegistry } from '@aws-cdk/cloud-assembly-schema';
+import type { DockerCredentials } from './docker-credentials';
+import { shell } from './shell';
+import type { EventEmitter } from '../progress';
+import { EventType, shellEventPublisherFromEventEmitter } from '../progress';
+
+/**
+ * Media types of image manifests and manifest lists we accept from a registry
+ */
+export const MANIFEST_MEDIA_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+];
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * A repository in an OCI registry
+ */
+export interface RegistryRepository {
+  /**
+   * Base URL of the registry HTTP API
+   */
+  readonly apiUrl: string;
+
+  /**
+   * Host (and port) of the registry, as used in image references
+   */
+  readonly host: string;
+
+  /**
+   * Full name of the repository in the registry
+   */
+  readonly name: string;
+}
+
+/**
+ * Determine the repository in a registry from a destination
+ */
+export function registryRepository(registry: OciRegistry, repositoryName: string): RegistryRepository {
+  let url = registry.url;
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    const host = url.split('/')[0];
+    url = `${isLocalhost(host) ? 'http' : 'https'}://${url}`;
+  }
+
+  const parsed = new URL(url);
+  const prefix = parsed.pathname.replace(/^\/+|\/+$/g, '');
+  return {
+    apiUrl: `${parsed.protocol}//${parsed.host}`,
+    host: parsed.host,
+    name: prefix ? `${prefix}/${repositoryName}` : repositoryName,
+  };
+}
+
+function isLocalhost(host: string) {
+  const hostname = host.replace(/:\d+$/, '');
+  return ['localhost', '127.0.0.1', '[::1]'].includes(hostname);
+}
+
+/**
+ * Obtain credentials for a registry
+ *
+ * Uses the given credential helper, or otherwise the credential helper or stored
+ * credentials for the registry from the Docker configuration (as set up by `docker login`).
+ * Returns undefined if there are no credentials, in which case the registry is accessed anonymously.
+ */
+export async function obtainRegistryCredentials(
+  host: string,
+  credentialHelper: string | undefined,
+  eventEmitter: EventEmitter,
+): Promise<DockerCredentials | undefined> {
+  if (credentialHelper) {
+    return credentialsFromHelper(credentialHelper, host, eventEmitter);
+  }
+
+  const config = dockerConfig();
+  const configuredHelper = config.credHelpers?.[host] ?? config.credsStore;
+  if (configuredHelper) {
+    try {
+      return await credentialsFromHelper(configuredHelper, host, eventEmitter);
+    } catch (e: any) {
+      // The helper from the Docker configuration doesn't have to know this registry
+      eventEmitter(EventType.DEBUG, `No credentials for ${host} from credential helper '${configuredHelper}': ${e.message}`);
+    }
+  }
+
+  const auth = config.auths?.[host]?.auth;
+  if (auth) {
+    const decoded = Buffer.from(auth, 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+    return { Username: decoded.slice(0, separator), Secret: decoded.slice(separator + 1) };
+  }
+
+  return undefined;
+}
+
+async function credentialsFromHelper(helper: string, host: string, eventEmitter: EventEmitter): Promise<DockerCredentials> {
+  eventEmitter(EventType.DEBUG, `Fetching credentials for ${host} from docker-credential-${helper}`);
+  const output = await shell([`docker-credential-${helper}`, 'get'], {
+    input: host,
+    // The output contains the secret
+    subprocessOutputDestination: 'ignore',
+    shellEventPublisher: shellEventPublisherFromEventEmitter(eventEmitter),
+  });
+
+  const credentials = JSON.parse(output);
+  return { Username: credentials.Username, Secret: credentials.Secret };
+}
+
+export interface DockerConfig {
+  readonly auths?: Record<string, { readonly auth?: string }>;
+  readonly credHelpers?: Record<string, string>;
+  readonly credsStore?: string;
+}
+
+/**
+ * Read the user's Docker configuration, as written by `docker login`
+ */
+export function dockerConfig(): DockerConfig {
+  const configDir = process.env.DOCKER_CONFIG ?? path.join(os.homedir(), '.docker');
+  try {
+    return JSON.parse(fs.readFileSync(path.join(configDir, 'config.json'), { encoding: 'utf-8' }));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * An image manifest (or image index) in a registry
+ */
+export interface RegistryManifest {
+  /**
+   * The manifest document
+   */
+  readonly body: string;
+
+  /**
+   * Digest of the manifest, which identifies the image
+   */
+  readonly digest: string;
+}
+
+/**
+ * Client for the HTTP API of an OCI registry
+ *
+ * Authenticates with Basic authentication, or with a token from the token
+ * service the registry refers to.
+ *
+ * @see https://github.com/opencontainers/distribution-spec/blob/main/spec.md
+ */
+export class RegistryClient {
+  private authorization?: string;
+
+  constructor(
+    private readonly repository: RegistryRepository,
+    private readonly credentials?: DockerCredentials,
+  ) {
+  }
+
+  /**
+   * Whether an image with the given tag exists in the repository
+   */
+  public async imageExists(tag: string): Promise<boolean> {
+    const response = await this.request('HEAD', `manifests/${encodeURIComponent(tag)}`, {
+      Accept: MANIFEST_MEDIA_TYPES.join(', '),
+    });
+
+    switch (response.statusCode) {
+      case 200:
+        return true;
+      case 404:
+        return false;
+      default:
+        throw this.unexpectedResponse(tag, response);
+    }
+  }
+
+  /**
+   * Return the manifest of the image with the given tag, or undefined if it doesn't exist
+   */
+  public async getManifest(tag: string): Promise<RegistryManifest | undefined> {
+    const response = await this.request('GET', `manifests/${encodeURIComponent(tag)}`, {
+      Accept: MANIFEST_MEDIA_TYPES.join(', '),
+    });
+
+    switch (response.statusCode) {
+      case 200:
+        return {
+          body: response.body,
+          // The digest of a manifest is the digest of its content, if the registry doesn't report it
+          digest: firstHeader(response.headers['docker-content-digest'])
+            ?? `sha256:${crypto.createHash('sha256').update(response.body).digest('hex')}`,
+        };
+      case 404:
+        return undefined;
+      default:
+        throw this.unexpectedResponse(tag, response);
+    }
+  }
+
+  /**
+   * Make a request for a path in the repository, authenticating if the registry asks for it
+   */
+  private async request(method: string, repositoryPath: string, headers: Record<string, string>): Promise<HttpResponse> {
+    const url = `${this.repository.apiUrl}/v2/${this.repository.name}/${repositoryPath}`;
+
+    let response = await httpRequest(method, url, this.withAuthorization(headers));
+    if (response.statusCode === 401) {
+      this.authorization = await this.authenticate(response.headers['www-authenticate']);
+      response = await httpRequest(method, url, this.withAuthorization(headers));
+    }
+    return response;
+  }
+
+  private unexpectedResponse(tag: string, response: HttpResponse) {
+    return new Error(`Unexpected response from registry ${this.repository.host} for ${this.repository.name}:${tag}: ${response.statusCode}`);
+  }
+
+  private withAuthorization(headers: Record<string, string>) {
+    return this.authorization ? { ...headers, Authorization: this.authorization } : headers;
+  }
+
+  /**
+   * Return the Authorization header to answer an authentication challenge with
+   */
+  private async authenticate(challenge: string | string[] | undefined): Promise<string | undefined> {
+    const [scheme, params] = parseChallenge(firstHeader(challenge));
+
+    if (scheme === 'bearer' && params.realm) {
+      const tokenUrl = new URL(params.realm);
+      if (params.service) {
+        tokenUrl.searchParams.set('service', params.service);
+      }
+      tokenUrl.searchParams.set('scope', params.scope ?? `repository:${this.repository.name}:pull`);
+
+      const response = await httpRequest('GET', tokenUrl.toString(), this.basicAuthorization());
+      if (response.statusCode !== 200) {
+        throw new Error(`Could not obtain a token for registry ${this.repository.host}: ${response.statusCode}`);
+      }
+      const body = JSON.parse(response.body);
+      return `Bearer ${body.token ?? body.access_token}`;
+    }
+
+    return this.basicAuthorization().Authorization;
+  }
+
+  private basicAuthorization(): Record<string, string> {
+    if (!this.credentials) {
+      return {};
+    }
+    const encoded = Buffer.from(`${this.credentials.Username}:${this.credentials.Secret}`).toString('base64');
+    return { Authorization: `Basic ${encoded}` };
+  }
+}
+
+function firstHeader(header: string | string[] | undefined): string | undefined {
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Parse a WWW-Authenticate header into the lowercase scheme and its parameters
+ */
+function parseChallenge(header: string | undefined): [string, Record<string, string>] {
+  if (!header) {
+    return ['', {}];
+  }
+
+  const [scheme, ...rest] = header.trim().split(' ');
+  const params: Record<string, string> = {};
+  for (const match of rest.join(' ').matchAll(/(\w+)="([^"]*)"/g)) {
+    params[match[1]] = match[2];
+  }
+  return [scheme.toLowerCase(), params];
+}
+
+interface HttpResponse {
+  readonly statusCode: number;
+  readonly headers: http.IncomingHttpHeaders;
+  readonly body: string;
+}
+
+function httpRequest(method: string, url: string, headers: Record<string, string>): Promise<HttpResponse> {
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, { method, headers, timeout: REQUEST_TIMEOUT_MS }, (res) => {
+      const chunks = new Array<Buffer>();
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => resolve({
+        statusCode: res.statusCode ?? 0,
+        headers: res.headers,
+        body: Buffer.concat(chunks).toString('utf-8'),
+      }));
+      res.on('error', reject);
+    });
+    req.on('timeout', () => req.destroy(new Error(`Request to ${url} timed out`)));
+    req.on('error', reject);
+    req.end();
+  });
+}
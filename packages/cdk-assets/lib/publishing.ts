@@ -1,5 +1,6 @@
 import type { AssetManifest, IManifestEntry } from './asset-manifest';
 import type { IAws } from './aws';
+import { AssetCache } from './private/asset-cache';
 import type {
   IAssetHandler,
   IHandlerHost,
@@ -64,6 +65,57 @@ export interface AssetPublishingOptions {
    * @default 'stdio'
    */
   subprocessOutputDestination?: SubprocessOutputDestination;
+
+  /**
+   * Persistent cache for built assets, shared between runs
+   *
+   * @default - Configured by the `CDK_ASSETS_CACHE_DIR` and `CDK_ASSETS_CACHE_MAX_SIZE_MB`
+   * environment variables, no cache if those are not set
+   */
+  readonly assetCache?: AssetCacheOptions;
+
+  /**
+   * The tool to build container images with
+   *
+   * @default - The `CDK_ASSETS_IMAGE_BUILDER` environment variable, or 'docker'
+   */
+  readonly imageBuilder?: ImageBuilderType;
+}
+
+/**
+ * Tools that container images can be built with
+ *
+ * - `docker`: the `docker` command (or the command in `CDK_DOCKER`), which requires a Docker daemon
+ * - `buildctl`: the BuildKit client, which builds on the BuildKit daemon in `BUILDKIT_HOST`
+ * - `buildah`: Buildah, which builds without any daemon
+ *
+ * Images built with `buildctl` or `buildah` are pushed to their destination
+ * directly, without being stored locally.
+ */
+export type ImageBuilderType = 'docker' | 'buildctl' | 'buildah';
+
+/**
+ * Options for the persistent asset cache
+ *
+ * The cache stores zip archives of file assets and tarballs of Docker image assets,
+ * keyed by asset hash, so that they don't have to be built again in later runs.
+ */
+export interface AssetCacheOptions {
+  /**
+   * Directory to store cached assets in
+   *
+   * @default - The `CDK_ASSETS_CACHE_DIR` environment variable
+   */
+  readonly directory?: string;
+
+  /**
+   * Maximum total size of the cache in megabytes
+   *
+   * When the cache grows larger, the least recently used assets are removed.
+   *
+   * @default - The `CDK_ASSETS_CACHE_MAX_SIZE_MB` environment variable, or 10240 (10 GiB)
+   */
+  readonly maxSizeMb?: number;
 }
 
 /**
@@ -81,6 +133,58 @@ export interface FailedAsset {
   readonly error: Error;
 }
 
+/**
+ * Outcome of verifying a published asset
+ *
+ * - `ok`: the destination exists, with content matching the source
+ * - `unverified`: the destination exists, but its content could not be compared with the source
+ * - `missing-source`: the source of the asset does not exist
+ * - `missing-destination`: the asset has not been published to its destination
+ * - `drift`: the destination exists, but its content does not match the source
+ * - `error`: the asset could not be verified
+ */
+export type AssetVerificationStatus =
+  | 'ok'
+  | 'unverified'
+  | 'missing-source'
+  | 'missing-destination'
+  | 'drift'
+  | 'error';
+
+/**
+ * The result of verifying a published asset
+ */
+export interface AssetVerification {
+  /**
+   * The asset that was verified
+   */
+  readonly asset: IManifestEntry;
+
+  /**
+   * The outcome of the verification
+   */
+  readonly status: AssetVerificationStatus;
+
+  /**
+   * Description of the outcome
+   */
+  readonly message: string;
+
+  /**
+   * Checksum (for files) or digest (for images) of the asset built from its source
+   *
+   * @default - Could not be determined
+   */
+  readonly sourceChecksum?: string;
+
+  /**
+   * Checksum (for files) or digest (for images) of the asset at its destination
+   *
+   * @default - Could not be determined
+   */
+  readonly destinationChecksum?: string;
+}
+
 export class AssetPublishing implements IPublishProgress {
   /**
    * The message for the IPublishProgress interface
@@ -122,7 +226,8 @@ export class AssetPublishing implements IPublishProgress {
       emitMessage(t, m) {
         self.progressEvent(t, m);
       },
-      dockerFactory: new DockerFactory(),
+      dockerFactory: new DockerFactory({ imageBuilder: options.imageBuilder }),
+      assetCache: AssetCache.fromOptions(options.assetCache),
     };
   }
 
@@ -219,6 +324,20 @@ export class AssetPublishing implements IPublishProgress {
     return handler.isPublished();
   }
 
+  /**
+   * Verify that a single asset is published, with content matching its source
+   *
+   * Packages file assets to compare them with their destination, but does not
+   * build container images.
+   */
+  public async verifyEntry(asset: IManifestEntry): Promise<AssetVerification> {
+    try {
+      return { asset, ...(await this.assetHandler(asset).verify()) };
+    } catch (e: any) {
+      return { asset, status: 'error', message: e.message };
+    }
+  }
+
   /**
    * publish an asset (used by 'publish()')
    * @param asset The asset to publish
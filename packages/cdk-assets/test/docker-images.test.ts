@@ -6,6 +6,7 @@ import * as fs from 'fs';
 import { Manifest } from '@aws-cdk/cloud-assembly-schema';
 import type { GetAuthorizationTokenResponse } from '@aws-sdk/client-ecr';
 import {
+  BatchGetImageCommand,
   DescribeImagesCommand,
   DescribeRepositoriesCommand,
   GetAuthorizationTokenCommand,
@@ -210,6 +211,25 @@ beforeEach(() => {
         },
       },
     }),
+    '/platforms/cdk.out/assets.json': JSON.stringify({
+      version: Manifest.version(),
+      dockerImages: {
+        theAsset: {
+          source: {
+            directory: 'dockerdir',
+            platforms: ['linux/amd64', 'linux/arm64'],
+          },
+          destinations: {
+            theDestination: {
+              region: 'us-north-50',
+              assumeRoleArn: 'arn:aws:role',
+              repositoryName: 'repo',
+              imageTag: 'abcdef',
+            },
+          },
+        },
+      },
+    }),
     '/cache-from-multiple/cdk.out/assets.json': JSON.stringify({
       version: Manifest.version(),
       dockerImages: {
@@ -275,6 +295,7 @@ beforeEach(() => {
       },
     }),
     '/platform-arm64/cdk.out/dockerdir/Dockerfile': 'FROM scratch',
+    '/platforms/cdk.out/dockerdir/Dockerfile': 'FROM scratch',
   });
   aws = new MockAws();
   mockEcr.on(DescribeImagesCommand).rejects(err);
@@ -287,6 +308,7 @@ beforeEach(() => {
 
 afterEach(() => {
   mockfs.restore();
+  jest.restoreAllMocks();
 });
 
 test('logging in twice for two repository domains (containing account id & region)', async () => {
@@ -610,6 +632,55 @@ describe('with a complete manifest', () => {
     expectAllSpawns();
     expect(true).toBeTruthy(); // Expect no exception, satisfy linter
   });
+
+  test('built image is saved to the asset cache', async () => {
+    const assetCache = { directory: mockfs.path('/asset-cache') };
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), { aws, assetCache });
+
+    const expectAllSpawns = mockSpawn(
+      {
+        commandLine: ['docker', 'login', '--username', 'user', '--password-stdin', 'proxy.com'],
+      },
+      { commandLine: ['docker', 'inspect', 'cdkasset-theasset'], exitCode: 1 },
+      {
+        commandLine: ['docker', 'build', '--tag', 'cdkasset-theasset', '.'],
+        cwd: absoluteDockerPath,
+      },
+      {
+        commandLine: ['docker', 'save', '--output'],
+        prefix: true,
+        sideEffect: (args) => fs.writeFileSync(args[2], 'IMAGE'),
+      },
+      { commandLine: ['docker', 'tag', 'cdkasset-theasset', '12345.amazonaws.com/repo:abcdef'] },
+      { commandLine: ['docker', 'push', '12345.amazonaws.com/repo:abcdef'] },
+    );
+
+    await pub.publish();
+
+    expectAllSpawns();
+    expect(fs.readdirSync(assetCache.directory)).toEqual(['theAsset.tar']);
+  });
+
+  test('image is loaded from the asset cache instead of built', async () => {
+    const assetCache = { directory: mockfs.path('/asset-cache') };
+    mockfs.write('/asset-cache/theAsset.tar', 'IMAGE');
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), { aws, assetCache });
+
+    const expectAllSpawns = mockSpawn(
+      {
+        commandLine: ['docker', 'login', '--username', 'user', '--password-stdin', 'proxy.com'],
+      },
+      { commandLine: ['docker', 'inspect', 'cdkasset-theasset'], exitCode: 1 },
+      { commandLine: ['docker', 'load', '--input', mockfs.path('/asset-cache/theAsset.tar')] },
+      { commandLine: ['docker', 'tag', 'cdkasset-theasset', '12345.amazonaws.com/repo:abcdef'] },
+      { commandLine: ['docker', 'push', '12345.amazonaws.com/repo:abcdef'] },
+    );
+
+    await pub.publish();
+
+    expectAllSpawns();
+    expect(true).toBeTruthy(); // Expect no exception, satisfy linter
+  });
 });
 
 describe('external assets', () => {
@@ -808,3 +879,280 @@ test('overriding the docker command', async () => {
   expectAllSpawns();
   expect(true).toBeTruthy(); // Expect no exception, satisfy linter
 });
+
+describe('with a daemonless image builder', () => {
+  beforeEach(() => {
+    process.env.DOCKER_CONFIG = mockfs.path('/docker-config');
+  });
+
+  afterEach(() => {
+    delete process.env.CDK_ASSETS_IMAGE_BUILDER;
+    delete process.env.DOCKER_CONFIG;
+  });
+
+  test('buildctl builds and pushes the image when publishing', async () => {
+    const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/cache/cdk.out')), {
+      aws,
+      imageBuilder: 'buildctl',
+    });
+
+    const expectAllSpawns = mockSpawn({
+      commandLine: [
+        'buildctl',
+        'build',
+        '--frontend',
+        'dockerfile.v0',
+        '--local',
+        `context=${mockfs.path('/cache/cdk.out/dockerdir')}`,
+        '--local',
+        `dockerfile=${mockfs.path('/cache/cdk.out/dockerdir')}`,
+        '--opt',
+        'filename=Dockerfile',
+        '--import-cache',
+        'type=registry,ref=abcdef',
+        '--export-cache',
+        'type=inline',
+        '--output',
+        'type=image,name=12345.amazonaws.com/repo:nopqr,push=true',
+      ],
+      cwd: '/cache/cdk.out/dockerdir',
+    });
+
+    await pub.publish();
+
+    expectAllSpawns();
+    expect(pub.hasFailures).toBe(false);
+  });
+
+  test('buildah gets the ECR credentials in an auth file', async () => {
+    process.env.CDK_ASSETS_IMAGE_BUILDER = 'buildah';
+    const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), { aws });
+
+    let authFile: any;
+    const expectAllSpawns = mockSpawn(
+      {
+        commandLine: ['buildah', 'build', '--authfile'],
+        prefix: true,
+        sideEffect: (args) => {
+          expect(args.slice(3)).toEqual(['--tag', '12345.amazonaws.com/repo:abcdef', '.']);
+          authFile = JSON.parse(fs.readFileSync(args[2], 'utf-8'));
+        },
+        cwd: absoluteDockerPath,
+      },
+      { commandLine: ['buildah', 'push', '--authfile'], prefix: true },
+    );
+
+    await pub.publish();
+
+    expectAllSpawns();
+    expect(authFile.auths).toEqual({ 'proxy.com': { auth: 'dXNlcjpwYXNz' } });
+  });
+
+  test('buildah only supports registry caches', async () => {
+    const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/cache/cdk.out')), {
+      aws,
+      imageBuilder: 'buildah',
+    });
+
+    await expect(pub.publish()).rejects.toThrow(/buildah only supports build caches of type 'registry'/);
+  });
+
+  test('nothing is built when only building', async () => {
+    const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), {
+      aws,
+      imageBuilder: 'buildctl',
+      publishAssets: false,
+    });
+
+    const expectAllSpawns = mockSpawn();
+
+    await pub.publish();
+
+    expectAllSpawns();
+  });
+
+  test('unknown image builders are rejected', () => {
+    process.env.CDK_ASSETS_IMAGE_BUILDER = 'kaniko';
+
+    expect(() => new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), { aws }))
+      .toThrow(/CDK_ASSETS_IMAGE_BUILDER should be one of docker, buildctl, buildah, got: kaniko/);
+  });
+});
+
+describe('with multiple platforms', () => {
+  let pub: AssetPublishing;
+  beforeEach(() => {
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/platforms/cdk.out')), { aws });
+  });
+
+  function imageIndex(...platforms: Array<{ os: string; architecture: string; variant?: string }>) {
+    return JSON.stringify({
+      schemaVersion: 2,
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      manifests: platforms.map((platform) => ({ platform })),
+    });
+  }
+
+  test('every platform is built and pushed, followed by a manifest list', async () => {
+    const expectAllSpawns = mockSpawn(
+      {
+        commandLine: ['docker', 'login', '--username', 'user', '--password-stdin', 'proxy.com'],
+      },
+      { commandLine: ['docker', 'inspect', 'cdkasset-theasset-linux-amd64'], exitCode: 1 },
+      {
+        commandLine: ['docker', 'build', '--tag', 'cdkasset-theasset-linux-amd64', '--platform', 'linux/amd64', '.'],
+        cwd: '/platforms/cdk.out/dockerdir',
+      },
+      { commandLine: ['docker', 'tag', 'cdkasset-theasset-linux-amd64', '12345.amazonaws.com/repo:abcdef-linux-amd64'] },
+      { commandLine: ['docker', 'inspect', 'cdkasset-theasset-linux-arm64'], exitCode: 1 },
+      {
+        commandLine: ['docker', 'build', '--tag', 'cdkasset-theasset-linux-arm64', '--platform', 'linux/arm64', '.'],
+        cwd: '/platforms/cdk.out/dockerdir',
+      },
+      { commandLine: ['docker', 'tag', 'cdkasset-theasset-linux-arm64', '12345.amazonaws.com/repo:abcdef-linux-arm64'] },
+      { commandLine: ['docker', 'push', '12345.amazonaws.com/repo:abcdef-linux-amd64'] },
+      { commandLine: ['docker', 'push', '12345.amazonaws.com/repo:abcdef-linux-arm64'] },
+      {
+        commandLine: [
+          'docker',
+          'manifest',
+          'create',
+          '--amend',
+          '12345.amazonaws.com/repo:abcdef',
+          '12345.amazonaws.com/repo:abcdef-linux-amd64',
+          '12345.amazonaws.com/repo:abcdef-linux-arm64',
+        ],
+      },
+      { commandLine: ['docker', 'manifest', 'push', '--purge', '12345.amazonaws.com/repo:abcdef'] },
+    );
+
+    await pub.publish();
+
+    expectAllSpawns();
+    expect(pub.hasFailures).toBe(false);
+  });
+
+  test('image is published if its index has every platform', async () => {
+    mockEcr.on(DescribeImagesCommand).resolves({});
+    mockEcr.on(BatchGetImageCommand).resolves({
+      images: [{ imageManifest: imageIndex({ os: 'linux', architecture: 'amd64' }, { os: 'linux', architecture: 'arm64', variant: 'v8' }) }],
+    });
+
+    expect(await pub.isEntryPublished(AssetManifest.fromPath(mockfs.path('/platforms/cdk.out')).entries[0])).toBe(true);
+    expect(mockEcr).toHaveReceivedCommandWith(BatchGetImageCommand, {
+      repositoryName: 'repo',
+      imageIds: [{ imageTag: 'abcdef' }],
+    });
+  });
+
+  test('image is not published if its index is missing a platform', async () => {
+    mockEcr.on(DescribeImagesCommand).resolves({});
+    mockEcr.on(BatchGetImageCommand).resolves({
+      images: [{ imageManifest: imageIndex({ os: 'linux', architecture: 'amd64' }) }],
+    });
+
+    expect(await pub.isEntryPublished(AssetManifest.fromPath(mockfs.path('/platforms/cdk.out')).entries[0])).toBe(false);
+  });
+
+  test('platforms are built at once by daemonless image builders', async () => {
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/platforms/cdk.out')), {
+      aws,
+      imageBuilder: 'buildctl',
+    });
+
+    const expectAllSpawns = mockSpawn({
+      commandLine: ['buildctl', 'build'],
+      prefix: true,
+      sideEffect: (args) => {
+        expect(args).toContain('platform=linux/amd64,linux/arm64');
+        expect(args).toContain('type=image,name=12345.amazonaws.com/repo:abcdef,push=true');
+      },
+    });
+
+    await pub.publish();
+
+    expectAllSpawns();
+  });
+});
+
+describe('verify', () => {
+  const entry = (dir: string) => AssetManifest.fromPath(mockfs.path(dir)).entries[0];
+
+  let pub: AssetPublishing;
+  beforeEach(() => {
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), { aws });
+  });
+
+  test('image that the local image was pushed as is ok', async () => {
+    mockEcr.on(DescribeImagesCommand).resolves({ imageDetails: [{ imageDigest: 'sha256:1234' }] });
+    const expectAllSpawns = mockSpawn(
+      { commandLine: ['docker', 'inspect', 'cdkasset-theasset'] },
+      {
+        commandLine: ['docker', 'inspect', '--format', '{{json .RepoDigests}}', 'cdkasset-theasset'],
+        stdout: JSON.stringify(['other.amazonaws.com/repo@sha256:5678', '12345.amazonaws.com/repo@sha256:1234']),
+      },
+    );
+
+    const verification = await pub.verifyEntry(entry('/simple/cdk.out'));
+
+    expectAllSpawns();
+    expect(verification).toEqual(expect.objectContaining({
+      status: 'ok',
+      sourceChecksum: 'sha256:1234',
+      destinationChecksum: 'sha256:1234',
+    }));
+    expect(mockEcr).toHaveReceivedCommandWith(DescribeImagesCommand, {
+      repositoryName: 'repo',
+      imageIds: [{ imageTag: 'abcdef' }],
+    });
+  });
+
+  test('image that the local image was not pushed as has drifted', async () => {
+    mockEcr.on(DescribeImagesCommand).resolves({ imageDetails: [{ imageDigest: 'sha256:1234' }] });
+    mockSpawn(
+      { commandLine: ['docker', 'inspect', 'cdkasset-theasset'] },
+      {
+        commandLine: ['docker', 'inspect', '--format', '{{json .RepoDigests}}', 'cdkasset-theasset'],
+        stdout: JSON.stringify(['12345.amazonaws.com/repo@sha256:5678']),
+      },
+    );
+
+    expect(await pub.verifyEntry(entry('/simple/cdk.out'))).toEqual(expect.objectContaining({
+      status: 'drift',
+      sourceChecksum: 'sha256:5678',
+      destinationChecksum: 'sha256:1234',
+    }));
+  });
+
+  test('image without a local image is unverified', async () => {
+    mockEcr.on(DescribeImagesCommand).resolves({ imageDetails: [{ imageDigest: 'sha256:1234' }] });
+    mockSpawn({ commandLine: ['docker', 'inspect', 'cdkasset-theasset'], exitCode: 1 });
+
+    expect((await pub.verifyEntry(entry('/simple/cdk.out'))).status).toEqual('unverified');
+  });
+
+  test('missing image is reported', async () => {
+    mockEcr.on(DescribeImagesCommand).rejects(err);
+
+    expect((await pub.verifyEntry(entry('/simple/cdk.out'))).status).toEqual('missing-destination');
+  });
+
+  test('missing Dockerfile is reported', async () => {
+    fs.unlinkSync(mockfs.path('/simple/cdk.out/dockerdir/Dockerfile'));
+
+    expect((await pub.verifyEntry(entry('/simple/cdk.out'))).status).toEqual('missing-source');
+  });
+
+  test('multi-platform image missing a platform has drifted', async () => {
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/platforms/cdk.out')), { aws });
+    mockEcr.on(DescribeImagesCommand).resolves({ imageDetails: [{ imageDigest: 'sha256:1234' }] });
+    mockEcr.on(BatchGetImageCommand).resolves({
+      images: [{ imageManifest: JSON.stringify({ manifests: [{ platform: { os: 'linux', architecture: 'amd64' } }] }) }],
+    });
+
+    expect(await pub.verifyEntry(entry('/platforms/cdk.out'))).toEqual(expect.objectContaining({
+      status: 'drift',
+      message: '12345.amazonaws.com/repo:abcdef is missing platforms: linux/arm64',
+    }));
+  });
+});
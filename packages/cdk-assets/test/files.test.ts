@@ -1,10 +1,13 @@
 jest.mock('child_process');
 
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import 'aws-sdk-client-mock-jest';
 import { Manifest } from '@aws-cdk/cloud-assembly-schema';
 import {
   GetBucketEncryptionCommand,
   GetBucketLocationCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   PutObjectCommand,
   S3Client,
@@ -439,3 +442,67 @@ test('succeeds when bucket doesnt belong to us but doesnt contain account id - c
 
   await expect(pub.publish()).resolves.not.toThrow();
 });
+
+describe('verify', () => {
+  const checksum = crypto.createHash('sha256').update('FILE_CONTENTS').digest('base64');
+  const entry = () => AssetManifest.fromPath(mockfs.path('/simple/cdk.out')).entries[0];
+
+  let s3: ReturnType<typeof mockClient>;
+  let pub: AssetPublishing;
+  beforeEach(() => {
+    s3 = mockClient(S3Client);
+    s3.on(ListObjectsV2Command).resolves({ Contents: [{ Key: 'some_key' }] });
+    pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), { aws });
+  });
+
+  test('file matching its source is ok', async () => {
+    s3.on(HeadObjectCommand).resolves({ ChecksumSHA256: checksum });
+
+    const verification = await pub.verifyEntry(entry());
+
+    expect(verification).toEqual(expect.objectContaining({
+      status: 'ok',
+      sourceChecksum: checksum,
+      destinationChecksum: checksum,
+    }));
+    expect(s3).toHaveReceivedCommandWith(HeadObjectCommand, {
+      Bucket: 'some_bucket',
+      Key: 'some_key',
+      ChecksumMode: 'ENABLED',
+    });
+  });
+
+  test('file with different content has drifted', async () => {
+    s3.on(HeadObjectCommand).resolves({ ChecksumSHA256: 'c29tZXRoaW5nIGVsc2U=' });
+
+    expect((await pub.verifyEntry(entry())).status).toEqual('drift');
+  });
+
+  test('file without a checksum is unverified', async () => {
+    s3.on(HeadObjectCommand).resolves({ ETag: '"abc"' });
+
+    expect((await pub.verifyEntry(entry())).status).toEqual('unverified');
+  });
+
+  test('missing file is reported', async () => {
+    s3.on(ListObjectsV2Command).resolves({ Contents: undefined });
+
+    expect((await pub.verifyEntry(entry())).status).toEqual('missing-destination');
+    expect(s3).not.toHaveReceivedCommand(HeadObjectCommand);
+  });
+
+  test('missing source is reported', async () => {
+    fs.unlinkSync(mockfs.path('/simple/cdk.out/some_file'));
+
+    expect((await pub.verifyEntry(entry())).status).toEqual('missing-source');
+  });
+
+  test('errors are reported', async () => {
+    s3.on(ListObjectsV2Command).rejects(new Error('Access Denied'));
+
+    expect(await pub.verifyEntry(entry())).toEqual(expect.objectContaining({
+      status: 'error',
+      message: 'Access Denied',
+    }));
+  });
+});
@@ -16,6 +16,11 @@ export interface Invocation {
    * Only match a prefix of the command (don't care about the details of the arguments)
    */
   prefix?: boolean;
+
+  /**
+   * Simulate the effect of the command, called with its arguments
+   */
+  sideEffect?: (args: string[]) => void;
 }
 
 export function mockSpawn(...invocations: Invocation[]): () => void {
@@ -39,6 +44,8 @@ export function mockSpawn(...invocations: Invocation[]): () => void {
           expect(invocation.cwd).toEqual((options.cwd as string).slice(-invocation.cwd.length));
         }
 
+        invocation.sideEffect?.(args);
+
         const child: any = new events.EventEmitter();
         child.stdin = new events.EventEmitter();
         child.stdin.write = jest.fn();
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AssetCache } from '../../lib/private/asset-cache';
+import { EventType } from '../../lib/progress';
+
+let directory: string;
+let events: Array<[EventType, string]>;
+const emit = (type: EventType, m: string) => events.push([type, m]);
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-cache'));
+  events = [];
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+  delete process.env.CDK_ASSETS_CACHE_DIR;
+  delete process.env.CDK_ASSETS_CACHE_MAX_SIZE_MB;
+});
+
+test('lookup of a missing entry reports a miss', async () => {
+  const cache = new AssetCache(directory, 1);
+
+  expect(await cache.lookup('abc.zip', emit)).toBeUndefined();
+  expect(events).toEqual([[EventType.CACHED, `Asset cache miss ${path.join(directory, 'abc.zip')}`]]);
+});
+
+test('stored entries can be looked up', async () => {
+  const cache = new AssetCache(directory, 1);
+
+  await cache.store('abc.zip', async (file) => fs.promises.writeFile(file, 'contents'));
+  const entry = await cache.lookup('abc.zip', emit);
+
+  expect(entry).toEqual(path.join(directory, 'abc.zip'));
+  expect(fs.readFileSync(entry!, 'utf-8')).toEqual('contents');
+  expect(events).toEqual([[EventType.CACHED, `Asset cache hit ${entry}`]]);
+  expect(fs.readdirSync(directory)).toEqual(['abc.zip']);
+});
+
+test('failed writes leave no entry behind', async () => {
+  const cache = new AssetCache(directory, 1);
+
+  await expect(cache.store('abc.zip', async (file) => {
+    await fs.promises.writeFile(file, 'partial');
+    throw new Error('Boom');
+  })).rejects.toThrow(/Boom/);
+
+  expect(fs.readdirSync(directory)).toEqual([]);
+});
+
+test('least recently used entries are evicted when the cache is too large', async () => {
+  // 1 MiB fits two entries of 400 KiB
+  const cache = new AssetCache(directory, 1);
+  const contents = Buffer.alloc(400 * 1024);
+
+  await cache.store('first.zip', async (file) => fs.promises.writeFile(file, contents));
+  await cache.store('second.zip', async (file) => fs.promises.writeFile(file, contents));
+  ageEntry('first.zip', 20);
+  ageEntry('second.zip', 10);
+  await cache.lookup('first.zip', emit);
+  await cache.store('third.zip', async (file) => fs.promises.writeFile(file, contents));
+
+  expect(fs.readdirSync(directory).sort()).toEqual(['first.zip', 'third.zip']);
+});
+
+test('cache is configured from the environment if there are no options', () => {
+  process.env.CDK_ASSETS_CACHE_DIR = directory;
+  process.env.CDK_ASSETS_CACHE_MAX_SIZE_MB = '5';
+
+  expect(AssetCache.fromOptions()?.directory).toEqual(directory);
+  expect(AssetCache.fromOptions({ directory: path.join(directory, 'sub') })?.directory).toEqual(path.join(directory, 'sub'));
+});
+
+test('no cache without a directory', () => {
+  expect(AssetCache.fromOptions()).toBeUndefined();
+  expect(AssetCache.fromOptions({ maxSizeMb: 5 })).toBeUndefined();
+});
+
+test('invalid maximum size in the environment is rejected', () => {
+  process.env.CDK_ASSETS_CACHE_DIR = directory;
+  process.env.CDK_ASSETS_CACHE_MAX_SIZE_MB = 'lots';
+
+  expect(() => AssetCache.fromOptions()).toThrow(/CDK_ASSETS_CACHE_MAX_SIZE_MB/);
+});
+
+function ageEntry(name: string, seconds: number) {
+  const time = new Date(Date.now() - seconds * 1000);
+  fs.utimesSync(path.join(directory, name), time, time);
+}
@@ -0,0 +1,34 @@
+import * as crypto from 'crypto';
+import { s3Sha256Checksum } from '../../lib/private/checksums';
+import mockfs from '../mock-fs';
+
+const MIB = 1024 * 1024;
+
+afterEach(() => {
+  mockfs.restore();
+});
+
+function sha256(data: Buffer) {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+test('small file has the checksum of its content', async () => {
+  mockfs({ '/file': 'FILE_CONTENTS' });
+
+  expect(await s3Sha256Checksum(mockfs.path('/file'))).toEqual(sha256(Buffer.from('FILE_CONTENTS')).toString('base64'));
+});
+
+test('empty file has the checksum of no content', async () => {
+  mockfs({ '/file': '' });
+
+  expect(await s3Sha256Checksum(mockfs.path('/file'))).toEqual(sha256(Buffer.alloc(0)).toString('base64'));
+});
+
+test('large file has the checksum of the checksums of its parts', async () => {
+  const content = Buffer.alloc(6 * MIB, 'x');
+  mockfs({ '/file': content.toString() });
+
+  const parts = [content.subarray(0, 5 * MIB), content.subarray(5 * MIB)];
+  const expected = sha256(Buffer.concat(parts.map(sha256))).toString('base64');
+  expect(await s3Sha256Checksum(mockfs.path('/file'))).toEqual(`${expected}-2`);
+});
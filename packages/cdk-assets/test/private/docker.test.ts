@@ -8,11 +8,11 @@ type ShellExecuteMock = jest.SpyInstance<
 
 let docker: Docker;
 
-const makeShellExecuteMock = (fn: (params: string[]) => void): ShellExecuteMock =>
+const makeShellExecuteMock = (fn: (params: string[]) => string | void): ShellExecuteMock =>
   jest
     .spyOn<{ execute: Docker['execute'] }, 'execute'>(Docker.prototype as any, 'execute')
     .mockImplementation(
-      async (params: string[], _options?: Omit<ShellOptions, 'shellEventPublisher'>) => fn(params),
+      async (params: string[], _options?: Omit<ShellOptions, 'shellEventPublisher'>) => fn(params) ?? '',
     );
 
 afterEach(() => {
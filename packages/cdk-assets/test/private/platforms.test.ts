@@ -0,0 +1,27 @@
+import { missingPlatforms, platformTag } from '../../lib/private/platforms';
+
+test('platform is appended to the tag', () => {
+  expect(platformTag('123.amazonaws.com/repo:abcdef', 'linux/arm64/v8')).toEqual('123.amazonaws.com/repo:abcdef-linux-arm64-v8');
+});
+
+describe('missingPlatforms', () => {
+  const index = JSON.stringify({
+    manifests: [
+      { platform: { os: 'linux', architecture: 'amd64' } },
+      { platform: { os: 'linux', architecture: 'arm64', variant: 'v8' } },
+      { platform: { os: 'unknown', architecture: 'unknown' } },
+    ],
+  });
+
+  test('index with every platform', () => {
+    expect(missingPlatforms(index, ['linux/amd64', 'linux/arm64'])).toEqual([]);
+  });
+
+  test('platform variants must match if given', () => {
+    expect(missingPlatforms(index, ['linux/arm64/v8', 'linux/arm/v7'])).toEqual(['linux/arm/v7']);
+  });
+
+  test('single image manifest is missing every platform', () => {
+    expect(missingPlatforms(JSON.stringify({ layers: [] }), ['linux/amd64'])).toEqual(['linux/amd64']);
+  });
+});
@@ -0,0 +1,91 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { RegistryClient, registryRepository } from '../../lib/private/registry';
+
+describe('registryRepository', () => {
+  test.each([
+    ['https://harbor.example.com', 'https://harbor.example.com', 'harbor.example.com', 'repo'],
+    ['harbor.example.com', 'https://harbor.example.com', 'harbor.example.com', 'repo'],
+    ['localhost:5000', 'http://localhost:5000', 'localhost:5000', 'repo'],
+    ['https://artifactory.example.com/docker-local/', 'https://artifactory.example.com', 'artifactory.example.com', 'docker-local/repo'],
+  ])('%s', (url, apiUrl, host, name) => {
+    expect(registryRepository({ url }, 'repo')).toEqual({ apiUrl, host, name });
+  });
+});
+
+describe('RegistryClient', () => {
+  let server: http.Server;
+  let requests: http.IncomingMessage[];
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+  let apiUrl: string;
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((ok) => server.listen(0, '127.0.0.1', ok));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((ok) => server.close(ok));
+  });
+
+  test('image exists if the registry has its manifest', async () => {
+    handler = (req, res) => {
+      res.writeHead(req.url === '/v2/team/repo/manifests/abcdef' ? 200 : 404).end();
+    };
+    const client = new RegistryClient({ apiUrl, host: 'registry', name: 'team/repo' });
+
+    expect(await client.imageExists('abcdef')).toBe(true);
+    expect(await client.imageExists('ghijkl')).toBe(false);
+    expect(requests[0].method).toEqual('HEAD');
+    expect(requests[0].headers.accept).toContain('application/vnd.oci.image.index.v1+json');
+  });
+
+  test('authenticates with a token from the token service', async () => {
+    handler = (req, res) => {
+      if (req.url?.startsWith('/token')) {
+        const authorized = req.headers.authorization === `Basic ${Buffer.from('user:secret').toString('base64')}`;
+        res.writeHead(authorized ? 200 : 401).end(JSON.stringify({ token: 'TOKEN' }));
+      } else if (req.headers.authorization === 'Bearer TOKEN') {
+        res.writeHead(200).end();
+      } else {
+        res.writeHead(401, { 'WWW-Authenticate': `Bearer realm="${apiUrl}/token",service="registry"` }).end();
+      }
+    };
+    const client = new RegistryClient({ apiUrl, host: 'registry', name: 'repo' }, { Username: 'user', Secret: 'secret' });
+
+    expect(await client.imageExists('abcdef')).toBe(true);
+    expect(requests.map((r) => r.url)).toEqual([
+      '/v2/repo/manifests/abcdef',
+      '/token?service=registry&scope=repository%3Arepo%3Apull',
+      '/v2/repo/manifests/abcdef',
+    ]);
+  });
+
+  test('authenticates with Basic authentication', async () => {
+    handler = (req, res) => {
+      if (req.headers.authorization === `Basic ${Buffer.from('user:secret').toString('base64')}`) {
+        res.writeHead(404).end();
+      } else {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="Registry"' }).end();
+      }
+    };
+    const client = new RegistryClient({ apiUrl, host: 'registry', name: 'repo' }, { Username: 'user', Secret: 'secret' });
+
+    expect(await client.imageExists('abcdef')).toBe(false);
+    expect(requests).toHaveLength(2);
+  });
+
+  test('unexpected responses are errors', async () => {
+    handler = (_req, res) => {
+      res.writeHead(500).end();
+    };
+    const client = new RegistryClient({ apiUrl, host: 'registry', name: 'repo' });
+
+    await expect(client.imageExists('abcdef')).rejects.toThrow(/Unexpected response from registry registry for repo:abcdef: 500/);
+  });
+});
@@ -0,0 +1,228 @@
+jest.mock('child_process');
+
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Manifest } from '@aws-cdk/cloud-assembly-schema';
+import { MockAws } from './mock-aws';
+import { mockSpawn } from './mock-child_process';
+import mockfs from './mock-fs';
+import { AssetManifest, AssetPublishing } from '../lib';
+import * as dockercreds from '../lib/private/docker-credentials';
+
+let server: http.Server;
+let requests: http.IncomingMessage[];
+let existingTags: string[];
+let registryHost: string;
+
+beforeEach(async () => {
+  jest.resetAllMocks();
+  delete process.env.CDK_DOCKER;
+  process.env.DOCKER_CONFIG = mockfs.path('/docker-config');
+  jest.spyOn(dockercreds, 'cdkCredentialsConfig').mockReturnValue(undefined);
+
+  requests = [];
+  existingTags = [];
+  server = http.createServer((req, res) => {
+    requests.push(req);
+    const tag = req.url?.match(/^\/v2\/team\/repo\/manifests\/(.*)$/)?.[1];
+    res.writeHead(tag && existingTags.includes(tag) ? 200 : 404).end();
+  });
+  await new Promise<void>((ok) => server.listen(0, '127.0.0.1', ok));
+  registryHost = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  mockfs({
+    '/registry/cdk.out/assets.json': JSON.stringify({
+      version: Manifest.version(),
+      dockerImages: {
+        theAsset: {
+          source: {
+            directory: 'dockerdir',
+          },
+          destinations: {
+            theDestination: {
+              repositoryName: 'repo',
+              imageTag: 'abcdef',
+              registry: { url: `http://${registryHost}/team` },
+            },
+          },
+        },
+      },
+    }),
+    '/registry/cdk.out/dockerdir/Dockerfile': 'FROM scratch',
+  });
+});
+
+afterEach(async () => {
+  mockfs.restore();
+  jest.restoreAllMocks();
+  delete process.env.DOCKER_CONFIG;
+  await new Promise((ok) => server.close(ok));
+});
+
+test('image that exists in the registry is not built or pushed', async () => {
+  existingTags = ['abcdef'];
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), { aws: new MockAws() });
+
+  await pub.publish();
+
+  expect(pub.hasFailures).toBe(false);
+  expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual(['HEAD /v2/team/repo/manifests/abcdef']);
+});
+
+test('image is built and pushed to the registry without logging in to ECR', async () => {
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), { aws: new MockAws() });
+
+  const expectAllSpawns = mockSpawn(
+    { commandLine: ['docker', 'inspect', 'cdkasset-theasset'], exitCode: 1 },
+    { commandLine: ['docker', 'build', '--tag', 'cdkasset-theasset', '.'], cwd: 'dockerdir' },
+    { commandLine: ['docker', 'tag', 'cdkasset-theasset', `${registryHost}/team/repo:abcdef`] },
+    { commandLine: ['docker', 'push', `${registryHost}/team/repo:abcdef`] },
+  );
+
+  await pub.publish();
+
+  expectAllSpawns();
+});
+
+test('credentials for the registry come from the credential helper', async () => {
+  mockfs.write('/registry/cdk.out/assets.json', JSON.stringify({
+    version: Manifest.version(),
+    dockerImages: {
+      theAsset: {
+        source: { directory: 'dockerdir' },
+        destinations: {
+          theDestination: {
+            repositoryName: 'repo',
+            imageTag: 'abcdef',
+            registry: { url: `http://${registryHost}/team`, credentialHelper: 'harbor' },
+          },
+        },
+      },
+    },
+  }));
+  existingTags = ['abcdef'];
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), { aws: new MockAws() });
+
+  const expectAllSpawns = mockSpawn({
+    commandLine: ['docker-credential-harbor', 'get'],
+    stdout: JSON.stringify({ ServerURL: registryHost, Username: 'user', Secret: 'secret' }),
+  });
+
+  await pub.publish();
+
+  expectAllSpawns();
+  expect(pub.hasFailures).toBe(false);
+});
+
+test('credentials stored by docker login are used for the registry', async () => {
+  mockfs.write('/docker-config/config.json', JSON.stringify({
+    auths: { [registryHost]: { auth: Buffer.from('user:secret').toString('base64') } },
+  }));
+  let authorization: string | undefined;
+  server.removeAllListeners('request');
+  server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    authorization = req.headers.authorization;
+    res.writeHead(authorization ? 200 : 401, { 'WWW-Authenticate': 'Basic realm="Registry"' }).end();
+  });
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), { aws: new MockAws() });
+
+  await pub.publish();
+
+  expect(authorization).toEqual(`Basic ${Buffer.from('user:secret').toString('base64')}`);
+});
+
+test('daemonless image builders get the credential helper in their configuration', async () => {
+  mockfs.write('/registry/cdk.out/assets.json', JSON.stringify({
+    version: Manifest.version(),
+    dockerImages: {
+      theAsset: {
+        source: { directory: 'dockerdir' },
+        destinations: {
+          theDestination: {
+            repositoryName: 'repo',
+            imageTag: 'abcdef',
+            registry: { url: `http://${registryHost}/team`, credentialHelper: 'harbor' },
+          },
+        },
+      },
+    },
+  }));
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), {
+    aws: new MockAws(),
+    imageBuilder: 'buildah',
+  });
+
+  let authFile: any;
+  const expectAllSpawns = mockSpawn(
+    {
+      commandLine: ['docker-credential-harbor', 'get'],
+      stdout: JSON.stringify({ ServerURL: registryHost, Username: 'user', Secret: 'secret' }),
+    },
+    {
+      commandLine: ['buildah', 'build', '--authfile'],
+      prefix: true,
+      sideEffect: (args) => {
+        authFile = JSON.parse(fs.readFileSync(args[2], 'utf-8'));
+      },
+    },
+    { commandLine: ['buildah', 'push', '--authfile'], prefix: true },
+  );
+
+  await pub.publish();
+
+  expectAllSpawns();
+  expect(authFile.credHelpers).toEqual({ [registryHost]: 'harbor' });
+});
+
+test('multi-platform image is only published if its index has every platform', async () => {
+  mockfs.write('/registry/cdk.out/assets.json', JSON.stringify({
+    version: Manifest.version(),
+    dockerImages: {
+      theAsset: {
+        source: { directory: 'dockerdir', platforms: ['linux/amd64', 'linux/arm64'] },
+        destinations: {
+          theDestination: {
+            repositoryName: 'repo',
+            imageTag: 'abcdef',
+            registry: { url: `http://${registryHost}/team` },
+          },
+        },
+      },
+    },
+  }));
+  let platforms = [{ os: 'linux', architecture: 'amd64' }];
+  server.removeAllListeners('request');
+  server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    requests.push(req);
+    res.writeHead(200).end(JSON.stringify({ manifests: platforms.map((platform) => ({ platform })) }));
+  });
+  const entry = () => AssetManifest.fromPath(mockfs.path('/registry/cdk.out')).entries[0];
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), { aws: new MockAws() });
+
+  expect(await pub.isEntryPublished(entry())).toBe(false);
+  expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual(['GET /v2/team/repo/manifests/abcdef']);
+
+  platforms = [...platforms, { os: 'linux', architecture: 'arm64' }];
+  expect(await pub.isEntryPublished(entry())).toBe(true);
+});
+
+test('image in the registry is verified against the digest of its manifest', async () => {
+  server.removeAllListeners('request');
+  server.on('request', (_req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.writeHead(200, { 'Docker-Content-Digest': 'sha256:1234' }).end('{}');
+  });
+  const pub = new AssetPublishing(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')), { aws: new MockAws() });
+
+  mockSpawn(
+    { commandLine: ['docker', 'inspect', 'cdkasset-theasset'] },
+    {
+      commandLine: ['docker', 'inspect', '--format', '{{json .RepoDigests}}', 'cdkasset-theasset'],
+      stdout: JSON.stringify([`${registryHost}/team/repo@sha256:5678`]),
+    },
+  );
+
+  expect(await pub.verifyEntry(AssetManifest.fromPath(mockfs.path('/registry/cdk.out')).entries[0])).toEqual(
+    expect.objectContaining({ status: 'drift', destinationChecksum: 'sha256:1234' }),
+  );
+});
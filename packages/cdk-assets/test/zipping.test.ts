@@ -1,10 +1,12 @@
 import 'aws-sdk-client-mock-jest';
+import * as fs from 'fs';
 import { Manifest } from '@aws-cdk/cloud-assembly-schema';
 import { ListObjectsV2Command, PutObjectCommand } from '@aws-sdk/client-s3';
+import { FakeListener } from './fake-listener';
 import { mockS3 } from './mock-aws';
 import mockfs from './mock-fs';
 import type { IAws } from '../lib';
-import { AssetManifest, AssetPublishing, DefaultAwsClient } from '../lib';
+import { AssetManifest, AssetPublishing, DefaultAwsClient, EventType } from '../lib';
 
 let aws: IAws;
 beforeEach(() => {
@@ -54,3 +56,29 @@ test('Take a zipped upload', async () => {
     ContentType: 'application/zip',
   });
 });
+
+test('zipped uploads are reused from the asset cache in later runs', async () => {
+  const assetCache = { directory: mockfs.path('/asset-cache') };
+
+  // First run builds the zip and stores it in the cache
+  const firstListener = new FakeListener();
+  await new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), {
+    aws,
+    assetCache,
+    progressListener: firstListener,
+  }).publish();
+  expect(firstListener.messages).toContainEqual(expect.stringMatching(/^Asset cache miss .*theAsset\.zip$/));
+  expect(firstListener.types).toContain(EventType.BUILD);
+  expect(fs.readdirSync(assetCache.directory)).toEqual(['theAsset.zip']);
+
+  // Second run in a fresh checkout takes the zip from the cache
+  fs.rmSync(mockfs.path('/simple/cdk.out/.cache'), { recursive: true });
+  const secondListener = new FakeListener();
+  await new AssetPublishing(AssetManifest.fromPath(mockfs.path('/simple/cdk.out')), {
+    aws,
+    assetCache,
+    progressListener: secondListener,
+  }).publish();
+  expect(secondListener.messages).toContainEqual(expect.stringMatching(/^Asset cache hit .*theAsset\.zip$/));
+  expect(secondListener.types).not.toContain(EventType.BUILD);
+});